@@ -1,10 +1,53 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { DiagnosticReport, RiskAssessment, RecommendedFix, TroubleshootingStep, HistoryEntry } from './types';
-import { runDiagnostics } from './services/geminiService';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { DiagnosticReport, PartialDiagnosticReport, RecommendedFix, TroubleshootingStep, HistoryEntry, ChatMessage, ProviderSettings, ImageAttachment, AudioAttachment, EquipmentProfile, Asset, StepOutcome, WalkthroughState, WorkItem, QueuedCase, AlertSettings, FiredAlert, SafetyAcknowledgement, CatalogueItem, CatalogueMatch, CostSettings, Language, ReportAudience, CustomerSummary } from './types';
+import { runDiagnostics, runConsensusDiagnostics, refineDiagnosis, startFollowUpChat, translateReport, generateManagerBrief, generateCustomerSummary, ReportStreamOptions, DiagnosticInput } from './services/diagnosticsService';
+import { createProvider, consensusRunModels, embeddingKeyFor, ChatSession, DiagnosticProvider } from './services/providers';
+import { loadHistory, saveHistoryEntry, deleteHistoryEntries, clearHistory } from './services/historyStore';
+import { loadAssets, saveAsset } from './services/assetStore';
+import { loadQueuedCases, enqueueCase, removeQueuedCase, countsAsQueueFailure } from './services/offlineQueue';
+import { requestNotificationPermission, showSystemNotification } from './services/notifications';
+import { CaseIndexRecord, loadCaseIndex, saveCaseIndexRecords } from './services/caseIndexStore';
+import { caseFingerprint, findSimilarCases, indexCases, needsIndexing, tokenize } from './services/similarCases';
+import { printReportAsPdf, exportReportAsMarkdown, exportReportAsJson, exportCasesAsJson, parseCaseExport, exportShoppingListAsCsv, shareCustomerSummary, printCustomerSummary } from './services/reportExport';
+import { loadCatalogue, replaceCatalogue } from './services/catalogueStore';
+import { indexCatalogue, parseCatalogue, upsertCatalogueMatch } from './services/partsCatalogue';
+import { estimateRepair } from './services/repairEstimate';
+import { causeConfidence, fixConfidence, hasSeverityDisagreement } from './services/consensus';
+import { applyTranslation } from './services/reportTranslation';
+import { DataFileUpload, summarizeDataFile } from './services/dataFiles';
+import { createTranslator, languageOptions } from './services/i18n';
+import { loadProviderSettings, saveProviderSettings, loadSpeechLanguage, saveSpeechLanguage, loadAlertSettings, saveAlertSettings, loadAlertLog, saveAlertLog, loadCostSettings, saveCostSettings, loadUiLanguage, saveUiLanguage, loadReportLanguage, saveReportLanguage } from './services/settingsStore';
+import { fireAlerts } from './services/alertRules';
+import { detectHazards, hazardsOf, mergeHazards, needsSafetyAcknowledgement, requiresInterlock } from './services/safetyInterlock';
+import { AudioRecording, isAudioCaptureSupported, startAudioRecording } from './services/audioRecorder';
 import { ReportSection } from './components/ReportSection';
-import { UploadIcon, MicrophoneIcon, StopIcon, XCircleIcon, PaperAirplaneIcon, ExclamationTriangleIcon, ChevronDownIcon, ShieldCheckIcon } from './components/icons';
-import { GoogleGenAI, Chat } from "@google/genai";
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { AttachmentGallery } from './components/AttachmentGallery';
+import { DataFileUploader } from './components/DataFileUploader';
+import { DataFilesPanel } from './components/DataFilesPanel';
+import { EquipmentProfileForm } from './components/EquipmentProfileForm';
+import { AssetPanel } from './components/AssetPanel';
+import { TroubleshootingWalkthrough } from './components/TroubleshootingWalkthrough';
+import { StreamingReportPreview } from './components/StreamingReportPreview';
+import { WorkItemEditor } from './components/WorkItemEditor';
+import { OutstandingFixes } from './components/OutstandingFixes';
+import { SimilarCasesPanel } from './components/SimilarCasesPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AlertRulesPanel } from './components/AlertRulesPanel';
+import { SafetyInterlock } from './components/SafetyInterlock';
+import { CatalogueSettingsPanel } from './components/CatalogueSettingsPanel';
+import { PartsMatcher } from './components/PartsMatcher';
+import { RepairEstimatePanel } from './components/RepairEstimatePanel';
+import { ConfidenceBadge } from './components/ConfidenceBadge';
+import { ReportComparison } from './components/ReportComparison';
+import { ManagerView } from './components/ManagerView';
+import { CustomerView } from './components/CustomerView';
+import { PhotoFindings } from './components/PhotoFindings';
+import { outstandingUrgentFixes, upsertWorkItem, workItemFor } from './services/workItems';
+import { summarizeEquipmentProfile } from './services/equipmentTemplates';
+import { severityConfig } from './components/severityStyles';
+import { MicrophoneIcon, StopIcon, XCircleIcon, PaperAirplaneIcon, ExclamationTriangleIcon, ChevronDownIcon, ShieldCheckIcon } from './components/icons';
 
 
 // SpeechRecognition might not be available on the window object in all browsers
@@ -14,41 +57,122 @@ if (SpeechRecognition) {
     recognition = new SpeechRecognition();
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
 }
 
-const severityConfig: Record<RiskAssessment['severity'], { level: number; color: string; textColor: string }> = {
-    'Low': { level: 1, color: 'bg-green-500/80', textColor: 'text-green-300' },
-    'Medium': { level: 2, color: 'bg-yellow-500/80', textColor: 'text-yellow-300' },
-    'High': { level: 3, color: 'bg-orange-500/80', textColor: 'text-orange-300' },
-    'Critical': { level: 4, color: 'bg-red-600/80', textColor: 'text-red-300' },
-};
+const canCaptureAudio = isAudioCaptureSupported();
+
+const languages = Object.keys(languageOptions) as Language[];
+
+const audiences: ReportAudience[] = ['technician', 'manager', 'customer'];
+
+const speechLanguages = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'es-ES', label: 'Español (España)' },
+    { code: 'es-MX', label: 'Español (México)' },
+    { code: 'fr-FR', label: 'Français' },
+    { code: 'pt-BR', label: 'Português (Brasil)' },
+    { code: 'pt-PT', label: 'Português (Portugal)' },
+    { code: 'de-DE', label: 'Deutsch' },
+    { code: 'it-IT', label: 'Italiano' },
+];
+
+// Cases embedded per request when (re)building the similar-case index.
+const CASE_INDEX_BATCH_SIZE = 32;
+// Past cases quoted in the diagnosis prompt; more would crowd out the case at hand.
+const SIMILAR_CASES_IN_PROMPT = 3;
+// A queued case the model keeps rejecting is dropped after this many tries, so it cannot hold up the queue.
+const MAX_QUEUE_ATTEMPTS = 3;
 
 const App: React.FC = () => {
     const [textInput, setTextInput] = useState<string>('');
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [imageBase64, setImageBase64] = useState<string | null>(null);
+    const [equipmentProfile, setEquipmentProfile] = useState<EquipmentProfile | null>(null);
+    const [caseAssetId, setCaseAssetId] = useState<string>('');
+    const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+    const [dataUploads, setDataUploads] = useState<DataFileUpload[]>([]);
     const [isRecording, setIsRecording] = useState<boolean>(false);
     const [audioTranscript, setAudioTranscript] = useState<string>('');
     const transcriptRef = useRef<string>('');
+    const [audioClip, setAudioClip] = useState<AudioAttachment | null>(null);
+    const audioRecordingRef = useRef<AudioRecording | null>(null);
+    const [isTranscribing, setIsTranscribing] = useState<boolean>(false);
+    const [speechLanguage, setSpeechLanguage] = useState<string>(loadSpeechLanguage);
+    const [uiLanguage, setUiLanguage] = useState<Language>(loadUiLanguage);
+    const [reportLanguage, setReportLanguage] = useState<Language>(loadReportLanguage);
+    const t = useMemo(() => createTranslator(uiLanguage), [uiLanguage]);
 
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
     const [report, setReport] = useState<DiagnosticReport | null>(null);
+    const [partialReport, setPartialReport] = useState<PartialDiagnosticReport | null>(null);
+    const [isRefining, setIsRefining] = useState<boolean>(false);
+    const [isTranslating, setIsTranslating] = useState<boolean>(false);
+    const [audience, setAudience] = useState<ReportAudience>('technician');
+    // The case and view whose brief is being written, as `${id}:${audience}`.
+    const [briefInProgress, setBriefInProgress] = useState<string | null>(null);
     const [history, setHistory] = useState<HistoryEntry[]>([]);
-    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+    const [activeId, setActiveId] = useState<string | null>(null);
+    const [assets, setAssets] = useState<Asset[]>([]);
 
-    const [chat, setChat] = useState<Chat | null>(null);
-    const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'model', text: string }[]>([]);
+    const [chat, setChat] = useState<ChatSession | null>(null);
+    const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
     const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
     const [chatInput, setChatInput] = useState<string>('');
 
-    const [alertThreshold, setAlertThreshold] = useState<RiskAssessment['severity'] | 'None'>('None');
+    const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+    const [alertLog, setAlertLog] = useState<FiredAlert[]>(loadAlertLog);
     const [activeAlert, setActiveAlert] = useState<string | null>(null);
-    const [showAlertSettings, setShowAlertSettings] = useState(false);
 
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+
+    // Ids of the cases in the compare view, earlier case first.
+    const [comparedIds, setComparedIds] = useState<[string, string] | null>(null);
+
+    const [catalogue, setCatalogue] = useState<CatalogueItem[]>([]);
+    const [costSettings, setCostSettings] = useState<CostSettings>(loadCostSettings);
+
+    const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+    const [queuedCases, setQueuedCases] = useState<QueuedCase[]>([]);
+    const [caseIndex, setCaseIndex] = useState<Map<string, CaseIndexRecord>>(new Map());
+    const [queueNotices, setQueueNotices] = useState<{ id: string; message: string; entry?: HistoryEntry }[]>([]);
+
+    const activeEntry = history.find(entry => entry.id === activeId) ?? null;
+    const activeIndexRecord = activeEntry ? caseIndex.get(activeEntry.id) : undefined;
+    const similarToActive = activeEntry && activeIndexRecord
+        ? findSimilarCases(activeIndexRecord, history, caseIndex, { excludeId: activeEntry.id })
+        : [];
+
+    const activeConsensus = activeEntry?.consensus;
+    // The manager and customer views are handed to people outside the app, so they follow the report's language.
+    const reportT = useMemo(() => createTranslator(activeEntry?.reportLanguage ?? 'en'), [activeEntry?.reportLanguage]);
+    const activeHazards = activeEntry ? hazardsOf(activeEntry) : report ? detectHazards(report) : [];
+    const isSafetyLocked = report ? (activeEntry ? needsSafetyAcknowledgement(activeEntry) : requiresInterlock(report)) : false;
+
+    const comparedEntries = comparedIds && comparedIds.map(id => history.find(entry => entry.id === id));
+    const [compareBefore, compareAfter] = comparedEntries ?? [];
+
+    const catalogueIndex = useMemo(() => indexCatalogue(catalogue), [catalogue]);
+    const catalogueBySku = useMemo(() => new Map(catalogue.map(item => [item.sku, item])), [catalogue]);
+    const activeEstimate = activeEntry ? estimateRepair(activeEntry, catalogueBySku, costSettings.laborRate) : null;
+    const pendingQueuedCount = queuedCases.filter(queued => !queued.failed).length;
+
     const chatContainerRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const comparisonRef = useRef<HTMLDivElement>(null);
+    const diagnosisAbortRef = useRef<AbortController | null>(null);
+    const isSendingQueueRef = useRef(false);
+    const isIndexingRef = useRef(false);
+    // Cases already sent for indexing in the current conditions, so a failed embedding is not retried on every render.
+    const indexAttemptsRef = useRef(new Set<string>());
+    // The online listener is registered once, so it calls whatever the latest render's queue sender is.
+    const sendQueuedCasesRef = useRef<() => void>(() => {});
+    // Briefs already requested for a version of a case, so a failed one is not retried on every render.
+    const briefAttemptsRef = useRef(new Set<string>());
+    // The history including changes not rendered yet, so handlers that resume after a request build on the latest copy.
+    const historyRef = useRef<HistoryEntry[]>([]);
+    // The case on screen when a request finishes, which may no longer be the one it was made for.
+    const activeIdRef = useRef(activeId);
+    activeIdRef.current = activeId;
 
     useEffect(() => {
         if (!SpeechRecognition) return;
@@ -69,7 +193,9 @@ const App: React.FC = () => {
 
         recognition.onerror = (event: any) => {
             console.error('Speech recognition error', event.error);
-            setError(`Speech recognition error: ${event.error}`);
+            // While the raw clip is still being captured it can be transcribed afterwards, so keep recording.
+            if (audioRecordingRef.current) return;
+            setError(t('error.speechRecognition', { error: event.error }));
             setIsRecording(false);
         };
 
@@ -91,6 +217,103 @@ const App: React.FC = () => {
         }
     }, [isRecording]);
 
+    useEffect(() => {
+        loadHistory()
+            .then(entries => changeHistory(() => entries))
+            .catch(err => {
+                console.error("Failed to load diagnostic history:", err);
+                setError(t('error.loadHistory', { error: err.message || err }));
+            });
+        loadAssets()
+            .then(setAssets)
+            .catch(err => console.error("Failed to load assets:", err));
+        loadCatalogue()
+            .then(setCatalogue)
+            .catch(err => console.error("Failed to load the parts catalogue:", err));
+        loadCaseIndex()
+            .then(records => setCaseIndex(new Map(records.map(record => [record.id, record]))))
+            .catch(err => console.error("Failed to load the case index:", err));
+        loadQueuedCases()
+            .then(cases => {
+                setQueuedCases(cases);
+                if (cases.length > 0) sendQueuedCasesRef.current();
+            })
+            .catch(err => console.error("Failed to load queued cases:", err));
+    }, []);
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true);
+            sendQueuedCasesRef.current();
+        };
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    useEffect(() => {
+        saveProviderSettings(providerSettings);
+    }, [providerSettings]);
+
+    useEffect(() => {
+        saveAlertSettings(alertSettings);
+    }, [alertSettings]);
+
+    useEffect(() => {
+        saveCostSettings(costSettings);
+    }, [costSettings]);
+
+    useEffect(() => {
+        saveAlertLog(alertLog);
+    }, [alertLog]);
+
+    // Keep the similar-case index in step with history: new and edited cases, and embeddings for the current provider.
+    useEffect(() => {
+        if (isIndexingRef.current) return;
+        const embeddingKey = embeddingKeyFor(providerSettings);
+        const attemptKey = (entry: HistoryEntry) => `${embeddingKey}:${isOnline}:${entry.id}:${caseFingerprint(entry)}`;
+        const pending = history.filter(entry => needsIndexing(entry, caseIndex.get(entry.id), embeddingKey) && !indexAttemptsRef.current.has(attemptKey(entry)));
+        if (pending.length === 0) return;
+
+        pending.forEach(entry => indexAttemptsRef.current.add(attemptKey(entry)));
+        isIndexingRef.current = true;
+        (async () => {
+            const provider = createProvider(providerSettings);
+            const records: CaseIndexRecord[] = [];
+            for (let i = 0; i < pending.length; i += CASE_INDEX_BATCH_SIZE) {
+                records.push(...await indexCases(provider, embeddingKey, pending.slice(i, i + CASE_INDEX_BATCH_SIZE)));
+            }
+            await saveCaseIndexRecords(records);
+            setCaseIndex(prev => new Map([...prev, ...records.map(record => [record.id, record] as const)]));
+        })()
+            .catch(err => console.error("Failed to update the case index:", err))
+            .finally(() => { isIndexingRef.current = false; });
+    }, [history, caseIndex, providerSettings, isOnline]);
+
+    useEffect(() => {
+        saveSpeechLanguage(speechLanguage);
+    }, [speechLanguage]);
+
+    useEffect(() => {
+        saveUiLanguage(uiLanguage);
+        document.documentElement.lang = uiLanguage;
+    }, [uiLanguage]);
+
+    useEffect(() => {
+        saveReportLanguage(reportLanguage);
+    }, [reportLanguage]);
+
+    // Write the brief behind the manager or customer view the first time it is opened for a case.
+    useEffect(() => {
+        if (audience === 'technician' || !activeEntry || activeEntry.audienceBriefs?.[audience] || briefInProgress) return;
+        if (briefAttemptsRef.current.has(`${activeEntry.id}:${audience}:${caseFingerprint(activeEntry)}`)) return;
+        handleGenerateBrief(audience);
+    }, [audience, activeEntry, briefInProgress]);
+
     useEffect(() => {
         if(chatContainerRef.current) {
             chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
@@ -98,194 +321,618 @@ const App: React.FC = () => {
     }, [chatHistory]);
 
 
-    const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setImageFile(file);
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const base64String = (reader.result as string).split(',')[1];
-                setImageBase64(base64String);
-            };
-            reader.readAsDataURL(file);
+    const transcribeClip = async (clip: AudioAttachment) => {
+        setIsTranscribing(true);
+        try {
+            const transcript = await createProvider(providerSettings).transcribeAudio(clip, speechLanguage);
+            transcriptRef.current = transcript;
+            setAudioTranscript(transcript);
+        } catch (err: any) {
+            console.error("Transcription failed:", err);
+            setError(t('error.transcription', { error: err.message || err }));
+        } finally {
+            setIsTranscribing(false);
         }
     };
 
-    const handleRecordClick = () => {
-        if (!SpeechRecognition) {
-            setError("Sorry, your browser does not support Speech Recognition.");
+    const handleRecordClick = async () => {
+        if (!SpeechRecognition && !canCaptureAudio) {
+            setError(t('error.noAudioCapture'));
             return;
         }
         if (isRecording) {
-            recognition.stop();
+            if (SpeechRecognition) recognition.stop();
             setIsRecording(false);
             setAudioTranscript(transcriptRef.current);
+
+            const recording = audioRecordingRef.current;
+            audioRecordingRef.current = null;
+            if (!recording) return;
+            try {
+                const clip = await recording.stop();
+                setAudioClip(clip);
+                if (!transcriptRef.current.trim()) {
+                    await transcribeClip(clip);
+                }
+            } catch (err: any) {
+                setError(t('error.saveRecording', { error: err.message || err }));
+            }
         } else {
             transcriptRef.current = '';
             setAudioTranscript('');
-            recognition.start();
+            setAudioClip(null);
+            if (canCaptureAudio) {
+                try {
+                    audioRecordingRef.current = await startAudioRecording();
+                } catch (err: any) {
+                    setError(t('error.microphone', { error: err.message || err }));
+                    return;
+                }
+            }
+            if (SpeechRecognition) {
+                recognition.lang = speechLanguage;
+                recognition.start();
+            }
             setIsRecording(true);
         }
     };
     
-    const clearImage = () => {
-        setImageFile(null);
-        setImageBase64(null);
-        if(fileInputRef.current) {
-            fileInputRef.current.value = "";
-        }
-    }
-
     const clearInputs = () => {
         setTextInput('');
-        clearImage();
+        setEquipmentProfile(null);
+        setCaseAssetId('');
+        setAttachments([]);
+        setDataUploads([]);
         setAudioTranscript('');
         transcriptRef.current = '';
+        setAudioClip(null);
         if (isRecording) {
-            recognition.stop();
+            if (SpeechRecognition) recognition.stop();
+            audioRecordingRef.current?.cancel();
+            audioRecordingRef.current = null;
             setIsRecording(false);
         }
     }
 
+    const currentSubmission = (): QueuedCase => ({
+        id: Date.now().toString(),
+        queuedAt: new Date(),
+        text: textInput,
+        images: attachments,
+        audioTranscript,
+        audioClip: audioClip ?? undefined,
+        dataFiles: dataUploads.length > 0 ? dataUploads.map(summarizeDataFile) : undefined,
+        equipmentProfile: equipmentProfile ?? undefined,
+        assetId: caseAssetId || undefined,
+        reportLanguage,
+    });
+
+    const findSimilarToSubmission = async (provider: DiagnosticProvider, submission: QueuedCase): Promise<HistoryEntry[]> => {
+        const document = [submission.text, submission.audioTranscript].filter(Boolean).join('\n');
+        const tokens = tokenize(document);
+        if (tokens.length === 0) return [];
+        let embedding: number[] | undefined;
+        try {
+            [embedding] = await provider.embedTexts([document]);
+        } catch (err) {
+            console.error("Failed to embed the case; matching similar cases by keywords only:", err);
+        }
+        return findSimilarCases({ tokens, embedding, embeddingKey: embeddingKeyFor(providerSettings) }, history, caseIndex, { limit: SIMILAR_CASES_IN_PROMPT })
+            .map(match => match.entry);
+    };
+
+    /** Diagnoses a submission and saves it to history. */
+    const diagnoseSubmission = async (provider: DiagnosticProvider, submission: QueuedCase, options?: ReportStreamOptions): Promise<HistoryEntry> => {
+        const asset = assets.find(a => a.id === submission.assetId);
+        const similarCases = await findSimilarToSubmission(provider, submission);
+        const input: DiagnosticInput = {
+            text: submission.text,
+            images: submission.images,
+            audioTranscript: submission.audioTranscript,
+            audioClip: submission.audioClip,
+            dataFiles: submission.dataFiles,
+            equipmentProfile: submission.equipmentProfile,
+            asset,
+            assetHistory: asset ? history.filter(entry => entry.assetId === asset.id) : undefined,
+            similarCases,
+            language: submission.reportLanguage,
+        };
+        const runModels = consensusRunModels(providerSettings);
+        const { report: newReport, consensus } = runModels.length > 0
+            ? await runConsensusDiagnostics(runModels.map(model => ({ model, provider: createProvider({ ...providerSettings, model }) })), input, options)
+            : { report: await runDiagnostics(provider, input, options), consensus: undefined };
+
+        const newHistoryEntry: HistoryEntry = {
+            id: submission.id,
+            timestamp: new Date(),
+            report: newReport,
+            // Found now, in the language the report was written in; translating it later does not change them.
+            hazards: detectHazards(newReport),
+            consensus,
+            reportLanguage: submission.reportLanguage,
+            userInput: {
+                text: submission.text,
+                images: submission.images,
+                audio: submission.audioTranscript,
+                audioClip: submission.audioClip,
+                dataFiles: submission.dataFiles,
+            },
+            equipmentProfile: submission.equipmentProfile,
+            assetId: asset?.id,
+            chatHistory: [],
+        };
+        changeHistory(prev => [newHistoryEntry, ...prev]);
+        saveHistoryEntry(newHistoryEntry).catch(err => console.error("Failed to save history entry:", err));
+        return newHistoryEntry;
+    };
+
+    const queueSubmission = async (submission: QueuedCase) => {
+        try {
+            await enqueueCase(submission);
+        } catch (err: any) {
+            setError(t('error.queueCase', { error: err.message || err }));
+            return;
+        }
+        setQueuedCases(prev => [...prev, submission]);
+        clearInputs();
+        requestNotificationPermission().catch(err => console.error("Failed to request notification permission:", err));
+    };
+
+    /** Fires the alert rules that match a new case and records them in the alert log. */
+    const raiseAlerts = async (entry: HistoryEntry): Promise<FiredAlert[]> => {
+        const fired = await fireAlerts(alertSettings, entry, providerSettings.accessToken, t);
+        if (fired.length > 0) setAlertLog(prev => [...fired, ...prev]);
+        const undelivered = fired.filter(alert => alert.webhook === 'failed');
+        if (undelivered.length > 0) {
+            const names = undelivered.map(alert => `"${alert.ruleName}"`).join(', ');
+            addQueueNotice(t('notice.webhookFailed', { names, error: undelivered[0].webhookError ?? '' }));
+        }
+        return fired;
+    };
+
+    const addQueueNotice = (message: string, entry?: HistoryEntry) =>
+        setQueueNotices(prev => [...prev, { id: crypto.randomUUID(), message, entry }]);
+
+    // A case that keeps failing is set aside rather than deleted, since it may hold the only copy of what was submitted.
+    const recordQueueFailure = async (queued: QueuedCase, err: any) => {
+        console.error("Failed to send queued case:", err);
+        const attempts = (queued.attempts ?? 0) + (countsAsQueueFailure(err) ? 1 : 0);
+        const error = String(err.message || err);
+        const updated: QueuedCase = { ...queued, attempts, failed: attempts >= MAX_QUEUE_ATTEMPTS, lastError: error };
+        await enqueueCase(updated);
+        setQueuedCases(prev => prev.map(c => (c.id === queued.id ? updated : c)));
+        addQueueNotice(updated.failed
+            ? t('notice.queuedSetAside', { queuedAt: new Date(queued.queuedAt).toLocaleString(uiLanguage), attempts, error })
+            : t('notice.queuedFailed', { error }));
+    };
+
+    const handleRetryQueuedCase = async (queued: QueuedCase) => {
+        const reset: QueuedCase = { ...queued, attempts: 0, failed: false, lastError: undefined };
+        try {
+            await enqueueCase(reset);
+        } catch (err: any) {
+            setError(t('error.queueCase', { error: err.message || err }));
+            return;
+        }
+        setQueuedCases(prev => prev.map(c => (c.id === queued.id ? reset : c)));
+        sendQueuedCases();
+    };
+
+    const handleDiscardQueuedCase = async (queued: QueuedCase) => {
+        if (!window.confirm(t('input.discardConfirm'))) return;
+        try {
+            await removeQueuedCase(queued.id);
+            setQueuedCases(prev => prev.filter(c => c.id !== queued.id));
+        } catch (err: any) {
+            setError(t('error.discardQueued', { error: err.message || err }));
+        }
+    };
+
+    // Sends queued cases one at a time, oldest first. A case that fails stays queued for the next attempt and the ones after it
+    // are still sent; losing the connection stops the run without counting against any case. Cases set aside wait for a retry.
+    const sendQueuedCases = async () => {
+        if (isSendingQueueRef.current || !navigator.onLine) return;
+        isSendingQueueRef.current = true;
+        try {
+            const provider = createProvider(providerSettings);
+            for (const queued of (await loadQueuedCases()).filter(c => !c.failed)) {
+                if (!navigator.onLine) break;
+                let entry: HistoryEntry;
+                try {
+                    entry = await diagnoseSubmission(provider, queued);
+                } catch (err: any) {
+                    if (!navigator.onLine) break;
+                    await recordQueueFailure(queued, err);
+                    continue;
+                }
+                await removeQueuedCase(queued.id);
+                setQueuedCases(prev => prev.filter(c => c.id !== queued.id));
+
+                const { faultSummary, riskAssessment } = entry.report;
+                addQueueNotice(t('notice.queuedReady', { queuedAt: new Date(queued.queuedAt).toLocaleString(uiLanguage), faultSummary }), entry);
+                showSystemNotification(t('notice.systemTitle', { severity: t(`severity.${riskAssessment.severity}`) }), faultSummary)
+                    .catch(err => console.error("Failed to show notification:", err));
+                raiseAlerts(entry).catch(err => console.error("Failed to raise alerts:", err));
+            }
+        } catch (err: any) {
+            console.error("Failed to work through the queue:", err);
+            addQueueNotice(t('notice.queuedFailed', { error: err.message || err }));
+        } finally {
+            isSendingQueueRef.current = false;
+        }
+    };
+    sendQueuedCasesRef.current = sendQueuedCases;
+
     const handleSubmit = async () => {
-        if (!textInput && !imageBase64 && !audioTranscript) {
-            setError('Please provide a description, image, or voice note to start the diagnosis.');
+        if (!textInput && attachments.length === 0 && dataUploads.length === 0 && !audioTranscript && !audioClip) {
+            setError(t('error.emptySubmission'));
             return;
         }
+        const submission = currentSubmission();
+        // The fixture provider needs no network, so there is nothing to wait for.
+        const needsNetwork = providerSettings.provider !== 'fixture';
+        if (needsNetwork && !navigator.onLine) {
+            await queueSubmission(submission);
+            return;
+        }
+
         setIsLoading(true);
         setError(null);
         setReport(null);
-        setActiveIndex(null);
+        setPartialReport(null);
+        setActiveId(null);
         setChat(null);
         setChatHistory([]);
         setActiveAlert(null);
 
 
+        const controller = new AbortController();
+        diagnosisAbortRef.current = controller;
+
         try {
-            const imagePayload = imageFile && imageBase64 ? { mimeType: imageFile.type, data: imageBase64 } : undefined;
-            const newReport = await runDiagnostics(textInput, imagePayload, audioTranscript);
+            const provider = createProvider(providerSettings);
+            const newHistoryEntry = await diagnoseSubmission(provider, submission, { signal: controller.signal, onProgress: setPartialReport });
+            const newReport = newHistoryEntry.report;
             setReport(newReport);
             
-            if (alertThreshold !== 'None') {
-                const severityLevels: Record<RiskAssessment['severity'], number> = {
-                    'Low': 1,
-                    'Medium': 2,
-                    'High': 3,
-                    'Critical': 4,
-                };
-                if (severityLevels[newReport.riskAssessment.severity] >= severityLevels[alertThreshold]) {
-                    setActiveAlert(`Proactive Alert: The detected risk level is "${newReport.riskAssessment.severity}", which meets or exceeds your threshold of "${alertThreshold}".`);
-                }
-            }
-
-            const newHistoryEntry: HistoryEntry = {
-                id: Date.now().toString(),
-                timestamp: new Date(),
-                report: newReport,
-                userInput: {
-                    text: textInput,
-                    image: !!imageFile,
-                    audio: transcriptRef.current,
-                }
-            };
+            raiseAlerts(newHistoryEntry)
+                .then(fired => {
+                    if (fired.length === 0) return;
+                    const names = fired.map(alert => `"${alert.ruleName}"`).join(', ');
+                    setActiveAlert(t(fired.length === 1 ? 'alert.matchedOne' : 'alert.matchedMany', { severity: t(`severity.${newReport.riskAssessment.severity}`), names }));
+                })
+                .catch(err => console.error("Failed to raise alerts:", err));
 
-            setHistory(prevHistory => [newHistoryEntry, ...prevHistory]);
-            setActiveIndex(0);
-            
-            if (process.env.API_KEY) {
-                const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                const systemInstruction = `You are OmniDiag, an expert AI diagnostic assistant. You've provided the user with a diagnostic report. Now, you must answer their follow-up questions. Maintain the persona of a helpful, expert assistant.
-                
-                HERE IS THE CONTEXT of the report you generated:
-                ---
-                Fault Summary: ${newReport.faultSummary}
-                Possible Causes: ${newReport.possibleCauses.join(', ')}
-                Risk: ${newReport.riskAssessment.severity} - ${newReport.riskAssessment.summary}
-                ---
-                Base all your answers on this context and the user's follow-up questions.`;
-        
-                const chatSession = ai.chats.create({
-                    model: 'gemini-2.5-flash',
-                    config: {
-                        systemInstruction: systemInstruction,
-                    },
-                });
-                setChat(chatSession);
-            }
+            setActiveId(newHistoryEntry.id);
+            setChat(startFollowUpChat(provider, newHistoryEntry));
             clearInputs();
 
         } catch (err: any) {
-            setError(err.message || 'An unexpected error occurred.');
+            // A cancelled diagnosis is not a failure; the inputs are kept so it can be re-run.
+            if (controller.signal.aborted) return;
+            if (needsNetwork && !navigator.onLine) {
+                // The connection dropped mid-request: keep the case rather than make the technician re-enter it.
+                await queueSubmission(submission);
+            } else {
+                setError(err.message || t('error.unexpected'));
+            }
         } finally {
+            diagnosisAbortRef.current = null;
+            setPartialReport(null);
             setIsLoading(false);
         }
     };
 
-    const handleSelectHistory = (entry: HistoryEntry, index: number) => {
+    const handleCancelDiagnosis = () => {
+        diagnosisAbortRef.current?.abort();
+    };
+
+    const handleSelectHistory = (entry: HistoryEntry) => {
         const newReport = entry.report;
         setReport(newReport);
-        setActiveIndex(index);
-        setChatHistory([]);
+        setActiveId(entry.id);
+        setChatHistory(entry.chatHistory);
         setActiveAlert(null);
 
-        if (process.env.API_KEY) {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const systemInstruction = `You are OmniDiag, an expert AI diagnostic assistant. You've provided the user with a diagnostic report based on their initial submission. Now, you must answer their follow-up questions.
-            
-            CONTEXT of the report you generated:
-            ---
-            Fault Summary: ${newReport.faultSummary}
-            Possible Causes: ${newReport.possibleCauses.join(', ')}
-            Risk: ${newReport.riskAssessment.severity} - ${newReport.riskAssessment.summary}
-            ---
-            The user's original submission included: ${entry.userInput.text ? `A text description.` : ''} ${entry.userInput.image ? 'An image.' : ''} ${entry.userInput.audio ? 'A voice note.' : ''}
-            Base all your answers on this context and the user's follow-up questions.`;
-    
-            const chatSession = ai.chats.create({
-                model: 'gemini-2.5-flash',
-                config: {
-                    systemInstruction: systemInstruction,
-                },
-            });
-            setChat(chatSession);
+        try {
+            setChat(startFollowUpChat(createProvider(providerSettings), entry));
+        } catch (err) {
+            console.error("Could not start follow-up chat:", err);
+            setChat(null);
         }
     }
 
+    const handleCompareEntries = (entries: [HistoryEntry, HistoryEntry]) => {
+        const [before, after] = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        setComparedIds([before.id, after.id]);
+        requestAnimationFrame(() => comparisonRef.current?.scrollIntoView({ behavior: 'smooth' }));
+    };
+
+    const handleViewAlertedCase = (entryId: string) => {
+        const entry = history.find(e => e.id === entryId);
+        if (entry) handleSelectHistory(entry);
+    };
+
     const handleClearHistory = () => {
-        if (window.confirm('Are you sure you want to clear the entire diagnostic history? This action cannot be undone.')) {
-            setHistory([]);
+        if (window.confirm(t('history.clearConfirm'))) {
+            changeHistory(() => []);
+            setReport(null);
+            setActiveId(null);
+            setChat(null);
+            setChatHistory([]);
+            setCaseIndex(new Map());
+            clearHistory().catch(err => console.error("Failed to clear stored history:", err));
+        }
+    };
+
+    const handleDeleteHistory = (ids: string[]) => {
+        if (!window.confirm(ids.length === 1 ? t('history.deleteOneConfirm') : t('history.deleteManyConfirm', { count: ids.length }))) return;
+        const removed = new Set(ids);
+        changeHistory(prev => prev.filter(entry => !removed.has(entry.id)));
+        setCaseIndex(prev => new Map([...prev].filter(([id]) => !removed.has(id))));
+        if (activeId && removed.has(activeId)) {
             setReport(null);
-            setActiveIndex(null);
+            setActiveId(null);
             setChat(null);
             setChatHistory([]);
         }
+        deleteHistoryEntries(ids).catch(err => console.error("Failed to delete history entries:", err));
+    };
+
+    const handleCreateAsset = (name: string, location: string) => {
+        const asset: Asset = {
+            id: Date.now().toString(),
+            name,
+            location,
+            createdAt: new Date(),
+            equipmentProfile: equipmentProfile ?? undefined,
+        };
+        setAssets(prev => [...prev, asset].sort((a, b) => a.name.localeCompare(b.name)));
+        saveAsset(asset).catch(err => console.error("Failed to save asset:", err));
+    };
+
+    const handleCaseAssetChange = (assetId: string) => {
+        setCaseAssetId(assetId);
+        const asset = assets.find(a => a.id === assetId);
+        if (asset?.equipmentProfile && !equipmentProfile) {
+            setEquipmentProfile(asset.equipmentProfile);
+        }
+    };
+
+    const changeHistory = (change: (entries: HistoryEntry[]) => HistoryEntry[]) => {
+        historyRef.current = change(historyRef.current);
+        setHistory(historyRef.current);
+    };
+
+    const updateHistoryEntry = (updated: HistoryEntry) => {
+        changeHistory(prev => prev.map(e => e.id === updated.id ? updated : e));
+        saveHistoryEntry(updated).catch(err => console.error("Failed to save history entry:", err));
+    };
+
+    // Applies a change to the latest copy of an entry, so changes made while a request was in flight are not overwritten.
+    // Returns the saved entry, or undefined if the entry is gone or the change returned it untouched.
+    const modifyHistoryEntry = (id: string, change: (entry: HistoryEntry) => HistoryEntry): HistoryEntry | undefined => {
+        const latest = historyRef.current.find(e => e.id === id);
+        if (!latest) return undefined;
+        const updated = change(latest);
+        if (updated === latest) return undefined;
+        updateHistoryEntry(updated);
+        return updated;
+    };
+
+    const handleAssignAsset = (assetId: string) => {
+        if (!activeEntry) return;
+        updateHistoryEntry({ ...activeEntry, assetId: assetId || undefined });
+    };
+
+    const handleSaveWorkItem = (item: WorkItem) => {
+        if (!activeEntry) return;
+        updateHistoryEntry(upsertWorkItem(activeEntry, item));
+    };
+
+    const handleConfirmCatalogueMatch = (match: CatalogueMatch) => {
+        if (!activeEntry) return;
+        updateHistoryEntry(upsertCatalogueMatch(activeEntry, match));
+    };
+
+    const handleImportCatalogue = async (file: File) => {
+        try {
+            const items = parseCatalogue(await file.text(), file.name);
+            await replaceCatalogue(items);
+            setCatalogue(items);
+        } catch (err: any) {
+            console.error("Failed to import catalogue:", err);
+            setError(t('error.loadCatalogue', { error: err.message || err }));
+        }
+    };
+
+    const handleClearCatalogue = async () => {
+        if (!window.confirm(t('catalogue.clearConfirm'))) return;
+        try {
+            await replaceCatalogue([]);
+            setCatalogue([]);
+        } catch (err: any) {
+            console.error("Failed to clear catalogue:", err);
+            setError(t('error.clearCatalogue', { error: err.message || err }));
+        }
+    };
+
+    const handleAcknowledgeSafety = (safetyAcknowledgement: SafetyAcknowledgement) => {
+        if (!activeEntry) return;
+        updateHistoryEntry({ ...activeEntry, safetyAcknowledgement });
+    };
+
+    const handleWalkthroughNavigate = (currentStep: number) => {
+        if (!activeEntry) return;
+        const walkthrough: WalkthroughState = activeEntry.walkthrough ?? { currentStep: 0, outcomes: [], refinements: 0 };
+        updateHistoryEntry({ ...activeEntry, walkthrough: { ...walkthrough, currentStep } });
+    };
+
+    const handleRecordStepOutcome = async (outcome: StepOutcome, nextStep: number) => {
+        if (!activeEntry) return;
+        const withOutcome = (entry: HistoryEntry): HistoryEntry => {
+            const previous: WalkthroughState = entry.walkthrough ?? { currentStep: 0, outcomes: [], refinements: 0 };
+            return {
+                ...entry,
+                walkthrough: {
+                    ...previous,
+                    currentStep: nextStep,
+                    outcomes: [...previous.outcomes.filter(o => o.step !== outcome.step), outcome],
+                },
+            };
+        };
+        const updated = withOutcome(activeEntry);
+        modifyHistoryEntry(updated.id, withOutcome);
+        if (outcome.status !== 'fail') return;
+
+        setIsRefining(true);
+        try {
+            const provider = createProvider(providerSettings);
+            const refinedReport = await refineDiagnosis(provider, updated);
+            // Outcomes, work items and chat may have changed while the model was working, so the refinement goes onto the latest copy.
+            modifyHistoryEntry(updated.id, latest => {
+                const walkthrough = latest.walkthrough ?? updated.walkthrough!;
+                const steps = refinedReport.troubleshootingSteps;
+                // Resume at the first step past every recorded result, matching what the refinement treated as done.
+                const lastDoneIndex = steps.reduce((last, step, i) => (walkthrough.outcomes.some(o => o.step === step.step) ? i : last), -1);
+                return {
+                    ...latest,
+                    report: refinedReport,
+                    hazards: mergeHazards(latest, refinedReport),
+                    // The refined report comes from a single run, so the earlier agreement no longer describes it.
+                    consensus: undefined,
+                    audienceBriefs: undefined,
+                    walkthrough: {
+                        ...walkthrough,
+                        currentStep: Math.max(Math.min(lastDoneIndex + 1, steps.length - 1), 0),
+                        refinements: walkthrough.refinements + 1,
+                    },
+                };
+            });
+            setReport(refinedReport);
+            setChat(startFollowUpChat(provider, { ...updated, report: refinedReport }));
+        } catch (err: any) {
+            setError(t('error.refine', { error: err.message || err }));
+        } finally {
+            setIsRefining(false);
+        }
+    };
+
+    const handleTranslateReport = async (language: Language) => {
+        if (!activeEntry) return;
+        setIsTranslating(true);
+        try {
+            const { id, report: source } = activeEntry;
+            const provider = createProvider(providerSettings);
+            const translatedReport = await translateReport(provider, source, language);
+            // Work items and chat may have changed meanwhile; a report refined meanwhile is kept rather than replaced by the old one translated.
+            const translated = modifyHistoryEntry(id, latest => latest.report === source ? applyTranslation(latest, translatedReport, language) : latest);
+            if (translated && activeIdRef.current === id) {
+                setReport(translated.report);
+                setChat(startFollowUpChat(provider, translated));
+            }
+        } catch (err: any) {
+            setError(t('error.translate', { error: err.message || err }));
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
+    const handleGenerateBrief = async (view: Exclude<ReportAudience, 'technician'>) => {
+        if (!activeEntry || briefInProgress) return;
+        const entry = activeEntry;
+        const fingerprint = caseFingerprint(entry);
+        briefAttemptsRef.current.add(`${entry.id}:${view}:${fingerprint}`);
+        setBriefInProgress(`${entry.id}:${view}`);
+        try {
+            const provider = createProvider(providerSettings);
+            const brief = view === 'manager'
+                ? { manager: await generateManagerBrief(provider, entry) }
+                : { customer: await generateCustomerSummary(provider, entry) };
+            // A brief written for a case that has since changed would describe the old case; the next render asks for a fresh one.
+            modifyHistoryEntry(entry.id, latest => caseFingerprint(latest) === fingerprint
+                ? { ...latest, audienceBriefs: { ...latest.audienceBriefs, ...brief } }
+                : latest);
+        } catch (err: any) {
+            setError(t('error.brief', { error: err.message || err }));
+        } finally {
+            setBriefInProgress(null);
+        }
+    };
+
+    const handlePrintCustomerSummary = (summary: CustomerSummary) => {
+        if (!activeEntry) return;
+        try {
+            printCustomerSummary(activeEntry, summary);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleExportPdf = () => {
+        if (!activeEntry) return;
+        try {
+            printReportAsPdf(activeEntry);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleImportCase = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const usedIds = new Set(history.map(h => h.id));
+            const entries: HistoryEntry[] = parseCaseExport(await file.text()).map((imported, i) => {
+                const id = usedIds.has(imported.id) ? `${Date.now()}-${i}` : imported.id;
+                usedIds.add(id);
+                return { ...imported, id, assetId: assets.some(a => a.id === imported.assetId) ? imported.assetId : undefined };
+            });
+            changeHistory(prev => [...entries, ...prev].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+            await Promise.all(entries.map(saveHistoryEntry));
+            setError(null);
+            if (entries.length === 1) handleSelectHistory(entries[0]);
+        } catch (err: any) {
+            setError(t('error.import', { error: err.message || err }));
+        }
+    };
+
+    // Appends to the stored transcript rather than replacing it, so an exchange that finishes while another is streaming is kept.
+    const persistChatMessages = (entryId: string, messages: ChatMessage[]) => {
+        modifyHistoryEntry(entryId, entry => ({ ...entry, chatHistory: [...entry.chatHistory, ...messages] }));
     };
 
     const handleSendChatMessage = async () => {
         if (!chatInput.trim() || !chat || isChatLoading) return;
     
         const text = chatInput;
+        const entryId = activeId;
+        const question: ChatMessage = { role: 'user', text };
         setChatInput('');
-        setChatHistory(prev => [...prev, { role: 'user', text }]);
+        setChatHistory(prev => [...prev, question]);
         setIsChatLoading(true);
     
         try {
-            const responseStream = await chat.sendMessageStream({ message: text });
+            let modelText = '';
+            let started = false;
+            for await (const chunkText of chat.sendMessageStream(text)) {
+                if (!started) {
+                    started = true;
+                    setIsChatLoading(false);
+                    setChatHistory(prev => [...prev, { role: 'model', text: '' }]);
+                }
+                modelText += chunkText;
+                setChatHistory(prev => [...prev.slice(0, -1), { role: 'model', text: modelText }]);
+            }
             setIsChatLoading(false);
-            
-            setChatHistory(prev => [...prev, { role: 'model', text: '' }]);
-    
-            for await (const chunk of responseStream) {
-                const chunkText = chunk.text;
-                setChatHistory(prev => {
-                    const newHistory = [...prev];
-                    newHistory[newHistory.length - 1].text += chunkText;
-                    return newHistory;
-                });
+
+            if (entryId) {
+                persistChatMessages(entryId, [question, { role: 'model', text: modelText }]);
             }
         } catch (err) {
             console.error("Chat error:", err);
-            setChatHistory(prev => [...prev, { role: 'model', text: 'Sorry, I encountered an error. Please try again.' }]);
+            setChatHistory(prev => [...prev, { role: 'model', text: t('chat.error') }]);
             setIsChatLoading(false);
         }
     };
@@ -294,54 +941,110 @@ const App: React.FC = () => {
         <div className="min-h-screen text-slate-200">
             <main className="container mx-auto p-4 sm:p-6 lg:p-8">
                 <header className="text-center mb-10 animate-fade-in" style={{ animationDelay: '100ms' }}>
+                    <div className="flex justify-end mb-2">
+                        <label className="flex items-center text-sm text-slate-400">
+                            <i className="fas fa-globe fa-fw mr-2"></i>
+                            <select
+                                aria-label={t('app.interfaceLanguage')}
+                                value={uiLanguage}
+                                onChange={(e) => setUiLanguage(e.target.value as Language)}
+                                className="bg-slate-800/50 border border-slate-700 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+                            >
+                                {languages.map(language => <option key={language} value={language}>{languageOptions[language].label}</option>)}
+                            </select>
+                        </label>
+                    </div>
                     <h1 className="text-4xl sm:text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-500">
                         OmniDiag
                     </h1>
                     <p className="mt-2 text-lg text-slate-400 max-w-2xl mx-auto">
-                        Your AI-powered assistant for cross-domain fault detection and diagnostics.
+                        {t('app.tagline')}
                     </p>
                 </header>
 
+                <div ref={comparisonRef}>
+                    {compareBefore && compareAfter && (
+                        <ReportComparison
+                            before={compareBefore}
+                            after={compareAfter}
+                            onSwap={() => setComparedIds([compareAfter.id, compareBefore.id])}
+                            onClose={() => setComparedIds(null)}
+                            onSelectHistory={handleSelectHistory}
+                            t={t}
+                        />
+                    )}
+                </div>
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                     {/* Input Section */}
                     <div className="bg-slate-900/70 p-6 rounded-xl shadow-2xl backdrop-blur-lg glow-border animate-fade-in" style={{ animationDelay: '200ms' }}>
-                        <h2 className="text-2xl font-bold mb-4 text-slate-100">Submit a Case</h2>
+                        <h2 className="text-2xl font-bold mb-4 text-slate-100">{t('input.title')}</h2>
+
+                        <ProviderSettingsPanel settings={providerSettings} onChange={setProviderSettings} t={t} />
                         
-                        <div className="border-b border-slate-700 mb-6 pb-6">
-                            <button onClick={() => setShowAlertSettings(!showAlertSettings)} className="flex justify-between items-center w-full text-left p-2 rounded-lg hover:bg-slate-800/50 transition-colors">
-                                <h3 className="text-lg font-semibold text-slate-200">Alert Settings</h3>
-                                <ChevronDownIcon className={`w-6 h-6 text-slate-400 transition-transform ${showAlertSettings ? 'rotate-180' : ''}`} />
-                            </button>
-                            {showAlertSettings && (
-                                <div className="mt-4 pl-2">
-                                    <label htmlFor="alert-threshold" className="block text-sm font-medium text-slate-300 mb-2">
-                                        Notify me when risk is at least:
-                                    </label>
+                        <CatalogueSettingsPanel
+                            itemCount={catalogue.length}
+                            costSettings={costSettings}
+                            onCostSettingsChange={setCostSettings}
+                            onImport={handleImportCatalogue}
+                            onClear={handleClearCatalogue}
+                            t={t}
+                        />
+
+                        <AlertRulesPanel
+                            settings={alertSettings}
+                            onChange={setAlertSettings}
+                            assets={assets}
+                            log={alertLog}
+                            onClearLog={() => setAlertLog([])}
+                            onViewCase={handleViewAlertedCase}
+                            t={t}
+                        />
+                        
+                        <div className="space-y-6">
+                            {/* Report Language */}
+                            <div>
+                                <label htmlFor="report-language" className="block text-sm font-medium text-slate-300 mb-2">{t('input.reportLanguage')}</label>
+                                <select
+                                    id="report-language"
+                                    value={reportLanguage}
+                                    onChange={(e) => setReportLanguage(e.target.value as Language)}
+                                    className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm"
+                                >
+                                    {languages.map(language => <option key={language} value={language}>{languageOptions[language].label}</option>)}
+                                </select>
+                            </div>
+
+                            {/* Asset */}
+                            {assets.length > 0 && (
+                                <div>
+                                    <label htmlFor="case-asset" className="block text-sm font-medium text-slate-300 mb-2">{t('input.asset')}</label>
                                     <select
-                                        id="alert-threshold"
-                                        value={alertThreshold}
-                                        onChange={(e) => setAlertThreshold(e.target.value as RiskAssessment['severity'] | 'None')}
+                                        id="case-asset"
+                                        value={caseAssetId}
+                                        onChange={(e) => handleCaseAssetChange(e.target.value)}
                                         className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm"
                                     >
-                                        <option value="None">Disabled</option>
-                                        <option value="Low">Low</option>
-                                        <option value="Medium">Medium</option>
-                                        <option value="High">High</option>
-                                        <option value="Critical">Critical</option>
+                                        <option value="">{t('input.noAsset')}</option>
+                                        {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}{asset.location ? ` — ${asset.location}` : ''}</option>)}
                                     </select>
                                 </div>
                             )}
-                        </div>
-                        
-                        <div className="space-y-6">
+
+                            {/* Equipment Profile */}
+                            <div>
+                                <label htmlFor="equipment-domain" className="block text-sm font-medium text-slate-300 mb-2">{t('input.equipment')}</label>
+                                <EquipmentProfileForm profile={equipmentProfile} onChange={setEquipmentProfile} t={t} />
+                            </div>
+
                             {/* Text Input */}
                             <div>
-                                <label htmlFor="description" className="block text-sm font-medium text-slate-300 mb-2">Problem Description</label>
+                                <label htmlFor="description" className="block text-sm font-medium text-slate-300 mb-2">{t('input.description')}</label>
                                 <textarea
                                     id="description"
                                     rows={5}
                                     className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm"
-                                    placeholder="Describe the issue, including symptoms, sounds, or error codes..."
+                                    placeholder={t('input.descriptionPlaceholder')}
                                     value={textInput}
                                     onChange={(e) => setTextInput(e.target.value)}
                                 />
@@ -349,39 +1052,45 @@ const App: React.FC = () => {
 
                             {/* Image Upload */}
                             <div>
-                                <label className="block text-sm font-medium text-slate-300 mb-2">Upload Image</label>
-                                {imageBase64 ? (
-                                    <div className="relative group">
-                                        <img src={`data:${imageFile?.type};base64,${imageBase64}`} alt="Preview" className="w-full rounded-lg max-h-60 object-contain bg-black/20" />
-                                        <button onClick={clearImage} className="absolute top-2 right-2 bg-black/60 rounded-full p-1.5 text-white hover:bg-red-500 transition-colors opacity-0 group-hover:opacity-100">
-                                            <XCircleIcon className="w-6 h-6"/>
-                                        </button>
-                                    </div>
-                                ) : (
-                                    <div 
-                                        onClick={() => fileInputRef.current?.click()}
-                                        className="relative block w-full border-2 border-slate-700 border-dashed rounded-lg p-8 text-center hover:border-cyan-500 cursor-pointer transition-colors"
-                                    >
-                                        <UploadIcon className="mx-auto h-12 w-12 text-slate-500" />
-                                        <span className="mt-2 block text-sm font-medium text-slate-400">
-                                            Click to upload a photo
-                                        </span>
-                                        <input type="file" ref={fileInputRef} onChange={handleImageChange} accept="image/*" className="hidden" />
-                                    </div>
-                                )}
+                                <label className="block text-sm font-medium text-slate-300 mb-2">{t('input.images')}</label>
+                                <AttachmentGallery attachments={attachments} onChange={setAttachments} onError={setError} t={t} />
+                            </div>
+
+                            {/* Sensor Data and Logs */}
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-2">{t('input.dataFiles')}</label>
+                                <DataFileUploader uploads={dataUploads} onChange={setDataUploads} onError={setError} t={t} />
                             </div>
 
                             {/* Voice Input */}
                             <div>
-                                <label className="block text-sm font-medium text-slate-300 mb-2">Record Voice Note</label>
+                                <div className="flex justify-between items-center mb-2">
+                                    <label className="block text-sm font-medium text-slate-300">{t('input.voiceNote')}</label>
+                                    <select
+                                        aria-label={t('input.recognitionLanguage')}
+                                        value={speechLanguage}
+                                        onChange={(e) => setSpeechLanguage(e.target.value)}
+                                        disabled={isRecording}
+                                        className="bg-slate-800/50 border border-slate-700 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+                                    >
+                                        {!speechLanguages.some(lang => lang.code === speechLanguage) && <option value={speechLanguage}>{speechLanguage}</option>}
+                                        {speechLanguages.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+                                    </select>
+                                </div>
                                 <button
                                     onClick={handleRecordClick}
-                                    disabled={!SpeechRecognition}
-                                    className={`w-full flex items-center justify-center p-3 rounded-lg font-semibold transition-all duration-300 ${isRecording ? 'bg-red-600 hover:bg-red-500 shadow-red-500/30' : 'bg-cyan-600 hover:bg-cyan-500 shadow-cyan-500/30'} shadow-lg ${!SpeechRecognition && 'bg-slate-600 cursor-not-allowed'}`}
+                                    disabled={(!SpeechRecognition && !canCaptureAudio) || isTranscribing}
+                                    className={`w-full flex items-center justify-center p-3 rounded-lg font-semibold transition-all duration-300 ${isRecording ? 'bg-red-600 hover:bg-red-500 shadow-red-500/30' : 'bg-cyan-600 hover:bg-cyan-500 shadow-cyan-500/30'} shadow-lg ${!SpeechRecognition && !canCaptureAudio && 'bg-slate-600 cursor-not-allowed'}`}
                                 >
                                     {isRecording ? <StopIcon className="w-6 h-6 mr-2" /> : <MicrophoneIcon className="w-6 h-6 mr-2" />}
-                                    {isRecording ? 'Stop Recording' : 'Start Recording'}
+                                    {isRecording ? t('input.stopRecording') : t('input.startRecording')}
                                 </button>
+                                {audioClip && (
+                                    <audio controls src={`data:${audioClip.mimeType};base64,${audioClip.data}`} className="mt-3 w-full" />
+                                )}
+                                {isTranscribing && (
+                                    <p className="mt-3 text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>{t('input.transcribing')}</p>
+                                )}
                                 {audioTranscript && (
                                     <div className="mt-3 bg-slate-800/50 p-3 rounded-lg border border-slate-700">
                                         <p className="text-sm text-slate-400 italic">{audioTranscript}</p>
@@ -390,7 +1099,39 @@ const App: React.FC = () => {
                             </div>
                         </div>
 
-                        <div className="mt-8 border-t border-slate-700 pt-6">
+                        {(!isOnline || queuedCases.length > 0) && (
+                            <div className="mt-8 flex items-start text-sm bg-slate-800/50 border border-slate-700 text-slate-300 p-3 rounded-lg" role="status">
+                                <i className={`fas ${isOnline ? 'fa-cloud-upload-alt' : 'fa-plug-circle-xmark'} fa-fw mr-2 mt-0.5 text-cyan-400`}></i>
+                                <div className="flex-grow">
+                                    {!isOnline && <p>{t('input.offline')}</p>}
+                                    {pendingQueuedCount > 0 && (
+                                        <p className={!isOnline ? 'mt-1 text-slate-400' : ''}>
+                                            {pendingQueuedCount === 1 ? t('input.queuedOne') : t('input.queuedMany', { count: pendingQueuedCount })}
+                                        </p>
+                                    )}
+                                    {queuedCases.filter(queued => queued.failed).map(queued => (
+                                        <div key={queued.id} className="mt-1 flex items-start gap-3 text-red-300">
+                                            <p className="flex-grow">
+                                                {t('input.queuedSetAside', { queuedAt: new Date(queued.queuedAt).toLocaleString(uiLanguage), attempts: queued.attempts ?? 0, error: queued.lastError ?? '' })}
+                                            </p>
+                                            <button onClick={() => handleRetryQueuedCase(queued)} disabled={!isOnline} className="flex-shrink-0 text-cyan-400 hover:text-cyan-300 font-medium disabled:opacity-40">
+                                                {t('input.retry')}
+                                            </button>
+                                            <button onClick={() => handleDiscardQueuedCase(queued)} className="flex-shrink-0 text-slate-400 hover:text-red-400 font-medium">
+                                                {t('input.discard')}
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                {isOnline && pendingQueuedCount > 0 && (
+                                    <button onClick={() => sendQueuedCases()} className="ml-3 flex-shrink-0 text-cyan-400 hover:text-cyan-300 font-medium">
+                                        {t('input.sendNow')}
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="mt-8 border-t border-slate-700 pt-6 flex gap-3">
                             <button
                                 onClick={handleSubmit}
                                 disabled={isLoading}
@@ -402,57 +1143,180 @@ const App: React.FC = () => {
                                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                                         </svg>
-                                        Analyzing...
+                                        {t('input.analyzing')}
                                     </>
-                                ) : 'Run Diagnosis'}
+                                ) : (isOnline || providerSettings.provider === 'fixture' ? t('input.runDiagnosis') : t('input.queueForOnline'))}
                             </button>
+                            {isLoading && (
+                                <button
+                                    onClick={handleCancelDiagnosis}
+                                    className="flex-shrink-0 bg-slate-800/50 hover:bg-red-800/60 text-slate-300 hover:text-white font-semibold py-3 px-4 rounded-lg transition-colors duration-200"
+                                    aria-label={t('input.cancelDiagnosis')}
+                                >
+                                    <i className="fas fa-stop fa-fw mr-1"></i>
+                                    {t('input.cancel')}
+                                </button>
+                            )}
                         </div>
                     </div>
                     
                     {/* Output Section */}
                     <div className="bg-slate-900/50 p-6 rounded-xl shadow-2xl backdrop-blur-lg glow-border flex flex-col animate-fade-in" style={{ animationDelay: '300ms' }}>
-                        <h2 className="text-2xl font-bold mb-4 text-slate-100">Diagnostic Report</h2>
+                        <div className="flex justify-between items-start mb-4 gap-4">
+                            <h2 className="text-2xl font-bold text-slate-100">{t('report.title')}</h2>
+                            {report && activeEntry && (
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <select
+                                        aria-label={t('report.translate')}
+                                        value=""
+                                        disabled={isTranslating}
+                                        onChange={(e) => handleTranslateReport(e.target.value as Language)}
+                                        className="bg-slate-800/50 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-300 disabled:opacity-50"
+                                    >
+                                        <option value="" disabled>{isTranslating ? t('report.translating') : t('report.translateTo')}</option>
+                                        {languages.filter(language => language !== (activeEntry.reportLanguage ?? 'en')).map(language => (
+                                            <option key={language} value={language}>{languageOptions[language].label}</option>
+                                        ))}
+                                    </select>
+                                    <div className="flex text-sm rounded-lg overflow-hidden border border-slate-700" role="group" aria-label={t('report.export')}>
+                                        <button onClick={handleExportPdf} className="px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white transition-colors" title={t('report.exportPdf')}>
+                                            <i className="fas fa-file-pdf fa-fw mr-1"></i>PDF
+                                        </button>
+                                        <button onClick={() => exportReportAsMarkdown(activeEntry)} className="px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white border-l border-slate-700 transition-colors" title={t('report.exportMarkdown')}>
+                                            <i className="fab fa-markdown fa-fw mr-1"></i>MD
+                                        </button>
+                                        <button onClick={() => exportReportAsJson(activeEntry)} className="px-3 py-1.5 bg-slate-800/50 hover:bg-slate-700 text-slate-300 hover:text-white border-l border-slate-700 transition-colors" title={t('report.exportJson')}>
+                                            <i className="fas fa-file-code fa-fw mr-1"></i>JSON
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                        {report && activeEntry && (activeEntry.equipmentProfile || assets.length > 0) && (
+                            <div className="-mt-3 mb-4 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-400">
+                                {activeEntry.equipmentProfile && (
+                                    <span>
+                                        <i className="fas fa-cogs fa-fw mr-1"></i>
+                                        {summarizeEquipmentProfile(activeEntry.equipmentProfile)}
+                                    </span>
+                                )}
+                                {assets.length > 0 && (
+                                    <label className="flex items-center">
+                                        <i className="fas fa-tag fa-fw mr-1"></i>
+                                        <select
+                                            aria-label={t('report.linkedAsset')}
+                                            value={activeEntry.assetId ?? ''}
+                                            onChange={(e) => handleAssignAsset(e.target.value)}
+                                            className="bg-slate-800/50 border border-slate-700 rounded px-2 py-0.5 text-sm"
+                                        >
+                                            <option value="">{t('report.noAsset')}</option>
+                                            {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                            </div>
+                        )}
                         
+                        {queueNotices.map(notice => (
+                            <div key={notice.id} className="bg-cyan-500/10 border border-cyan-500/30 text-cyan-200 p-3 rounded-lg mb-4 flex items-start text-sm" role="status">
+                                <i className="fas fa-inbox fa-fw mr-2 mt-0.5"></i>
+                                <p className="flex-grow">{notice.message}</p>
+                                {notice.entry && (
+                                    <button onClick={() => { handleSelectHistory(notice.entry!); setQueueNotices(prev => prev.filter(n => n.id !== notice.id)); }} className="ml-3 font-medium text-cyan-300 hover:text-white">
+                                        {t('notice.view')}
+                                    </button>
+                                )}
+                                <button onClick={() => setQueueNotices(prev => prev.filter(n => n.id !== notice.id))} className="ml-2 -mt-1 -mr-1 p-1 rounded-full hover:bg-cyan-500/20" aria-label={t('notice.dismiss')}>
+                                    <XCircleIcon className="w-4 h-4"/>
+                                </button>
+                            </div>
+                        ))}
+
                         {activeAlert && (
                             <div className="bg-amber-500/10 border border-amber-500/30 text-amber-300 p-4 rounded-lg mb-4 flex items-start" role="alert">
                                 <ExclamationTriangleIcon className="w-6 h-6 mr-3 flex-shrink-0" />
                                 <div className="flex-grow">
-                                    <p className="font-bold">Custom Alert Triggered</p>
+                                    <p className="font-bold">{t('alert.title')}</p>
                                     <p className="text-sm mt-1">{activeAlert}</p>
                                 </div>
-                                <button onClick={() => setActiveAlert(null)} className="ml-4 -mt-2 -mr-2 p-2 rounded-full hover:bg-amber-500/20" aria-label="Dismiss alert">
+                                <button onClick={() => setActiveAlert(null)} className="ml-4 -mt-2 -mr-2 p-2 rounded-full hover:bg-amber-500/20" aria-label={t('alert.dismiss')}>
                                     <XCircleIcon className="w-5 h-5"/>
                                 </button>
                             </div>
                         )}
                         
+                        {report && activeEntry && (
+                            <div className="flex mb-4 text-sm rounded-lg overflow-hidden border border-slate-700 self-start" role="tablist" aria-label={t('audience.label')}>
+                                {audiences.map(view => (
+                                    <button
+                                        key={view}
+                                        role="tab"
+                                        aria-selected={audience === view}
+                                        onClick={() => setAudience(view)}
+                                        className={`px-3 py-1.5 border-l first:border-l-0 border-slate-700 transition-colors ${audience === view ? 'bg-cyan-600 text-white' : 'bg-slate-800/50 text-slate-300 hover:bg-slate-700'}`}
+                                    >
+                                        {t(`audience.${view}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
                         <div className='flex-grow overflow-y-auto pr-2 -mr-2'>
-                            {isLoading && (
+                            {isLoading && partialReport && <StreamingReportPreview report={partialReport} t={t} />}
+                            {isLoading && !partialReport && (
                                 <div className="flex flex-col items-center justify-center h-full text-slate-400">
                                     <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-cyan-400"></div>
-                                    <p className="mt-4 text-lg">Generating intelligent analysis...</p>
+                                    <p className="mt-4 text-lg">{t('report.generating')}</p>
                                 </div>
                             )}
                             {error && (
                                 <div className="flex items-center justify-center h-full">
                                     <div className="bg-red-500/10 border border-red-500/30 text-red-300 p-4 rounded-lg text-center">
-                                        <p className="font-bold">Analysis Failed</p>
+                                        <p className="font-bold">{t('report.failed')}</p>
                                         <p className="text-sm mt-1">{error}</p>
                                     </div>
                                 </div>
                             )}
                             {!isLoading && !error && !report && (
                                 <div className="flex items-center justify-center h-full text-center text-slate-500">
-                                    <p>Your diagnostic report will appear here once analysis is complete.</p>
+                                    <p>{t('report.empty')}</p>
                                 </div>
                             )}
-                            {report && (
+                            {report && activeEntry && audience === 'manager' && (
+                                <ManagerView
+                                    entry={activeEntry}
+                                    estimate={activeEstimate}
+                                    currency={costSettings.currency}
+                                    brief={activeEntry.audienceBriefs?.manager}
+                                    isGenerating={briefInProgress === `${activeEntry.id}:manager`}
+                                    onGenerate={() => handleGenerateBrief('manager')}
+                                    t={reportT}
+                                />
+                            )}
+                            {report && activeEntry && audience === 'customer' && (
+                                <CustomerView
+                                    entry={activeEntry}
+                                    summary={activeEntry.audienceBriefs?.customer}
+                                    isGenerating={briefInProgress === `${activeEntry.id}:customer`}
+                                    onGenerate={() => handleGenerateBrief('customer')}
+                                    onShare={summary => shareCustomerSummary(activeEntry, summary)}
+                                    onPrint={handlePrintCustomerSummary}
+                                    t={reportT}
+                                />
+                            )}
+                            {report && (audience === 'technician' || !activeEntry) && (
                                 <>
-                                    <ReportSection title="Fault Summary" icon={<i className="fas fa-exclamation-circle fa-fw"></i>}>
+                                    <ReportSection title={t('report.faultSummary')} icon={<i className="fas fa-exclamation-circle fa-fw"></i>}>
                                         <p>{report.faultSummary}</p>
+                                        {activeConsensus && (
+                                            <p className="text-xs text-slate-400">
+                                                <i className="fas fa-layer-group fa-fw mr-1"></i>
+                                                {t('report.consensusNote', { count: activeConsensus.models.length, models: [...new Set(activeConsensus.models)].join(', ') })}
+                                            </p>
+                                        )}
                                     </ReportSection>
 
-                                    <ReportSection title="Risk Assessment" icon={<i className="fas fa-shield-alt fa-fw"></i>}>
+                                    <ReportSection title={t('report.riskAssessment')} icon={<i className="fas fa-shield-alt fa-fw"></i>}>
                                         {(() => {
                                             const { severity, summary, potentialConsequences, mitigationSteps } = report.riskAssessment;
                                             const config = severityConfig[severity] || { level: 0, color: 'bg-slate-500', textColor: 'text-slate-400' };
@@ -460,44 +1324,55 @@ const App: React.FC = () => {
                                             return (
                                                 <>
                                                     <div className="flex items-center mb-3">
-                                                        <div className="flex items-end space-x-1.5 mr-3" aria-label={`Risk level: ${severity}`}>
+                                                        <div className="flex items-end space-x-1.5 mr-3" aria-label={t('report.riskLevel', { severity: t(`severity.${severity}`) })}>
                                                             {Array.from({ length: 4 }).map((_, index) => (
                                                                 <div
                                                                     key={index}
                                                                     className={`w-3 rounded-full transition-all duration-300 ${index < config.level ? config.color : 'bg-slate-600'}`}
                                                                     style={{ height: `${8 + index * 4}px` }}
-                                                                    title={`${index + 1} of 4`}
+                                                                    title={t('report.riskBar', { level: index + 1 })}
                                                                 ></div>
                                                             ))}
                                                         </div>
                                                         <span className={`font-bold text-lg ${config.textColor}`}>
-                                                            {severity}
+                                                            {t(`severity.${severity}`)}
                                                         </span>
                                                     </div>
                                                     <p className="mb-4">{summary}</p>
+                                                    {activeConsensus && hasSeverityDisagreement(activeConsensus) && (
+                                                        <div className="flex items-start gap-2 p-3 mb-4 rounded-lg bg-amber-500/10 border border-amber-500/30 text-amber-300 text-sm" role="note">
+                                                            <ExclamationTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                                                            <span>
+                                                                {t('report.severityDisagreement', {
+                                                                    votes: Object.entries(activeConsensus.severityVotes).map(([level, votes]) => `${votes}× ${t(`severity.${level as typeof severity}`)}`).join(', '),
+                                                                    severity: t(`severity.${severity}`),
+                                                                })}
+                                                            </span>
+                                                        </div>
+                                                    )}
                                                     
                                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4 border-t border-slate-700 pt-4">
                                                         <div>
                                                             <h4 className="font-semibold text-slate-200 mb-2 flex items-center">
                                                                 <ExclamationTriangleIcon className="w-5 h-5 mr-2 text-orange-400" />
-                                                                Potential Consequences
+                                                                {t('report.consequences')}
                                                             </h4>
                                                             {potentialConsequences?.length > 0 ? (
                                                                 <ul className="list-disc list-inside space-y-1 text-sm">
                                                                     {potentialConsequences.map((item, i) => <li key={i}>{item}</li>)}
                                                                 </ul>
-                                                            ) : <p className="text-sm text-slate-500">None specified.</p>}
+                                                            ) : <p className="text-sm text-slate-500">{t('report.noneSpecified')}</p>}
                                                         </div>
                                                         <div>
                                                             <h4 className="font-semibold text-slate-200 mb-2 flex items-center">
                                                                 <ShieldCheckIcon className="w-5 h-5 mr-2 text-green-400" />
-                                                                Mitigation Steps
+                                                                {t('report.mitigation')}
                                                             </h4>
                                                             {mitigationSteps?.length > 0 ? (
                                                                 <ul className="list-disc list-inside space-y-1 text-sm">
                                                                     {mitigationSteps.map((item, i) => <li key={i}>{item}</li>)}
                                                                 </ul>
-                                                            ) : <p className="text-sm text-slate-500">None specified.</p>}
+                                                            ) : <p className="text-sm text-slate-500">{t('report.noneSpecified')}</p>}
                                                         </div>
                                                     </div>
                                                 </>
@@ -505,66 +1380,160 @@ const App: React.FC = () => {
                                         })()}
                                     </ReportSection>
 
-                                    <ReportSection title="Possible Causes" icon={<i className="fas fa-search fa-fw"></i>}>
-                                        <ul className="list-disc list-inside">
-                                            {report.possibleCauses.map((cause, i) => <li key={i}>{cause}</li>)}
+                                    <ReportSection title={t('report.possibleCauses')} icon={<i className="fas fa-search fa-fw"></i>}>
+                                        <ul className="list-disc list-inside space-y-2">
+                                            {report.possibleCauses.map((cause, i) => {
+                                                const evidence = report.causeEvidence?.find(e => e.causeIndex === i)?.images ?? [];
+                                                return (
+                                                    <li key={i}>
+                                                        {cause}
+                                                        {activeConsensus && causeConfidence(activeConsensus, cause) !== undefined && (
+                                                            <ConfidenceBadge confidence={causeConfidence(activeConsensus, cause)!} runs={activeConsensus.models.length} />
+                                                        )}
+                                                        {evidence.length > 0 && (
+                                                            <span className="inline-flex items-center gap-1.5 ml-2 align-middle">
+                                                                {evidence.map(imageNumber => {
+                                                                    const image = activeEntry?.userInput.images[imageNumber - 1];
+                                                                    return image ? (
+                                                                        <img
+                                                                            key={imageNumber}
+                                                                            src={`data:${image.mimeType};base64,${image.data}`}
+                                                                            alt={image.caption || t('report.image', { number: imageNumber })}
+                                                                            title={`${t('report.image', { number: imageNumber })}${image.caption ? `: ${image.caption}` : ''}`}
+                                                                            className="w-8 h-8 rounded object-cover border border-slate-600 inline-block"
+                                                                        />
+                                                                    ) : (
+                                                                        <span key={imageNumber} className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{t('report.image', { number: imageNumber })}</span>
+                                                                    );
+                                                                })}
+                                                            </span>
+                                                        )}
+                                                    </li>
+                                                );
+                                            })}
                                         </ul>
                                     </ReportSection>
 
-                                    <ReportSection title="Troubleshooting Steps" icon={<i className="fas fa-list-ol fa-fw"></i>}>
-                                        <ol className="list-decimal list-inside space-y-2">
-                                            {report.troubleshootingSteps.map((step) => (
-                                                <li key={step.step}>
-                                                    <strong>{step.action}</strong>
-                                                    <p className="text-sm text-slate-400 pl-4">{step.details}</p>
-                                                </li>
-                                            ))}
-                                        </ol>
+                                    {activeEntry?.userInput.dataFiles?.length ? (
+                                        <ReportSection title={t('report.dataFiles')} icon={<i className="fas fa-chart-line fa-fw"></i>}>
+                                            <DataFilesPanel files={activeEntry.userInput.dataFiles} t={t} />
+                                        </ReportSection>
+                                    ) : null}
+
+                                    {activeEntry && (report.imageAnnotations?.length || activeEntry.userInput.images.some(image => image.regions?.length)) ? (
+                                        <ReportSection title={t('report.photoFindings')} icon={<i className="fas fa-vector-square fa-fw"></i>}>
+                                            <PhotoFindings images={activeEntry.userInput.images} annotations={report.imageAnnotations ?? []} possibleCauses={report.possibleCauses} t={t} />
+                                        </ReportSection>
+                                    ) : null}
+
+                                    {(activeHazards.length > 0 || requiresInterlock(report)) && (
+                                        <SafetyInterlock
+                                            key={`${activeId}:${activeHazards.join(',')}`}
+                                            hazards={activeHazards}
+                                            locked={isSafetyLocked}
+                                            acknowledgement={activeEntry?.safetyAcknowledgement}
+                                            onAcknowledge={handleAcknowledgeSafety}
+                                            t={t}
+                                        />
+                                    )}
+
+                                    <ReportSection title={t('report.troubleshooting')} icon={<i className="fas fa-list-ol fa-fw"></i>}>
+                                        {isSafetyLocked ? (
+                                            <p className="flex items-center text-slate-400">
+                                                <i className="fas fa-lock fa-fw mr-2"></i>
+                                                {t('report.stepsLocked', { count: report.troubleshootingSteps.length })}
+                                            </p>
+                                        ) : (
+                                            <TroubleshootingWalkthrough
+                                                steps={report.troubleshootingSteps}
+                                                walkthrough={activeEntry?.walkthrough}
+                                                isRefining={isRefining}
+                                                onNavigate={handleWalkthroughNavigate}
+                                                onRecordOutcome={handleRecordStepOutcome}
+                                                onError={setError}
+                                                t={t}
+                                            />
+                                        )}
                                     </ReportSection>
 
-                                    <ReportSection title="Recommended Fixes" icon={<i className="fas fa-wrench fa-fw"></i>}>
+                                    <ReportSection title={t('report.fixes')} icon={<i className="fas fa-wrench fa-fw"></i>}>
                                         <div className="space-y-3">
                                             {report.recommendedFixes.map((fix, i) => (
                                                 <div key={i} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
                                                     <div className="font-semibold">{fix.fix} 
-                                                    <span className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full ${fix.priority === 'Urgent' ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'}`}>{fix.priority}</span>
+                                                    <span className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full ${fix.priority === 'Urgent' ? 'bg-red-500/30 text-red-300' : 'bg-green-500/30 text-green-300'}`}>{t(`priority.${fix.priority}`)}</span>
+                                                    {activeConsensus && fixConfidence(activeConsensus, fix.fix) !== undefined && (
+                                                        <ConfidenceBadge confidence={fixConfidence(activeConsensus, fix.fix)!} runs={activeConsensus.models.length} />
+                                                    )}
+                                                    {fix.laborHours !== undefined && <span className="ml-2 text-xs text-slate-400" title={t('report.estimatedLabor')}>~{fix.laborHours} h</span>}
                                                     </div>
                                                     <p className="text-sm text-slate-400 mt-1">{fix.details}</p>
+                                                    {activeEntry && (
+                                                        <WorkItemEditor key={`${activeEntry.id}:${i}`} item={workItemFor(activeEntry, fix)} onSave={handleSaveWorkItem} t={t} />
+                                                    )}
                                                 </div>
                                             ))}
                                         </div>
                                     </ReportSection>
 
-                                    <ReportSection title="Required Tools & Potential Parts" icon={<i className="fas fa-toolbox fa-fw"></i>}>
-                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                            <div>
-                                                <h4 className="font-semibold text-slate-200 mb-2">Recommended Tools</h4>
-                                                {report.toolsAndParts.tools.length > 0 ? (
-                                                    <ul className="list-disc list-inside space-y-1">
-                                                        {report.toolsAndParts.tools.map((tool, i) => <li key={i}>{tool}</li>)}
-                                                    </ul>
-                                                ) : <p className="text-sm text-slate-500">None specified.</p>}
-                                            </div>
-                                            <div>
-                                                <h4 className="font-semibold text-slate-200 mb-2">Potential Parts</h4>
-                                                {report.toolsAndParts.parts.length > 0 ? (
-                                                    <ul className="list-disc list-inside space-y-1">
-                                                        {report.toolsAndParts.parts.map((part, i) => <li key={i}>{part}</li>)}
-                                                    </ul>
-                                                ) : <p className="text-sm text-slate-500">None specified.</p>}
+                                    <ReportSection title={t('report.toolsAndParts')} icon={<i className="fas fa-toolbox fa-fw"></i>}>
+                                        {activeEntry && catalogue.length > 0 ? (
+                                            <PartsMatcher
+                                                entry={activeEntry}
+                                                index={catalogueIndex}
+                                                catalogue={catalogueBySku}
+                                                currency={costSettings.currency}
+                                                onConfirm={handleConfirmCatalogueMatch}
+                                                t={t}
+                                            />
+                                        ) : (
+                                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                <div>
+                                                    <h4 className="font-semibold text-slate-200 mb-2">{t('report.tools')}</h4>
+                                                    {report.toolsAndParts.tools.length > 0 ? (
+                                                        <ul className="list-disc list-inside space-y-1">
+                                                            {report.toolsAndParts.tools.map((tool, i) => <li key={i}>{tool}</li>)}
+                                                        </ul>
+                                                    ) : <p className="text-sm text-slate-500">{t('report.noneSpecified')}</p>}
+                                                </div>
+                                                <div>
+                                                    <h4 className="font-semibold text-slate-200 mb-2">{t('report.parts')}</h4>
+                                                    {report.toolsAndParts.parts.length > 0 ? (
+                                                        <ul className="list-disc list-inside space-y-1">
+                                                            {report.toolsAndParts.parts.map((part, i) => <li key={i}>{part}</li>)}
+                                                        </ul>
+                                                    ) : <p className="text-sm text-slate-500">{t('report.noneSpecified')}</p>}
+                                                </div>
                                             </div>
-                                        </div>
+                                        )}
                                     </ReportSection>
 
-                                    <ReportSection title="Simplified Explanation" icon={<i className="fas fa-user-friends fa-fw"></i>}>
+                                    {activeEntry && activeEstimate && (
+                                        <ReportSection title={t('report.estimate')} icon={<i className="fas fa-receipt fa-fw"></i>}>
+                                            <RepairEstimatePanel
+                                                estimate={activeEstimate}
+                                                currency={costSettings.currency}
+                                                onExport={() => exportShoppingListAsCsv(activeEntry, activeEstimate, costSettings.currency)}
+                                                t={t}
+                                            />
+                                        </ReportSection>
+                                    )}
+
+                                    <ReportSection title={t('report.explanation')} icon={<i className="fas fa-user-friends fa-fw"></i>}>
                                         <p>{report.simplifiedExplanation}</p>
                                     </ReportSection>
+
+                                    {similarToActive.length > 0 && (
+                                        <ReportSection title={t('report.similarCases')} icon={<i className="fas fa-history fa-fw"></i>}>
+                                            <SimilarCasesPanel matches={similarToActive} onSelectHistory={handleSelectHistory} t={t} />
+                                        </ReportSection>
+                                    )}
                                 </>
                             )}
                         </div>
                          {report && chat && (
                             <div className="mt-6 border-t border-slate-700 pt-6 flex-shrink-0">
-                                <h3 className="text-xl font-bold text-slate-100 mb-4">Interactive Follow-up</h3>
+                                <h3 className="text-xl font-bold text-slate-100 mb-4">{t('chat.title')}</h3>
                                 <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700 h-64 overflow-y-auto space-y-4" ref={chatContainerRef}>
                                     {chatHistory.map((msg, index) => (
                                         <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
@@ -591,14 +1560,14 @@ const App: React.FC = () => {
                                         value={chatInput}
                                         onChange={(e) => setChatInput(e.target.value)}
                                         onKeyDown={(e) => {if(e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendChatMessage();}}}
-                                        placeholder="Ask a follow-up question..."
+                                        placeholder={t('chat.placeholder')}
                                         className="flex-grow bg-slate-700 border border-slate-600 rounded-l-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all text-white"
                                     />
                                     <button
                                         onClick={handleSendChatMessage}
                                         disabled={!chatInput.trim() || isChatLoading}
                                         className="bg-cyan-600 text-white p-3 rounded-r-lg hover:bg-cyan-500 transition-colors disabled:bg-slate-600 disabled:cursor-not-allowed flex items-center justify-center"
-                                        aria-label="Send message"
+                                        aria-label={t('chat.send')}
                                     >
                                         <PaperAirplaneIcon className="w-6 h-6" />
                                     </button>
@@ -611,39 +1580,52 @@ const App: React.FC = () => {
                 {/* History Section */}
                 <div className="mt-12 animate-fade-in" style={{ animationDelay: '400ms' }}>
                     <div className="flex justify-between items-center mb-4">
-                        <h2 className="text-2xl font-bold text-slate-100">Diagnostic History</h2>
-                        {history.length > 0 && (
+                        <h2 className="text-2xl font-bold text-slate-100">{t('history.title')}</h2>
+                        <div className="flex gap-2">
                             <button
-                                onClick={handleClearHistory}
-                                className="flex items-center text-sm bg-slate-800/50 hover:bg-red-800/60 text-slate-300 hover:text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200"
-                                aria-label="Clear diagnostic history"
+                                onClick={() => importInputRef.current?.click()}
+                                className="flex items-center text-sm bg-slate-800/50 hover:bg-cyan-800/60 text-slate-300 hover:text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200"
+                                aria-label={t('history.importLabel')}
                             >
-                                <i className="fas fa-trash-alt fa-fw mr-2"></i>
-                                Clear History
+                                <i className="fas fa-file-import fa-fw mr-2"></i>
+                                {t('history.import')}
                             </button>
-                        )}
-                    </div>
-                    <div className="bg-slate-900/70 p-4 rounded-xl shadow-2xl backdrop-blur-lg glow-border max-h-96 overflow-y-auto">
-                        {history.length > 0 ? (
-                            <ul className="space-y-2">
-                                {history.map((entry, index) => (
-                                    <li key={entry.id}>
-                                        <button
-                                            onClick={() => handleSelectHistory(entry, index)}
-                                            className={`w-full text-left p-3 rounded-lg transition-colors duration-200 ${activeIndex === index ? 'bg-cyan-500/10' : 'hover:bg-slate-800/50'}`}
-                                        >
-                                            <div className="font-semibold text-slate-100 truncate">{entry.report.faultSummary}</div>
-                                            <div className="text-xs text-slate-400 mt-1">{entry.timestamp.toLocaleString()}</div>
-                                        </button>
-                                    </li>
-                                ))}
-                            </ul>
-                        ) : (
-                            <div className="text-center text-slate-500 py-8">
-                                <p>Your past reports will be saved here for the current session.</p>
-                            </div>
-                        )}
+                            <input type="file" ref={importInputRef} onChange={handleImportCase} accept="application/json,.json" className="hidden" />
+                            {history.length > 0 && (
+                                <button
+                                    onClick={handleClearHistory}
+                                    className="flex items-center text-sm bg-slate-800/50 hover:bg-red-800/60 text-slate-300 hover:text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200"
+                                    aria-label={t('history.clearLabel')}
+                                >
+                                    <i className="fas fa-trash-alt fa-fw mr-2"></i>
+                                    {t('history.clear')}
+                                </button>
+                            )}
+                        </div>
                     </div>
+                    <OutstandingFixes items={outstandingUrgentFixes(history)} onSelectHistory={handleSelectHistory} t={t} />
+                    <HistoryPanel
+                        history={history}
+                        activeId={activeId}
+                        onSelectHistory={handleSelectHistory}
+                        onDeleteEntries={handleDeleteHistory}
+                        onExportEntries={exportCasesAsJson}
+                        onCompareEntries={handleCompareEntries}
+                        t={t}
+                    />
+                </div>
+
+                {/* Assets Section */}
+                <div className="mt-12 animate-fade-in" style={{ animationDelay: '500ms' }}>
+                    <h2 className="text-2xl font-bold text-slate-100 mb-4">{t('assets.title')}</h2>
+                    <AssetPanel
+                        assets={assets}
+                        history={history}
+                        activeId={activeId}
+                        onCreateAsset={handleCreateAsset}
+                        onSelectHistory={handleSelectHistory}
+                        t={t}
+                    />
                 </div>
             </main>
         </div>
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { AlertDeliveryStatus, AlertRule, AlertSettings, Asset, EquipmentDomain, FiredAlert } from '../types';
+import { newAlertRule, parseKeywords } from '../services/alertRules';
+import { requestNotificationPermission } from '../services/notifications';
+import { Severity, severityLevels } from '../services/severity';
+import { domainTemplates } from '../services/equipmentTemplates';
+import { severityConfig } from './severityStyles';
+import { ChevronDownIcon } from './icons';
+import { MessageKey, Translate } from '../services/i18n';
+
+interface AlertRulesPanelProps {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+  assets: Asset[];
+  log: FiredAlert[];
+  onClearLog: () => void;
+  onViewCase: (entryId: string) => void;
+  t: Translate;
+}
+
+const inputClassName = "w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm";
+
+const chipClassName = (active: boolean) =>
+  `px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${active ? 'bg-cyan-600 text-white border-transparent' : 'border-slate-600 text-slate-400 hover:text-white'}`;
+
+const toggle = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const channelIcons: { key: 'desktop' | 'sound' | 'webhook'; icon: string; label: MessageKey }[] = [
+  { key: 'desktop', icon: 'fa-desktop', label: 'alertRules.desktop' },
+  { key: 'sound', icon: 'fa-volume-up', label: 'alertRules.sound' },
+  { key: 'webhook', icon: 'fa-satellite-dish', label: 'alertRules.webhook' },
+];
+
+const deliveryColors: Record<AlertDeliveryStatus, string> = {
+  sent: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-slate-600',
+};
+
+const describeRule = (rule: AlertRule, assets: Asset[], t: Translate): string =>
+  [
+    t('alertRules.orAbove', { severity: t(`severity.${rule.minSeverity}`) }),
+    rule.domains.length > 0 && rule.domains.map(domain => domainTemplates[domain].label).join(' / '),
+    rule.assetIds.length > 0 && rule.assetIds.map(id => assets.find(a => a.id === id)?.name ?? t('alertRules.deletedAsset')).join(' / '),
+    rule.keywords.length > 0 && t('alertRules.mentions', { keywords: rule.keywords.map(keyword => `"${keyword}"`).join(t('alertRules.or')) }),
+  ].filter(Boolean).join(' · ');
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({ settings, onChange, assets, log, onClearLog, onViewCase, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+  // Kept as typed so commas and spaces survive editing; parsed when the rule is saved.
+  const [keywordText, setKeywordText] = useState('');
+
+  const enabledCount = settings.rules.filter(rule => rule.enabled).length;
+
+  const startEditing = (rule: AlertRule) => {
+    setDraft(rule);
+    setKeywordText(rule.keywords.join(', '));
+  };
+
+  const updateRule = (rule: AlertRule) => {
+    const exists = settings.rules.some(r => r.id === rule.id);
+    onChange({ ...settings, rules: exists ? settings.rules.map(r => r.id === rule.id ? rule : r) : [...settings.rules, rule] });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const rule = { ...draft, name: draft.name.trim() || t('alertRules.untitled'), keywords: parseKeywords(keywordText) };
+    updateRule(rule);
+    if (rule.notifyDesktop) {
+      requestNotificationPermission().catch(err => console.error("Failed to request notification permission:", err));
+    }
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({ ...settings, rules: settings.rules.filter(rule => rule.id !== id) });
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="border-b border-slate-700 mb-6 pb-6">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full text-left p-2 rounded-lg hover:bg-slate-800/50 transition-colors">
+        <h3 className="text-lg font-semibold text-slate-200">{t('alertRules.title')}</h3>
+        <span className="flex items-center text-sm text-slate-400">
+          {enabledCount > 0 ? t('alertRules.active', { count: enabledCount }) : t('alertRules.noneActive')}
+          <ChevronDownIcon className={`w-6 h-6 ml-2 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-4 pl-2 space-y-4 text-sm">
+          {settings.rules.length > 0 && (
+            <ul className="space-y-2">
+              {settings.rules.map(rule => (
+                <li key={rule.id} className="flex items-start gap-3 p-3 bg-slate-800/40 rounded-lg border border-slate-700">
+                  <input
+                    type="checkbox"
+                    aria-label={t('alertRules.enable', { name: rule.name })}
+                    checked={rule.enabled}
+                    onChange={() => updateRule({ ...rule, enabled: !rule.enabled })}
+                    className="mt-1 accent-cyan-500"
+                  />
+                  <div className="flex-grow min-w-0">
+                    <p className={`font-semibold ${rule.enabled ? 'text-slate-100' : 'text-slate-500'}`}>{rule.name}</p>
+                    <p className="text-xs text-slate-400 mt-0.5">{describeRule(rule, assets, t)}</p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <button onClick={() => startEditing(rule)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-700" aria-label={t('alertRules.edit', { name: rule.name })}>
+                      <i className="fas fa-pen fa-fw"></i>
+                    </button>
+                    <button onClick={() => handleDelete(rule.id)} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-red-800/60" aria-label={t('alertRules.delete', { name: rule.name })}>
+                      <i className="fas fa-trash-alt fa-fw"></i>
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {draft ? (
+            <div className="space-y-3 p-3 bg-slate-800/40 rounded-lg border border-cyan-500/30">
+              <input
+                type="text"
+                aria-label={t('alertRules.name')}
+                placeholder={t('alertRules.namePlaceholder')}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClassName}
+              />
+              <label className="block">
+                <span className="block text-slate-300 mb-1">{t('alertRules.minSeverity')}</span>
+                <select value={draft.minSeverity} onChange={(e) => setDraft({ ...draft, minSeverity: e.target.value as Severity })} className={inputClassName}>
+                  {(Object.keys(severityLevels) as Severity[]).map(severity => <option key={severity} value={severity}>{t(`severity.${severity}`)}</option>)}
+                </select>
+              </label>
+              <div>
+                <span className="block text-slate-300 mb-1">{t('alertRules.domains')} <span className="text-slate-500">{t('alertRules.anyWhenEmpty')}</span></span>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(domainTemplates) as EquipmentDomain[]).map(domain => (
+                    <button key={domain} onClick={() => setDraft({ ...draft, domains: toggle(draft.domains, domain) })} aria-pressed={draft.domains.includes(domain)} className={chipClassName(draft.domains.includes(domain))}>
+                      {domainTemplates[domain].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {assets.length > 0 && (
+                <div>
+                  <span className="block text-slate-300 mb-1">{t('alertRules.assets')} <span className="text-slate-500">{t('alertRules.anyWhenEmpty')}</span></span>
+                  <div className="flex flex-wrap gap-2">
+                    {assets.map(asset => (
+                      <button key={asset.id} onClick={() => setDraft({ ...draft, assetIds: toggle(draft.assetIds, asset.id) })} aria-pressed={draft.assetIds.includes(asset.id)} className={chipClassName(draft.assetIds.includes(asset.id))}>
+                        {asset.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <label className="block">
+                <span className="block text-slate-300 mb-1">{t('alertRules.keywords')} <span className="text-slate-500">{t('alertRules.keywordsHint')}</span></span>
+                <input type="text" placeholder={t('alertRules.keywordsPlaceholder')} value={keywordText} onChange={(e) => setKeywordText(e.target.value)} className={inputClassName} />
+              </label>
+              <div className="flex flex-wrap gap-4 text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.notifyDesktop} onChange={() => setDraft({ ...draft, notifyDesktop: !draft.notifyDesktop })} className="accent-cyan-500" />
+                  {t('alertRules.desktop')}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.playSound} onChange={() => setDraft({ ...draft, playSound: !draft.playSound })} className="accent-cyan-500" />
+                  {t('alertRules.sound')}
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.sendWebhook} onChange={() => setDraft({ ...draft, sendWebhook: !draft.sendWebhook })} className="accent-cyan-500" />
+                  {t('alertRules.webhook')}
+                </label>
+              </div>
+              {draft.sendWebhook && !settings.webhookUrl.trim() && (
+                <p className="text-xs text-amber-300">{t('alertRules.webhookMissing')}</p>
+              )}
+              <div className="flex gap-2">
+                <button onClick={handleSave} className="bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors">{t('alertRules.save')}</button>
+                <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-white py-2 px-4">{t('alertRules.cancel')}</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => startEditing(newAlertRule())} className="text-cyan-400 hover:text-cyan-300 font-medium">
+              <i className="fas fa-plus fa-fw mr-1"></i>{t('alertRules.add')}
+            </button>
+          )}
+
+          <label className="block">
+            <span className="block text-slate-300 mb-1">{t('alertRules.webhookUrl')}</span>
+            <input
+              type="url"
+              placeholder="https://hooks.example.com/omnidiag"
+              value={settings.webhookUrl}
+              onChange={(e) => onChange({ ...settings, webhookUrl: e.target.value })}
+              className={inputClassName}
+            />
+            <span className="block text-xs text-slate-500 mt-1">{t('alertRules.webhookHint')}</span>
+          </label>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-slate-300 font-medium">{t('alertRules.log')}</span>
+              {log.length > 0 && <button onClick={onClearLog} className="text-xs text-slate-400 hover:text-white">{t('alertRules.clearLog')}</button>}
+            </div>
+            {log.length > 0 ? (
+              <ul className="space-y-1 max-h-60 overflow-y-auto">
+                {log.map(alert => (
+                  <li key={alert.id}>
+                    <button onClick={() => onViewCase(alert.entryId)} className="w-full text-left p-2 rounded-lg hover:bg-slate-800/50">
+                      <div className="flex justify-between gap-2">
+                        <span className="font-semibold text-slate-200 truncate">{alert.ruleName}</span>
+                        <span className={`text-xs font-bold flex-shrink-0 ${severityConfig[alert.severity].textColor}`}>{t(`severity.${alert.severity}`)}</span>
+                      </div>
+                      <div className="text-xs text-slate-400 truncate">{alert.faultSummary}</div>
+                      <div className="flex items-center gap-2 text-xs text-slate-500 mt-0.5">
+                        {alert.firedAt.toLocaleString()}
+                        {channelIcons.map(({ key, icon, label }) => (
+                          <i
+                            key={key}
+                            className={`fas ${icon} fa-fw ${deliveryColors[alert[key]]}`}
+                            title={`${t(label)}: ${t(`alertRules.delivery.${alert[key]}`)}${key === 'webhook' && alert.webhookError ? ` (${alert.webhookError})` : ''}`}
+                          ></i>
+                        ))}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-slate-500">{t('alertRules.noAlerts')}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
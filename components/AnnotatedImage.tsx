@@ -0,0 +1,55 @@
+import React from 'react';
+import { ImageAttachment, RegionBox } from '../types';
+import { Translate } from '../services/i18n';
+
+export interface ImageOverlay {
+  label: string;
+  box: RegionBox;
+  /** Areas the user marked are drawn dashed, to tell them apart from the model's findings. */
+  marked?: boolean;
+  highlighted?: boolean;
+}
+
+interface AnnotatedImageProps {
+  image: ImageAttachment;
+  /** 1-based, as the image is numbered in the case. */
+  imageNumber: number;
+  overlays: ImageOverlay[];
+  /** Sizes the image; the overlays follow it. */
+  imageClassName?: string;
+  showLabels?: boolean;
+  t: Translate;
+}
+
+// Boxes are scaled 0–1000, so a tenth of each value is a percentage of the image.
+export const boxStyle = ([ymin, xmin, ymax, xmax]: RegionBox): React.CSSProperties => ({
+  top: `${ymin / 10}%`,
+  left: `${xmin / 10}%`,
+  height: `${(ymax - ymin) / 10}%`,
+  width: `${(xmax - xmin) / 10}%`,
+});
+
+const overlayClassName = (overlay: ImageOverlay) =>
+  overlay.marked
+    ? 'border-cyan-400 border-dashed'
+    : overlay.highlighted ? 'border-red-400 bg-red-400/20' : 'border-amber-400';
+
+export const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ image, imageNumber, overlays, imageClassName = 'max-h-80', showLabels = true, t }) => (
+  <div className="relative inline-block max-w-full align-top">
+    <img src={`data:${image.mimeType};base64,${image.data}`} alt={image.caption || t('report.image', { number: imageNumber })} className={`block max-w-full rounded ${imageClassName}`} />
+    {overlays.map((overlay, i) => (
+      <div
+        key={i}
+        style={boxStyle(overlay.box)}
+        className={`absolute border-2 rounded-sm pointer-events-none transition-colors ${overlayClassName(overlay)}`}
+        title={overlay.label || t('image.unlabeled')}
+      >
+        {showLabels && overlay.label && (
+          <span className={`absolute left-0 bottom-full mb-0.5 max-w-[12rem] truncate text-[10px] font-semibold px-1 rounded ${overlay.marked ? 'bg-cyan-500 text-slate-900' : 'bg-amber-400 text-slate-900'}`}>
+            {overlay.label}
+          </span>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Asset, HistoryEntry } from '../types';
+import { severityLevels, severityTrend } from '../services/severity';
+import { summarizeEquipmentProfile } from '../services/equipmentTemplates';
+import { severityConfig, trendStyles } from './severityStyles';
+import { Translate } from '../services/i18n';
+
+interface AssetPanelProps {
+  assets: Asset[];
+  history: HistoryEntry[];
+  activeId: string | null;
+  onCreateAsset: (name: string, location: string) => void;
+  onSelectHistory: (entry: HistoryEntry) => void;
+  t: Translate;
+}
+
+const SeveritySparkline: React.FC<{ entries: HistoryEntry[]; t: Translate }> = ({ entries, t }) => {
+  const width = 160;
+  const height = 40;
+  const points = entries.map((entry, i) => {
+    const x = entries.length === 1 ? width / 2 : (i / (entries.length - 1)) * (width - 8) + 4;
+    const y = height - 4 - ((severityLevels[entry.report.riskAssessment.severity] - 1) / 3) * (height - 8);
+    return { x, y, severity: entry.report.riskAssessment.severity };
+  });
+
+  return (
+    <svg width={width} height={height} className="flex-shrink-0" aria-label={t('assets.severityTrend')}>
+      <polyline points={points.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke="rgb(100 116 139)" strokeWidth={1.5} />
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={3.5} className={severityConfig[p.severity].textColor} fill="currentColor">
+          <title>{t(`severity.${p.severity}`)}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export const AssetPanel: React.FC<AssetPanelProps> = ({ assets, history, activeId, onCreateAsset, onSelectHistory, t }) => {
+  const [selectedAssetId, setSelectedAssetId] = useState<string>('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newLocation, setNewLocation] = useState('');
+
+  const selectedAsset = assets.find(asset => asset.id === selectedAssetId) ?? null;
+  const timeline = history
+    .filter(entry => entry.assetId === selectedAssetId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const trend = severityTrend(timeline.map(entry => entry.report.riskAssessment.severity));
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreateAsset(newName.trim(), newLocation.trim());
+    setNewName('');
+    setNewLocation('');
+    setIsCreating(false);
+  };
+
+  return (
+    <div className="bg-slate-900/70 p-4 rounded-xl shadow-2xl backdrop-blur-lg glow-border">
+      <div className="flex flex-col sm:flex-row gap-3 mb-4">
+        <select
+          aria-label={t('assets.select')}
+          value={selectedAssetId}
+          onChange={(e) => setSelectedAssetId(e.target.value)}
+          className="flex-grow bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm"
+        >
+          <option value="">{assets.length > 0 ? t('assets.selectPrompt') : t('assets.none')}</option>
+          {assets.map(asset => <option key={asset.id} value={asset.id}>{asset.name}{asset.location ? ` — ${asset.location}` : ''}</option>)}
+        </select>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          className="flex items-center justify-center text-sm bg-slate-800/50 hover:bg-cyan-800/60 text-slate-300 hover:text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200"
+        >
+          <i className="fas fa-plus fa-fw mr-2"></i>
+          {t('assets.new')}
+        </button>
+      </div>
+
+      {isCreating && (
+        <div className="flex flex-col sm:flex-row gap-3 mb-4 p-3 bg-slate-800/40 rounded-lg border border-slate-700">
+          <input type="text" placeholder={t('assets.namePlaceholder')} value={newName} onChange={(e) => setNewName(e.target.value)} className="flex-grow bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm" />
+          <input type="text" placeholder={t('assets.location')} value={newLocation} onChange={(e) => setNewLocation(e.target.value)} className="flex-grow bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm" />
+          <button onClick={handleCreate} disabled={!newName.trim()} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed text-white font-semibold text-sm py-2 px-4 rounded-lg transition-colors">
+            {t('assets.create')}
+          </button>
+        </div>
+      )}
+
+      {selectedAsset && (
+        <>
+          <div className="flex items-center justify-between mb-4 gap-4">
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold text-slate-100 truncate">{selectedAsset.name}</h3>
+              <p className="text-xs text-slate-400 truncate">
+                {[selectedAsset.location, selectedAsset.equipmentProfile && summarizeEquipmentProfile(selectedAsset.equipmentProfile)].filter(Boolean).join(' · ') || t('assets.noDetails')}
+              </p>
+            </div>
+            {timeline.length > 0 && (
+              <div className="flex items-center gap-3">
+                <SeveritySparkline entries={timeline} t={t} />
+                {trend && (
+                  <span className={`text-sm font-semibold ${trendStyles[trend].className}`}>
+                    <i className={`fas ${trendStyles[trend].icon} mr-1`}></i>
+                    {t(`trend.${trend}`)}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {timeline.length > 0 ? (
+            <ol className="relative border-l border-slate-700 ml-2 space-y-3 max-h-80 overflow-y-auto">
+              {timeline.map(entry => {
+                const { severity } = entry.report.riskAssessment;
+                return (
+                  <li key={entry.id} className="ml-4">
+                    <span className={`absolute -left-1.5 mt-4 w-3 h-3 rounded-full ${severityConfig[severity].color}`}></span>
+                    <button
+                      onClick={() => onSelectHistory(entry)}
+                      className={`w-full text-left p-3 rounded-lg transition-colors duration-200 ${activeId === entry.id ? 'bg-cyan-500/10' : 'hover:bg-slate-800/50'}`}
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="font-semibold text-slate-100 truncate">{entry.report.faultSummary}</span>
+                        <span className={`text-xs font-bold flex-shrink-0 ${severityConfig[severity].textColor}`}>{t(`severity.${severity}`)}</span>
+                      </div>
+                      <div className="text-xs text-slate-400 mt-1">{new Date(entry.timestamp).toLocaleString()}</div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <p className="text-center text-slate-500 py-6">{t('assets.noCases')}</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
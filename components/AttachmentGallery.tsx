@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { ImageAttachment, MarkedRegion } from '../types';
+import { extractVideoKeyframes, readFileAsBase64 } from '../services/media';
+import { UploadIcon, XCircleIcon } from './icons';
+import { AnnotatedImage } from './AnnotatedImage';
+import { RegionMarker } from './RegionMarker';
+import { Translate } from '../services/i18n';
+
+interface AttachmentGalleryProps {
+  attachments: ImageAttachment[];
+  onChange: (attachments: ImageAttachment[]) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+export const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ attachments, onChange, onError, t }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [markingIndex, setMarkingIndex] = useState<number | null>(null);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    try {
+      const added = await Promise.all(files.map(async file => ({
+        mimeType: file.type,
+        data: await readFileAsBase64(file),
+        caption: '',
+      })));
+      onChange([...attachments, ...added]);
+    } catch (err: any) {
+      onError(t('image.readError', { error: err.message || err }));
+    }
+  };
+
+  const handleVideoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsExtracting(true);
+    try {
+      onChange([...attachments, ...(await extractVideoKeyframes(file))]);
+    } catch (err: any) {
+      onError(t('image.extractError', { error: err.message || err }));
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const updateCaption = (index: number, caption: string) => {
+    onChange(attachments.map((attachment, i) => (i === index ? { ...attachment, caption } : attachment)));
+  };
+
+  const updateRegions = (index: number, regions: MarkedRegion[]) => {
+    onChange(attachments.map((attachment, i) => (i === index ? { ...attachment, regions } : attachment)));
+  };
+
+  const removeAttachment = (index: number) => {
+    setMarkingIndex(null);
+    onChange(attachments.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      {markingIndex !== null && attachments[markingIndex] && (
+        <RegionMarker
+          image={attachments[markingIndex]}
+          imageNumber={markingIndex + 1}
+          onChange={(regions) => updateRegions(markingIndex, regions)}
+          onClose={() => setMarkingIndex(null)}
+          t={t}
+        />
+      )}
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-2 gap-3 mb-3">
+          {attachments.map((attachment, i) => (
+            <li key={i} className="relative group bg-slate-800/50 rounded-lg border border-slate-700 p-2">
+              <span className="absolute top-3 left-3 bg-black/60 text-xs font-semibold text-white px-2 py-0.5 rounded">{t('report.image', { number: i + 1 })}</span>
+              <div className="h-28 flex items-center justify-center rounded bg-black/20">
+                <AnnotatedImage
+                  image={attachment}
+                  imageNumber={i + 1}
+                  overlays={(attachment.regions ?? []).map(region => ({ ...region, marked: true }))}
+                  imageClassName="max-h-28"
+                  showLabels={false}
+                  t={t}
+                />
+              </div>
+              <button onClick={() => removeAttachment(i)} className="absolute top-3 right-3 bg-black/60 rounded-full p-1 text-white hover:bg-red-500 transition-colors opacity-0 group-hover:opacity-100" aria-label={t('image.remove', { number: i + 1 })}>
+                <XCircleIcon className="w-5 h-5"/>
+              </button>
+              <input
+                type="text"
+                value={attachment.caption}
+                onChange={(e) => updateCaption(i, e.target.value)}
+                placeholder={t('image.captionPlaceholder')}
+                className="mt-2 w-full bg-slate-900/50 border border-slate-700 rounded p-1.5 text-xs focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+              />
+              <button
+                type="button"
+                onClick={() => setMarkingIndex(markingIndex === i ? null : i)}
+                className={`mt-1.5 text-xs font-medium ${markingIndex === i ? 'text-cyan-300' : 'text-slate-400 hover:text-cyan-400'}`}
+              >
+                <i className="fas fa-vector-square mr-1.5"></i>
+                {!attachment.regions?.length ? t('image.markArea') : attachment.regions.length === 1 ? t('image.markedOne') : t('image.markedMany', { count: attachment.regions.length })}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="grid grid-cols-2 gap-3">
+        <div
+          onClick={() => imageInputRef.current?.click()}
+          className="relative block w-full border-2 border-slate-700 border-dashed rounded-lg p-6 text-center hover:border-cyan-500 cursor-pointer transition-colors"
+        >
+          <UploadIcon className="mx-auto h-10 w-10 text-slate-500" />
+          <span className="mt-2 block text-sm font-medium text-slate-400">
+            {attachments.length > 0 ? t('image.addMore') : t('image.upload')}
+          </span>
+          <input type="file" ref={imageInputRef} onChange={handleImageChange} accept="image/*" multiple className="hidden" />
+        </div>
+        <div
+          onClick={() => !isExtracting && videoInputRef.current?.click()}
+          className={`relative block w-full border-2 border-slate-700 border-dashed rounded-lg p-6 text-center transition-colors ${isExtracting ? 'cursor-wait opacity-60' : 'hover:border-cyan-500 cursor-pointer'}`}
+        >
+          <i className={`fas ${isExtracting ? 'fa-spinner fa-spin' : 'fa-film'} text-4xl text-slate-500`}></i>
+          <span className="mt-2 block text-sm font-medium text-slate-400">
+            {isExtracting ? t('image.extracting') : t('image.fromVideo')}
+          </span>
+          <input type="file" ref={videoInputRef} onChange={handleVideoChange} accept="video/*" className="hidden" />
+        </div>
+      </div>
+    </div>
+  );
+};
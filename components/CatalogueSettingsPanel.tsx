@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import { CostSettings } from '../types';
+import { ChevronDownIcon } from './icons';
+import { Translate } from '../services/i18n';
+
+interface CatalogueSettingsPanelProps {
+  itemCount: number;
+  costSettings: CostSettings;
+  onCostSettingsChange: (settings: CostSettings) => void;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  t: Translate;
+}
+
+const inputClassName = "w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm";
+
+export const CatalogueSettingsPanel: React.FC<CatalogueSettingsPanelProps> = ({ itemCount, costSettings, onCostSettingsChange, onImport, onClear, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="border-b border-slate-700 mb-6 pb-6">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full text-left p-2 rounded-lg hover:bg-slate-800/50 transition-colors">
+        <h3 className="text-lg font-semibold text-slate-200">{t('catalogue.title')}</h3>
+        <span className="flex items-center text-sm text-slate-400">
+          {itemCount > 0 ? t('catalogue.items', { count: itemCount }) : t('catalogue.none')}
+          <ChevronDownIcon className={`w-6 h-6 ml-2 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-4 pl-2 space-y-4 text-sm">
+          <div>
+            <p className="text-slate-400 mb-2">{t('catalogue.formatHint')}</p>
+            <div className="flex gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className="bg-slate-700 hover:bg-cyan-800/60 text-slate-200 font-semibold py-2 px-4 rounded-lg transition-colors">
+                <i className="fas fa-file-upload fa-fw mr-1"></i>{t('catalogue.load')}
+              </button>
+              {itemCount > 0 && (
+                <button onClick={onClear} className="text-slate-400 hover:text-white py-2 px-4">{t('catalogue.clear')}</button>
+              )}
+            </div>
+            <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-slate-300 mb-1">{t('catalogue.laborRate')}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={costSettings.laborRate}
+                onChange={(e) => onCostSettingsChange({ ...costSettings, laborRate: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-slate-300 mb-1">{t('catalogue.currency')}</span>
+              <input
+                type="text"
+                maxLength={3}
+                value={costSettings.currency}
+                onChange={(e) => onCostSettingsChange({ ...costSettings, currency: e.target.value.toUpperCase() })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
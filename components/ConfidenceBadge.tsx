@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface ConfidenceBadgeProps {
+  /** Share of consensus runs that agreed, 0–1. */
+  confidence: number;
+  runs: number;
+}
+
+const confidenceClassName = (confidence: number) =>
+  confidence >= 0.75 ? 'bg-cyan-500/20 text-cyan-300' : confidence >= 0.5 ? 'bg-slate-600/50 text-slate-300' : 'bg-amber-500/20 text-amber-300';
+
+export const ConfidenceBadge: React.FC<ConfidenceBadgeProps> = ({ confidence, runs }) => (
+  <span
+    className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full align-middle ${confidenceClassName(confidence)}`}
+    title={`${Math.round(confidence * runs)} of ${runs} runs agreed`}
+  >
+    {Math.round(confidence * 100)}%
+  </span>
+);
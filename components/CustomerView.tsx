@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { CustomerSummary, HistoryEntry } from '../types';
+import { severityLevels } from '../services/severity';
+import { Translate } from '../services/i18n';
+
+interface CustomerViewProps {
+  entry: HistoryEntry;
+  summary?: CustomerSummary;
+  isGenerating: boolean;
+  onGenerate: () => void;
+  onShare: (summary: CustomerSummary) => Promise<'shared' | 'copied'>;
+  onPrint: (summary: CustomerSummary) => void;
+  /** Translates into the report's language, since the summary is written for the customer. */
+  t: Translate;
+}
+
+/** The report in plain language with nothing internal, ready to share with the equipment's owner. */
+export const CustomerView: React.FC<CustomerViewProps> = ({ entry, summary, isGenerating, onGenerate, onShare, onPrint, t }) => {
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  if (!summary) {
+    return (
+      <div className="bg-slate-800/40 rounded-lg p-4 border border-slate-700/50 space-y-3 text-slate-300">
+        <p>{entry.report.simplifiedExplanation}</p>
+        {isGenerating ? (
+          <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>{t('customer.writing')}</p>
+        ) : (
+          <button onClick={onGenerate} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium">{t('customer.write')}</button>
+        )}
+      </div>
+    );
+  }
+
+  const handleShare = async () => {
+    try {
+      setShareStatus(await onShare(summary) === 'copied' ? t('customer.copied') : null);
+    } catch (err: any) {
+      // Closing the share sheet rejects with AbortError; that isn't a failure.
+      if (err?.name === 'AbortError') return;
+      console.error("Failed to share customer summary:", err);
+      setShareStatus(t('customer.shareError', { error: err.message || err }));
+    }
+  };
+
+  const isSerious = severityLevels[entry.report.riskAssessment.severity] >= severityLevels.High;
+
+  return (
+    <div className="bg-slate-100 text-slate-800 rounded-lg p-5 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <h3 className="text-xl font-bold text-slate-900">{summary.headline}</h3>
+        <div className="flex gap-2 flex-shrink-0">
+          <button onClick={handleShare} className="text-sm bg-cyan-600 hover:bg-cyan-500 text-white font-semibold py-1.5 px-3 rounded-lg transition-colors">
+            <i className="fas fa-share-alt fa-fw mr-1"></i>{t('customer.share')}
+          </button>
+          <button onClick={() => onPrint(summary)} className="text-sm bg-slate-300 hover:bg-slate-400 text-slate-800 font-semibold py-1.5 px-3 rounded-lg transition-colors">
+            <i className="fas fa-print fa-fw mr-1"></i>{t('customer.print')}
+          </button>
+        </div>
+      </div>
+      {shareStatus && <p className="text-xs text-slate-500" role="status">{shareStatus}</p>}
+      <p>{summary.whatWeFound}</p>
+      <div>
+        <h4 className="font-semibold text-slate-900 mb-1">{t('customer.whatWeWillDo')}</h4>
+        <ul className="list-disc list-inside space-y-1">
+          {summary.whatWeWillDo.map((step, i) => <li key={i}>{step}</li>)}
+        </ul>
+      </div>
+      <div className={`border-l-4 pl-3 py-1 ${isSerious ? 'border-red-500 bg-red-50' : 'border-green-500 bg-green-50'}`}>
+        <h4 className="font-semibold text-slate-900">{t('customer.isItSafe')}</h4>
+        <p>{summary.isItSafe}</p>
+      </div>
+      <div>
+        <h4 className="font-semibold text-slate-900 mb-1">{t('customer.whatHappensNext')}</h4>
+        <p>{summary.whatHappensNext}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { DataFileSummary } from '../types';
+import { ChannelLimits, DataFileUpload, readDataFile, summarizeDataFile, formatReading } from '../services/dataFiles';
+import { TelemetryChart } from './TelemetryChart';
+import { XCircleIcon } from './icons';
+import { Translate } from '../services/i18n';
+
+interface DataFileUploaderProps {
+  uploads: DataFileUpload[];
+  onChange: (uploads: DataFileUpload[]) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+const parseLimit = (value: string): number | undefined => (value.trim() === '' || !Number.isFinite(Number(value)) ? undefined : Number(value));
+
+/**
+ * Uploads telemetry CSVs, fault-code dumps and logs, which are summarized on
+ * this device. Telemetry is screened for anomalies straight away, so flagged
+ * windows can be checked on a chart before anything is sent to a model.
+ */
+export const DataFileUploader: React.FC<DataFileUploaderProps> = ({ uploads, onChange, onError, t }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  // Keyed by upload: updateLimits replaces only the upload being edited, so typing a limit re-screens that file alone.
+  const summaryCache = useRef(new WeakMap<DataFileUpload, DataFileSummary>());
+  const summaries = uploads.map(upload => {
+    const cached = summaryCache.current.get(upload);
+    if (cached) return cached;
+    const summary = summarizeDataFile(upload);
+    summaryCache.current.set(upload, summary);
+    return summary;
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsReading(true);
+    try {
+      onChange([...uploads, ...(await Promise.all(files.map(readDataFile)))]);
+    } catch (err: any) {
+      onError(t('dataFile.readError', { error: err.message || err }));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateLimits = (index: number, channel: string, limits: ChannelLimits) => {
+    onChange(uploads.map((upload, i) => (i === index ? { ...upload, limits: { ...upload.limits, [channel]: { ...upload.limits[channel], ...limits } } } : upload)));
+  };
+
+  return (
+    <div>
+      {summaries.length > 0 && (
+        <ul className="space-y-3 mb-3">
+          {summaries.map((summary, i) => (
+            <li key={`${i}:${summary.fileName}`} className="relative bg-slate-800/50 rounded-lg border border-slate-700 p-3">
+              <div className="flex items-baseline gap-2 pr-8">
+                <span className="text-sm font-medium text-slate-200 truncate">{summary.fileName}</span>
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300 flex-shrink-0">{t(`dataFile.kind.${summary.kind}`)}</span>
+                <span className="text-xs text-slate-500 flex-shrink-0">{t(summary.kind === 'telemetry' ? 'dataFile.rows' : 'dataFile.lines', { count: summary.recordCount })}</span>
+              </div>
+              <button onClick={() => onChange(uploads.filter((_, j) => j !== i))} className="absolute top-2.5 right-2.5 text-slate-500 hover:text-red-400 transition-colors" aria-label={t('dataFile.remove', { fileName: summary.fileName })}>
+                <XCircleIcon className="w-5 h-5"/>
+              </button>
+              {summary.channels.length > 0 && (
+                <table className="w-full mt-2 text-xs">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="font-medium pb-1">{t('dataFile.channel')}</th>
+                      <th className="font-medium pb-1">{t('dataFile.range')}</th>
+                      <th className="font-medium pb-1 w-20">{t('dataFile.low')}</th>
+                      <th className="font-medium pb-1 w-20">{t('dataFile.high')}</th>
+                      <th className="font-medium pb-1 w-20" title={t('dataFile.maxStepHint')}>{t('dataFile.maxStep')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.channels.map(channel => (
+                      <tr key={channel.name}>
+                        <td className="py-0.5 pr-2 text-slate-300">{channel.name}</td>
+                        <td className="py-0.5 pr-2 text-slate-400">
+                          {formatReading(channel.min)} – {formatReading(channel.max)}
+                          {channel.crossings.length > 0 && <span className="ml-1.5 text-red-300">{t(channel.crossings.length === 1 ? 'dataFile.crossingOne' : 'dataFile.crossingMany', { count: channel.crossings.length })}</span>}
+                          {channel.anomalies?.length ? <span className="ml-1.5 text-amber-300">{t('dataFile.flagged', { count: channel.anomalies.length })}</span> : null}
+                        </td>
+                        {(['low', 'high', 'maxStep'] as const).map(bound => (
+                          <td key={bound} className="py-0.5 pr-1">
+                            <input
+                              type="number"
+                              step="any"
+                              defaultValue={uploads[i].limits[channel.name]?.[bound]}
+                              onChange={(e) => updateLimits(i, channel.name, { [bound]: parseLimit(e.target.value) })}
+                              aria-label={t('dataFile.limitFor', { limit: t(bound === 'low' ? 'dataFile.low' : bound === 'high' ? 'dataFile.high' : 'dataFile.maxStep'), channel: channel.name })}
+                              className="w-full bg-slate-900/50 border border-slate-700 rounded px-1.5 py-0.5 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+                            />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {summary.channels.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setPreviewing(previewing === `${i}:${summary.fileName}` ? null : `${i}:${summary.fileName}`)}
+                  className="mt-2 text-xs font-medium text-slate-400 hover:text-cyan-400"
+                >
+                  <i className="fas fa-chart-area mr-1.5"></i>
+                  {previewing === `${i}:${summary.fileName}` ? t('dataFile.hideCharts') : t('dataFile.previewCharts')}
+                </button>
+              )}
+              {previewing === `${i}:${summary.fileName}` && (
+                <div className="mt-2 space-y-3">
+                  {summary.channels.map(channel => (
+                    <div key={channel.name}>
+                      <p className="text-xs text-slate-300 mb-1">{channel.name}</p>
+                      <TelemetryChart channel={channel} xAxis={summary.xAxis} t={t} />
+                    </div>
+                  ))}
+                </div>
+              )}
+              {summary.kind !== 'telemetry' && (
+                <p className="mt-1 text-xs text-slate-400">
+                  {summary.kind === 'log' && `${t('dataFile.logLines', { errors: summary.errorLines, warnings: summary.warningLines })} · `}
+                  {summary.codes.length > 0 ? t('dataFile.codes', { codes: `${summary.codes.slice(0, 6).map(code => code.code).join(', ')}${summary.codes.length > 6 ? '…' : ''}` }) : t('dataFile.noCodes')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div
+        onClick={() => !isReading && inputRef.current?.click()}
+        className={`relative block w-full border-2 border-slate-700 border-dashed rounded-lg p-4 text-center transition-colors ${isReading ? 'cursor-wait opacity-60' : 'hover:border-cyan-500 cursor-pointer'}`}
+      >
+        <i className={`fas ${isReading ? 'fa-spinner fa-spin' : 'fa-chart-line'} text-2xl text-slate-500`}></i>
+        <span className="mt-2 block text-sm font-medium text-slate-400">
+          {isReading ? t('dataFile.reading') : t('dataFile.addPrompt')}
+        </span>
+        <input type="file" ref={inputRef} onChange={handleFileChange} accept=".csv,.tsv,.txt,.log,text/csv,text/plain" multiple className="hidden" />
+      </div>
+      <p className="mt-1.5 text-xs text-slate-500">{t('dataFile.localNote')}</p>
+    </div>
+  );
+};
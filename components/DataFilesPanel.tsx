@@ -0,0 +1,98 @@
+import React from 'react';
+import { DataFileSummary } from '../types';
+import { describeAnomaly, formatPosition, formatReading } from '../services/dataFiles';
+import { TelemetryChart } from './TelemetryChart';
+import { Translate } from '../services/i18n';
+
+interface DataFilesPanelProps {
+  files: DataFileSummary[];
+  t: Translate;
+}
+
+/** The report's view of the case's data files: a chart per telemetry channel with its flagged windows, and the codes and messages found in logs. */
+export const DataFilesPanel: React.FC<DataFilesPanelProps> = ({ files, t }) => (
+  <div className="space-y-6">
+    {files.map((file, fileIndex) => (
+      <div key={fileIndex} className="space-y-3">
+        <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+          <h4 className="font-semibold text-slate-200">{file.fileName}</h4>
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{t(`dataFile.kind.${file.kind}`)}</span>
+          <span className="text-xs text-slate-500">
+            {t(file.kind === 'telemetry' ? 'dataFile.rows' : 'dataFile.lines', { count: file.recordCount })}{file.period ? ` · ${t('dataFile.period', file.period)}` : ''}
+          </span>
+        </div>
+
+        {file.channels.map(channel => (
+          <div key={channel.name}>
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-1">
+              <span className="text-sm font-medium text-slate-300">{channel.name}</span>
+              <span className="text-xs text-slate-500">
+                {channel.low !== undefined && t('dataFile.lowValue', { value: formatReading(channel.low) })}
+                {channel.low !== undefined && channel.high !== undefined && ' · '}
+                {channel.high !== undefined && t('dataFile.highValue', { value: formatReading(channel.high) })}
+                {channel.anomalies?.length ? ` · ${t(channel.anomalies.length === 1 ? 'dataFile.windowOne' : 'dataFile.windowMany', { count: channel.anomalies.length })}` : null}
+              </span>
+            </div>
+            <TelemetryChart channel={channel} xAxis={file.xAxis} t={t} />
+            {channel.crossings.length > 0 && (
+              <ul className="mt-1 text-xs text-red-300 space-y-0.5">
+                {channel.crossings.map((crossing, i) => (
+                  <li key={i}>
+                    {t(crossing.limit === 'high' ? 'dataFile.aboveLimit' : 'dataFile.belowLimit', {
+                      start: formatPosition(crossing.start, file.xAxis, t),
+                      end: formatPosition(crossing.end, file.xAxis, t),
+                      extreme: formatReading(crossing.extreme),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {channel.anomalies?.length ? (
+              <ul className="mt-1 text-xs text-amber-300 space-y-0.5">
+                {channel.anomalies.map((anomaly, i) => <li key={i}>{describeAnomaly(anomaly, file.xAxis, t)}</li>)}
+              </ul>
+            ) : null}
+          </div>
+        ))}
+
+        {file.kind === 'log' && (
+          <p className="text-sm text-slate-400">
+            {t('dataFile.logLines', { errors: file.errorLines, warnings: file.warningLines })}
+          </p>
+        )}
+
+        {file.codes.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="font-medium pb-1">{t('dataFile.code')}</th>
+                <th className="font-medium pb-1">{t('dataFile.meaning')}</th>
+                <th className="font-medium pb-1 text-right">{t('dataFile.seen')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {file.codes.map(code => (
+                <tr key={code.code} className="border-t border-slate-700/50">
+                  <td className="py-1 pr-3 font-mono text-cyan-300">{code.code}</td>
+                  <td className="py-1 pr-3 text-slate-300">{code.description ?? <span className="text-slate-500">{t('dataFile.notInTable')}</span>}</td>
+                  <td className="py-1 text-right text-slate-400">{code.count}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {file.topMessages.length > 0 && (
+          <div>
+            <p className="text-xs text-slate-500 mb-1">{t('dataFile.topMessages')}</p>
+            <ul className="space-y-0.5 text-xs font-mono text-slate-300">
+              {file.topMessages.map((message, i) => (
+                <li key={i} className="truncate" title={message.text}><span className="text-slate-500">{message.count}×</span> {message.text}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    ))}
+  </div>
+);
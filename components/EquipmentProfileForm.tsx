@@ -0,0 +1,87 @@
+import React from 'react';
+import { EquipmentDomain, EquipmentProfile } from '../types';
+import { createEmptyProfile, domainTemplates } from '../services/equipmentTemplates';
+import { Translate } from '../services/i18n';
+
+interface EquipmentProfileFormProps {
+  profile: EquipmentProfile | null;
+  onChange: (profile: EquipmentProfile | null) => void;
+  t: Translate;
+}
+
+const inputClassName = "w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm";
+
+const parseOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+export const EquipmentProfileForm: React.FC<EquipmentProfileFormProps> = ({ profile, onChange, t }) => {
+  const handleDomainChange = (value: string) => {
+    if (!value) {
+      onChange(null);
+      return;
+    }
+    const domain = value as EquipmentDomain;
+    // Keep the common fields when switching templates; the domain-specific answers no longer apply.
+    onChange(profile ? { ...profile, domain, domainFields: {} } : createEmptyProfile(domain));
+  };
+
+  const update = (changes: Partial<EquipmentProfile>) => {
+    if (profile) onChange({ ...profile, ...changes });
+  };
+
+  const updateDomainField = (id: string, value: string) => {
+    if (profile) onChange({ ...profile, domainFields: { ...profile.domainFields, [id]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        id="equipment-domain"
+        value={profile?.domain ?? ''}
+        onChange={(e) => handleDomainChange(e.target.value)}
+        className={inputClassName}
+      >
+        <option value="">{t('equipment.notSpecified')}</option>
+        {(Object.keys(domainTemplates) as EquipmentDomain[]).map(domain => (
+          <option key={domain} value={domain}>{domainTemplates[domain].label}</option>
+        ))}
+      </select>
+
+      {profile && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input type="text" aria-label={t('equipment.manufacturer')} placeholder={t('equipment.manufacturer')} value={profile.manufacturer} onChange={(e) => update({ manufacturer: e.target.value })} className={inputClassName} />
+          <input type="text" aria-label={t('equipment.model')} placeholder={t('equipment.model')} value={profile.model} onChange={(e) => update({ model: e.target.value })} className={inputClassName} />
+          <input type="text" aria-label={t('equipment.serialNumber')} placeholder={t('equipment.serialNumber')} value={profile.serialNumber} onChange={(e) => update({ serialNumber: e.target.value })} className={inputClassName} />
+          <input type="text" aria-label={t('equipment.environment')} placeholder={t('equipment.environmentPlaceholder')} value={profile.environment} onChange={(e) => update({ environment: e.target.value })} className={inputClassName} />
+          <input type="number" min={0} step="any" aria-label={t('equipment.age')} placeholder={t('equipment.agePlaceholder')} value={profile.ageYears ?? ''} onChange={(e) => update({ ageYears: parseOptionalNumber(e.target.value) })} className={inputClassName} />
+          <input type="number" min={0} step="any" aria-label={t('equipment.operatingHours')} placeholder={t('equipment.operatingHours')} value={profile.operatingHours ?? ''} onChange={(e) => update({ operatingHours: parseOptionalNumber(e.target.value) })} className={inputClassName} />
+
+          {domainTemplates[profile.domain].fields.map(field => (
+            <div key={field.id}>
+              <label htmlFor={`equipment-${field.id}`} className="block text-xs font-medium text-slate-400 mb-1">{field.label}</label>
+              {field.options ? (
+                <select
+                  id={`equipment-${field.id}`}
+                  value={profile.domainFields[field.id] ?? ''}
+                  onChange={(e) => updateDomainField(field.id, e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">—</option>
+                  {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  id={`equipment-${field.id}`}
+                  type="text"
+                  placeholder={field.placeholder}
+                  value={profile.domainFields[field.id] ?? ''}
+                  onChange={(e) => updateDomainField(field.id, e.target.value)}
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { EquipmentDomain, HistoryEntry } from '../types';
+import { emptyHistoryFilter, filterHistory, HistoryFilter, HistorySort, isHistoryFiltered, MediaFilter } from '../services/historyFilter';
+import { Severity, severityLevels } from '../services/severity';
+import { domainTemplates } from '../services/equipmentTemplates';
+import { severityConfig } from './severityStyles';
+import { Translate } from '../services/i18n';
+
+interface HistoryPanelProps {
+  history: HistoryEntry[];
+  activeId: string | null;
+  onSelectHistory: (entry: HistoryEntry) => void;
+  onDeleteEntries: (ids: string[]) => void;
+  onExportEntries: (entries: HistoryEntry[]) => void;
+  onCompareEntries: (entries: [HistoryEntry, HistoryEntry]) => void;
+  t: Translate;
+}
+
+const controlClassName = "bg-slate-800/50 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500";
+
+const actionClassName = "flex items-center text-xs bg-slate-800/50 hover:bg-cyan-800/60 text-slate-300 hover:text-white font-semibold py-1.5 px-2.5 rounded-lg transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed";
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, activeId, onSelectHistory, onDeleteEntries, onExportEntries, onCompareEntries, t }) => {
+  const [filter, setFilter] = useState<HistoryFilter>(emptyHistoryFilter);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visible = filterHistory(history, filter);
+  // Selections of cases that have since been deleted or filtered out don't count.
+  const selected = visible.filter(entry => selectedIds.has(entry.id));
+  const allVisibleSelected = visible.length > 0 && selected.length === visible.length;
+
+  const update = (changes: Partial<HistoryFilter>) => setFilter({ ...filter, ...changes });
+
+  const toggleSeverity = (severity: Severity) =>
+    update({ severities: filter.severities.includes(severity) ? filter.severities.filter(s => s !== severity) : [...filter.severities, severity] });
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setSelectedIds(next);
+  };
+
+  const handleDelete = () => {
+    onDeleteEntries(selected.map(entry => entry.id));
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="bg-slate-900/70 p-4 rounded-xl shadow-2xl backdrop-blur-lg glow-border">
+      <div className="flex gap-2 mb-3">
+        <div className="relative flex-grow">
+          <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm"></i>
+          <input
+            type="search"
+            aria-label={t('history.search')}
+            placeholder={t('history.searchPlaceholder')}
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            className={`${controlClassName} w-full pl-9`}
+          />
+        </div>
+        <select aria-label={t('history.sort')} value={filter.sort} onChange={(e) => update({ sort: e.target.value as HistorySort })} className={controlClassName}>
+          <option value="newest">{t('history.newest')}</option>
+          <option value="oldest">{t('history.oldest')}</option>
+          <option value="severity">{t('history.mostSevere')}</option>
+        </select>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`${controlClassName} ${isHistoryFiltered(filter) ? 'text-cyan-300 border-cyan-500/50' : 'text-slate-300'} hover:text-white`}
+          aria-expanded={showFilters}
+          aria-label={t('history.filters')}
+        >
+          <i className="fas fa-filter fa-fw"></i>
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3 p-3 bg-slate-800/40 rounded-lg border border-slate-700 text-sm">
+          <div className="sm:col-span-2 flex flex-wrap gap-2" role="group" aria-label={t('history.severity')}>
+            {(Object.keys(severityLevels) as Severity[]).map(severity => (
+              <button
+                key={severity}
+                onClick={() => toggleSeverity(severity)}
+                aria-pressed={filter.severities.includes(severity)}
+                className={`px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${filter.severities.includes(severity) ? `${severityConfig[severity].color} text-white border-transparent` : 'border-slate-600 text-slate-400 hover:text-white'}`}
+              >
+                {t(`severity.${severity}`)}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-slate-400">
+            {t('history.from')}
+            <input type="date" value={filter.from} onChange={(e) => update({ from: e.target.value })} className={`${controlClassName} flex-grow`} />
+          </label>
+          <label className="flex items-center gap-2 text-slate-400">
+            {t('history.to')}
+            <input type="date" value={filter.to} onChange={(e) => update({ to: e.target.value })} className={`${controlClassName} flex-grow`} />
+          </label>
+          <select aria-label={t('history.domain')} value={filter.domain} onChange={(e) => update({ domain: e.target.value as HistoryFilter['domain'] })} className={controlClassName}>
+            <option value="all">{t('history.allDomains')}</option>
+            {(Object.keys(domainTemplates) as EquipmentDomain[]).map(domain => <option key={domain} value={domain}>{domainTemplates[domain].label}</option>)}
+            <option value="none">{t('history.noProfile')}</option>
+          </select>
+          <select aria-label={t('history.attachments')} value={filter.media} onChange={(e) => update({ media: e.target.value as MediaFilter })} className={controlClassName}>
+            <option value="any">{t('history.anyAttachments')}</option>
+            <option value="images">{t('history.withImages')}</option>
+            <option value="voice">{t('history.withVoiceNote')}</option>
+          </select>
+          {isHistoryFiltered(filter) && (
+            <button onClick={() => setFilter({ ...emptyHistoryFilter, sort: filter.sort })} className="sm:col-span-2 text-left text-cyan-400 hover:text-cyan-300 font-medium">
+              {t('history.clearFilters')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="flex items-center justify-between gap-2 mb-2 text-xs text-slate-400">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={() => setSelectedIds(allVisibleSelected ? new Set() : new Set(visible.map(entry => entry.id)))}
+              className="accent-cyan-500"
+            />
+            {selected.length > 0 ? t('history.selected', { count: selected.length }) : t('history.showing', { visible: visible.length, total: history.length })}
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onCompareEntries([selected[0], selected[1]])}
+              disabled={selected.length !== 2}
+              title={t('history.compareHint')}
+              className={actionClassName}
+            >
+              <i className="fas fa-columns fa-fw mr-1"></i>{t('history.compare')}
+            </button>
+            <button onClick={() => onExportEntries(selected)} disabled={selected.length === 0} className={actionClassName}>
+              <i className="fas fa-file-export fa-fw mr-1"></i>{t('history.export')}
+            </button>
+            <button onClick={handleDelete} disabled={selected.length === 0} className={`${actionClassName} hover:bg-red-800/60`}>
+              <i className="fas fa-trash-alt fa-fw mr-1"></i>{t('history.delete')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto">
+        {visible.length > 0 ? (
+          <ul className="space-y-2">
+            {visible.map((entry) => {
+              const { severity } = entry.report.riskAssessment;
+              return (
+                <li key={entry.id} className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    aria-label={t('history.selectCase', { faultSummary: entry.report.faultSummary })}
+                    checked={selectedIds.has(entry.id)}
+                    onChange={() => toggleSelected(entry.id)}
+                    className="mt-4 ml-1 accent-cyan-500"
+                  />
+                  <button
+                    onClick={() => onSelectHistory(entry)}
+                    className={`flex-grow min-w-0 text-left p-3 rounded-lg transition-colors duration-200 ${activeId === entry.id ? 'bg-cyan-500/10' : 'hover:bg-slate-800/50'}`}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="font-semibold text-slate-100 truncate">{entry.report.faultSummary}</span>
+                      <span className={`text-xs font-bold flex-shrink-0 ${severityConfig[severity].textColor}`}>{t(`severity.${severity}`)}</span>
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">
+                      {new Date(entry.timestamp).toLocaleString()}
+                      {entry.userInput.images.length > 0 && <i className="fas fa-image fa-fw ml-2" title={t('history.hasImages')}></i>}
+                      {(entry.userInput.audio || entry.userInput.audioClip) && <i className="fas fa-microphone fa-fw ml-1" title={t('history.hasVoiceNote')}></i>}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <div className="text-center text-slate-500 py-8">
+            <p>{history.length > 0 ? t('history.noMatches') : t('history.empty')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
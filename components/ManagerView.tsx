@@ -0,0 +1,108 @@
+import React from 'react';
+import { HistoryEntry, ManagerBrief } from '../types';
+import { RepairEstimate, formatMoney } from '../services/repairEstimate';
+import { workItemFor } from '../services/workItems';
+import { severityConfig } from './severityStyles';
+import { workItemStatusStyles } from './WorkItemEditor';
+import { Translate } from '../services/i18n';
+
+interface ManagerViewProps {
+  entry: HistoryEntry;
+  estimate: RepairEstimate | null;
+  currency: string;
+  brief?: ManagerBrief;
+  isGenerating: boolean;
+  onGenerate: () => void;
+  /** Translates into the report's language, since the brief is read outside the app. */
+  t: Translate;
+}
+
+const Card: React.FC<{ label: string; icon: string; children: React.ReactNode }> = ({ label, icon, children }) => (
+  <div className="bg-slate-800/40 rounded-lg p-4 border border-slate-700/50">
+    <p className="text-xs uppercase tracking-wide text-slate-500 mb-1"><i className={`fas ${icon} fa-fw mr-1`}></i>{label}</p>
+    {children}
+  </div>
+);
+
+const Pending: React.FC<{ isGenerating: boolean; onGenerate: () => void; t: Translate }> = ({ isGenerating, onGenerate, t }) =>
+  isGenerating ? (
+    <p className="text-sm text-slate-400"><i className="fas fa-spinner fa-spin mr-2"></i>{t('manager.estimating')}</p>
+  ) : (
+    <button onClick={onGenerate} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium">{t('manager.estimate')}</button>
+  );
+
+/** Risk, cost, downtime and the urgent work, for whoever schedules and pays for the repair. */
+export const ManagerView: React.FC<ManagerViewProps> = ({ entry, estimate, currency, brief, isGenerating, onGenerate, t }) => {
+  const { report } = entry;
+  const { severity, summary, potentialConsequences } = report.riskAssessment;
+  const urgentFixes = report.recommendedFixes.filter(fix => fix.priority === 'Urgent');
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Card label={t('manager.risk')} icon="fa-shield-alt">
+          <p className={`text-2xl font-bold ${severityConfig[severity].textColor}`}>{t(`severity.${severity}`)}</p>
+        </Card>
+        <Card label={t('manager.downtime')} icon="fa-clock">
+          {brief ? (
+            <>
+              <p className="text-2xl font-bold text-slate-100">{brief.downtimeEstimate}</p>
+              <p className="text-xs text-slate-400">{t('manager.aboutHours', { hours: brief.downtimeHours })}</p>
+            </>
+          ) : <Pending isGenerating={isGenerating} onGenerate={onGenerate} t={t} />}
+        </Card>
+        <Card label={t('manager.cost')} icon="fa-receipt">
+          {estimate && estimate.total > 0 ? (
+            <>
+              <p className="text-2xl font-bold text-slate-100">{formatMoney(estimate.total, currency)}</p>
+              <p className="text-xs text-slate-400">
+                {t('manager.costBreakdown', { parts: formatMoney(estimate.partsTotal, currency), hours: estimate.laborHours })}
+                {estimate.unmatched.length > 0 && ` · ${t('manager.unpriced', { count: estimate.unmatched.length })}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">{t('manager.notPriced')}</p>
+          )}
+        </Card>
+      </div>
+
+      <div className="bg-slate-800/40 rounded-lg p-4 border border-slate-700/50 space-y-3 text-slate-300">
+        <p>{summary}</p>
+        {brief && (
+          <>
+            <p><span className="font-semibold text-slate-200">{t('manager.impact')} </span>{brief.businessImpact}</p>
+            <p><span className="font-semibold text-slate-200">{t('manager.recommendation')} </span>{brief.recommendation}</p>
+          </>
+        )}
+        {potentialConsequences.length > 0 && (
+          <div>
+            <p className="font-semibold text-slate-200 mb-1">{t('manager.unrepaired')}</p>
+            <ul className="list-disc list-inside space-y-1 text-sm">
+              {potentialConsequences.map((item, i) => <li key={i}>{item}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/40 rounded-lg p-4 border border-slate-700/50">
+        <h4 className="font-semibold text-slate-200 mb-2">{t('manager.urgentFixes')}</h4>
+        {urgentFixes.length > 0 ? (
+          <ul className="space-y-2 text-sm">
+            {urgentFixes.map(fix => {
+              const item = workItemFor(entry, fix);
+              return (
+                <li key={fix.fix} className="flex items-center justify-between gap-2">
+                  <span className="text-slate-300">{fix.fix}</span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    {item.assignee && <span className="text-xs text-slate-400"><i className="fas fa-user fa-fw"></i>{item.assignee}</span>}
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${workItemStatusStyles[item.status]}`}>{t(`workItem.status.${item.status}`)}</span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : <p className="text-sm text-slate-500">{t('manager.noUrgentFixes')}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { OutstandingFix } from '../services/workItems';
+import { Translate } from '../services/i18n';
+import { workItemStatusStyles } from './WorkItemEditor';
+
+interface OutstandingFixesProps {
+  items: OutstandingFix[];
+  onSelectHistory: (entry: HistoryEntry) => void;
+  t: Translate;
+}
+
+export const OutstandingFixes: React.FC<OutstandingFixesProps> = ({ items, onSelectHistory, t }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="bg-red-500/5 border border-red-500/30 p-4 rounded-xl mb-4">
+      <h3 className="font-semibold text-red-300 mb-3 flex items-center">
+        <i className="fas fa-exclamation-circle fa-fw mr-2"></i>
+        {t('workItem.outstanding', { count: items.length })}
+      </h3>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {items.map(({ entry, item }) => (
+          <li key={`${entry.id}:${item.fix}`}>
+            <button onClick={() => onSelectHistory(entry)} className="w-full text-left p-2 rounded-lg hover:bg-slate-800/50 transition-colors">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-slate-100 truncate">{item.fix}</span>
+                <span className={`text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0 ${workItemStatusStyles[item.status]}`}>{t(`workItem.status.${item.status}`)}</span>
+              </div>
+              <div className="text-xs text-slate-400 mt-0.5 truncate">
+                {item.assignee || t('workItem.unassigned')} · 
+                {entry.report.faultSummary} · {new Date(entry.timestamp).toLocaleDateString()}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
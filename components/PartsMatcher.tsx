@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { CatalogueItem, CatalogueItemKind, CatalogueMatch, HistoryEntry } from '../types';
+import { CatalogueIndex, catalogueCandidates, catalogueMatchFor } from '../services/partsCatalogue';
+import { formatMoney } from '../services/repairEstimate';
+import { MessageKey, Translate } from '../services/i18n';
+
+interface PartsMatcherProps {
+  entry: HistoryEntry;
+  index: CatalogueIndex;
+  catalogue: Map<string, CatalogueItem>;
+  currency: string;
+  onConfirm: (match: CatalogueMatch) => void;
+  t: Translate;
+}
+
+interface MatchRowProps {
+  kind: CatalogueItemKind;
+  suggestion: string;
+  confirmed?: CatalogueMatch;
+  index: CatalogueIndex;
+  catalogue: Map<string, CatalogueItem>;
+  currency: string;
+  onConfirm: (match: CatalogueMatch) => void;
+  t: Translate;
+}
+
+// The select's value for "the catalogue has nothing suitable".
+const NO_MATCH = '';
+
+const MatchRow: React.FC<MatchRowProps> = ({ kind, suggestion, confirmed, index, catalogue, currency, onConfirm, t }) => {
+  const candidates = useMemo(() => catalogueCandidates(suggestion, index), [suggestion, index]);
+  const [sku, setSku] = useState(confirmed ? confirmed.sku ?? NO_MATCH : candidates[0]?.item.sku ?? NO_MATCH);
+  const [quantity, setQuantity] = useState(confirmed?.quantity ?? 1);
+
+  // A confirmed item that has since dropped out of the candidates (or the catalogue) still needs to be selectable.
+  const confirmedItem = confirmed?.sku ? catalogue.get(confirmed.sku) : undefined;
+  const options = confirmedItem && !candidates.some(c => c.item.sku === confirmedItem.sku)
+    ? [{ item: confirmedItem, score: 0 }, ...candidates]
+    : candidates;
+
+  const isConfirmed = confirmed !== undefined && (confirmed.sku ?? NO_MATCH) === sku && confirmed.quantity === quantity;
+
+  return (
+    <li className="p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="font-medium text-slate-200">{suggestion}</span>
+        {isConfirmed && <span className="text-xs font-semibold text-green-400 flex-shrink-0"><i className="fas fa-check fa-fw"></i>{t('catalogue.confirmed')}</span>}
+      </div>
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          aria-label={t('catalogue.itemFor', { suggestion })}
+          value={sku}
+          onChange={(e) => setSku(e.target.value)}
+          className="flex-grow min-w-0 bg-slate-800/50 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+        >
+          {options.map(({ item }) => (
+            <option key={item.sku} value={item.sku}>
+              {item.description} · {item.sku} · {formatMoney(item.price, currency)} · {item.stock > 0 ? t('catalogue.inStock', { count: item.stock }) : t('catalogue.outOfStock')}
+            </option>
+          ))}
+          <option value={NO_MATCH}>{options.length > 0 ? t('catalogue.noneOfThese') : t('catalogue.noMatch')}</option>
+        </select>
+        <input
+          type="number"
+          min="0"
+          aria-label={t('catalogue.quantityOf', { suggestion })}
+          value={quantity}
+          disabled={sku === NO_MATCH}
+          onChange={(e) => setQuantity(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+          className="w-20 bg-slate-800/50 border border-slate-700 rounded-lg p-2 text-sm disabled:opacity-40"
+        />
+        <button
+          onClick={() => onConfirm({ kind, suggestion, sku: sku || null, quantity })}
+          disabled={isConfirmed}
+          className="text-sm bg-cyan-700 hover:bg-cyan-600 text-white font-semibold py-2 px-3 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t('catalogue.confirm')}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+/** Lets the user confirm which catalogue item, if any, each of the report's suggested parts and tools refers to. */
+export const PartsMatcher: React.FC<PartsMatcherProps> = ({ entry, index, catalogue, currency, onConfirm, t }) => {
+  const { tools, parts } = entry.report.toolsAndParts;
+  const groups: { kind: CatalogueItemKind; title: MessageKey; suggestions: string[] }[] = [
+    { kind: 'part', title: 'report.parts', suggestions: parts },
+    { kind: 'tool', title: 'report.tools', suggestions: tools },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ kind, title, suggestions }) => (
+        <div key={kind}>
+          <h4 className="font-semibold text-slate-200 mb-2">{t(title)}</h4>
+          {suggestions.length > 0 ? (
+            <ul className="space-y-2">
+              {suggestions.map(suggestion => (
+                <MatchRow
+                  key={`${entry.id}:${kind}:${suggestion}`}
+                  kind={kind}
+                  suggestion={suggestion}
+                  confirmed={catalogueMatchFor(entry, kind, suggestion)}
+                  index={index}
+                  catalogue={catalogue}
+                  currency={currency}
+                  onConfirm={onConfirm}
+                  t={t}
+                />
+              ))}
+            </ul>
+          ) : <p className="text-sm text-slate-500">{t('report.noneSpecified')}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
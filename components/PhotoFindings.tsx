@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { ImageAnnotation, ImageAttachment } from '../types';
+import { AnnotatedImage } from './AnnotatedImage';
+import { Translate } from '../services/i18n';
+
+interface PhotoFindingsProps {
+  images: ImageAttachment[];
+  annotations: ImageAnnotation[];
+  possibleCauses: string[];
+  t: Translate;
+}
+
+/** The submitted photos with the model's findings boxed, alongside any areas the user marked. */
+export const PhotoFindings: React.FC<PhotoFindingsProps> = ({ images, annotations, possibleCauses, t }) => {
+  const [highlighted, setHighlighted] = useState<ImageAnnotation | null>(null);
+
+  const annotated = images
+    .map((image, i) => ({ image, number: i + 1, findings: annotations.filter(annotation => annotation.image === i + 1) }))
+    .filter(({ image, findings }) => findings.length > 0 || (image.regions?.length ?? 0) > 0);
+
+  return (
+    <div className="space-y-5">
+      {annotated.map(({ image, number, findings }) => (
+        <figure key={number} className="space-y-2">
+          <div className="text-center">
+            <AnnotatedImage
+              image={image}
+              imageNumber={number}
+              overlays={[
+                ...(image.regions ?? []).map(region => ({ ...region, marked: true })),
+                ...findings.map(finding => ({ label: finding.label, box: finding.box, highlighted: finding === highlighted })),
+              ]}
+              t={t}
+            />
+          </div>
+          <figcaption className="text-sm">
+            <p className="text-slate-400">{image.caption ? t('image.captioned', { number, caption: image.caption }) : t('report.image', { number })}</p>
+            {findings.length > 0 && (
+              <ul className="mt-1 space-y-1">
+                {findings.map((finding, i) => (
+                  <li
+                    key={i}
+                    onMouseEnter={() => setHighlighted(finding)}
+                    onMouseLeave={() => setHighlighted(null)}
+                    className="flex items-start gap-2 text-slate-300"
+                  >
+                    <span className="mt-1.5 w-2.5 h-2.5 rounded-sm bg-amber-400 flex-shrink-0"></span>
+                    <span>
+                      <span className="font-medium">{finding.label}</span>
+                      {finding.causeIndex !== undefined && possibleCauses[finding.causeIndex] && (
+                        <span className="text-slate-400"> — {possibleCauses[finding.causeIndex]}</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {(image.regions?.length ?? 0) > 0 && (
+              <p className="mt-1 text-xs text-slate-500">{t('image.markedNote')}</p>
+            )}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { providerOptions } from '../services/providers';
+import { ChevronDownIcon } from './icons';
+import { Translate } from '../services/i18n';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  t: Translate;
+}
+
+const inputClassName = "w-full bg-slate-800/50 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500 transition-all shadow-sm";
+
+// Each run is a full diagnosis, so cost and latency grow with this.
+const MAX_CONSENSUS_RUNS = 5;
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Kept as typed so the comma-separated list can be edited freely.
+  const [consensusModelsText, setConsensusModelsText] = useState(settings.consensusModels.join(', '));
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Consensus models name models of the old provider, so they don't carry over.
+    setConsensusModelsText('');
+    onChange({ ...settings, provider, model: providerOptions[provider].defaultModel, consensusModels: [] });
+  };
+
+  return (
+    <div className="border-b border-slate-700 mb-6 pb-6">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center w-full text-left p-2 rounded-lg hover:bg-slate-800/50 transition-colors">
+        <h3 className="text-lg font-semibold text-slate-200">{t('provider.title')}</h3>
+        <span className="flex items-center text-sm text-slate-400">
+          {t(`provider.option.${settings.provider}`)} · {settings.model}{settings.consensusRuns > 1 ? ` · ${t('provider.consensusShort', { runs: settings.consensusRuns })}` : ''}
+          <ChevronDownIcon className={`w-6 h-6 ml-2 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+      {isOpen && (
+        <div className="mt-4 pl-2 space-y-4">
+          <div>
+            <label htmlFor="provider" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.provider')}</label>
+            <select
+              id="provider"
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className={inputClassName}
+            >
+              {(Object.keys(providerOptions) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{t(`provider.option.${id}`)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="provider-model" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.model')}</label>
+            <input
+              id="provider-model"
+              type="text"
+              value={settings.model}
+              disabled={settings.provider === 'fixture'}
+              onChange={(e) => onChange({ ...settings, model: e.target.value })}
+              className={`${inputClassName} disabled:opacity-50`}
+            />
+          </div>
+          {settings.provider === 'gemini' && (
+            <div>
+              <label htmlFor="provider-access-token" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.accessToken')}</label>
+              <input
+                id="provider-access-token"
+                type="password"
+                value={settings.accessToken}
+                onChange={(e) => onChange({ ...settings, accessToken: e.target.value })}
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-slate-400">{t('provider.accessTokenHint')}</p>
+            </div>
+          )}
+          {settings.provider === 'openai-compatible' && (
+            <>
+              <div>
+                <label htmlFor="provider-base-url" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.baseUrl')}</label>
+                <input
+                  id="provider-base-url"
+                  type="url"
+                  value={settings.baseUrl}
+                  placeholder="http://localhost:11434/v1"
+                  onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="provider-transcription-model" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.transcriptionModel')}</label>
+                <input
+                  id="provider-transcription-model"
+                  type="text"
+                  value={settings.transcriptionModel}
+                  placeholder="whisper-1"
+                  onChange={(e) => onChange({ ...settings, transcriptionModel: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="provider-embedding-model" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.embeddingModel')}</label>
+                <input
+                  id="provider-embedding-model"
+                  type="text"
+                  value={settings.embeddingModel}
+                  placeholder="nomic-embed-text"
+                  onChange={(e) => onChange({ ...settings, embeddingModel: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="provider-api-key" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.apiKey')}</label>
+                <input
+                  id="provider-api-key"
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="consensus-runs" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.consensusRuns')}</label>
+              <select
+                id="consensus-runs"
+                value={settings.consensusRuns}
+                onChange={(e) => onChange({ ...settings, consensusRuns: Number(e.target.value) })}
+                className={inputClassName}
+              >
+                <option value={1}>{t('provider.off')}</option>
+                {Array.from({ length: MAX_CONSENSUS_RUNS - 1 }, (_, i) => i + 2).map(runs => <option key={runs} value={runs}>{t('provider.runs', { count: runs })}</option>)}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label htmlFor="consensus-models" className="block text-sm font-medium text-slate-300 mb-2">{t('provider.consensusModels')}</label>
+              <input
+                id="consensus-models"
+                type="text"
+                value={consensusModelsText}
+                placeholder={settings.model}
+                disabled={settings.consensusRuns <= 1 || settings.provider === 'fixture'}
+                onChange={(e) => {
+                  setConsensusModelsText(e.target.value);
+                  onChange({ ...settings, consensusModels: e.target.value.split(',').map(model => model.trim()).filter(Boolean) });
+                }}
+                className={`${inputClassName} disabled:opacity-50`}
+              />
+            </div>
+          </div>
+          {settings.consensusRuns > 1 && (
+            <p className="text-xs text-slate-400">{t('provider.consensusNote', { runs: settings.consensusRuns })}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { ImageAttachment, MarkedRegion, RegionBox } from '../types';
+import { boxStyle } from './AnnotatedImage';
+import { Translate } from '../services/i18n';
+
+interface RegionMarkerProps {
+  image: ImageAttachment;
+  imageNumber: number;
+  onChange: (regions: MarkedRegion[]) => void;
+  onClose: () => void;
+  t: Translate;
+}
+
+type Point = { x: number; y: number };
+
+// Drags shorter than this (on the 0–1000 scale) are treated as stray clicks.
+const MIN_BOX_SIZE = 15;
+
+const toBox = (a: Point, b: Point): RegionBox => [Math.min(a.y, b.y), Math.min(a.x, b.x), Math.max(a.y, b.y), Math.max(a.x, b.x)];
+
+/** Lets the user drag boxes over a photo before submitting, to point the model at an area. */
+export const RegionMarker: React.FC<RegionMarkerProps> = ({ image, imageNumber, onChange, onClose, t }) => {
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragBox, setDragBox] = useState<RegionBox | null>(null);
+  const [pendingBox, setPendingBox] = useState<RegionBox | null>(null);
+  const [label, setLabel] = useState('');
+  const regions = image.regions ?? [];
+
+  const pointFrom = (e: React.PointerEvent): Point => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    const scale = (value: number, size: number) => Math.round(Math.min(1000, Math.max(0, (value / size) * 1000)));
+    return { x: scale(e.clientX - rect.left, rect.width), y: scale(e.clientY - rect.top, rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (pendingBox) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointFrom(e);
+    setDragStart(point);
+    setDragBox(toBox(point, point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDragBox(toBox(dragStart, pointFrom(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (dragBox && dragBox[2] - dragBox[0] >= MIN_BOX_SIZE && dragBox[3] - dragBox[1] >= MIN_BOX_SIZE) {
+      setPendingBox(dragBox);
+    }
+    setDragStart(null);
+    setDragBox(null);
+  };
+
+  const addRegion = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingBox) return;
+    onChange([...regions, { label: label.trim(), box: pendingBox }]);
+    setPendingBox(null);
+    setLabel('');
+  };
+
+  const discardPending = () => {
+    setPendingBox(null);
+    setLabel('');
+  };
+
+  const shownBox = pendingBox ?? dragBox;
+
+  return (
+    <div className="mb-3 bg-slate-800/50 rounded-lg border border-cyan-500/40 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-300">
+          <span className="font-semibold">{t('image.markLabel', { number: imageNumber })}</span> {t('image.markPrompt')}
+        </p>
+        <button type="button" onClick={onClose} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium">{t('image.done')}</button>
+      </div>
+      <div className="text-center">
+        <div
+          ref={surfaceRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`relative inline-block max-w-full select-none touch-none ${pendingBox ? '' : 'cursor-crosshair'}`}
+        >
+          <img src={`data:${image.mimeType};base64,${image.data}`} alt={image.caption || t('report.image', { number: imageNumber })} draggable={false} className="block max-w-full max-h-80 rounded" />
+          {regions.map((region, i) => (
+            <div key={i} style={boxStyle(region.box)} className="absolute border-2 border-dashed border-cyan-400 rounded-sm pointer-events-none">
+              <span className="absolute left-0 bottom-full mb-0.5 text-[10px] font-semibold px-1 rounded bg-cyan-500 text-slate-900">{i + 1}</span>
+            </div>
+          ))}
+          {shownBox && <div style={boxStyle(shownBox)} className="absolute border-2 border-white bg-white/10 rounded-sm pointer-events-none" />}
+        </div>
+      </div>
+      {pendingBox && (
+        <form onSubmit={addRegion} className="flex gap-2">
+          <input
+            type="text"
+            autoFocus
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={t('image.labelPlaceholder')}
+            className="flex-grow bg-slate-900/50 border border-slate-700 rounded p-1.5 text-xs focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+          />
+          <button type="submit" className="text-xs font-medium px-3 py-1.5 rounded bg-cyan-600 hover:bg-cyan-500 text-white">{t('image.add')}</button>
+          <button type="button" onClick={discardPending} className="text-xs font-medium px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200">{t('image.discard')}</button>
+        </form>
+      )}
+      {regions.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-300">
+          {regions.map((region, i) => (
+            <li key={i} className="flex items-center justify-between gap-2">
+              <span><span className="font-semibold text-cyan-400">{i + 1}.</span> {region.label || t('image.unlabeled')}</span>
+              <button type="button" onClick={() => onChange(regions.filter((_, j) => j !== i))} className="text-slate-500 hover:text-red-400" aria-label={t('image.removeArea', { number: i + 1 })}>
+                <i className="fas fa-trash-can"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
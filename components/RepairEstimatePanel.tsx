@@ -0,0 +1,67 @@
+import React from 'react';
+import { RepairEstimate, formatMoney } from '../services/repairEstimate';
+import { Translate } from '../services/i18n';
+
+interface RepairEstimatePanelProps {
+  estimate: RepairEstimate;
+  currency: string;
+  onExport: () => void;
+  t: Translate;
+}
+
+export const RepairEstimatePanel: React.FC<RepairEstimatePanelProps> = ({ estimate, currency, onExport, t }) => {
+  const money = (amount: number) => formatMoney(amount, currency);
+  const unestimatedFixes = estimate.labor.filter(line => line.hours === null).length;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {estimate.lines.length > 0 ? (
+        <table className="w-full text-left">
+          <thead className="text-xs text-slate-400 border-b border-slate-700">
+            <tr>
+              <th className="py-1 font-medium">{t('estimate.item')}</th>
+              <th className="py-1 font-medium text-right">{t('estimate.quantity')}</th>
+              <th className="py-1 font-medium text-right">{t('estimate.total')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {estimate.lines.map(line => (
+              <tr key={`${line.kind}:${line.suggestion}`} className="border-b border-slate-800">
+                <td className="py-1.5">
+                  {line.item.description}
+                  <span className="text-xs text-slate-500 ml-2">{line.item.sku}</span>
+                  {!line.inStock && <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-300">{t('estimate.lowStock')}</span>}
+                </td>
+                <td className="py-1.5 text-right">{line.quantity}</td>
+                <td className="py-1.5 text-right">{money(line.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-slate-500">{t('estimate.noItems')}</p>
+      )}
+
+      <dl className="grid grid-cols-2 gap-y-1">
+        <dt className="text-slate-400">{t('estimate.partsAndTools')}</dt>
+        <dd className="text-right">{money(estimate.partsTotal)}</dd>
+        <dt className="text-slate-400">{t('estimate.labor', { hours: estimate.laborHours, rate: money(estimate.laborRate) })}</dt>
+        <dd className="text-right">{money(estimate.laborTotal)}</dd>
+        <dt className="font-semibold text-slate-100 border-t border-slate-700 pt-1">{t('estimate.estimatedTotal')}</dt>
+        <dd className="font-semibold text-slate-100 text-right border-t border-slate-700 pt-1">{money(estimate.total)}</dd>
+      </dl>
+
+      {(estimate.unmatched.length > 0 || unestimatedFixes > 0 || estimate.laborRate === 0) && (
+        <ul className="text-xs text-amber-300 space-y-1">
+          {estimate.unmatched.length > 0 && <li>{t('estimate.notPriced', { items: estimate.unmatched.join(', ') })}</li>}
+          {unestimatedFixes > 0 && <li>{unestimatedFixes === 1 ? t('estimate.noLaborOne') : t('estimate.noLaborMany', { count: unestimatedFixes })}</li>}
+          {estimate.laborRate === 0 && <li>{t('estimate.noLaborRate')}</li>}
+        </ul>
+      )}
+
+      <button onClick={onExport} className="flex items-center text-sm bg-slate-700 hover:bg-cyan-800/60 text-slate-200 font-semibold py-2 px-3 rounded-lg transition-colors">
+        <i className="fas fa-file-csv fa-fw mr-2"></i>{t('estimate.export')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { HistoryEntry, RecommendedFix } from '../types';
+import { diffReports, ListDiff } from '../services/reportDiff';
+import { severityConfig, trendStyles } from './severityStyles';
+import { XCircleIcon } from './icons';
+import { Translate } from '../services/i18n';
+
+interface ReportComparisonProps {
+  /** The earlier case; the diff reads as "what changed since this one". */
+  before: HistoryEntry;
+  after: HistoryEntry;
+  onSwap: () => void;
+  onClose: () => void;
+  onSelectHistory: (entry: HistoryEntry) => void;
+  t: Translate;
+}
+
+const priorityClassName = (priority: RecommendedFix['priority']) =>
+  priority === 'Urgent' ? 'bg-red-500/30 text-red-300' : priority === 'Optional' ? 'bg-slate-600/50 text-slate-300' : 'bg-green-500/30 text-green-300';
+
+const PriorityBadge: React.FC<{ priority: RecommendedFix['priority']; t: Translate }> = ({ priority, t }) => (
+  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${priorityClassName(priority)}`}>{t(`priority.${priority}`)}</span>
+);
+
+const Added: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <li className="flex items-start gap-2 text-green-300"><i className="fas fa-plus fa-fw mt-1 text-xs"></i><span>{children}</span></li>
+);
+
+const Removed: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <li className="flex items-start gap-2 text-red-300"><i className="fas fa-minus fa-fw mt-1 text-xs"></i><span className="line-through decoration-red-400/60">{children}</span></li>
+);
+
+const Changed: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <li className="flex items-start gap-2 text-amber-300"><i className="fas fa-pen fa-fw mt-1 text-xs"></i><span>{children}</span></li>
+);
+
+const Was: React.FC<{ text: string; t: Translate }> = ({ text, t }) => (
+  <span className="block text-xs text-slate-400">{t('compare.was', { text })}</span>
+);
+
+const Unchanged: React.FC<{ items: string[]; t: Translate }> = ({ items, t }) =>
+  items.length > 0 ? (
+    <li className="text-slate-500 text-xs pt-1" title={items.join('\n')}>{t('compare.unchanged', { count: items.length })}</li>
+  ) : null;
+
+const DiffSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-slate-800/40 rounded-lg p-4 border border-slate-700/50">
+    <h4 className="font-semibold text-slate-200 mb-2">{title}</h4>
+    <ul className="space-y-1 text-sm">{children}</ul>
+  </div>
+);
+
+const ListDiffSection: React.FC<{ title: string; diff: ListDiff; t: Translate }> = ({ title, diff, t }) => (
+  <DiffSection title={title}>
+    {diff.removed.map(item => <Removed key={`-${item}`}>{item}</Removed>)}
+    {diff.added.map(item => <Added key={`+${item}`}>{item}</Added>)}
+    {diff.changed.map(change => <Changed key={`~${change.after}`}>{change.after}<Was text={change.before} t={t} /></Changed>)}
+    {diff.added.length + diff.removed.length + diff.changed.length === 0 && <li className="text-slate-500">{t('compare.noChange')}</li>}
+    <Unchanged items={diff.unchanged} t={t} />
+  </DiffSection>
+);
+
+const CaseHeader: React.FC<{ label: string; entry: HistoryEntry; onSelect: () => void }> = ({ label, entry, onSelect }) => (
+  <button onClick={onSelect} className="text-left p-3 rounded-lg bg-slate-800/40 border border-slate-700/50 hover:border-cyan-500/50 transition-colors min-w-0">
+    <span className="text-xs uppercase tracking-wide text-slate-500">{label} · {new Date(entry.timestamp).toLocaleString()}</span>
+    <p className="font-semibold text-slate-100 mt-1">{entry.report.faultSummary}</p>
+    <p className="text-xs text-slate-400 mt-1">{entry.report.riskAssessment.summary}</p>
+  </button>
+);
+
+/** Two cases side by side, showing what the later diagnosis added, dropped or changed. */
+export const ReportComparison: React.FC<ReportComparisonProps> = ({ before, after, onSwap, onClose, onSelectHistory, t }) => {
+  const diff = diffReports(before.report, after.report);
+  const trend = trendStyles[diff.severity.trend];
+
+  return (
+    <div className="bg-slate-900/70 p-6 rounded-xl shadow-2xl backdrop-blur-lg glow-border mb-8 animate-fade-in">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-slate-100">{t('compare.title')}</h2>
+        <div className="flex gap-2">
+          <button onClick={onSwap} className="flex items-center text-sm bg-slate-800/50 hover:bg-cyan-800/60 text-slate-300 hover:text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-200">
+            <i className="fas fa-exchange-alt fa-fw mr-2"></i>{t('compare.swap')}
+          </button>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800/50" aria-label={t('compare.close')}>
+            <XCircleIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <CaseHeader label={t('compare.before')} entry={before} onSelect={() => onSelectHistory(before)} />
+        <CaseHeader label={t('compare.after')} entry={after} onSelect={() => onSelectHistory(after)} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 p-4 mb-4 rounded-lg bg-slate-800/40 border border-slate-700/50">
+        <span className="font-semibold text-slate-200">{t('compare.severity')}</span>
+        <span className={`font-bold ${severityConfig[diff.severity.before].textColor}`}>{t(`severity.${diff.severity.before}`)}</span>
+        <i className="fas fa-long-arrow-alt-right text-slate-500"></i>
+        <span className={`font-bold ${severityConfig[diff.severity.after].textColor}`}>{t(`severity.${diff.severity.after}`)}</span>
+        <span className={`ml-auto text-sm font-semibold ${trend.className}`}>
+          <i className={`fas ${trend.icon} mr-1`}></i>
+          {t(diff.severity.trend === 'improving' ? 'compare.riskLowered' : diff.severity.trend === 'worsening' ? 'compare.riskRaised' : 'compare.riskUnchanged')}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ListDiffSection title={t('report.possibleCauses')} diff={diff.causes} t={t} />
+        <DiffSection title={t('report.fixes')}>
+          {diff.fixes.removed.map(fix => <Removed key={`-${fix.fix}`}>{fix.fix} <PriorityBadge priority={fix.priority} t={t} /></Removed>)}
+          {diff.fixes.added.map(fix => <Added key={`+${fix.fix}`}>{fix.fix} <PriorityBadge priority={fix.priority} t={t} /></Added>)}
+          {diff.fixes.changed.map(({ before: previous, after: current }) => (
+            <Changed key={`~${current.fix}`}>
+              {current.fix}{' '}
+              {previous.priority !== current.priority
+                ? <><PriorityBadge priority={previous.priority} t={t} /> <i className="fas fa-long-arrow-alt-right text-slate-500 mx-1"></i> <PriorityBadge priority={current.priority} t={t} /></>
+                : previous.fix === current.fix && <span className="text-xs text-slate-400">{t('compare.detailsChanged')}</span>}
+              {previous.fix !== current.fix && <Was text={previous.fix} t={t} />}
+            </Changed>
+          ))}
+          {diff.fixes.added.length + diff.fixes.removed.length + diff.fixes.changed.length === 0 && <li className="text-slate-500">{t('compare.noChange')}</li>}
+          <Unchanged items={diff.fixes.unchanged.map(fix => fix.fix)} t={t} />
+        </DiffSection>
+        <ListDiffSection title={t('compare.tools')} diff={diff.tools} t={t} />
+        <ListDiffSection title={t('compare.parts')} diff={diff.parts} t={t} />
+      </div>
+    </div>
+  );
+};
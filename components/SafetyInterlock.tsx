@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { HazardType, SafetyAcknowledgement } from '../types';
+import { escalationContacts, hazardDefinitions, interlockChecklist } from '../services/safetyInterlock';
+import { Translate } from '../services/i18n';
+import { ExclamationTriangleIcon, ShieldCheckIcon } from './icons';
+
+interface SafetyInterlockProps {
+  hazards: HazardType[];
+  /** The troubleshooting steps stay hidden until the checklist is acknowledged. */
+  locked: boolean;
+  acknowledgement?: SafetyAcknowledgement;
+  onAcknowledge: (acknowledgement: SafetyAcknowledgement) => void;
+  t: Translate;
+}
+
+export const SafetyInterlock: React.FC<SafetyInterlockProps> = ({ hazards, locked, acknowledgement, onAcknowledge, t }) => {
+  const checklist = interlockChecklist(hazards, t);
+  const [checked, setChecked] = useState<Set<number>>(new Set());
+
+  const professionals = escalationContacts(hazards, t);
+
+  const toggle = (index: number) => {
+    const next = new Set(checked);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    setChecked(next);
+  };
+
+  return (
+    <div className="bg-red-500/5 border border-red-500/30 rounded-lg p-4 md:p-6 mb-6">
+      <h3 className="text-xl font-bold text-red-300 flex items-center mb-3">
+        <ExclamationTriangleIcon className="w-6 h-6 mr-2" />
+        {t('safety.title')}
+      </h3>
+
+      {hazards.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {hazards.map(hazard => (
+            <span key={hazard} className="inline-flex items-center text-xs font-semibold px-2.5 py-1 rounded-full bg-red-500/20 text-red-200 border border-red-500/40">
+              <i className={`fas ${hazardDefinitions[hazard].icon} fa-fw mr-1`}></i>
+              {t(hazardDefinitions[hazard].label)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-start gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700 mb-4 text-sm text-slate-300">
+        <i className="fas fa-phone-alt fa-fw mt-1 text-red-300"></i>
+        <p>
+          <span className="font-semibold text-slate-100">{t('safety.callProfessional')}</span>{' '}
+          {t('safety.callProfessionalDetail', { professionals: professionals.join(t('safety.or')) })}
+        </p>
+      </div>
+
+      {locked ? (
+        <>
+          <p className="text-sm text-slate-300 mb-2">{t('safety.confirmPrompt')}</p>
+          <ul className="space-y-2 mb-4">
+            {checklist.map((item, i) => (
+              <li key={i}>
+                <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input type="checkbox" checked={checked.has(i)} onChange={() => toggle(i)} className="mt-1 accent-red-500" />
+                  {item}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => onAcknowledge({ acknowledgedAt: new Date(), hazards, checklist })}
+            disabled={checked.size < checklist.length}
+            className="bg-red-600 hover:bg-red-500 text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {t('safety.acknowledge')}
+          </button>
+        </>
+      ) : acknowledgement && (
+        <p className="flex items-center text-sm text-green-300">
+          <ShieldCheckIcon className="w-5 h-5 mr-2" />
+          {t('safety.acknowledged', { time: new Date(acknowledgement.acknowledgedAt).toLocaleString() })}
+        </p>
+      )}
+    </div>
+  );
+};
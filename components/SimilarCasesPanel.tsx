@@ -0,0 +1,41 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { SimilarCase } from '../services/similarCases';
+import { completedFixes } from '../services/workItems';
+import { severityConfig } from './severityStyles';
+import { Translate } from '../services/i18n';
+
+interface SimilarCasesPanelProps {
+  matches: SimilarCase[];
+  onSelectHistory: (entry: HistoryEntry) => void;
+  t: Translate;
+}
+
+export const SimilarCasesPanel: React.FC<SimilarCasesPanelProps> = ({ matches, onSelectHistory, t }) => (
+  <ul className="space-y-2 not-prose">
+    {matches.map(({ entry, score }) => {
+      const { severity } = entry.report.riskAssessment;
+      const worked = completedFixes(entry);
+      return (
+        <li key={entry.id}>
+          <button onClick={() => onSelectHistory(entry)} className="w-full text-left bg-slate-900/50 p-3 rounded-lg border border-slate-700 hover:border-cyan-500/50 transition-colors">
+            <div className="flex justify-between gap-2">
+              <span className="font-semibold text-slate-100 truncate">{entry.report.faultSummary}</span>
+              <span className="text-xs text-cyan-300 flex-shrink-0">{t('similar.match', { percent: Math.round(score * 100) })}</span>
+            </div>
+            <div className="text-xs text-slate-400 mt-1">
+              {new Date(entry.timestamp).toLocaleDateString()} · <span className={severityConfig[severity].textColor}>{t(`severity.${severity}`)}</span>
+            </div>
+            <div className="text-sm mt-2">
+              {worked.length > 0 ? (
+                <span className="text-green-300"><i className="fas fa-check-circle fa-fw mr-1"></i>{t('similar.fixedBy', { fixes: worked.map(item => item.fix).join('; ') })}</span>
+              ) : (
+                <span className="text-slate-500">{t('similar.noFix')}</span>
+              )}
+            </div>
+          </button>
+        </li>
+      );
+    })}
+  </ul>
+);
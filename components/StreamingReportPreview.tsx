@@ -0,0 +1,121 @@
+import React from 'react';
+import { PartialDiagnosticReport } from '../types';
+import { ReportSection } from './ReportSection';
+import { severityConfig } from './severityStyles';
+import { mayRequireInterlock } from '../services/safetyInterlock';
+import { Translate } from '../services/i18n';
+
+interface StreamingReportPreviewProps {
+  report: PartialDiagnosticReport;
+  t: Translate;
+}
+
+const PreviewList: React.FC<{ items?: (string | undefined)[] }> = ({ items }) => (
+  <ul className="list-disc list-inside space-y-1 text-sm">
+    {(items ?? []).filter(Boolean).map((item, i) => <li key={i}>{item}</li>)}
+  </ul>
+);
+
+/** The report as it streams in; each section appears once its field has started arriving. */
+export const StreamingReportPreview: React.FC<StreamingReportPreviewProps> = ({ report, t }) => {
+  const { faultSummary, riskAssessment, possibleCauses, troubleshootingSteps, recommendedFixes, toolsAndParts, simplifiedExplanation } = report;
+  // The severity may still be half-written, e.g. "Crit".
+  const severity = riskAssessment?.severity && riskAssessment.severity in severityConfig ? riskAssessment.severity : undefined;
+  const isSafetyLocked = mayRequireInterlock(report);
+
+  return (
+    <>
+      {faultSummary !== undefined && (
+        <ReportSection title={t('report.faultSummary')} icon={<i className="fas fa-exclamation-circle fa-fw"></i>}>
+          <p>{faultSummary}</p>
+        </ReportSection>
+      )}
+
+      {riskAssessment && (
+        <ReportSection title={t('report.riskAssessment')} icon={<i className="fas fa-shield-alt fa-fw"></i>}>
+          {severity && <p className={`font-bold text-lg mb-2 ${severityConfig[severity].textColor}`}>{t(`severity.${severity}`)}</p>}
+          {riskAssessment.summary && <p className="mb-3">{riskAssessment.summary}</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {riskAssessment.potentialConsequences && (
+              <div>
+                <h4 className="font-semibold text-slate-200 mb-2">{t('report.consequences')}</h4>
+                <PreviewList items={riskAssessment.potentialConsequences} />
+              </div>
+            )}
+            {riskAssessment.mitigationSteps && (
+              <div>
+                <h4 className="font-semibold text-slate-200 mb-2">{t('report.mitigation')}</h4>
+                <PreviewList items={riskAssessment.mitigationSteps} />
+              </div>
+            )}
+          </div>
+        </ReportSection>
+      )}
+
+      {possibleCauses && (
+        <ReportSection title={t('report.possibleCauses')} icon={<i className="fas fa-search fa-fw"></i>}>
+          <PreviewList items={possibleCauses} />
+        </ReportSection>
+      )}
+
+      {troubleshootingSteps && (
+        <ReportSection title={t('report.troubleshooting')} icon={<i className="fas fa-list-ol fa-fw"></i>}>
+          {isSafetyLocked ? (
+            <p className="flex items-center text-slate-400">
+              <i className="fas fa-lock fa-fw mr-2"></i>
+              {t('report.stepsLockedStreaming')}
+            </p>
+          ) : (
+            <ol className="list-decimal list-inside space-y-2">
+              {troubleshootingSteps.map((step, i) => (
+                <li key={i}>
+                  <strong>{step.action}</strong>
+                  {step.details && <p className="text-sm text-slate-400 pl-4">{step.details}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ReportSection>
+      )}
+
+      {recommendedFixes && (
+        <ReportSection title={t('report.fixes')} icon={<i className="fas fa-wrench fa-fw"></i>}>
+          <div className="space-y-3">
+            {recommendedFixes.map((fix, i) => (
+              <div key={i} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700">
+                <div className="font-semibold">{fix.fix}</div>
+                {fix.details && <p className="text-sm text-slate-400 mt-1">{fix.details}</p>}
+              </div>
+            ))}
+          </div>
+        </ReportSection>
+      )}
+
+      {toolsAndParts && (
+        <ReportSection title={t('report.toolsAndParts')} icon={<i className="fas fa-toolbox fa-fw"></i>}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="font-semibold text-slate-200 mb-2">{t('report.tools')}</h4>
+              <PreviewList items={toolsAndParts.tools} />
+            </div>
+            <div>
+              <h4 className="font-semibold text-slate-200 mb-2">{t('report.parts')}</h4>
+              <PreviewList items={toolsAndParts.parts} />
+            </div>
+          </div>
+        </ReportSection>
+      )}
+
+      {simplifiedExplanation !== undefined && (
+        <ReportSection title={t('report.explanation')} icon={<i className="fas fa-user-friends fa-fw"></i>}>
+          <p>{simplifiedExplanation}</p>
+        </ReportSection>
+      )}
+
+      <div className="flex items-center text-sm text-cyan-300 py-3">
+        <i className="fas fa-spinner fa-spin mr-2"></i>
+        {t('report.stillWriting')}
+      </div>
+    </>
+  );
+};
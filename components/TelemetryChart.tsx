@@ -0,0 +1,72 @@
+import React from 'react';
+import { DataFileSummary, TelemetryChannel } from '../types';
+import { describeAnomaly, formatPosition, formatReading } from '../services/dataFiles';
+import { Translate } from '../services/i18n';
+
+interface TelemetryChartProps {
+  channel: TelemetryChannel;
+  xAxis: DataFileSummary['xAxis'];
+  t: Translate;
+}
+
+const WIDTH = 600;
+const HEIGHT = 150;
+const PADDING = 6;
+
+/** A line chart of one channel, with its limits dashed, the stretches beyond them shaded red and flagged windows shaded amber. */
+export const TelemetryChart: React.FC<TelemetryChartProps> = ({ channel, xAxis, t }) => {
+  const { points } = channel;
+  if (points.length < 2) return <p className="text-sm text-slate-500">{t('dataFile.notEnoughReadings')}</p>;
+
+  const limits = [channel.low, channel.high].filter((limit): limit is number => limit !== undefined);
+  const xMin = points[0][0];
+  const xMax = points[points.length - 1][0];
+  const yMin = Math.min(channel.min, ...limits);
+  const yMax = Math.max(channel.max, ...limits);
+  const scaleX = (x: number) => PADDING + ((x - xMin) / (xMax - xMin || 1)) * (WIDTH - PADDING * 2);
+  const scaleY = (y: number) => HEIGHT - PADDING - ((y - yMin) / (yMax - yMin || 1)) * (HEIGHT - PADDING * 2);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-36 bg-slate-900/50 rounded" preserveAspectRatio="none" role="img" aria-label={t('dataFile.readings', { channel: channel.name })}>
+        {channel.crossings.map((crossing, i) => (
+          <rect
+            key={i}
+            x={scaleX(crossing.start)}
+            y={0}
+            width={Math.max(2, scaleX(crossing.end) - scaleX(crossing.start))}
+            height={HEIGHT}
+            className="fill-red-500/20"
+          />
+        ))}
+        {channel.anomalies?.map((anomaly, i) => (
+          <rect
+            key={`anomaly-${i}`}
+            x={scaleX(anomaly.start)}
+            y={0}
+            width={Math.max(2, scaleX(anomaly.end) - scaleX(anomaly.start))}
+            height={HEIGHT}
+            className="fill-amber-400/25"
+          >
+            <title>{describeAnomaly(anomaly, xAxis, t)}</title>
+          </rect>
+        ))}
+        {limits.map(limit => (
+          <line key={limit} x1={0} x2={WIDTH} y1={scaleY(limit)} y2={scaleY(limit)} className="stroke-red-400" strokeDasharray="6 4" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ))}
+        <polyline
+          points={points.map(([x, y]) => `${scaleX(x)},${scaleY(y)}`).join(' ')}
+          fill="none"
+          className="stroke-cyan-400"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-slate-500 mt-1">
+        <span>{formatPosition(xMin, xAxis, t)}</span>
+        <span>{t('dataFile.rangeMean', { min: formatReading(channel.min), max: formatReading(channel.max), mean: formatReading(channel.mean) })}</span>
+        <span>{formatPosition(xMax, xAxis, t)}</span>
+      </div>
+    </div>
+  );
+};
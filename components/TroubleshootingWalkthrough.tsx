@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ImageAttachment, StepOutcome, StepOutcomeStatus, TroubleshootingStep, WalkthroughState } from '../types';
+import { readFileAsBase64 } from '../services/media';
+import { MessageKey, Translate } from '../services/i18n';
+import { XCircleIcon } from './icons';
+
+interface TroubleshootingWalkthroughProps {
+  steps: TroubleshootingStep[];
+  walkthrough?: WalkthroughState;
+  isRefining: boolean;
+  onNavigate: (currentStep: number) => void;
+  /** Records a result and moves the walkthrough to `nextStep`. */
+  onRecordOutcome: (outcome: StepOutcome, nextStep: number) => void;
+  onError: (message: string) => void;
+  t: Translate;
+}
+
+const outcomeBadges: Record<StepOutcomeStatus, { label: MessageKey; className: string; icon: string }> = {
+  pass: { label: 'walkthrough.pass', className: 'bg-green-500/30 text-green-300', icon: 'fa-check' },
+  fail: { label: 'walkthrough.fail', className: 'bg-red-500/30 text-red-300', icon: 'fa-times' },
+  measured: { label: 'walkthrough.measured', className: 'bg-sky-500/30 text-sky-300', icon: 'fa-ruler' },
+};
+
+const OutcomeBadge: React.FC<{ outcome: StepOutcome; t: Translate }> = ({ outcome, t }) => (
+  <span className={`ml-2 text-xs font-medium px-2 py-0.5 rounded-full ${outcomeBadges[outcome.status].className}`}>
+    <i className={`fas ${outcomeBadges[outcome.status].icon} mr-1`}></i>
+    {outcome.status === 'measured' ? outcome.measurement : t(outcomeBadges[outcome.status].label)}
+  </span>
+);
+
+export const TroubleshootingWalkthrough: React.FC<TroubleshootingWalkthroughProps> = ({ steps, walkthrough, isRefining, onNavigate, onRecordOutcome, onError, t }) => {
+  const [isGuided, setIsGuided] = useState(false);
+  const [measurement, setMeasurement] = useState('');
+  const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<ImageAttachment | null>(null);
+
+  const outcomes = walkthrough?.outcomes ?? [];
+  const currentIndex = Math.min(walkthrough?.currentStep ?? 0, Math.max(steps.length - 1, 0));
+  const current = steps[currentIndex];
+  const outcomeFor = (step: TroubleshootingStep) => outcomes.find(o => o.step === step.step);
+  const currentOutcome = current ? outcomeFor(current) : undefined;
+
+  // Load what was recorded for the step (if anything) whenever the technician moves to it.
+  useEffect(() => {
+    setMeasurement(currentOutcome?.measurement ?? '');
+    setNotes(currentOutcome?.notes ?? '');
+    setPhoto(currentOutcome?.photo ?? null);
+  }, [currentIndex, current?.step, currentOutcome?.recordedAt]);
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPhoto({ mimeType: file.type, data: await readFileAsBase64(file), caption: t('walkthrough.step', { step: current.step }) });
+    } catch (err: any) {
+      onError(t('walkthrough.readPhotoError', { error: err.message || err }));
+    }
+  };
+
+  const record = (status: StepOutcomeStatus) => {
+    // A failed step triggers a re-diagnosis that rewrites the steps after it, so stay put until that lands.
+    const nextStep = status !== 'fail' ? Math.min(currentIndex + 1, steps.length - 1) : currentIndex;
+    onRecordOutcome({
+      step: current.step,
+      status,
+      measurement: status === 'measured' ? measurement.trim() : undefined,
+      notes: notes.trim(),
+      photo: photo ?? undefined,
+      recordedAt: new Date(),
+    }, nextStep);
+  };
+
+  const completedCount = steps.filter(step => outcomeFor(step)).length;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3 not-prose">
+        <span className="text-sm text-slate-400">{t('walkthrough.recorded', { recorded: completedCount, total: steps.length })}</span>
+        <button
+          onClick={() => setIsGuided(!isGuided)}
+          className="text-sm bg-slate-800/50 hover:bg-cyan-800/60 text-slate-300 hover:text-white font-semibold py-1.5 px-3 rounded-lg transition-colors duration-200"
+        >
+          <i className={`fas ${isGuided ? 'fa-list-ol' : 'fa-route'} fa-fw mr-1`}></i>
+          {isGuided ? t('walkthrough.showAll') : t('walkthrough.guided')}
+        </button>
+      </div>
+
+      {isRefining && (
+        <div className="flex items-center text-sm text-cyan-300 bg-cyan-500/10 border border-cyan-500/30 rounded-lg p-3 mb-3 not-prose">
+          <i className="fas fa-spinner fa-spin mr-2"></i>
+          {t('walkthrough.refining')}
+        </div>
+      )}
+
+      {!isGuided || !current ? (
+        <ol className="list-decimal list-inside space-y-2">
+          {steps.map((step, i) => {
+            const outcome = outcomeFor(step);
+            return (
+              <li key={step.step}>
+                <button onClick={() => { onNavigate(i); setIsGuided(true); }} className="text-left hover:text-cyan-300 transition-colors">
+                  <strong>{step.action}</strong>
+                </button>
+                {outcome && <OutcomeBadge outcome={outcome} t={t} />}
+                <p className="text-sm text-slate-400 pl-4">{step.details}</p>
+                {outcome?.notes && <p className="text-xs text-slate-500 pl-4 italic">{outcome.notes}</p>}
+              </li>
+            );
+          })}
+        </ol>
+      ) : (
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700 not-prose">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-cyan-400">{t('walkthrough.stepOf', { step: current.step, total: steps.length })}</span>
+            {currentOutcome && <OutcomeBadge outcome={currentOutcome} t={t} />}
+          </div>
+          <h4 className="text-lg font-semibold text-slate-100">{current.action}</h4>
+          <p className="text-sm text-slate-400 mt-1">{current.details}</p>
+
+          <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={measurement}
+              onChange={(e) => setMeasurement(e.target.value)}
+              placeholder={t('walkthrough.measurementPlaceholder')}
+              className="bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+            />
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={t('walkthrough.notesPlaceholder')}
+              className="bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500"
+            />
+          </div>
+          <div className="mt-3">
+            {photo ? (
+              <div className="relative inline-block group">
+                <img src={`data:${photo.mimeType};base64,${photo.data}`} alt={t('walkthrough.photoAlt', { step: current.step })} className="h-20 rounded border border-slate-600" />
+                <button onClick={() => setPhoto(null)} className="absolute -top-2 -right-2 bg-black/70 rounded-full p-0.5 text-white hover:bg-red-500 transition-colors" aria-label={t('walkthrough.removePhoto')}>
+                  <XCircleIcon className="w-5 h-5" />
+                </button>
+              </div>
+            ) : (
+              <label className="inline-flex items-center text-sm text-slate-400 hover:text-cyan-300 cursor-pointer transition-colors">
+                <i className="fas fa-camera fa-fw mr-1"></i>
+                {t('walkthrough.attachPhoto')}
+                <input type="file" accept="image/*" capture="environment" onChange={handlePhotoChange} className="hidden" />
+              </label>
+            )}
+          </div>
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            <button onClick={() => record('pass')} disabled={isRefining} className="flex-1 bg-green-600 hover:bg-green-500 disabled:opacity-50 text-white font-semibold py-2 px-3 rounded-lg transition-colors">
+              <i className="fas fa-check mr-1"></i>{t('walkthrough.pass')}
+            </button>
+            <button onClick={() => record('fail')} disabled={isRefining} className="flex-1 bg-red-600 hover:bg-red-500 disabled:opacity-50 text-white font-semibold py-2 px-3 rounded-lg transition-colors">
+              <i className="fas fa-times mr-1"></i>{t('walkthrough.fail')}
+            </button>
+            <button onClick={() => record('measured')} disabled={isRefining || !measurement.trim()} className="flex-1 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-2 px-3 rounded-lg transition-colors">
+              <i className="fas fa-ruler mr-1"></i>{t('walkthrough.recordValue')}
+            </button>
+          </div>
+
+          <div className="mt-4 flex justify-between text-sm">
+            <button onClick={() => onNavigate(currentIndex - 1)} disabled={currentIndex === 0} className="text-slate-400 hover:text-white disabled:opacity-30 transition-colors">
+              <i className="fas fa-chevron-left mr-1"></i>{t('walkthrough.previous')}
+            </button>
+            <button onClick={() => onNavigate(currentIndex + 1)} disabled={currentIndex >= steps.length - 1} className="text-slate-400 hover:text-white disabled:opacity-30 transition-colors">
+              {t('walkthrough.next')}<i className="fas fa-chevron-right ml-1"></i>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
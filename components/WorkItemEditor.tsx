@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { PartUsed, WorkItem, WorkItemStatus } from '../types';
+import { Translate } from '../services/i18n';
+
+interface WorkItemEditorProps {
+  item: WorkItem;
+  onSave: (item: WorkItem) => void;
+  t: Translate;
+}
+
+export const workItemStatusStyles: Record<WorkItemStatus, string> = {
+  'open': 'bg-slate-600/50 text-slate-200',
+  'in-progress': 'bg-sky-500/30 text-sky-300',
+  'done': 'bg-green-500/30 text-green-300',
+  'deferred': 'bg-amber-500/30 text-amber-300',
+};
+
+const inputClassName = "w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2 text-sm focus:ring-2 focus:ring-cyan-500/50 focus:border-cyan-500";
+
+export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ item, onSave, t }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<WorkItem>(item);
+
+  const open = () => {
+    setDraft(item);
+    setIsOpen(true);
+  };
+
+  const updatePart = (index: number, changes: Partial<PartUsed>) => {
+    setDraft({ ...draft, partsUsed: draft.partsUsed.map((part, i) => (i === index ? { ...part, ...changes } : part)) });
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      assignee: draft.assignee.trim(),
+      notes: draft.notes.trim(),
+      partsUsed: draft.partsUsed.filter(part => part.name.trim()),
+      updatedAt: new Date(),
+    });
+    setIsOpen(false);
+  };
+
+  if (!isOpen) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+        <span className={`font-medium px-2 py-0.5 rounded-full ${workItemStatusStyles[item.status]}`}>{t(`workItem.status.${item.status}`)}</span>
+        {item.assignee && <span className="text-slate-400"><i className="fas fa-user fa-fw"></i>{item.assignee}</span>}
+        {item.laborHours !== undefined && <span className="text-slate-400"><i className="fas fa-clock fa-fw"></i>{item.laborHours} h</span>}
+        {item.partsUsed.length > 0 && <span className="text-slate-400"><i className="fas fa-cube fa-fw"></i>{item.partsUsed.map(p => `${p.quantity}× ${p.name}`).join(', ')}</span>}
+        <button onClick={open} className="ml-auto text-cyan-400 hover:text-cyan-300 font-medium">
+          <i className="fas fa-edit fa-fw"></i>{t('workItem.track')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-slate-700 pt-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <input type="text" aria-label={t('workItem.assignee')} placeholder={t('workItem.assignee')} value={draft.assignee} onChange={(e) => setDraft({ ...draft, assignee: e.target.value })} className={inputClassName} />
+        <select aria-label={t('workItem.status')} value={draft.status} onChange={(e) => setDraft({ ...draft, status: e.target.value as WorkItemStatus })} className={inputClassName}>
+          {(Object.keys(workItemStatusStyles) as WorkItemStatus[]).map(status => <option key={status} value={status}>{t(`workItem.status.${status}`)}</option>)}
+        </select>
+        <input
+          type="number"
+          min={0}
+          step={0.25}
+          aria-label={t('workItem.laborHours')}
+          placeholder={t('workItem.laborPlaceholder')}
+          value={draft.laborHours ?? ''}
+          onChange={(e) => setDraft({ ...draft, laborHours: e.target.value === '' ? undefined : Number(e.target.value) })}
+          className={inputClassName}
+        />
+      </div>
+      <textarea aria-label={t('workItem.notes')} rows={2} placeholder={t('workItem.notes')} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} className={inputClassName} />
+
+      <div>
+        <span className="block text-xs font-medium text-slate-400 mb-1">{t('workItem.partsUsed')}</span>
+        {draft.partsUsed.map((part, i) => (
+          <div key={i} className="flex gap-2 mb-1">
+            <input type="number" min={1} aria-label={t('workItem.quantity')} value={part.quantity} onChange={(e) => updatePart(i, { quantity: Number(e.target.value) || 1 })} className={`${inputClassName} w-20 flex-shrink-0`} />
+            <input type="text" aria-label={t('workItem.part')} placeholder={t('workItem.part')} value={part.name} onChange={(e) => updatePart(i, { name: e.target.value })} className={inputClassName} />
+            <button onClick={() => setDraft({ ...draft, partsUsed: draft.partsUsed.filter((_, j) => j !== i) })} className="text-slate-400 hover:text-red-400 px-2" aria-label={t('workItem.removePart')}>
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        ))}
+        <button onClick={() => setDraft({ ...draft, partsUsed: [...draft.partsUsed, { name: '', quantity: 1 }] })} className="text-xs text-cyan-400 hover:text-cyan-300 font-medium">
+          <i className="fas fa-plus fa-fw"></i>{t('workItem.addPart')}
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setIsOpen(false)} className="text-sm text-slate-400 hover:text-white px-3 py-1.5">{t('workItem.cancel')}</button>
+        <button onClick={handleSave} className="text-sm bg-cyan-600 hover:bg-cyan-500 text-white font-semibold px-3 py-1.5 rounded-lg transition-colors">{t('workItem.save')}</button>
+      </div>
+    </div>
+  );
+};
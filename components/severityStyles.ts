@@ -0,0 +1,14 @@
+import { Severity, SeverityTrend } from '../services/severity';
+
+export const severityConfig: Record<Severity, { level: number; color: string; textColor: string }> = {
+    'Low': { level: 1, color: 'bg-green-500/80', textColor: 'text-green-300' },
+    'Medium': { level: 2, color: 'bg-yellow-500/80', textColor: 'text-yellow-300' },
+    'High': { level: 3, color: 'bg-orange-500/80', textColor: 'text-orange-300' },
+    'Critical': { level: 4, color: 'bg-red-600/80', textColor: 'text-red-300' },
+};
+
+export const trendStyles: Record<SeverityTrend, { className: string; icon: string }> = {
+    improving: { className: 'text-green-300', icon: 'fa-arrow-down' },
+    worsening: { className: 'text-red-300', icon: 'fa-arrow-up' },
+    stable: { className: 'text-slate-300', icon: 'fa-arrows-alt-h' },
+};
@@ -0,0 +1,79 @@
+// Caches the app and the CDN files it loads so OmniDiag opens without a
+// connection. Cases submitted offline are queued by the app itself
+// (services/offlineQueue.ts), not here.
+
+// Written by the build (see vite.config.ts): the bundle's files and a version taken from their contents.
+importScripts('/precache-manifest.js');
+const { version, assets } = self.PRECACHE_MANIFEST;
+const CACHE_NAME = `omnidiag-${version}`;
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Must match the URLs in index.html, each fetched the way the page loads it.
+const FONT_AWESOME = 'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.5.1';
+const CDN_ASSETS = [
+  { url: 'https://cdn.tailwindcss.com/3.4.17', mode: 'no-cors' },
+  { url: `${FONT_AWESOME}/css/all.min.css`, mode: 'cors' },
+  { url: `${FONT_AWESOME}/webfonts/fa-solid-900.woff2`, mode: 'cors' },
+  { url: `${FONT_AWESOME}/webfonts/fa-regular-400.woff2`, mode: 'cors' },
+  { url: `${FONT_AWESOME}/webfonts/fa-brands-400.woff2`, mode: 'cors' },
+];
+
+const precacheCdn = (cache) => Promise.all(CDN_ASSETS.map(({ url, mode }) =>
+  fetch(new Request(url, { mode })).then((response) => {
+    if (!response.ok && response.type !== 'opaque') throw new Error(`Could not precache ${url}: ${response.status}`);
+    return cache.put(url, response);
+  })
+));
+
+self.addEventListener('install', (event) => {
+  // If anything fails to download, the install fails and the previous worker keeps serving until the next visit.
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => Promise.all([cache.addAll([...SHELL, ...assets]), precacheCdn(cache)]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Model requests must never be answered from a cache.
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).then((response) => putInCache('/index.html', response)).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    // Our own files change with every deploy, so prefer the network and fall back to the cache.
+    event.respondWith(fetch(request).then((response) => putInCache(request, response)).catch(() => caches.match(request)));
+    return;
+  }
+
+  // CDN scripts, styles and fonts are versioned by URL, so the cached copy is good.
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response))));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => (clients.length > 0 ? clients[0].focus() : self.clients.openWindow('/')))
+  );
+});
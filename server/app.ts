@@ -0,0 +1,233 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ModelGateway } from './gemini';
+import { RateLimiter } from './rateLimiter';
+import { buildReportPrompt, ChatContext, followUpInstruction } from '../services/prompts';
+import { ChatMessage } from '../types';
+
+export interface AppOptions {
+  gateway: ModelGateway;
+  rateLimiter: RateLimiter;
+  /** Models clients may ask for; the first is used when a request does not name one. */
+  models: string[];
+  /**
+   * Access tokens and the user each one belongs to. Requests must carry one as
+   * a bearer token, and each user gets their own rate limit. Without it the
+   * server is open and each client address gets its own limit.
+   */
+  users?: Map<string, string>;
+  /**
+   * Hosts /api/webhook may post alerts to. Subdomains count, so
+   * "webhook.office.com" covers every Teams tenant. Without it the relay is off.
+   */
+  webhookHosts?: string[];
+  /** Read the client address from X-Forwarded-For, for deployments behind a reverse proxy. */
+  trustProxy?: boolean;
+  log?: (line: string) => void;
+}
+
+// Requests carry base64 images and audio, so allow well beyond the default body sizes of most frameworks.
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, any>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error();
+    return body;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object.');
+  }
+};
+
+const requireField = <T>(body: Record<string, any>, field: string, type: 'string' | 'object' | 'number'): T => {
+  const value = body[field];
+  if (typeof value !== type || value === null) throw new HttpError(400, `"${field}" must be a ${type}.`);
+  return value;
+};
+
+const requireHistory = (body: Record<string, any>): ChatMessage[] => {
+  const history = body.history;
+  const isMessage = (item: any) => item && typeof item === 'object' && (item.role === 'user' || item.role === 'model') && typeof item.text === 'string';
+  if (!Array.isArray(history) || !history.every(isMessage)) throw new HttpError(400, '"history" must be an array of messages, each with a "role" of "user" or "model" and a "text" string.');
+  return history;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Streams text chunks as a plain-text response. Headers are only sent once the first chunk arrives, so early failures can still return an error status. */
+const streamText = async (res: ServerResponse, chunks: AsyncIterable<string>) => {
+  for await (const chunk of chunks) {
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+    res.write(chunk);
+  }
+  if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end();
+};
+
+// A webhook that has not answered by then is reported as failed rather than holding the request open.
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Builds a prompt from case data the client sent, treating anything it cannot build from as a bad request. */
+const buildFromRequest = <T>(build: () => T): T => {
+  try {
+    return build();
+  } catch (err: any) {
+    throw new HttpError(400, `The request does not describe a valid task: ${err.message || err}`);
+  }
+};
+
+/**
+ * Handles /api/diagnose, /api/chat, /api/transcribe and /api/embed on behalf of the
+ * browser, so the model API key stays on the server. Clients send the task and
+ * case data; the prompts and response schemas are built here. /api/webhook
+ * relays alert webhooks, which chat services do not accept from a browser.
+ */
+export const createApp = ({ gateway, rateLimiter, models, users, webhookHosts = [], trustProxy = false, log = console.log }: AppOptions) => {
+  const clientAddress = (req: IncomingMessage): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  /** The user a request belongs to, or undefined when the server has no access tokens configured. */
+  const authenticate = (req: IncomingMessage): string | undefined => {
+    if (!users || users.size === 0) return undefined;
+    const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1]?.trim();
+    const user = token ? users.get(token) : undefined;
+    if (!user) throw new HttpError(401, 'A valid access token is required.');
+    return user;
+  };
+
+  const resolveWebhookUrl = (body: Record<string, any>): URL => {
+    let url: URL;
+    try {
+      url = new URL(requireField<string>(body, 'url', 'string'));
+    } catch (err) {
+      if (err instanceof HttpError) throw err;
+      throw new HttpError(400, '"url" must be a URL.');
+    }
+    const host = url.hostname.toLowerCase();
+    if (url.protocol !== 'https:' || !webhookHosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`))) {
+      throw new HttpError(403, `This server does not post webhooks to ${url.origin}.`);
+    }
+    return url;
+  };
+
+  const resolveModel = (body: Record<string, any>): string => {
+    const model = body.model ?? models[0];
+    if (!models.includes(model)) throw new HttpError(400, `Model "${model}" is not available on this server.`);
+    return model;
+  };
+
+  const routes: Record<string, (body: Record<string, any>, res: ServerResponse, signal: AbortSignal) => Promise<void>> = {
+    '/api/diagnose': (body, res, signal) => {
+      const model = resolveModel(body);
+      const task = requireField<any>(body, 'task', 'object');
+      const correction = body.correction ?? undefined;
+      const temperature = requireField<number>(body, 'temperature', 'number');
+      if (temperature < 0 || temperature > 1) throw new HttpError(400, '"temperature" must be between 0 and 1.');
+      const prompt = buildFromRequest(() => buildReportPrompt(task, correction));
+      return streamText(res, gateway.generateReportStream(model, { ...prompt, task, correction, temperature, signal }));
+    },
+
+    '/api/chat': (body, res, signal) => {
+      const model = resolveModel(body);
+      const context = requireField<ChatContext>(body, 'context', 'object');
+      const systemInstruction = buildFromRequest(() => followUpInstruction(context));
+      return streamText(res, gateway.chatStream(
+        model,
+        systemInstruction,
+        requireHistory(body),
+        requireField(body, 'message', 'string'),
+        signal,
+      ));
+    },
+
+    '/api/transcribe': async (body, res, signal) => {
+      const text = await gateway.transcribeAudio(
+        resolveModel(body),
+        requireField(body, 'audio', 'object'),
+        requireField(body, 'language', 'string'),
+        signal,
+      );
+      sendJson(res, 200, { text });
+    },
+
+    '/api/embed': async (body, res, signal) => {
+      const texts = requireField<unknown[]>(body, 'texts', 'object');
+      if (!Array.isArray(texts) || !texts.every(text => typeof text === 'string')) throw new HttpError(400, '"texts" must be an array of strings.');
+      sendJson(res, 200, { embeddings: await gateway.embedTexts(texts as string[], signal) });
+    },
+
+    '/api/webhook': async (body, res, signal) => {
+      const url = resolveWebhookUrl(body);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(requireField(body, 'payload', 'object')),
+        signal: AbortSignal.any([signal, AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)]),
+        redirect: 'error',
+      }).catch(err => {
+        if (signal.aborted) throw err;
+        throw new HttpError(502, `The webhook could not be reached: ${err.message || err}`);
+      });
+      if (!response.ok) throw new HttpError(502, `The webhook responded with ${response.status} ${response.statusText}`.trim());
+      sendJson(res, 200, { status: response.status });
+    },
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const startedAt = Date.now();
+    const client = clientAddress(req);
+    let user: string | undefined;
+    const path = (req.url ?? '').split('?')[0];
+    // Stop generating as soon as the browser goes away, e.g. when the user cancels a diagnosis.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+      log(JSON.stringify({ time: new Date(startedAt).toISOString(), method: req.method, path, client, user, status: res.statusCode, durationMs: Date.now() - startedAt, aborted: controller.signal.aborted }));
+    });
+
+    try {
+      const route = routes[path];
+      if (!route) throw new HttpError(404, 'Not found.');
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST.');
+
+      user = authenticate(req);
+      // An open server can't tell users apart, so clients are told apart by address instead.
+      const limit = rateLimiter.check(user ?? `client:${client}`);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+        throw new HttpError(429, `Too many requests. Try again in ${limit.retryAfterSeconds} seconds.`);
+      }
+
+      await route(await readJsonBody(req), res, controller.signal);
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      const status = err instanceof HttpError ? err.status : 502;
+      if (status === 502) console.error(`Failed to proxy ${path}:`, err);
+      if (res.headersSent) {
+        // Part of the stream has already gone out; cutting the connection is the only way left to signal failure.
+        res.destroy(err);
+        return;
+      }
+      sendJson(res, status, { error: err instanceof HttpError ? err.message : `The model request failed: ${err.message || err}` });
+    }
+  };
+};
@@ -0,0 +1,68 @@
+import { GoogleGenAI } from "@google/genai";
+import { AudioAttachment, ChatMessage } from '../types';
+import { ReportRequest } from '../services/providers/types';
+
+export interface ModelGateway {
+  generateReportStream(model: string, request: ReportRequest): AsyncIterable<string>;
+  chatStream(model: string, systemInstruction: string, history: ChatMessage[], message: string, signal?: AbortSignal): AsyncIterable<string>;
+  transcribeAudio(model: string, audio: AudioAttachment, language: string, signal?: AbortSignal): Promise<string>;
+  embedTexts(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+/**
+ * The only place the Gemini API key is used. `baseUrl` points the SDK at a
+ * different host, such as the local stub in stubModel.ts.
+ */
+export const createGeminiGateway = (apiKey: string, embeddingModel: string, baseUrl?: string): ModelGateway => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+  return {
+    async *generateReportStream(model, { systemInstruction, parts, responseSchema, temperature, signal }) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: { parts },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseJsonSchema: responseSchema,
+          temperature,
+          abortSignal: signal,
+        },
+      });
+      for await (const chunk of stream) {
+        yield chunk.text ?? '';
+      }
+    },
+
+    async *chatStream(model, systemInstruction, history, message, signal) {
+      const chat = ai.chats.create({
+        model,
+        config: { systemInstruction },
+        history: history.map(msg => ({ role: msg.role, parts: [{ text: msg.text }] })),
+      });
+      const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+      for await (const chunk of stream) {
+        yield chunk.text ?? '';
+      }
+    },
+
+    transcribeAudio: async (model, audio, language, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: audio.mimeType, data: audio.data } },
+            { text: `Transcribe this voice note verbatim. The speaker's language is "${language}". Return only the transcript, with no commentary or description of background sounds.` },
+          ],
+        },
+        config: { temperature: 0, abortSignal: signal },
+      });
+      return (response.text ?? '').trim();
+    },
+
+    embedTexts: async (texts, signal) => {
+      const response = await ai.models.embedContent({ model: embeddingModel, contents: texts, config: { abortSignal: signal } });
+      return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { createServer } from 'http';
+import { createApp } from './app';
+import { createGeminiGateway } from './gemini';
+import { createRateLimiter } from './rateLimiter';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the real environment.
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  throw new Error("GEMINI_API_KEY environment variable not set");
+}
+
+const port = Number(process.env.PORT ?? 8787);
+const models = (process.env.OMNIDIAG_MODELS ?? 'gemini-2.5-flash').split(',').map(model => model.trim()).filter(Boolean);
+
+// OMNIDIAG_USERS lists each user's access token as user:token, comma-separated.
+const users = new Map(
+  (process.env.OMNIDIAG_USERS ?? '').split(',').map(pair => pair.trim()).filter(Boolean).map(pair => {
+    const separator = pair.indexOf(':');
+    if (separator <= 0 || separator === pair.length - 1) throw new Error(`OMNIDIAG_USERS entry "${pair}" must be user:token.`);
+    return [pair.slice(separator + 1), pair.slice(0, separator)] as const;
+  }),
+);
+if (users.size === 0) {
+  console.warn('OMNIDIAG_USERS is not set: anyone who can reach this server can use it, and each client address gets its own rate limit.');
+}
+
+// Hosts alert webhooks may be relayed to; the defaults are Slack, Microsoft Teams and Zapier.
+const webhookHosts = (process.env.OMNIDIAG_WEBHOOK_HOSTS ?? 'hooks.slack.com,webhook.office.com,hooks.zapier.com')
+  .split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+
+const app = createApp({
+  gateway: createGeminiGateway(apiKey, process.env.OMNIDIAG_EMBEDDING_MODEL ?? 'gemini-embedding-001', process.env.GEMINI_BASE_URL),
+  rateLimiter: createRateLimiter(Number(process.env.RATE_LIMIT_MAX ?? 30), Number(process.env.RATE_LIMIT_WINDOW_SECONDS ?? 60) * 1000),
+  models,
+  users,
+  webhookHosts,
+  trustProxy: process.env.TRUST_PROXY === 'true',
+});
+
+createServer(app).listen(port, () => {
+  console.log(`OmniDiag server listening on http://localhost:${port} (models: ${models.join(', ')})`);
+});
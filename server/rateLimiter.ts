@@ -0,0 +1,31 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the client may try again; only set when `allowed` is false. */
+  retryAfterSeconds?: number;
+}
+
+export interface RateLimiter {
+  /** `key` is the user, or the client address on a server without users. */
+  check(key: string, now?: number): RateLimitResult;
+}
+
+/** Allows each key at most `maxRequests` in any fixed window of `windowMs`. */
+export const createRateLimiter = (maxRequests: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    check: (key, now = Date.now()) => {
+      // Forget windows that have ended so the map does not grow with every client ever seen.
+      for (const [id, window] of windows) {
+        if (now - window.startedAt >= windowMs) windows.delete(id);
+      }
+
+      const window = windows.get(key) ?? { startedAt: now, count: 0 };
+      if (window.count >= maxRequests) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.startedAt + windowMs - now) / 1000) };
+      }
+      windows.set(key, { ...window, count: window.count + 1 });
+      return { allowed: true };
+    },
+  };
+};
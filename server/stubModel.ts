@@ -0,0 +1,79 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { pathToFileURL } from 'url';
+import { createFixtureProvider, fixtureResponseFor } from '../services/providers/fixtureProvider';
+import { ChatOptions } from '../services/providers/types';
+import { customerSummarySchema, managerBriefSchema, reportSchema } from '../services/reportSchema';
+
+/**
+ * A stand-in for the Gemini REST API that answers with the offline fixture
+ * provider's canned responses. Run the proxy with
+ * GEMINI_BASE_URL=http://localhost:<STUB_PORT> to exercise it end to end
+ * without a key or network access.
+ */
+const fixture = createFixtureProvider();
+
+// Schemas arrive as JSON, so they are recognised by their serialized form.
+const knownSchemas = new Map([reportSchema, managerBriefSchema, customerSummarySchema].map(schema => [JSON.stringify(schema), schema]));
+
+// Small chunks, so clients see the response stream in as they would from the real API.
+const STUB_CHUNK_SIZE = 256;
+
+const toCandidate = (text: string) => JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] });
+
+const sendJson = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/** Handles the Gemini REST methods the OmniDiag server calls. Structured output matches the schema it is requested with. */
+export const createStubModel = (log: (line: string) => void = console.log) => async (req: IncomingMessage, res: ServerResponse) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  const method = /:(\w+)$/.exec((req.url ?? '').split('?')[0])?.[1];
+  log(`${req.method} ${req.url}`);
+
+  if (method === 'streamGenerateContent') {
+    const config = body.generationConfig ?? {};
+    let texts: AsyncIterable<string> | string[];
+    if (config.responseMimeType === 'application/json') {
+      const schema = knownSchemas.get(JSON.stringify(config.responseJsonSchema));
+      if (!schema) {
+        sendJson(res, 400, { error: { code: 400, message: 'The stub has no response for this schema.' } });
+        return;
+      }
+      const json = JSON.stringify(fixtureResponseFor(schema));
+      texts = Array.from({ length: Math.ceil(json.length / STUB_CHUNK_SIZE) }, (_, i) => json.slice(i * STUB_CHUNK_SIZE, (i + 1) * STUB_CHUNK_SIZE));
+    } else {
+      // The fixture's chat gives the same reply whatever it is asked.
+      texts = fixture.createChat({} as ChatOptions).sendMessageStream('');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for await (const text of texts) {
+      res.write(`data: ${toCandidate(text)}\r\n\r\n`);
+    }
+    res.end();
+    return;
+  }
+
+  if (method === 'batchEmbedContents') {
+    const texts: string[] = (body.requests ?? []).map((request: any) => (request.content?.parts ?? []).map((part: any) => part.text).join(' '));
+    const embeddings = await fixture.embedTexts(texts);
+    sendJson(res, 200, { embeddings: embeddings.map(values => ({ values })) });
+    return;
+  }
+
+  if (method === 'generateContent') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(toCandidate(await fixture.transcribeAudio({ mimeType: '', data: '', durationSeconds: 0 }, 'en-US')));
+    return;
+  }
+
+  sendJson(res, 404, { error: { code: 404, message: `The stub does not implement ${req.url}` } });
+};
+
+// Started by `npm run server:stub`; the server tests import createStubModel instead.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.STUB_PORT ?? 8788);
+  createServer(createStubModel()).listen(port, () => console.log(`Stub model API listening on http://localhost:${port}`));
+}
@@ -0,0 +1,133 @@
+import { AlertDeliveryStatus, AlertRule, AlertSettings, FiredAlert, HistoryEntry } from '../types';
+import { severityLevels } from './severity';
+import { isNotificationSupported, playAlertSound, showSystemNotification } from './notifications';
+import { postToServer } from './providers/serverProvider';
+import type { Translate } from './i18n';
+
+export const newAlertRule = (): AlertRule => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  enabled: true,
+  minSeverity: 'High',
+  domains: [],
+  assetIds: [],
+  keywords: [],
+  notifyDesktop: true,
+  playSound: true,
+  sendWebhook: false,
+});
+
+/** Splits a comma-separated list of phrases such as "gas leak, arc flash". */
+export const parseKeywords = (value: string): string[] =>
+  value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+const alertText = (entry: HistoryEntry): string =>
+  [
+    entry.report.faultSummary,
+    ...entry.report.possibleCauses,
+    entry.report.riskAssessment.summary,
+    ...entry.report.riskAssessment.potentialConsequences,
+    entry.userInput.text,
+    entry.userInput.audio,
+  ].join('\n').toLowerCase();
+
+/**
+ * Every condition a rule sets must hold; within a list (domains, assets,
+ * keywords) any one entry is enough.
+ */
+export const ruleMatches = (rule: AlertRule, entry: HistoryEntry): boolean => {
+  if (!rule.enabled) return false;
+  if (severityLevels[entry.report.riskAssessment.severity] < severityLevels[rule.minSeverity]) return false;
+  if (rule.domains.length > 0 && (!entry.equipmentProfile || !rule.domains.includes(entry.equipmentProfile.domain))) return false;
+  if (rule.assetIds.length > 0 && (!entry.assetId || !rule.assetIds.includes(entry.assetId))) return false;
+  if (rule.keywords.length > 0) {
+    const text = alertText(entry);
+    if (!rule.keywords.some(keyword => text.includes(keyword.toLowerCase()))) return false;
+  }
+  return true;
+};
+
+// Chat services reject JSON posted straight from a browser (their CORS preflight fails), so the OmniDiag server relays it.
+const postWebhook = async (url: string, accessToken: string, rule: AlertRule, entry: HistoryEntry, firedAt: Date, t: Translate) => {
+  await postToServer('/webhook', accessToken, {
+    url,
+    payload: {
+      // Slack, Teams and Zapier show `text`; the rest is there for integrations that read the case.
+      text: t('alert.webhookText', { name: rule.name, severity: t(`severity.${entry.report.riskAssessment.severity}`), summary: entry.report.faultSummary }),
+      rule: { id: rule.id, name: rule.name },
+      firedAt: firedAt.toISOString(),
+      case: {
+        id: entry.id,
+        timestamp: new Date(entry.timestamp).toISOString(),
+        assetId: entry.assetId,
+        domain: entry.equipmentProfile?.domain,
+        faultSummary: entry.report.faultSummary,
+        severity: entry.report.riskAssessment.severity,
+        riskSummary: entry.report.riskAssessment.summary,
+      },
+    },
+  });
+};
+
+const notifyDesktop = async (rule: AlertRule, entry: HistoryEntry, t: Translate) => {
+  // showSystemNotification quietly does nothing without permission, which the alert log should not report as sent.
+  if (!isNotificationSupported() || Notification.permission !== 'granted') throw new Error('Desktop notifications are not allowed in this browser.');
+  await showSystemNotification(t('alert.notificationTitle', { name: rule.name, severity: t(`severity.${entry.report.riskAssessment.severity}`) }), entry.report.faultSummary);
+};
+
+const deliver = async (enabled: boolean, send: () => Promise<void>): Promise<AlertDeliveryStatus> => {
+  if (!enabled) return 'skipped';
+  await send();
+  return 'sent';
+};
+
+/**
+ * Fires every rule that matches the case on its chosen channels. A failing
+ * channel is recorded on the returned alert rather than thrown, so one bad
+ * webhook doesn't stop the other alerts. The sound plays once however many
+ * rules ask for it. `accessToken` authenticates the webhook relay; `t` words
+ * the notification and webhook text in the UI language.
+ */
+export const fireAlerts = async (settings: AlertSettings, entry: HistoryEntry, accessToken: string, t: Translate): Promise<FiredAlert[]> => {
+  const matched = settings.rules.filter(rule => ruleMatches(rule, entry));
+  if (matched.length === 0) return [];
+
+  const { faultSummary, riskAssessment } = entry.report;
+  const firedAt = new Date();
+
+  const sound = deliver(matched.some(rule => rule.playSound), playAlertSound)
+    .catch(err => {
+      console.error("Failed to play alert sound:", err);
+      return 'failed' as const;
+    });
+
+  return Promise.all(matched.map(async (rule): Promise<FiredAlert> => {
+    const desktop = await deliver(rule.notifyDesktop, () => notifyDesktop(rule, entry, t))
+      .catch(err => {
+        console.error("Failed to show alert notification:", err);
+        return 'failed' as const;
+      });
+
+    let webhookError: string | undefined;
+    const webhook = await deliver(rule.sendWebhook && settings.webhookUrl.trim() !== '', () => postWebhook(settings.webhookUrl.trim(), accessToken, rule, entry, firedAt, t))
+      .catch(err => {
+        console.error("Failed to send alert webhook:", err);
+        webhookError = err.message || String(err);
+        return 'failed' as const;
+      });
+
+    return {
+      id: `${firedAt.getTime()}-${rule.id}`,
+      firedAt,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      entryId: entry.id,
+      faultSummary,
+      severity: riskAssessment.severity,
+      desktop,
+      sound: rule.playSound ? await sound : 'skipped',
+      webhook,
+      webhookError,
+    };
+  }));
+};
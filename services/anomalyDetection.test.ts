@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectAnomalies, rollingZScores, stepLimit } from './anomalyDetection';
+
+// Deterministic jitter, so every run sees the same readings.
+const noisy = (length: number, level = 20, amplitude = 0.5) =>
+  Array.from({ length }, (_, i) => level + amplitude * Math.sin(i * 1.7) + (amplitude / 2) * Math.cos(i * 0.9));
+
+const positions = (length: number) => Array.from({ length }, (_, i) => i * 60_000);
+
+describe('rollingZScores', () => {
+  it('has no score until a full window of history exists', () => {
+    const scores = rollingZScores(noisy(10), 5);
+    assert.ok(scores.slice(0, 5).every(Number.isNaN));
+    assert.ok(scores.slice(5).every(Number.isFinite));
+  });
+
+  it('scores a reading against the readings before it', () => {
+    const scores = rollingZScores([1, 3, 1, 3, 5], 4);
+    // Window mean 2, standard deviation 1.
+    assert.equal(scores[4], 3);
+  });
+
+  it('leaves readings after a perfectly flat window unscored', () => {
+    assert.ok(Number.isNaN(rollingZScores([5, 5, 5, 5, 9], 4)[4]));
+  });
+
+  it('treats a repeated reading with rounding error as flat', () => {
+    const values = [...Array(30).fill(12.4), 12.3];
+    assert.ok(Number.isNaN(rollingZScores(values, 30)[30]));
+  });
+
+  it('keeps matching the window it slides over along a long series', () => {
+    const values = noisy(1000, 5000, 3);
+    const scores = rollingZScores(values, 30);
+    for (const i of [30, 31, 59, 60, 517, 999]) {
+      const previous = values.slice(i - 30, i);
+      const mean = previous.reduce((sum, reading) => sum + reading, 0) / 30;
+      const deviation = Math.sqrt(previous.reduce((sum, reading) => sum + (reading - mean) ** 2, 0) / 30);
+      assert.ok(Math.abs(scores[i] - (values[i] - mean) / deviation) < 1e-6);
+    }
+  });
+});
+
+describe('stepLimit', () => {
+  it('uses the configured limit when there is one', () => {
+    assert.equal(stepLimit([1, 2, 3], { maxStep: 0.5, stepFactor: 10 }), 0.5);
+  });
+
+  it('scales the median non-zero change otherwise', () => {
+    assert.equal(stepLimit([0, 1, 1, 3, 3, 4], { stepFactor: 10 }), 10);
+  });
+
+  it('is unlimited for a channel that never changes', () => {
+    assert.equal(stepLimit([2, 2, 2], { stepFactor: 10 }), Infinity);
+  });
+});
+
+describe('detectAnomalies', () => {
+  it('flags nothing in steady readings', () => {
+    const values = noisy(200);
+    assert.deepEqual(detectAnomalies(positions(200), values), []);
+  });
+
+  it('does not mistake a steady ramp for an anomaly', () => {
+    const values = Array.from({ length: 200 }, (_, i) => 20 + i * 0.1);
+    assert.deepEqual(detectAnomalies(positions(200), values), []);
+  });
+
+  it('flags a spike as a deviation and as a jump, at the spike', () => {
+    const values = noisy(120);
+    values[80] = 35;
+    const x = positions(120);
+    const anomalies = detectAnomalies(x, values);
+
+    const deviation = anomalies.find(a => a.kind === 'deviation');
+    assert.ok(deviation);
+    assert.equal(deviation.startIndex, 80);
+    assert.equal(deviation.start, x[80]);
+    assert.equal(deviation.peak, 35);
+    assert.ok(deviation.score > 4);
+
+    // Up at 80 and back down at 81 are one window.
+    const jumps = anomalies.filter(a => a.kind === 'rate-of-change');
+    assert.equal(jumps.length, 1);
+    assert.equal(jumps[0].startIndex, 80);
+    assert.equal(jumps[0].endIndex, 81);
+  });
+
+  it('flags changes beyond a configured step limit that the estimate would allow', () => {
+    const values = Array.from({ length: 60 }, (_, i) => (i < 30 ? 20 : 22) + (i % 2) * 0.5);
+    assert.equal(detectAnomalies(positions(60), values).filter(a => a.kind === 'rate-of-change').length, 0);
+
+    const jumps = detectAnomalies(positions(60), values, { maxStep: 1 }).filter(a => a.kind === 'rate-of-change');
+    assert.equal(jumps.length, 1);
+    assert.equal(jumps[0].startIndex, 30);
+  });
+
+  it('flags a sensor that stops changing', () => {
+    const values = [...noisy(50), ...Array(25).fill(21.5), ...noisy(50)];
+    const x = positions(values.length);
+    const stuck = detectAnomalies(x, values).filter(a => a.kind === 'stuck');
+    assert.deepEqual(stuck, [{ kind: 'stuck', startIndex: 50, endIndex: 74, start: x[50], end: x[74], peak: 21.5, score: 25 }]);
+  });
+
+  it('does not flag the readings after a stuck stretch as deviations', () => {
+    const values = [...noisy(50), ...Array(30).fill(20.3), ...noisy(50)];
+    assert.deepEqual(detectAnomalies(positions(values.length), values).map(a => a.kind), ['stuck']);
+  });
+
+  it('ignores repeats shorter than the stuck threshold', () => {
+    const values = [...noisy(50), ...Array(10).fill(21.5), ...noisy(50)];
+    assert.equal(detectAnomalies(positions(values.length), values, { stuckReadings: 20 }).filter(a => a.kind === 'stuck').length, 0);
+  });
+
+  it('treats a channel that is constant throughout as a setpoint, not a stuck sensor', () => {
+    assert.deepEqual(detectAnomalies(positions(100), Array(100).fill(4)), []);
+  });
+
+  it('returns windows in reading order', () => {
+    const values = [...noisy(60), ...Array(30).fill(20), ...noisy(60)];
+    values[130] = 40;
+    const starts = detectAnomalies(positions(values.length), values).map(a => a.startIndex);
+    assert.deepEqual(starts, [...starts].sort((a, b) => a - b));
+  });
+});
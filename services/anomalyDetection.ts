@@ -0,0 +1,159 @@
+import { AnomalyKind, AnomalyWindow } from '../types';
+
+export interface AnomalyOptions {
+  /** How many preceding readings each reading is compared against. */
+  window: number;
+  /** Rolling z-score beyond which a reading counts as a sudden deviation. */
+  zThreshold: number;
+  /** The largest expected change between consecutive readings. Estimated from the data when absent. */
+  maxStep?: number;
+  /** Without `maxStep`, changes beyond this multiple of the median change are flagged. */
+  stepFactor: number;
+  /** Identical consecutive readings needed to call a sensor stuck. */
+  stuckReadings: number;
+  /** Flags of one kind at most this many readings apart are reported as one window. */
+  mergeGap: number;
+}
+
+export const defaultAnomalyOptions: AnomalyOptions = {
+  window: 30,
+  zThreshold: 4,
+  stepFactor: 10,
+  stuckReadings: 20,
+  mergeGap: 3,
+};
+
+const FLAT_TOLERANCE = 1e-9;
+
+interface Flag {
+  index: number;
+  value: number;
+  score: number;
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Scores each reading against the `window` readings before it. Readings
+ * without a full window behind them, or whose window is flat, score NaN; a
+ * flat window is the stuck-sensor check's business.
+ *
+ * The window's sums are slid along rather than recomputed, so long files stay
+ * linear. They are taken about the window's first reading to limit
+ * cancellation, and re-summed every `window` readings so rounding error
+ * cannot build up.
+ */
+export const rollingZScores = (values: number[], window: number): number[] => {
+  const scores = values.map(() => NaN);
+  let origin = 0;
+  let sum = 0;
+  let sumOfSquares = 0;
+  // How many identical readings end just before the one being scored.
+  let flatRun = 1;
+  for (let i = 1; i < Math.min(window, values.length); i++) {
+    flatRun = values[i] === values[i - 1] ? flatRun + 1 : 1;
+  }
+  for (let i = window; i < values.length; i++) {
+    if ((i - window) % window === 0) {
+      origin = values[i - window];
+      sum = 0;
+      sumOfSquares = 0;
+      for (let j = i - window; j < i; j++) {
+        sum += values[j] - origin;
+        sumOfSquares += (values[j] - origin) ** 2;
+      }
+    } else {
+      const added = values[i - 1] - origin;
+      const removed = values[i - window - 1] - origin;
+      sum += added - removed;
+      sumOfSquares += added ** 2 - removed ** 2;
+    }
+    const offset = sum / window;
+    const mean = origin + offset;
+    const deviation = Math.sqrt(Math.max(0, sumOfSquares / window - offset ** 2));
+    // Rounding error alone leaves a repeated reading with a tiny, non-zero spread.
+    if (flatRun < window && deviation > FLAT_TOLERANCE * Math.max(1, Math.abs(mean))) {
+      scores[i] = (values[i] - mean) / deviation;
+    }
+    flatRun = values[i] === values[i - 1] ? flatRun + 1 : 1;
+  }
+  return scores;
+};
+
+/** The change between readings beyond which `detectAnomalies` flags a jump, or Infinity if the channel never changes. */
+export const stepLimit = (values: number[], { maxStep, stepFactor }: Pick<AnomalyOptions, 'maxStep' | 'stepFactor'>): number => {
+  if (maxStep !== undefined) return maxStep;
+  // Zero steps are left out so a quantized sensor that mostly repeats itself doesn't get a limit of zero.
+  const steps = values.slice(1).map((value, i) => Math.abs(value - values[i])).filter(step => step > 0);
+  return steps.length > 0 ? median(steps) * stepFactor : Infinity;
+};
+
+const deviationFlags = (values: number[], { window, zThreshold }: AnomalyOptions): Flag[] =>
+  rollingZScores(values, window).flatMap((score, index) =>
+    Math.abs(score) > zThreshold ? [{ index, value: values[index], score: Math.abs(score) }] : []);
+
+const rateFlags = (values: number[], options: AnomalyOptions): Flag[] => {
+  const limit = stepLimit(values, options);
+  return values.slice(1).flatMap((value, i) => {
+    const step = Math.abs(value - values[i]);
+    return step > limit ? [{ index: i + 1, value, score: step }] : [];
+  });
+};
+
+const mergeFlags = (kind: AnomalyKind, flags: Flag[], x: number[], mergeGap: number): AnomalyWindow[] => {
+  const windows: AnomalyWindow[] = [];
+  let strongest: Flag | null = null;
+  for (const flag of flags) {
+    const current = windows[windows.length - 1];
+    if (current && strongest && flag.index - current.endIndex <= mergeGap) {
+      current.endIndex = flag.index;
+      current.end = x[flag.index];
+      if (flag.score > strongest.score) strongest = flag;
+      current.peak = strongest.value;
+      current.score = strongest.score;
+      continue;
+    }
+    strongest = flag;
+    windows.push({ kind, startIndex: flag.index, endIndex: flag.index, start: x[flag.index], end: x[flag.index], peak: flag.value, score: flag.score });
+  }
+  return windows;
+};
+
+const stuckWindows = (x: number[], values: number[], { stuckReadings }: AnomalyOptions): AnomalyWindow[] => {
+  // A channel that never changes is a constant, such as a setpoint, not a sensor that stopped.
+  if (values.every(value => value === values[0])) return [];
+  const windows: AnomalyWindow[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= values.length; i++) {
+    if (i < values.length && values[i] === values[runStart]) continue;
+    const length = i - runStart;
+    if (length >= stuckReadings) {
+      windows.push({ kind: 'stuck', startIndex: runStart, endIndex: i - 1, start: x[runStart], end: x[i - 1], peak: values[runStart], score: length });
+    }
+    runStart = i;
+  }
+  return windows;
+};
+
+/**
+ * Screens one telemetry channel for sudden deviations (rolling z-score),
+ * jumps between readings (rate of change) and flat-lined readings (stuck
+ * sensor). `x` gives each reading's position for the returned windows; both
+ * arrays must be the same length and hold only finite numbers.
+ */
+export const detectAnomalies = (x: number[], values: number[], options: Partial<AnomalyOptions> = {}): AnomalyWindow[] => {
+  const settings = { ...defaultAnomalyOptions, ...options };
+  const stuck = stuckWindows(x, values, settings);
+  // Readings soon after a stuck stretch are scored against near-flat history, so any ordinary reading would look like a deviation.
+  const deviations = deviationFlags(values, settings)
+    .filter(flag => !stuck.some(window => flag.index > window.startIndex && flag.index <= window.endIndex + settings.window));
+  return [
+    ...mergeFlags('deviation', deviations, x, settings.mergeGap),
+    ...mergeFlags('rate-of-change', rateFlags(values, settings), x, settings.mergeGap),
+    ...stuck,
+  ].sort((a, b) => a.startIndex - b.startIndex);
+};
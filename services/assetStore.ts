@@ -0,0 +1,15 @@
+import { Asset } from '../types';
+import { ASSET_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+export const loadAssets = async (): Promise<Asset[]> => {
+  const db = await openDb();
+  const assets: Asset[] = await requestToPromise(db.transaction(ASSET_STORE, 'readonly').objectStore(ASSET_STORE).getAll());
+  return assets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveAsset = async (asset: Asset): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(ASSET_STORE, 'readwrite');
+  tx.objectStore(ASSET_STORE).put(asset);
+  await transactionDone(tx);
+};
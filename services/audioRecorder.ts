@@ -0,0 +1,57 @@
+import { AudioAttachment } from '../types';
+import { readFileAsBase64 } from './media';
+
+export interface AudioRecording {
+  /** Stops recording and resolves with the captured clip. */
+  stop(): Promise<AudioAttachment>;
+  /** Stops recording and discards the clip. */
+  cancel(): void;
+}
+
+export const isAudioCaptureSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/** Starts capturing raw microphone audio with MediaRecorder. Works in every browser that supports it, including Firefox. */
+export const startAudioRecording = async (): Promise<AudioRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const releaseMicrophone = () => stream.getTracks().forEach(track => track.stop());
+
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise((resolve, reject) => {
+        recorder.onstop = async () => {
+          releaseMicrophone();
+          // Drop codec parameters such as ";codecs=opus"; models expect a bare MIME type.
+          const mimeType = (recorder.mimeType || 'audio/webm').split(';')[0];
+          try {
+            resolve({
+              mimeType,
+              data: await readFileAsBase64(new Blob(chunks, { type: mimeType })),
+              durationSeconds: (Date.now() - startedAt) / 1000,
+            });
+          } catch (err) {
+            reject(err);
+          }
+        };
+        recorder.stop();
+      }),
+
+    cancel: () => {
+      recorder.onstop = releaseMicrophone;
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      } else {
+        releaseMicrophone();
+      }
+    },
+  };
+};
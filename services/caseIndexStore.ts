@@ -0,0 +1,25 @@
+import { CASE_INDEX_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/** The search index entry for one HistoryEntry, stored under the same id. */
+export interface CaseIndexRecord {
+  id: string;
+  /** Fingerprint of the text that was indexed, so edits to the case can be detected. */
+  sourceHash: string;
+  tokens: string[];
+  embedding?: number[];
+  /** The embedding space `embedding` belongs to; see embeddingKeyFor. */
+  embeddingKey?: string;
+}
+
+export const loadCaseIndex = async (): Promise<CaseIndexRecord[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(CASE_INDEX_STORE, 'readonly').objectStore(CASE_INDEX_STORE).getAll());
+};
+
+export const saveCaseIndexRecords = async (records: CaseIndexRecord[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CASE_INDEX_STORE, 'readwrite');
+  const store = tx.objectStore(CASE_INDEX_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
@@ -0,0 +1,17 @@
+import { CatalogueItem } from '../types';
+import { CATALOGUE_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+export const loadCatalogue = async (): Promise<CatalogueItem[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(CATALOGUE_STORE, 'readonly').objectStore(CATALOGUE_STORE).getAll());
+};
+
+/** Swaps the whole catalogue for `items` in one transaction, so a failed import leaves the old one in place. */
+export const replaceCatalogue = async (items: CatalogueItem[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CATALOGUE_STORE, 'readwrite');
+  const store = tx.objectStore(CATALOGUE_STORE);
+  store.clear();
+  items.forEach(item => store.put(item));
+  await transactionDone(tx);
+};
@@ -0,0 +1,135 @@
+import { ConsensusSummary, DiagnosticReport, RecommendedFix } from '../types';
+import { Severity, severityLevels } from './severity';
+import { tokenize } from './similarCases';
+
+// Two causes (or fixes) from different runs are taken to be the same finding above this word overlap.
+const SAME_FINDING_SIMILARITY = 0.5;
+
+const priorityRank: Record<RecommendedFix['priority'], number> = { 'Optional': 0, 'Recommended': 1, 'Urgent': 2 };
+
+/** How many words two texts share, from 0 (none) to 1 (the same words). */
+export const wordOverlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+interface Cluster<T> {
+  tokens: Set<string>;
+  /** The item from each run that contributed, keyed by run index. */
+  members: Map<number, { item: T; position: number }>;
+}
+
+/**
+ * Groups the items of every run into findings. Each run contributes at most
+ * one item per finding, so a run that repeats itself can't inflate agreement.
+ */
+const clusterFindings = <T>(runs: T[][], textOf: (item: T) => string): Cluster<T>[] => {
+  const clusters: Cluster<T>[] = [];
+  runs.forEach((items, run) => {
+    items.forEach((item, position) => {
+      const tokens = new Set(tokenize(textOf(item)));
+      let best: Cluster<T> | null = null;
+      let bestScore = SAME_FINDING_SIMILARITY;
+      for (const cluster of clusters) {
+        if (cluster.members.has(run)) continue;
+        const score = wordOverlap(tokens, cluster.tokens);
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        best.members.set(run, { item, position });
+      } else {
+        clusters.push({ tokens, members: new Map([[run, { item, position }]]) });
+      }
+    });
+  });
+  return clusters;
+};
+
+const meanPosition = (cluster: Cluster<unknown>) =>
+  [...cluster.members.values()].reduce((sum, member) => sum + member.position, 0) / cluster.members.size;
+
+// Most agreed first; among equals, the one runs tended to list earlier.
+const byAgreement = (a: Cluster<unknown>, b: Cluster<unknown>) => b.members.size - a.members.size || meanPosition(a) - meanPosition(b);
+
+/** The most common value; ties go to the one `rank` puts highest, so a split vote errs towards caution. */
+const majority = <T extends string>(values: T[], rank: (value: T) => number): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort(([a, countA], [b, countB]) => countB - countA || rank(b) - rank(a))[0][0];
+};
+
+/**
+ * Merges the reports of several runs on the same case. Causes and fixes are
+ * ranked by how many runs agree on them; severity is decided by majority,
+ * with ties going to the more severe. Narrative fields come from the run that
+ * agrees best with the consensus.
+ */
+export const mergeReports = (reports: DiagnosticReport[], models: string[]): { report: DiagnosticReport; consensus: ConsensusSummary } => {
+  const runCount = reports.length;
+  const severities = reports.map(report => report.riskAssessment.severity);
+  const severity = majority<Severity>(severities, value => severityLevels[value]);
+
+  const causeClusters = clusterFindings(reports.map(report => report.possibleCauses), cause => cause).sort(byAgreement);
+  const fixClusters = clusterFindings(reports.map(report => report.recommendedFixes), fix => fix.fix).sort(byAgreement);
+
+  // The run to take the summary, steps and explanation from: one that reached the consensus severity, naming the best-supported causes.
+  const support = (run: number) => causeClusters.reduce((sum, cluster) => sum + (cluster.members.has(run) ? cluster.members.size : 0), 0);
+  const primary = reports
+    .map((_, run) => run)
+    .filter(run => severities[run] === severity)
+    .sort((a, b) => support(b) - support(a))[0];
+  const base = reports[primary];
+
+  const pick = <T>(cluster: Cluster<T>): T => (cluster.members.get(primary) ?? cluster.members.values().next().value!).item;
+
+  const possibleCauses = causeClusters.map(pick);
+  // Image evidence and annotations are only carried over from the primary run, whose cause indexes they refer to.
+  const causeEvidence = base.causeEvidence
+    ?.map(evidence => ({ ...evidence, causeIndex: causeClusters.findIndex(cluster => cluster.members.get(primary)?.position === evidence.causeIndex) }))
+    .filter(evidence => evidence.causeIndex >= 0);
+  const imageAnnotations = base.imageAnnotations?.map(({ causeIndex, ...annotation }) => {
+    const merged = causeIndex === undefined ? -1 : causeClusters.findIndex(cluster => cluster.members.get(primary)?.position === causeIndex);
+    return merged >= 0 ? { ...annotation, causeIndex: merged } : annotation;
+  });
+
+  const recommendedFixes = fixClusters.map(cluster => ({
+    ...pick(cluster),
+    priority: majority([...cluster.members.values()].map(member => member.item.priority), value => priorityRank[value]),
+  }));
+
+  // A hazard any run saw is kept, as the safety checklist should err towards caution.
+  const hazards = [...new Set(reports.flatMap(report => report.riskAssessment.hazards ?? []))];
+
+  const severityVotes: ConsensusSummary['severityVotes'] = {};
+  severities.forEach(value => { severityVotes[value] = (severityVotes[value] ?? 0) + 1; });
+
+  return {
+    report: {
+      ...base,
+      possibleCauses,
+      causeEvidence,
+      imageAnnotations,
+      riskAssessment: { ...base.riskAssessment, severity, hazards },
+      recommendedFixes,
+    },
+    consensus: {
+      models,
+      causes: causeClusters.map((cluster, i) => ({ cause: possibleCauses[i], confidence: cluster.members.size / runCount })),
+      fixes: fixClusters.map((cluster, i) => ({ fix: recommendedFixes[i].fix, confidence: cluster.members.size / runCount })),
+      severityVotes,
+    },
+  };
+};
+
+export const hasSeverityDisagreement = (consensus: ConsensusSummary): boolean => Object.keys(consensus.severityVotes).length > 1;
+
+export const causeConfidence = (consensus: ConsensusSummary | undefined, cause: string): number | undefined =>
+  consensus?.causes.find(c => c.cause === cause)?.confidence;
+
+export const fixConfidence = (consensus: ConsensusSummary | undefined, fix: string): number | undefined =>
+  consensus?.fixes.find(f => f.fix === fix)?.confidence;
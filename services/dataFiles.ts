@@ -0,0 +1,283 @@
+import { AnomalyKind, AnomalyWindow, DataFileKind, DataFileSummary, FaultCodeOccurrence, TelemetryChannel, ThresholdCrossing } from '../types';
+import { detectAnomalies } from './anomalyDetection';
+import { parseCsvRows } from './csv';
+import { CONTROLLER_CODE_PATTERN, describeFaultCode, OBD_CODE_PATTERN } from './faultCodes';
+import { createTranslator, Translate } from './i18n';
+
+// Files are parsed on the main thread, so larger ones would stall the page.
+export const MAX_DATA_FILE_BYTES = 20 * 1024 * 1024;
+
+// Each bucket contributes its lowest and highest reading, so spikes survive the thinning.
+const CHART_BUCKETS = 120;
+// A column counts as numeric if at least this share of its filled cells are numbers.
+const NUMERIC_SHARE = 0.8;
+const TOP_MESSAGES = 5;
+// Flagged windows per channel written into the prompt; a noisy channel can have hundreds.
+const TOP_ANOMALIES = 5;
+
+const TIMESTAMP_PATTERN = /\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?/;
+const ERROR_PATTERN = /\b(?:fatal|critical|error|err|fault|alarm|tripped|trip)\b/i;
+const WARNING_PATTERN = /\b(?:warn|warning)\b/i;
+
+export interface ChannelLimits {
+  low?: number;
+  high?: number;
+  /** Passed to the anomaly screen as the largest expected change between readings. */
+  maxStep?: number;
+}
+
+/** An uploaded data file as parsed on this device. It is kept in full until the case is submitted, so limits can still be changed. */
+export interface DataFileUpload {
+  fileName: string;
+  kind: DataFileKind;
+  /** Telemetry only: each row's position on the x axis, and every numeric column. Cells that aren't numbers are NaN. */
+  x: number[];
+  xAxis: DataFileSummary['xAxis'];
+  period?: DataFileSummary['period'];
+  columns: { name: string; values: number[] }[];
+  /** Fault-code dumps and logs, line by line. */
+  lines: string[];
+  /** Keyed by column name. */
+  limits: Record<string, ChannelLimits>;
+}
+
+const detectDelimiter = (headerLine: string) =>
+  [',', ';', '\t'].reduce((best, candidate) => (headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best));
+
+const toNumber = (cell: string, delimiter: string): number => {
+  const trimmed = cell.trim();
+  if (!trimmed) return NaN;
+  // Semicolon-separated exports usually come from locales that write decimals with a comma.
+  return Number(delimiter === ',' ? trimmed : trimmed.replace(/^(-?\d+),(\d+)$/, '$1.$2'));
+};
+
+const mostlyNumeric = (values: number[], cells: string[]) => {
+  const filled = cells.filter(cell => cell.trim() !== '').length;
+  return filled > 0 && values.filter(Number.isFinite).length / filled >= NUMERIC_SHARE;
+};
+
+const parseTelemetry = (fileName: string, text: string): DataFileUpload | null => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = detectDelimiter(firstLine);
+  const [header, ...rows] = parseCsvRows(text, delimiter);
+  if (!header || header.length < 2 || rows.length < 2) return null;
+
+  const cellsOf = (column: number) => rows.map(row => row[column] ?? '');
+  const timeColumn = header.findIndex(name => /time|date/i.test(name));
+  let x = rows.map((_, i) => i + 1);
+  let xAxis: DataFileSummary['xAxis'] = 'row';
+  let period: DataFileSummary['period'];
+  if (timeColumn >= 0) {
+    const cells = cellsOf(timeColumn);
+    const numbers = cells.map(cell => toNumber(cell, delimiter));
+    const dates = cells.map(cell => Date.parse(cell.trim()));
+    if (mostlyNumeric(numbers, cells)) {
+      x = numbers;
+      xAxis = 'elapsed';
+    } else if (dates.filter(Number.isFinite).length / cells.length >= NUMERIC_SHARE) {
+      x = dates;
+      xAxis = 'timestamp';
+      period = { start: cells[0].trim(), end: cells[cells.length - 1].trim() };
+    }
+  }
+
+  const columns = header
+    .map((name, i) => ({ name: name.trim() || `Column ${i + 1}`, index: i, values: cellsOf(i).map(cell => toNumber(cell, delimiter)) }))
+    .filter(column => column.index !== timeColumn && mostlyNumeric(column.values, cellsOf(column.index)))
+    .map(({ name, values }) => ({ name, values }));
+  if (columns.length === 0) return null;
+
+  return { fileName, kind: 'telemetry', x, xAxis, period, columns, lines: [], limits: {} };
+};
+
+const parseLines = (fileName: string, text: string): DataFileUpload => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const withObdCodes = lines.filter(line => new RegExp(OBD_CODE_PATTERN.source).test(line)).length;
+  const timestamps = lines.map(line => TIMESTAMP_PATTERN.exec(line)?.[0]).filter((stamp): stamp is string => !!stamp);
+  return {
+    fileName,
+    // A scan-tool dump is mostly codes; a log mentions them here and there.
+    kind: withObdCodes > 0 && withObdCodes >= lines.length / 2 ? 'fault-codes' : 'log',
+    x: [],
+    xAxis: 'row',
+    period: timestamps.length > 0 ? { start: timestamps[0], end: timestamps[timestamps.length - 1] } : undefined,
+    columns: [],
+    lines,
+    limits: {},
+  };
+};
+
+/** Reads an uploaded file as telemetry if it is a CSV with numeric columns, otherwise as a fault-code dump or log. */
+export const parseDataFile = (fileName: string, text: string): DataFileUpload => {
+  const content = text.replace(/^\uFEFF/, '');
+  return parseTelemetry(fileName, content) ?? parseLines(fileName, content);
+};
+
+export const readDataFile = async (file: File): Promise<DataFileUpload> => {
+  if (file.size > MAX_DATA_FILE_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_DATA_FILE_BYTES / 1024 / 1024} MB. Trim it to the period around the fault and upload it again.`);
+  }
+  return parseDataFile(file.name, await file.text());
+};
+
+const findCrossings = (points: [number, number][], limits: ChannelLimits): ThresholdCrossing[] => {
+  const crossings: ThresholdCrossing[] = [];
+  let current: ThresholdCrossing | null = null;
+  for (const [x, value] of points) {
+    const limit = limits.high !== undefined && value > limits.high ? 'high' : limits.low !== undefined && value < limits.low ? 'low' : null;
+    if (current && current.limit === limit) {
+      current.end = x;
+      current.readings++;
+      current.extreme = limit === 'high' ? Math.max(current.extreme, value) : Math.min(current.extreme, value);
+      continue;
+    }
+    if (current) crossings.push(current);
+    current = limit ? { limit, start: x, end: x, readings: 1, extreme: value } : null;
+  }
+  if (current) crossings.push(current);
+  return crossings;
+};
+
+const thinForChart = (points: [number, number][]): [number, number][] => {
+  if (points.length <= CHART_BUCKETS * 2) return points;
+  const thinned: [number, number][] = [];
+  const size = points.length / CHART_BUCKETS;
+  for (let bucket = 0; bucket < CHART_BUCKETS; bucket++) {
+    const slice = points.slice(Math.floor(bucket * size), Math.floor((bucket + 1) * size));
+    if (slice.length === 0) continue;
+    const lowest = slice.reduce((a, b) => (b[1] < a[1] ? b : a));
+    const highest = slice.reduce((a, b) => (b[1] > a[1] ? b : a));
+    thinned.push(...(lowest[0] <= highest[0] ? [lowest, highest] : [highest, lowest]));
+  }
+  return thinned;
+};
+
+const summarizeChannel = (x: number[], { name, values }: DataFileUpload['columns'][number], limits: ChannelLimits): TelemetryChannel => {
+  const points = values
+    .map((value, i): [number, number] => [x[i], value])
+    .filter(([px, value]) => Number.isFinite(px) && Number.isFinite(value));
+  const readings = points.map(([, value]) => value);
+  return {
+    name,
+    // Reduced rather than spread: long files have more readings than a call can take as arguments.
+    min: readings.length ? readings.reduce((a, b) => Math.min(a, b)) : NaN,
+    max: readings.length ? readings.reduce((a, b) => Math.max(a, b)) : NaN,
+    mean: readings.reduce((sum, value) => sum + value, 0) / (readings.length || 1),
+    ...limits,
+    crossings: findCrossings(points, limits),
+    anomalies: detectAnomalies(points.map(([px]) => px), readings, { maxStep: limits.maxStep }),
+    points: thinForChart(points),
+  };
+};
+
+const countCodes = (lines: string[]): FaultCodeOccurrence[] => {
+  const counts = new Map<string, number>();
+  for (const line of lines) {
+    const codes = new Set([...line.matchAll(OBD_CODE_PATTERN), ...line.toUpperCase().matchAll(CONTROLLER_CODE_PATTERN)].map(match => match[0].toUpperCase()));
+    codes.forEach(code => counts.set(code, (counts.get(code) ?? 0) + 1));
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([code, count]) => ({ code, description: describeFaultCode(code), count }));
+};
+
+// Masks what varies between repeats of the same message, so they can be counted together.
+const messageShape = (line: string) =>
+  line.replace(TIMESTAMP_PATTERN, '').replace(/\d+(?:\.\d+)?/g, '#').replace(/\s+/g, ' ').trim().slice(0, 160);
+
+/** Reduces an upload to the summary that is stored with the case and sent for diagnosis. */
+export const summarizeDataFile = (upload: DataFileUpload): DataFileSummary => {
+  const { fileName, kind, xAxis, period, lines } = upload;
+  const errors = lines.filter(line => ERROR_PATTERN.test(line));
+  const warnings = lines.filter(line => !ERROR_PATTERN.test(line) && WARNING_PATTERN.test(line));
+  const flagged = kind === 'log' ? [...errors, ...warnings] : lines;
+
+  const messageCounts = new Map<string, number>();
+  if (kind === 'log') flagged.forEach(line => messageCounts.set(messageShape(line), (messageCounts.get(messageShape(line)) ?? 0) + 1));
+
+  return {
+    fileName,
+    kind,
+    recordCount: kind === 'telemetry' ? upload.x.length : lines.length,
+    xAxis,
+    period,
+    channels: upload.columns.map(column => summarizeChannel(upload.x, column, upload.limits[column.name] ?? {})),
+    // Only flagged log lines are searched, so ordinary numbered lines aren't mistaken for codes.
+    codes: countCodes(flagged),
+    errorLines: errors.length,
+    warningLines: warnings.length,
+    topMessages: [...messageCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_MESSAGES)
+      .map(([text, count]) => ({ text, count })),
+  };
+};
+
+export const formatReading = (value: number) => (Number.isFinite(value) ? String(Number(value.toPrecision(5))) : '–');
+
+// The diagnosis prompt is written in English whatever the interface language.
+const english = createTranslator('en');
+
+export const formatPosition = (x: number, xAxis: DataFileSummary['xAxis'], t: Translate = english) =>
+  xAxis === 'timestamp' ? new Date(x).toISOString().replace('T', ' ').slice(0, 19) : xAxis === 'elapsed' ? `t=${formatReading(x)}` : t('dataFile.row', { row: x });
+
+const kindLabels: Record<DataFileKind, string> = {
+  telemetry: 'telemetry',
+  'fault-codes': 'fault code dump',
+  log: 'controller/event log',
+};
+
+const anomalyKinds: AnomalyKind[] = ['deviation', 'rate-of-change', 'stuck'];
+
+export const describeAnomaly = (anomaly: AnomalyWindow, xAxis: DataFileSummary['xAxis'], t: Translate = english) =>
+  t(`dataFile.anomalyDetail.${anomaly.kind}`, {
+    label: t(`dataFile.anomaly.${anomaly.kind}`),
+    span: anomaly.startIndex === anomaly.endIndex
+      ? t('dataFile.at', { position: formatPosition(anomaly.start, xAxis, t) })
+      : t('dataFile.fromTo', { start: formatPosition(anomaly.start, xAxis, t), end: formatPosition(anomaly.end, xAxis, t) }),
+    peak: formatReading(anomaly.peak),
+    score: formatReading(anomaly.score),
+    // A stuck window's score is its length in readings.
+    count: anomaly.score,
+  });
+
+/**
+ * The channel's strongest flagged windows, in file order. Scores of different
+ * kinds aren't comparable, so the kinds take turns: each one's strongest
+ * window, then each one's second strongest, and so on.
+ */
+const topAnomalies = (anomalies: AnomalyWindow[]): AnomalyWindow[] => {
+  const rank = new Map<AnomalyWindow, number>();
+  anomalyKinds.forEach(kind =>
+    anomalies.filter(anomaly => anomaly.kind === kind).sort((a, b) => b.score - a.score).forEach((anomaly, i) => rank.set(anomaly, i)));
+  return [...anomalies]
+    .sort((a, b) => rank.get(a)! - rank.get(b)!)
+    .slice(0, TOP_ANOMALIES)
+    .sort((a, b) => a.startIndex - b.startIndex);
+};
+
+const describeChannel = (channel: TelemetryChannel, xAxis: DataFileSummary['xAxis']) => {
+  const notes = [`${formatReading(channel.min)} to ${formatReading(channel.max)}, mean ${formatReading(channel.mean)}`];
+  channel.crossings.forEach(crossing => {
+    const limit = crossing.limit === 'high' ? channel.high : channel.low;
+    notes.push(`${crossing.limit === 'high' ? 'above' : 'below'} the ${crossing.limit} limit of ${formatReading(limit!)} from ${formatPosition(crossing.start, xAxis)} to ${formatPosition(crossing.end, xAxis)} (${crossing.readings} readings, reaching ${formatReading(crossing.extreme)})`);
+  });
+  if (channel.low === undefined && channel.high === undefined) notes.push('no limits set');
+  const anomalies = channel.anomalies ?? [];
+  topAnomalies(anomalies).forEach(anomaly => notes.push(`flagged by the local anomaly screen (${describeAnomaly(anomaly, xAxis)})`));
+  if (anomalies.length > TOP_ANOMALIES) notes.push(`and ${anomalies.length - TOP_ANOMALIES} more flagged windows not listed`);
+  return `  - ${channel.name}: ${notes.join('; ')}`;
+};
+
+/** Describes the data file summaries for the diagnosis prompt. */
+export const describeDataFiles = (files: DataFileSummary[]): string =>
+  files.map(file => {
+    const heading = `- ${file.fileName} (${kindLabels[file.kind]}, ${file.recordCount} ${file.kind === 'telemetry' ? 'rows' : 'lines'}${file.period ? `, ${file.period.start} to ${file.period.end}` : ''}):`;
+    const details = [
+      ...file.channels.map(channel => describeChannel(channel, file.xAxis)),
+      ...(file.kind === 'log' ? [`  - ${file.errorLines} error and ${file.warningLines} warning lines`] : []),
+      ...(file.codes.length > 0 ? [`  - Codes: ${file.codes.map(code => `${code.code} x${code.count}${code.description ? ` (${code.description})` : ''}`).join('; ')}`] : []),
+      ...(file.topMessages.length > 0 ? [`  - Most repeated: ${file.topMessages.map(message => `"${message.text}" x${message.count}`).join('; ')}`] : []),
+    ];
+    return [heading, ...details].join('\n');
+  }).join('\n');
@@ -0,0 +1,64 @@
+const DB_NAME = 'omnidiag';
+const DB_VERSION = 5;
+
+export const HISTORY_STORE = 'history';
+export const ASSET_STORE = 'assets';
+export const QUEUE_STORE = 'queue';
+export const CASE_INDEX_STORE = 'caseIndex';
+export const CATALOGUE_STORE = 'catalogue';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Structural upgrades (stores and indexes). Data-shape changes go in the record migrations of each store module.
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+        tx.objectStore(HISTORY_STORE).createIndex('assetId', 'assetId');
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(CASE_INDEX_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 5) {
+        db.createObjectStore(CATALOGUE_STORE, { keyPath: 'sku' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
@@ -0,0 +1,163 @@
+import { ConsensusSummary, CustomerSummary, DiagnosticReport, HistoryEntry, Language, ManagerBrief, PartialDiagnosticReport } from '../types';
+import { ChatSession, DiagnosticProvider, ReportRequest } from './providers';
+import { parsePartialJson } from './partialJson';
+import { mergeReports } from './consensus';
+import { alignTranslation } from './reportTranslation';
+import { customerSummarySchema, managerBriefSchema } from './reportSchema';
+import { parseReport, parseStructured, ReportValidationError } from './reportValidator';
+import { buildReportPrompt, chatContextFor, DiagnosticInput, followUpInstruction, ReportTask, toBriefCase, toPastCase } from './prompts';
+
+export type { DiagnosticInput } from './prompts';
+
+// How many times the model may be asked to correct a report that fails validation.
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const DIAGNOSIS_TEMPERATURE = 0.2;
+// Consensus runs need room to differ, or every sample of one model comes back the same.
+const CONSENSUS_TEMPERATURE = 0.7;
+
+export interface ReportStreamOptions {
+  signal?: AbortSignal;
+  /** Called with everything parsed so far each time more of the report arrives. */
+  onProgress?: (partial: PartialDiagnosticReport) => void;
+}
+
+const streamReportText = async (
+  provider: DiagnosticProvider,
+  request: ReportRequest,
+  onProgress?: (partial: PartialDiagnosticReport) => void
+): Promise<string> => {
+  let jsonString = '';
+  for await (const chunk of provider.generateReportStream(request)) {
+    jsonString += chunk;
+    if (!onProgress) continue;
+    try {
+      const partial = parsePartialJson(jsonString);
+      if (partial && typeof partial === 'object' && !Array.isArray(partial)) onProgress(partial);
+    } catch {
+      // Not JSON (yet); the validator will report it once the stream ends.
+    }
+  }
+  return jsonString;
+};
+
+/** Asks the provider for output for `task` and has it correct its own output until it passes validation. */
+const generateValidated = async <T>(
+  provider: DiagnosticProvider,
+  task: ReportTask,
+  parse: (jsonString: string) => T,
+  { signal, onProgress }: ReportStreamOptions = {},
+  temperature = DIAGNOSIS_TEMPERATURE
+): Promise<T> => {
+  const request = (correction?: ReportRequest['correction']): ReportRequest =>
+    ({ ...buildReportPrompt(task, correction), task, correction, temperature, signal });
+
+  try {
+    let jsonString = await streamReportText(provider, request(), onProgress);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return parse(jsonString);
+      } catch (error) {
+        if (!(error instanceof ReportValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) throw error;
+        console.warn(`Report failed validation, requesting correction (attempt ${attempt + 1}):`, error.issues);
+        // Corrections are not streamed: the partial report already on screen stays until the fixed one lands.
+        jsonString = await streamReportText(provider, request({ previousResponse: jsonString, issues: error.issues }));
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error calling AI provider:", error);
+    if (error instanceof ReportValidationError) {
+        throw error;
+    }
+    if (error instanceof Error) {
+        throw new Error(`Failed to get diagnostic report from AI: ${error.message}`);
+    }
+    throw new Error("An unknown error occurred during AI diagnosis.");
+  }
+};
+
+// Past cases go into the task trimmed, so their photos and recordings are not sent to a relaying server.
+const diagnosisTask = (input: DiagnosticInput): ReportTask => ({
+  kind: 'diagnosis',
+  input: { ...input, assetHistory: input.assetHistory?.map(toPastCase), similarCases: input.similarCases?.map(toPastCase) },
+});
+
+export const runDiagnostics = (provider: DiagnosticProvider, input: DiagnosticInput, options?: ReportStreamOptions): Promise<DiagnosticReport> =>
+  generateValidated(provider, diagnosisTask(input), parseReport, options);
+
+export interface ConsensusRun {
+  provider: DiagnosticProvider;
+  model: string;
+}
+
+/**
+ * Diagnoses the case once per run, in parallel, and merges the reports by
+ * agreement. Only the first run streams to `onProgress`. Runs that fail are
+ * left out of the consensus; it only fails if every run does.
+ */
+export const runConsensusDiagnostics = async (
+  runs: ConsensusRun[],
+  input: DiagnosticInput,
+  { signal, onProgress }: ReportStreamOptions = {}
+): Promise<{ report: DiagnosticReport; consensus: ConsensusSummary }> => {
+  const task = diagnosisTask(input);
+  const results = await Promise.allSettled(runs.map(({ provider }, i) =>
+    generateValidated(provider, task, parseReport, { signal, onProgress: i === 0 ? onProgress : undefined }, CONSENSUS_TEMPERATURE)
+  ));
+  if (signal?.aborted) throw new DOMException('The diagnosis was cancelled.', 'AbortError');
+
+  const succeeded = results.flatMap((result, i) => (result.status === 'fulfilled' ? [{ report: result.value, model: runs[i].model }] : []));
+  if (succeeded.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') console.warn(`Consensus run ${i + 1} (${runs[i].model}) failed and was left out:`, result.reason);
+  });
+  return mergeReports(succeeded.map(run => run.report), succeeded.map(run => run.model));
+};
+
+/**
+ * Re-diagnoses a case from the evidence gathered in the troubleshooting
+ * walkthrough. Steps that already have an outcome are kept verbatim; the model
+ * revises the causes and replaces every step after them.
+ */
+export const refineDiagnosis = async (provider: DiagnosticProvider, entry: HistoryEntry): Promise<DiagnosticReport> => {
+  const { report } = entry;
+  const outcomes = entry.walkthrough?.outcomes ?? [];
+  // Everything up to the furthest step with a result counts as done, even if an earlier one was skipped.
+  const lastDoneIndex = report.troubleshootingSteps.reduce((last, step, i) => (outcomes.some(o => o.step === step.step) ? i : last), -1);
+  const completedSteps = report.troubleshootingSteps.slice(0, lastDoneIndex + 1);
+
+  const refined = await generateValidated(provider, { kind: 'refinement', entry: { ...entry, chatHistory: [] } }, parseReport);
+  return {
+    ...refined,
+    troubleshootingSteps: [
+      ...completedSteps,
+      ...refined.troubleshootingSteps.map((step, i) => ({ ...step, step: completedSteps.length + i + 1 })),
+    ],
+  };
+};
+
+/** Opens a follow-up conversation about a saved case, replaying its transcript so far. */
+export const startFollowUpChat = (provider: DiagnosticProvider, entry: HistoryEntry): ChatSession => {
+  const context = chatContextFor(entry);
+  return provider.createChat({ context, systemInstruction: followUpInstruction(context), history: entry.chatHistory });
+};
+
+/**
+ * Re-renders a report in another language. Only the text changes: the
+ * translation is checked to line up item for item with the original, and
+ * severity, priorities and step numbers are kept from it.
+ */
+export const translateReport = async (provider: DiagnosticProvider, report: DiagnosticReport, language: Language): Promise<DiagnosticReport> => {
+  const translated = await generateValidated(provider, { kind: 'translation', report, language }, parseReport);
+  return alignTranslation(report, translated);
+};
+
+/** Writes the extra content the manager view needs: downtime, business impact and a recommendation. */
+export const generateManagerBrief = (provider: DiagnosticProvider, entry: HistoryEntry): Promise<ManagerBrief> =>
+  generateValidated(provider, { kind: 'manager-brief', entry: toBriefCase(entry) }, json => parseStructured<ManagerBrief>(json, managerBriefSchema));
+
+/** Rewrites the report for the customer view, in plain language and without internal detail. */
+export const generateCustomerSummary = (provider: DiagnosticProvider, entry: HistoryEntry): Promise<CustomerSummary> =>
+  generateValidated(provider, { kind: 'customer-summary', entry: toBriefCase(entry) }, json => parseStructured<CustomerSummary>(json, customerSummarySchema));
@@ -0,0 +1,175 @@
+import { HistoryEntry } from '../types';
+import { domainTemplates } from './equipmentTemplates';
+import { isLanguage } from './i18n';
+import { customerSummarySchema, managerBriefSchema } from './reportSchema';
+import { parseStructured } from './reportValidator';
+import { hazardDefinitions } from './safetyInterlock';
+import { severityLevels } from './severity';
+
+type Check = (value: any) => boolean;
+
+const isObject: Check = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+// Dates arrive as strings from a file and as Dates once revived.
+const isDate: Check = value => (isString(value) || isNumber(value) || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+const optional = (check: Check): Check => value => value === undefined || check(value);
+const oneOf = (values: readonly unknown[]): Check => value => values.includes(value);
+const arrayOf = (check: Check): Check => value => Array.isArray(value) && value.every(check);
+const tupleOf = (length: number, check: Check): Check => value => Array.isArray(value) && value.length === length && value.every(check);
+const shape = (fields: Record<string, Check>): Check => value =>
+  isObject(value) && Object.entries(fields).every(([field, check]) => check(value[field]));
+const matchesSchema = (schema: Parameters<typeof parseStructured>[1]): Check => value => {
+  try {
+    parseStructured(JSON.stringify(value), schema);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isImage = shape({
+  mimeType: isString,
+  data: isString,
+  caption: isString,
+  videoTimestamp: optional(isNumber),
+  regions: optional(arrayOf(shape({ label: isString, box: tupleOf(4, isNumber) }))),
+});
+
+const isUserInput = shape({ text: isString, images: arrayOf(isImage), audio: isString });
+
+const isAudioClip = shape({ mimeType: isString, data: isString, durationSeconds: isNumber });
+
+const isDataFile = shape({
+  fileName: isString,
+  kind: oneOf(['telemetry', 'fault-codes', 'log']),
+  recordCount: isNumber,
+  xAxis: oneOf(['timestamp', 'elapsed', 'row']),
+  period: optional(shape({ start: isString, end: isString })),
+  channels: arrayOf(shape({
+    name: isString,
+    min: isNumber,
+    max: isNumber,
+    mean: isNumber,
+    low: optional(isNumber),
+    high: optional(isNumber),
+    maxStep: optional(isNumber),
+    crossings: arrayOf(shape({ limit: oneOf(['low', 'high']), start: isNumber, end: isNumber, readings: isNumber, extreme: isNumber })),
+    anomalies: optional(arrayOf(shape({
+      kind: oneOf(['deviation', 'rate-of-change', 'stuck']),
+      startIndex: isNumber,
+      endIndex: isNumber,
+      start: isNumber,
+      end: isNumber,
+      peak: isNumber,
+      score: isNumber,
+    }))),
+    points: arrayOf(tupleOf(2, isNumber)),
+  })),
+  codes: arrayOf(shape({ code: isString, description: optional(isString), count: isNumber })),
+  errorLines: isNumber,
+  warningLines: isNumber,
+  topMessages: arrayOf(shape({ text: isString, count: isNumber })),
+});
+
+const isEquipmentProfile = shape({
+  domain: oneOf(Object.keys(domainTemplates)),
+  manufacturer: isString,
+  model: isString,
+  serialNumber: isString,
+  ageYears: optional(isNumber),
+  operatingHours: optional(isNumber),
+  environment: isString,
+  domainFields: value => isObject(value) && Object.values(value).every(isString),
+});
+
+const isWalkthrough = shape({
+  currentStep: isNumber,
+  outcomes: arrayOf(shape({
+    step: isNumber,
+    status: oneOf(['pass', 'fail', 'measured']),
+    measurement: optional(isString),
+    notes: isString,
+    photo: optional(isImage),
+    recordedAt: isDate,
+  })),
+  refinements: isNumber,
+});
+
+const isWorkItem = shape({
+  fix: isString,
+  priority: oneOf(['Urgent', 'Recommended', 'Optional']),
+  assignee: isString,
+  status: oneOf(['open', 'in-progress', 'done', 'deferred']),
+  notes: isString,
+  laborHours: optional(isNumber),
+  partsUsed: arrayOf(shape({ name: isString, quantity: isNumber })),
+  updatedAt: isDate,
+});
+
+const isHazard = oneOf(Object.keys(hazardDefinitions));
+
+const isSafetyAcknowledgement = shape({ acknowledgedAt: isDate, hazards: arrayOf(isHazard), checklist: arrayOf(isString) });
+
+const isCatalogueMatch = shape({
+  kind: oneOf(['part', 'tool']),
+  suggestion: isString,
+  sku: value => value === null || isString(value),
+  quantity: isNumber,
+});
+
+const isConsensus = shape({
+  models: arrayOf(isString),
+  causes: arrayOf(shape({ cause: isString, confidence: isNumber })),
+  fixes: arrayOf(shape({ fix: isString, confidence: isNumber })),
+  severityVotes: value => isObject(value) && Object.entries(value).every(([severity, votes]) => severity in severityLevels && isNumber(votes)),
+});
+
+const isChatMessage = shape({ role: oneOf(['user', 'model']), text: isString });
+
+const keep = (value: unknown, check: Check) => (check(value) ? value : undefined);
+
+// Lists lose only their malformed items.
+const keepItems = (value: unknown, check: Check) => (Array.isArray(value) ? value.filter(check) : undefined);
+
+/**
+ * Drops the optional parts of an imported case record that are malformed, so a
+ * damaged or hand-edited file still brings in what it can. Throws if the record
+ * is not a case at all. Runs before the record is upgraded, since these parts
+ * have kept their shape across schema versions.
+ */
+export const withValidOptionalFields = (value: unknown): Record<string, any> => {
+  const record = value as Record<string, any>;
+  if (!isObject(record) || !isObject(record.userInput)) {
+    throw new Error('The file contains a case without its submitted details.');
+  }
+  const { userInput, audienceBriefs } = record;
+  return {
+    ...record,
+    userInput: {
+      ...userInput,
+      audioClip: keep(userInput.audioClip, isAudioClip),
+      dataFiles: keepItems(userInput.dataFiles, isDataFile),
+    },
+    equipmentProfile: keep(record.equipmentProfile, isEquipmentProfile),
+    assetId: keep(record.assetId, isString),
+    walkthrough: keep(record.walkthrough, isWalkthrough),
+    workItems: keepItems(record.workItems, isWorkItem),
+    hazards: keepItems(record.hazards, isHazard),
+    safetyAcknowledgement: keep(record.safetyAcknowledgement, isSafetyAcknowledgement),
+    catalogueMatches: keepItems(record.catalogueMatches, isCatalogueMatch),
+    consensus: keep(record.consensus, isConsensus),
+    reportLanguage: keep(record.reportLanguage, isLanguage),
+    audienceBriefs: isObject(audienceBriefs)
+      ? { manager: keep(audienceBriefs.manager, matchesSchema(managerBriefSchema)), customer: keep(audienceBriefs.customer, matchesSchema(customerSummarySchema)) }
+      : undefined,
+    chatHistory: keepItems(record.chatHistory, isChatMessage) ?? [],
+  };
+};
+
+/** Problems with the parts of an upgraded case that can't be left out, other than the report, which validateReport checks. */
+export const requiredFieldIssues = (entry: HistoryEntry): string[] => [
+  ...(isString(entry.id) ? [] : ['id must be a string']),
+  ...(isDate(entry.timestamp) ? [] : ['timestamp must be a date']),
+  ...(isUserInput(entry.userInput) ? [] : ['userInput must hold the description, captioned images and voice note transcript']),
+];
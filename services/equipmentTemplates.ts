@@ -0,0 +1,100 @@
+import { EquipmentDomain, EquipmentProfile } from '../types';
+
+export interface TemplateField {
+  id: string;
+  label: string;
+  placeholder?: string;
+  /** When set the field is rendered as a dropdown. */
+  options?: string[];
+}
+
+export interface DomainTemplate {
+  label: string;
+  fields: TemplateField[];
+}
+
+export const domainTemplates: Record<EquipmentDomain, DomainTemplate> = {
+  hvac: {
+    label: 'HVAC / Refrigeration',
+    fields: [
+      { id: 'systemType', label: 'System Type', options: ['Split AC', 'Heat pump', 'Packaged unit', 'Furnace', 'Boiler', 'Chiller', 'Walk-in cooler / freezer', 'Mini-split'] },
+      { id: 'refrigerant', label: 'Refrigerant', options: ['R-410A', 'R-32', 'R-454B', 'R-22', 'R-134a', 'R-404A', 'R-290', 'Other'] },
+      { id: 'tonnage', label: 'Capacity (tons)', placeholder: 'e.g. 3.5' },
+      { id: 'thermostatReading', label: 'Setpoint / Actual Temp', placeholder: 'e.g. 72°F set, 81°F actual' },
+    ],
+  },
+  electrical: {
+    label: 'Electrical',
+    fields: [
+      { id: 'voltage', label: 'Nominal Voltage', placeholder: 'e.g. 230 V' },
+      { id: 'phase', label: 'Phase', options: ['Single-phase', 'Split-phase', 'Three-phase'] },
+      { id: 'ratedCurrent', label: 'Breaker / Rated Current', placeholder: 'e.g. 32 A' },
+      { id: 'installationType', label: 'Installation', options: ['Residential panel', 'Commercial switchboard', 'Motor control center', 'Solar / battery', 'Generator'] },
+    ],
+  },
+  mechanical: {
+    label: 'Mechanical / Rotating',
+    fields: [
+      { id: 'equipmentType', label: 'Equipment Type', placeholder: 'e.g. centrifugal pump, gearbox, compressor' },
+      { id: 'speed', label: 'Speed (RPM)', placeholder: 'e.g. 1750' },
+      { id: 'drive', label: 'Drive', options: ['Direct', 'Belt', 'Chain', 'Gear', 'Coupling'] },
+      { id: 'lastService', label: 'Last Lubrication / Service', placeholder: 'e.g. 6 months ago' },
+    ],
+  },
+  automotive: {
+    label: 'Automotive',
+    fields: [
+      { id: 'vin', label: 'VIN', placeholder: '17-character VIN' },
+      { id: 'mileage', label: 'Mileage', placeholder: 'e.g. 84,000 mi' },
+      { id: 'obdCodes', label: 'OBD-II Codes', placeholder: 'e.g. P0301, P0171' },
+      { id: 'engine', label: 'Engine / Fuel', placeholder: 'e.g. 2.0L turbo petrol' },
+    ],
+  },
+  plumbing: {
+    label: 'Plumbing',
+    fields: [
+      { id: 'fixtureType', label: 'Fixture / System', placeholder: 'e.g. tankless water heater, sump pump' },
+      { id: 'pipeMaterial', label: 'Pipe Material', options: ['Copper', 'PEX', 'PVC / CPVC', 'Galvanized steel', 'Cast iron', 'Unknown'] },
+      { id: 'waterPressure', label: 'Water Pressure', placeholder: 'e.g. 60 psi' },
+      { id: 'waterSource', label: 'Water Source', options: ['Municipal', 'Well', 'Rainwater / other'] },
+    ],
+  },
+  other: {
+    label: 'Other',
+    fields: [],
+  },
+};
+
+export const createEmptyProfile = (domain: EquipmentDomain): EquipmentProfile => ({
+  domain,
+  manufacturer: '',
+  model: '',
+  serialNumber: '',
+  environment: '',
+  domainFields: {},
+});
+
+/** Renders the filled-in parts of a profile as prompt text, one "Label: value" line per field. */
+export const describeEquipmentProfile = (profile: EquipmentProfile): string => {
+  const template = domainTemplates[profile.domain];
+  const lines: [string, string | number | undefined][] = [
+    ['Domain', template.label],
+    ['Manufacturer', profile.manufacturer],
+    ['Model', profile.model],
+    ['Serial Number', profile.serialNumber],
+    ['Age (years)', profile.ageYears],
+    ['Operating Hours', profile.operatingHours],
+    ['Operating Environment', profile.environment],
+    ...template.fields.map((field): [string, string] => [field.label, profile.domainFields[field.id]]),
+  ];
+  return lines
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([label, value]) => `${label}: ${value}`)
+    .join('\n');
+};
+
+/** Short one-line label such as "HVAC / Refrigeration · Carrier 24ACC636". */
+export const summarizeEquipmentProfile = (profile: EquipmentProfile): string =>
+  [domainTemplates[profile.domain].label, [profile.manufacturer, profile.model].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,98 @@
+// Generic (SAE J2012) OBD-II codes that turn up most often in scan-tool dumps.
+// Anything else is described by what its letters and digits encode.
+const obdCodes: Record<string, string> = {
+  P0010: 'Camshaft position actuator circuit (bank 1)',
+  P0011: 'Camshaft position timing over-advanced or system performance (bank 1)',
+  P0087: 'Fuel rail/system pressure too low',
+  P0101: 'Mass air flow circuit range/performance',
+  P0102: 'Mass air flow circuit low input',
+  P0106: 'Manifold absolute pressure/barometric pressure circuit range/performance',
+  P0113: 'Intake air temperature sensor 1 circuit high',
+  P0117: 'Engine coolant temperature circuit low',
+  P0118: 'Engine coolant temperature circuit high',
+  P0121: 'Throttle/pedal position sensor A circuit range/performance',
+  P0128: 'Coolant thermostat: coolant temperature below regulating temperature',
+  P0131: 'O2 sensor circuit low voltage (bank 1, sensor 1)',
+  P0133: 'O2 sensor circuit slow response (bank 1, sensor 1)',
+  P0135: 'O2 sensor heater circuit (bank 1, sensor 1)',
+  P0141: 'O2 sensor heater circuit (bank 1, sensor 2)',
+  P0171: 'System too lean (bank 1)',
+  P0172: 'System too rich (bank 1)',
+  P0174: 'System too lean (bank 2)',
+  P0175: 'System too rich (bank 2)',
+  P0217: 'Engine coolant over-temperature condition',
+  P0300: 'Random/multiple cylinder misfire detected',
+  P0301: 'Cylinder 1 misfire detected',
+  P0302: 'Cylinder 2 misfire detected',
+  P0303: 'Cylinder 3 misfire detected',
+  P0304: 'Cylinder 4 misfire detected',
+  P0305: 'Cylinder 5 misfire detected',
+  P0306: 'Cylinder 6 misfire detected',
+  P0307: 'Cylinder 7 misfire detected',
+  P0308: 'Cylinder 8 misfire detected',
+  P0325: 'Knock sensor 1 circuit (bank 1)',
+  P0335: 'Crankshaft position sensor A circuit',
+  P0340: 'Camshaft position sensor A circuit (bank 1)',
+  P0401: 'Exhaust gas recirculation flow insufficient',
+  P0402: 'Exhaust gas recirculation flow excessive',
+  P0420: 'Catalyst system efficiency below threshold (bank 1)',
+  P0430: 'Catalyst system efficiency below threshold (bank 2)',
+  P0440: 'Evaporative emission system malfunction',
+  P0442: 'Evaporative emission system small leak detected',
+  P0446: 'Evaporative emission system vent control circuit',
+  P0455: 'Evaporative emission system large leak detected',
+  P0456: 'Evaporative emission system very small leak detected',
+  P0500: 'Vehicle speed sensor A',
+  P0505: 'Idle air control system',
+  P0506: 'Idle control system RPM lower than expected',
+  P0507: 'Idle control system RPM higher than expected',
+  P0562: 'System voltage low',
+  P0563: 'System voltage high',
+  P0606: 'Control module processor fault',
+  P0700: 'Transmission control system malfunction (request for MIL)',
+  P0715: 'Input/turbine speed sensor A circuit',
+  P0741: 'Torque converter clutch circuit performance or stuck off',
+  U0100: 'Lost communication with ECM/PCM A',
+  U0101: 'Lost communication with TCM',
+  U0121: 'Lost communication with ABS control module',
+};
+
+const obdSystems: Record<string, string> = {
+  P: 'Powertrain',
+  C: 'Chassis',
+  B: 'Body',
+  U: 'Network',
+};
+
+// The third character of a generic powertrain code names the subsystem.
+const powertrainSubsystems: Record<string, string> = {
+  '0': 'fuel and air metering, auxiliary emission controls',
+  '1': 'fuel and air metering',
+  '2': 'fuel and air metering (injector circuit)',
+  '3': 'ignition system or misfire',
+  '4': 'auxiliary emission controls',
+  '5': 'vehicle speed, idle control and auxiliary inputs',
+  '6': 'computer and output circuits',
+  '7': 'transmission',
+  '8': 'transmission',
+  '9': 'transmission',
+  A: 'hybrid propulsion',
+};
+
+export const OBD_CODE_PATTERN = /\b[PCBU][0-3][0-9A-F]{3}\b/g;
+
+// Controller fault and alarm numbers such as "F30001", "ALM-112" or "E07". Vendors number these differently, so they are counted but not described.
+export const CONTROLLER_CODE_PATTERN = /\b(?:ALM|ERR|FLT|F|E|A)[-_]?\d{2,5}\b/g;
+
+/** Describes an OBD-II code from the local table, or by what its characters encode. Returns undefined for anything else. */
+export const describeFaultCode = (code: string): string | undefined => {
+  const normalized = code.toUpperCase();
+  if (obdCodes[normalized]) return obdCodes[normalized];
+  const match = /^([PCBU])([0-3])([0-9A-F])[0-9A-F]{2}$/.exec(normalized);
+  if (!match) return undefined;
+  const [, system, group, subsystem] = match;
+  // P0 and P2 are SAE-defined; P1 and most of P3 are left to each manufacturer, as are the 1 and 2 groups of the other systems.
+  const generic = system === 'P' ? group === '0' || group === '2' : group === '0' || group === '3';
+  const area = system === 'P' && generic ? powertrainSubsystems[subsystem] : undefined;
+  return `${obdSystems[system]}${generic ? '' : ', manufacturer-specific'}${area ? `: ${area}` : ''} (not in the local code table)`;
+};
@@ -0,0 +1,77 @@
+import { EquipmentDomain, HistoryEntry } from '../types';
+import { Severity, severityLevels } from './severity';
+
+export type HistorySort = 'newest' | 'oldest' | 'severity';
+
+/** Which kind of attachment a case must have. */
+export type MediaFilter = 'any' | 'images' | 'voice';
+
+export interface HistoryFilter {
+  query: string;
+  /** Empty means every severity. */
+  severities: Severity[];
+  /** Inclusive bounds as `YYYY-MM-DD`, or '' for open-ended. */
+  from: string;
+  to: string;
+  /** 'none' matches cases without an equipment profile. */
+  domain: EquipmentDomain | 'all' | 'none';
+  media: MediaFilter;
+  sort: HistorySort;
+}
+
+export const emptyHistoryFilter: HistoryFilter = {
+  query: '',
+  severities: [],
+  from: '',
+  to: '',
+  domain: 'all',
+  media: 'any',
+  sort: 'newest',
+};
+
+/** Whether anything besides the sort order is set, so the list may be hiding cases. */
+export const isHistoryFiltered = (filter: HistoryFilter): boolean =>
+  filter.query.trim() !== '' || filter.severities.length > 0 || filter.from !== '' || filter.to !== '' || filter.domain !== 'all' || filter.media !== 'any';
+
+const searchableText = (entry: HistoryEntry): string =>
+  [
+    entry.report.faultSummary,
+    ...entry.report.possibleCauses,
+    ...entry.report.toolsAndParts.parts,
+    entry.userInput.text,
+    entry.userInput.audio,
+  ].join('\n').toLowerCase();
+
+// Local midnight at the start of `date`, so a day filter follows the user's calendar rather than UTC.
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const filterHistory = (history: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+  const matches = history.filter(entry => {
+    const time = new Date(entry.timestamp).getTime();
+    if (time < from || time >= to) return false;
+    if (filter.severities.length > 0 && !filter.severities.includes(entry.report.riskAssessment.severity)) return false;
+    if (filter.domain === 'none' && entry.equipmentProfile) return false;
+    if (filter.domain !== 'all' && filter.domain !== 'none' && entry.equipmentProfile?.domain !== filter.domain) return false;
+    if (filter.media === 'images' && entry.userInput.images.length === 0) return false;
+    if (filter.media === 'voice' && !entry.userInput.audio && !entry.userInput.audioClip) return false;
+    if (terms.length > 0) {
+      const text = searchableText(entry);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+
+  const byTime = (a: HistoryEntry, b: HistoryEntry) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+  switch (filter.sort) {
+    case 'newest':
+      return matches.sort(byTime);
+    case 'oldest':
+      return matches.sort((a, b) => byTime(b, a));
+    case 'severity':
+      return matches.sort((a, b) => severityLevels[b.report.riskAssessment.severity] - severityLevels[a.report.riskAssessment.severity] || byTime(a, b));
+  }
+};
@@ -0,0 +1,131 @@
+import { HistoryEntry } from '../types';
+import { CASE_INDEX_STORE, HISTORY_STORE, openDb, requestToPromise, transactionDone } from './db';
+
+/**
+ * Shape version of the HistoryEntry records written by this build. Bump it and
+ * register a migration below whenever a change to DiagnosticReport or
+ * HistoryEntry would leave older records invalid. New optional fields don't
+ * need one.
+ */
+export const HISTORY_SCHEMA_VERSION = 2;
+
+type StoredHistoryEntry = HistoryEntry & { schemaVersion: number };
+
+type RecordMigration = (record: any) => any;
+
+// Keyed by the schema version a record is upgraded *from*; each step returns a record one version newer.
+const recordMigrations: Record<number, RecordMigration> = {
+  // v2: a case holds any number of captioned images instead of a single optional one.
+  1: ({ userInput: { image, ...userInput }, ...record }) => ({
+    ...record,
+    userInput: { ...userInput, images: image ? [{ ...image, caption: '' }] : [] },
+  }),
+};
+
+const migrateRecord = (record: any): StoredHistoryEntry | null => {
+  let current = record;
+  let version: number = current.schemaVersion ?? 1;
+
+  if (version > HISTORY_SCHEMA_VERSION) {
+    console.warn(`Skipping history entry ${current.id}: schema v${version} is newer than this app (v${HISTORY_SCHEMA_VERSION}).`);
+    return null;
+  }
+
+  while (version < HISTORY_SCHEMA_VERSION) {
+    const migrate = recordMigrations[version];
+    if (!migrate) {
+      throw new Error(`No migration registered for history schema v${version}.`);
+    }
+    current = migrate(current);
+    version += 1;
+  }
+
+  return { ...current, schemaVersion: HISTORY_SCHEMA_VERSION };
+};
+
+const toStored = (entry: HistoryEntry): StoredHistoryEntry => ({ ...entry, schemaVersion: HISTORY_SCHEMA_VERSION });
+
+const fromStored = ({ schemaVersion, ...entry }: StoredHistoryEntry): HistoryEntry => entry;
+
+// IndexedDB keeps Dates as they are, but JSON turns every one of them into a string.
+const reviveDates = (entry: HistoryEntry): HistoryEntry => ({
+  ...entry,
+  timestamp: new Date(entry.timestamp),
+  walkthrough: entry.walkthrough && {
+    ...entry.walkthrough,
+    outcomes: entry.walkthrough.outcomes.map(outcome => ({ ...outcome, recordedAt: new Date(outcome.recordedAt) })),
+  },
+  workItems: entry.workItems?.map(item => ({ ...item, updatedAt: new Date(item.updatedAt) })),
+  safetyAcknowledgement: entry.safetyAcknowledgement && {
+    ...entry.safetyAcknowledgement,
+    acknowledgedAt: new Date(entry.safetyAcknowledgement.acknowledgedAt),
+  },
+});
+
+/**
+ * Upgrades a record from outside the database, such as an imported file, to the
+ * current HistoryEntry shape, turning its dates back into Dates. Returns null if
+ * a newer version of the app wrote it.
+ */
+export const upgradeHistoryRecord = (record: any): HistoryEntry | null => {
+  const migrated = migrateRecord(record);
+  return migrated && reviveDates(fromStored(migrated));
+};
+
+/**
+ * Loads every saved case, newest first. Records written by an older build are
+ * migrated to the current schema and written back.
+ */
+export const loadHistory = async (): Promise<HistoryEntry[]> => {
+  const db = await openDb();
+  const raw = await requestToPromise(db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE).getAll());
+
+  const entries: StoredHistoryEntry[] = [];
+  const upgraded: StoredHistoryEntry[] = [];
+  for (const record of raw) {
+    const migrated = migrateRecord(record);
+    if (!migrated) continue;
+    entries.push(migrated);
+    if (record.schemaVersion !== HISTORY_SCHEMA_VERSION) upgraded.push(migrated);
+  }
+
+  if (upgraded.length > 0) {
+    const tx = db.transaction(HISTORY_STORE, 'readwrite');
+    const store = tx.objectStore(HISTORY_STORE);
+    upgraded.forEach(entry => store.put(entry));
+    await transactionDone(tx);
+  }
+
+  return entries
+    .map(fromStored)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+};
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  tx.objectStore(HISTORY_STORE).put(toStored(entry));
+  await transactionDone(tx);
+};
+
+/** Deletes the cases and their search index records together, so no index record outlives its case. */
+export const deleteHistoryEntries = async (ids: string[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, CASE_INDEX_STORE], 'readwrite');
+  const history = tx.objectStore(HISTORY_STORE);
+  const caseIndex = tx.objectStore(CASE_INDEX_STORE);
+  ids.forEach(id => {
+    history.delete(id);
+    caseIndex.delete(id);
+  });
+  await transactionDone(tx);
+};
+
+/** Clears the cases and the search index together, like deleteHistoryEntries. */
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([HISTORY_STORE, CASE_INDEX_STORE], 'readwrite');
+  tx.objectStore(HISTORY_STORE).clear();
+  tx.objectStore(CASE_INDEX_STORE).clear();
+  await transactionDone(tx);
+};
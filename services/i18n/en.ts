@@ -0,0 +1,490 @@
+// The reference catalogue: every other language must translate each of these keys.
+// Placeholders in braces, such as {count}, are filled in by the translator.
+export const en = {
+  'app.tagline': 'Your AI-powered assistant for cross-domain fault detection and diagnostics.',
+  'app.interfaceLanguage': 'Interface language',
+
+  'severity.Low': 'Low',
+  'severity.Medium': 'Medium',
+  'severity.High': 'High',
+  'severity.Critical': 'Critical',
+  'priority.Urgent': 'Urgent',
+  'priority.Recommended': 'Recommended',
+  'priority.Optional': 'Optional',
+  'trend.improving': 'Improving',
+  'trend.worsening': 'Worsening',
+  'trend.stable': 'Stable',
+
+  'input.title': 'Submit a Case',
+  'input.reportLanguage': 'Report Language',
+  'input.asset': 'Asset',
+  'input.noAsset': 'Not linked to an asset',
+  'input.equipment': 'Equipment',
+  'input.description': 'Problem Description',
+  'input.descriptionPlaceholder': 'Describe the issue, including symptoms, sounds, or error codes...',
+  'input.images': 'Upload Images',
+  'input.dataFiles': 'Sensor Data & Logs',
+  'input.voiceNote': 'Record Voice Note',
+  'input.recognitionLanguage': 'Recognition language',
+  'input.startRecording': 'Start Recording',
+  'input.stopRecording': 'Stop Recording',
+  'input.transcribing': 'Transcribing recording...',
+  'input.offline': "You're offline. Cases you submit are saved on this device and sent automatically when the connection returns.",
+  'input.queuedOne': '1 queued case is waiting to be sent.',
+  'input.queuedMany': '{count} queued cases are waiting to be sent.',
+  'input.sendNow': 'Send now',
+  'input.queuedSetAside': 'Queued {queuedAt}, not sent after {attempts} attempts: {error}',
+  'input.retry': 'Retry',
+  'input.discard': 'Discard',
+  'input.discardConfirm': 'Discard this queued case? It has not been diagnosed and cannot be recovered.',
+  'input.analyzing': 'Analyzing...',
+  'input.runDiagnosis': 'Run Diagnosis',
+  'input.queueForOnline': 'Queue for When Online',
+  'input.cancel': 'Cancel',
+  'input.cancelDiagnosis': 'Cancel diagnosis',
+  'equipment.notSpecified': 'Not specified',
+  'equipment.manufacturer': 'Manufacturer',
+  'equipment.model': 'Model',
+  'equipment.serialNumber': 'Serial number',
+  'equipment.environment': 'Operating environment',
+  'equipment.environmentPlaceholder': 'Environment (e.g. rooftop, coastal)',
+  'equipment.age': 'Age in years',
+  'equipment.agePlaceholder': 'Age (years)',
+  'equipment.operatingHours': 'Operating hours',
+
+  'image.captioned': 'Image {number}: {caption}',
+  'image.unlabeled': 'Unlabeled area',
+  'image.markLabel': 'Image {number}:',
+  'image.markPrompt': 'drag over the area you want the diagnosis to look at.',
+  'image.done': 'Done',
+  'image.labelPlaceholder': "What's here? e.g. burnt terminal",
+  'image.add': 'Add',
+  'image.discard': 'Discard',
+  'image.removeArea': 'Remove marked area {number}',
+  'image.markedNote': 'Dashed boxes are the areas marked before submitting.',
+  'image.remove': 'Remove image {number}',
+  'image.captionPlaceholder': 'Caption, e.g. nameplate, wiring panel',
+  'image.markedOne': '1 marked area',
+  'image.markedMany': '{count} marked areas',
+  'image.markArea': 'Mark an area',
+  'image.addMore': 'Add more photos',
+  'image.upload': 'Click to upload photos',
+  'image.extracting': 'Extracting frames...',
+  'image.fromVideo': 'Extract frames from a video',
+  'image.readError': 'Could not read image: {error}',
+  'image.extractError': 'Could not extract frames from the video: {error}',
+
+  'report.title': 'Diagnostic Report',
+  'report.export': 'Export report',
+  'report.exportPdf': 'Open a print-ready version to save as PDF',
+  'report.exportMarkdown': 'Download as Markdown',
+  'report.exportJson': 'Download as JSON (can be imported again)',
+  'report.translate': 'Translate report',
+  'report.translateTo': 'Translate to…',
+  'report.translating': 'Translating...',
+  'report.linkedAsset': 'Linked asset',
+  'report.noAsset': 'No asset',
+  'report.generating': 'Generating intelligent analysis...',
+  'report.failed': 'Analysis Failed',
+  'report.empty': 'Your diagnostic report will appear here once analysis is complete.',
+  'report.faultSummary': 'Fault Summary',
+  'report.consensusNote': 'Consensus of {count} runs ({models}). Percentages show how many runs agreed.',
+  'report.riskAssessment': 'Risk Assessment',
+  'report.riskLevel': 'Risk level: {severity}',
+  'report.riskBar': '{level} of 4',
+  'report.severityDisagreement': 'The runs disagreed on severity: {votes}. "{severity}" is the majority, or the more severe on a tie. Treat it with caution.',
+  'report.consequences': 'Potential Consequences',
+  'report.mitigation': 'Mitigation Steps',
+  'report.noneSpecified': 'None specified.',
+  'report.possibleCauses': 'Possible Causes',
+  'report.image': 'Image {number}',
+  'report.photoFindings': 'Photo Findings',
+  'report.dataFiles': 'Sensor Data & Logs',
+  'report.troubleshooting': 'Troubleshooting Steps',
+  'report.stepsLocked': '{count} steps are hidden until the safety checklist above is acknowledged.',
+  'report.fixes': 'Recommended Fixes',
+  'report.estimatedLabor': 'Estimated labor',
+  'report.toolsAndParts': 'Required Tools & Potential Parts',
+  'report.tools': 'Recommended Tools',
+  'report.parts': 'Potential Parts',
+  'report.estimate': 'Repair Estimate',
+  'report.explanation': 'Simplified Explanation',
+  'report.similarCases': 'Similar Past Cases',
+  'report.stepsLockedStreaming': 'This report flags a safety hazard, so its steps stay hidden until the safety checklist is acknowledged.',
+  'report.stillWriting': 'Still writing the report...',
+  'compare.title': 'Compare Reports',
+  'compare.swap': 'Swap',
+  'compare.close': 'Close comparison',
+  'compare.before': 'Before',
+  'compare.after': 'After',
+  'compare.severity': 'Severity',
+  'compare.riskLowered': 'Risk lowered',
+  'compare.riskRaised': 'Risk raised',
+  'compare.riskUnchanged': 'Risk unchanged',
+  'compare.tools': 'Tools',
+  'compare.parts': 'Parts',
+  'compare.noChange': 'No change.',
+  'compare.unchanged': '{count} unchanged',
+  'compare.was': 'was: {text}',
+  'compare.detailsChanged': 'details changed',
+  'similar.match': '{percent}% match',
+  'similar.fixedBy': 'Fixed by: {fixes}',
+  'similar.noFix': 'No completed fix recorded',
+  'audience.label': 'Report view',
+  'audience.technician': 'Technician',
+  'audience.manager': 'Manager',
+  'audience.customer': 'Customer',
+  'customer.writing': 'Writing a summary for the customer...',
+  'customer.write': 'Write customer summary',
+  'customer.share': 'Share',
+  'customer.print': 'Print',
+  'customer.copied': 'Copied to the clipboard.',
+  'customer.shareError': 'Could not share: {error}',
+  'customer.whatWeWillDo': "What we'll do",
+  'customer.whatWeWillDoLabel': "What we'll do:",
+  'customer.isItSafe': 'Is it safe to use?',
+  'customer.whatHappensNext': 'What happens next',
+  'customer.diagnosed': 'Diagnosed {date}',
+  'manager.risk': 'Risk',
+  'manager.downtime': 'Downtime',
+  'manager.aboutHours': 'about {hours} h',
+  'manager.cost': 'Estimated Cost',
+  'manager.costBreakdown': '{parts} parts · {hours} h labor',
+  'manager.unpriced': '{count} items unpriced',
+  'manager.notPriced': 'Not priced. Confirm catalogue items and set a labor rate to estimate.',
+  'manager.impact': 'Impact:',
+  'manager.recommendation': 'Recommendation:',
+  'manager.unrepaired': 'If left unrepaired',
+  'manager.urgentFixes': 'Urgent Fixes',
+  'manager.noUrgentFixes': 'No urgent fixes.',
+  'manager.estimating': 'Estimating...',
+  'manager.estimate': 'Estimate',
+
+  'notice.view': 'View',
+  'notice.dismiss': 'Dismiss notice',
+  'notice.queuedReady': 'Report ready for a case queued {queuedAt}: {faultSummary}',
+  'notice.queuedFailed': 'A queued case could not be sent yet: {error}',
+  'notice.queuedSetAside': 'A case queued {queuedAt} failed {attempts} times and was set aside: {error}. Retry or discard it from the queue.',
+  'notice.webhookFailed': 'The alert webhook for {names} was not delivered: {error}',
+  'notice.systemTitle': 'OmniDiag report ready ({severity})',
+  'alert.title': 'Alert Rule Triggered',
+  'alert.dismiss': 'Dismiss alert',
+  'alert.matchedOne': 'This "{severity}" case matched the rule {names}.',
+  'alert.matchedMany': 'This "{severity}" case matched the rules {names}.',
+  'alert.notificationTitle': 'Alert: {name} ({severity})',
+  'alert.webhookText': 'Alert: {name} ({severity}): {summary}',
+
+  'alertRules.title': 'Alert Rules',
+  'alertRules.active': '{count} active',
+  'alertRules.noneActive': 'None active',
+  'alertRules.orAbove': '{severity} or above',
+  'alertRules.deletedAsset': 'Deleted asset',
+  'alertRules.mentions': 'mentions {keywords}',
+  'alertRules.or': ' or ',
+  'alertRules.enable': 'Enable {name}',
+  'alertRules.edit': 'Edit {name}',
+  'alertRules.delete': 'Delete {name}',
+  'alertRules.name': 'Rule name',
+  'alertRules.namePlaceholder': 'Rule name, e.g. Gas leak on site',
+  'alertRules.untitled': 'Untitled rule',
+  'alertRules.minSeverity': 'Minimum severity',
+  'alertRules.domains': 'Domains',
+  'alertRules.assets': 'Assets',
+  'alertRules.anyWhenEmpty': '(none selected means any)',
+  'alertRules.keywords': 'Keywords',
+  'alertRules.keywordsHint': '(comma-separated; any one is enough)',
+  'alertRules.keywordsPlaceholder': 'gas leak, arc flash',
+  'alertRules.desktop': 'Desktop notification',
+  'alertRules.sound': 'Sound',
+  'alertRules.webhook': 'Webhook',
+  'alertRules.webhookMissing': 'Set a webhook URL below for this rule to post anywhere.',
+  'alertRules.save': 'Save Rule',
+  'alertRules.cancel': 'Cancel',
+  'alertRules.add': 'Add Rule',
+  'alertRules.webhookUrl': 'Webhook URL',
+  'alertRules.webhookHint': 'Receives a JSON POST relayed by the OmniDiag server, whose OMNIDIAG_WEBHOOK_HOSTS must include this host.',
+  'alertRules.log': 'Fired Alerts',
+  'alertRules.clearLog': 'Clear log',
+  'alertRules.noAlerts': 'No alerts have fired yet.',
+  'alertRules.delivery.sent': 'sent',
+  'alertRules.delivery.failed': 'failed',
+  'alertRules.delivery.skipped': 'skipped',
+
+  'chat.title': 'Interactive Follow-up',
+  'chat.placeholder': 'Ask a follow-up question...',
+  'chat.send': 'Send message',
+  'chat.error': 'Sorry, I encountered an error. Please try again.',
+
+  'history.title': 'Diagnostic History',
+  'history.import': 'Import',
+  'history.importLabel': 'Import a case from JSON',
+  'history.clear': 'Clear History',
+  'history.clearLabel': 'Clear diagnostic history',
+  'history.clearConfirm': 'Are you sure you want to clear the entire diagnostic history? This action cannot be undone.',
+  'history.deleteOneConfirm': 'Delete this case? This action cannot be undone.',
+  'history.deleteManyConfirm': 'Delete these {count} cases? This action cannot be undone.',
+  'history.search': 'Search history',
+  'history.searchPlaceholder': 'Search faults, causes, parts and notes',
+  'history.sort': 'Sort history',
+  'history.newest': 'Newest first',
+  'history.oldest': 'Oldest first',
+  'history.mostSevere': 'Most severe first',
+  'history.filters': 'Filters',
+  'history.severity': 'Severity',
+  'history.from': 'From',
+  'history.to': 'To',
+  'history.domain': 'Domain',
+  'history.allDomains': 'All domains',
+  'history.noProfile': 'No equipment profile',
+  'history.attachments': 'Attachments',
+  'history.anyAttachments': 'With or without attachments',
+  'history.withImages': 'With images',
+  'history.withVoiceNote': 'With a voice note',
+  'history.clearFilters': 'Clear filters',
+  'history.selected': '{count} selected',
+  'history.showing': '{visible} of {total} cases',
+  'history.compareHint': 'Select two cases to compare',
+  'history.compare': 'Compare',
+  'history.export': 'Export',
+  'history.delete': 'Delete',
+  'history.selectCase': 'Select {faultSummary}',
+  'history.hasImages': 'Has images',
+  'history.hasVoiceNote': 'Has a voice note',
+  'history.noMatches': 'No cases match these filters.',
+  'history.empty': 'Your past reports will be saved here on this device.',
+  'assets.title': 'Assets',
+  'assets.select': 'Select asset',
+  'assets.selectPrompt': 'Select an asset to view its timeline',
+  'assets.none': 'No assets registered yet',
+  'assets.new': 'New Asset',
+  'assets.namePlaceholder': 'Name, e.g. Rooftop Unit 3',
+  'assets.location': 'Location',
+  'assets.create': 'Create',
+  'assets.noDetails': 'No details recorded',
+  'assets.severityTrend': 'Severity trend',
+  'assets.noCases': 'No cases have been linked to this asset yet.',
+
+  'catalogue.clearConfirm': 'Remove the parts catalogue from this device? Confirmed matches on past cases will no longer be priced.',
+  'catalogue.title': 'Parts Catalogue & Costs',
+  'catalogue.items': '{count} items',
+  'catalogue.none': 'No catalogue',
+  'catalogue.formatHint': 'A CSV with a header row, or a JSON array, with SKU, description, price and stock for each item. Loading a file replaces the current catalogue.',
+  'catalogue.load': 'Load Catalogue',
+  'catalogue.clear': 'Clear',
+  'catalogue.laborRate': 'Labor rate per hour',
+  'catalogue.currency': 'Currency',
+  'catalogue.confirmed': 'Confirmed',
+  'catalogue.itemFor': 'Catalogue item for {suggestion}',
+  'catalogue.inStock': '{count} in stock',
+  'catalogue.outOfStock': 'out of stock',
+  'catalogue.noneOfThese': 'None of these',
+  'catalogue.noMatch': 'No catalogue match',
+  'catalogue.quantityOf': 'Quantity of {suggestion}',
+  'catalogue.confirm': 'Confirm',
+
+  'estimate.item': 'Item',
+  'estimate.quantity': 'Qty',
+  'estimate.total': 'Total',
+  'estimate.lowStock': 'Low stock',
+  'estimate.noItems': 'No catalogue items confirmed yet.',
+  'estimate.partsAndTools': 'Parts and tools',
+  'estimate.labor': 'Labor ({hours} h at {rate}/h)',
+  'estimate.estimatedTotal': 'Estimated total',
+  'estimate.notPriced': 'Not priced: {items}.',
+  'estimate.noLaborOne': '1 fix has no labor estimate; log hours on the fix to include it.',
+  'estimate.noLaborMany': '{count} fixes have no labor estimate; log hours on the fixes to include them.',
+  'estimate.noLaborRate': 'Set a labor rate under Parts Catalogue & Costs to price labor.',
+  'estimate.export': 'Export Shopping List',
+
+  'provider.title': 'AI Provider',
+  'provider.option.gemini': 'Google Gemini (via OmniDiag server)',
+  'provider.option.openai-compatible': 'OpenAI-compatible server',
+  'provider.option.fixture': 'Offline fixture (testing)',
+  'provider.consensusShort': 'consensus ×{runs}',
+  'provider.provider': 'Provider',
+  'provider.model': 'Model',
+  'provider.accessToken': 'Access Token',
+  'provider.accessTokenHint': 'Issued by whoever runs your OmniDiag server. Leave it empty if the server does not ask for one.',
+  'provider.baseUrl': 'Server URL',
+  'provider.transcriptionModel': 'Transcription Model',
+  'provider.embeddingModel': 'Embedding Model',
+  'provider.apiKey': 'API Key (optional)',
+  'provider.consensusRuns': 'Consensus Runs',
+  'provider.off': 'Off',
+  'provider.runs': '{count} runs',
+  'provider.consensusModels': 'Consensus Models (optional)',
+  'provider.consensusNote': 'Each case is diagnosed {runs} times, rotating through the listed models, and causes and fixes are ranked by how many runs agree.',
+
+  'safety.title': 'Safety Hazards',
+  'safety.callProfessional': 'Call a licensed professional',
+  'safety.callProfessionalDetail': 'unless you are qualified and equipped for this work. This case calls for {professionals}. If anyone is at risk right now, leave the area and call emergency services.',
+  'safety.or': ', or ',
+  'safety.confirmPrompt': 'Confirm each lockout/tagout and PPE item to see the troubleshooting steps.',
+  'safety.acknowledge': 'Acknowledge and Show Steps',
+  'safety.acknowledged': 'Lockout/tagout and PPE checklist acknowledged {time}.',
+  'safety.notAcknowledged': 'Lockout/tagout and PPE checklist not acknowledged.',
+  'safety.anyProfessional': 'a licensed professional for this equipment',
+  'safety.checklist.qualified': 'I am qualified for this work, or will stop and call a licensed professional.',
+  'safety.checklist.storedEnergy': 'All stored energy is released and the equipment cannot be restarted while I work on it.',
+  'safety.checklist.ppe': 'I am wearing the PPE this job calls for, including eye protection.',
+  'hazard.mains-voltage.label': 'Mains voltage',
+  'hazard.mains-voltage.professional': 'a licensed electrician',
+  'hazard.mains-voltage.lockout': 'The circuit is switched off at the breaker or isolator, locked and tagged with my own lock.',
+  'hazard.mains-voltage.verify': 'I have tested for absence of voltage with a proven tester before touching any conductor.',
+  'hazard.mains-voltage.ppe': 'Insulated gloves and tools, and arc-rated clothing and face shield where required.',
+  'hazard.gas.label': 'Gas',
+  'hazard.gas.professional': 'a licensed gas engineer',
+  'hazard.gas.lockout': 'The gas supply is shut off at the appliance or meter valve, locked and tagged.',
+  'hazard.gas.verify': 'The area is ventilated and free of ignition sources, and no gas or CO is detected.',
+  'hazard.gas.ppe': 'A working gas or CO detector on my person.',
+  'hazard.refrigerant.label': 'Refrigerant',
+  'hazard.refrigerant.professional': 'a certified refrigeration technician',
+  'hazard.refrigerant.lockout': 'The system is powered down and locked out, and I will not open the refrigerant circuit without recovery equipment and certification.',
+  'hazard.refrigerant.ppe': 'Safety glasses and insulated gloves against frostbite from escaping refrigerant.',
+  'hazard.pressure.label': 'Pressurised system',
+  'hazard.pressure.professional': 'a licensed boiler or pressure systems technician',
+  'hazard.pressure.lockout': 'The system is isolated, locked out, and depressurised and drained, with the gauge reading zero.',
+  'hazard.pressure.ppe': 'Safety glasses or face shield, and heat-resistant gloves for hot fluids.',
+  'hazard.confined-space.label': 'Confined space',
+  'hazard.confined-space.professional': 'a contractor trained for confined-space entry',
+  'hazard.confined-space.lockout': 'The atmosphere has been tested, and a standby attendant and rescue plan are in place before entry.',
+  'hazard.confined-space.ppe': 'A harness and retrieval line, and a gas monitor for oxygen and toxic gases.',
+  'walkthrough.recorded': '{recorded} of {total} steps recorded',
+  'walkthrough.showAll': 'Show All Steps',
+  'walkthrough.guided': 'Guided Mode',
+  'walkthrough.refining': 'Refining the diagnosis with the evidence gathered so far...',
+  'walkthrough.stepOf': 'Step {step} of {total}',
+  'walkthrough.step': 'Step {step}',
+  'walkthrough.measurementPlaceholder': 'Measured value, e.g. 3.2 µF',
+  'walkthrough.notesPlaceholder': 'Notes (optional)',
+  'walkthrough.photoAlt': 'Evidence for step {step}',
+  'walkthrough.removePhoto': 'Remove photo',
+  'walkthrough.attachPhoto': 'Attach photo',
+  'walkthrough.readPhotoError': 'Could not read photo: {error}',
+  'walkthrough.pass': 'Pass',
+  'walkthrough.fail': 'Fail',
+  'walkthrough.measured': 'Measured',
+  'walkthrough.recordValue': 'Record Value',
+  'walkthrough.previous': 'Previous',
+  'walkthrough.next': 'Next',
+  'workItem.status.open': 'Open',
+  'workItem.status.in-progress': 'In Progress',
+  'workItem.status.done': 'Done',
+  'workItem.status.deferred': 'Deferred',
+  'workItem.track': 'Track',
+  'workItem.assignee': 'Assignee',
+  'workItem.status': 'Status',
+  'workItem.laborHours': 'Labor hours',
+  'workItem.laborPlaceholder': 'Labor (hours)',
+  'workItem.notes': 'Notes',
+  'workItem.partsUsed': 'Parts used',
+  'workItem.quantity': 'Quantity',
+  'workItem.part': 'Part',
+  'workItem.removePart': 'Remove part',
+  'workItem.addPart': 'Add part',
+  'workItem.cancel': 'Cancel',
+  'workItem.save': 'Save',
+  'workItem.unassigned': 'Unassigned',
+  'workItem.outstanding': 'Outstanding Urgent Fixes ({count})',
+  'dataFile.kind.telemetry': 'Telemetry',
+  'dataFile.kind.fault-codes': 'Fault codes',
+  'dataFile.kind.log': 'Log',
+  'dataFile.rows': '{count} rows',
+  'dataFile.lines': '{count} lines',
+  'dataFile.remove': 'Remove {fileName}',
+  'dataFile.channel': 'Channel',
+  'dataFile.range': 'Range',
+  'dataFile.low': 'Low limit',
+  'dataFile.high': 'High limit',
+  'dataFile.maxStep': 'Max step',
+  'dataFile.maxStepHint': 'The largest change you expect from one reading to the next',
+  'dataFile.limitFor': '{limit} for {channel}',
+  'dataFile.crossingOne': '({count} crossing)',
+  'dataFile.crossingMany': '({count} crossings)',
+  'dataFile.flagged': '({count} flagged)',
+  'dataFile.previewCharts': 'Preview charts',
+  'dataFile.hideCharts': 'Hide charts',
+  'dataFile.logLines': '{errors} error and {warnings} warning lines',
+  'dataFile.codes': 'Codes: {codes}',
+  'dataFile.noCodes': 'No codes found',
+  'dataFile.reading': 'Reading file...',
+  'dataFile.addPrompt': 'Add CSV telemetry, OBD-II code dumps or controller logs',
+  'dataFile.localNote': 'Files are summarized on this device; only the summary is sent for diagnosis.',
+  'dataFile.readError': 'Could not read data file: {error}',
+  'dataFile.period': '{start} to {end}',
+  'dataFile.lowValue': 'low {value}',
+  'dataFile.highValue': 'high {value}',
+  'dataFile.windowOne': '{count} flagged window',
+  'dataFile.windowMany': '{count} flagged windows',
+  'dataFile.aboveLimit': 'Above limit from {start} to {end}, reaching {extreme}',
+  'dataFile.belowLimit': 'Below limit from {start} to {end}, reaching {extreme}',
+  'dataFile.row': 'row {row}',
+  'dataFile.notEnoughReadings': 'Not enough readings to chart.',
+  'dataFile.readings': '{channel} readings',
+  'dataFile.rangeMean': '{min} – {max}, mean {mean}',
+  'dataFile.at': 'at {position}',
+  'dataFile.fromTo': 'from {start} to {end}',
+  'dataFile.anomaly.deviation': 'Sudden deviation',
+  'dataFile.anomaly.rate-of-change': 'Jump between readings',
+  'dataFile.anomaly.stuck': 'Stuck sensor',
+  'dataFile.anomalyDetail.deviation': '{label} {span}, reaching {peak} (rolling z-score {score})',
+  'dataFile.anomalyDetail.rate-of-change': '{label} {span}, changing by up to {score} per reading',
+  'dataFile.anomalyDetail.stuck': '{label} {span}, repeating {peak} for {count} readings',
+  'dataFile.code': 'Code',
+  'dataFile.meaning': 'Meaning',
+  'dataFile.seen': 'Seen',
+  'dataFile.notInTable': 'Not in the local code table',
+  'dataFile.topMessages': 'Most repeated messages',
+
+  'error.loadHistory': 'Could not load saved history: {error}',
+  'error.speechRecognition': 'Speech recognition error: {error}',
+  'error.transcription': 'Could not transcribe the voice note: {error}. The recording will still be sent for analysis.',
+  'error.noAudioCapture': 'Sorry, your browser cannot record audio.',
+  'error.saveRecording': 'Could not save the recording: {error}',
+  'error.microphone': 'Could not access the microphone: {error}',
+  'error.queueCase': 'Could not save the case for later: {error}',
+  'error.discardQueued': 'Could not discard the queued case: {error}',
+  'error.emptySubmission': 'Please provide a description, image, data file or voice note to start the diagnosis.',
+  'error.unexpected': 'An unexpected error occurred.',
+  'error.loadCatalogue': 'Could not load the catalogue: {error}',
+  'error.clearCatalogue': 'Could not clear the catalogue: {error}',
+  'error.refine': 'Could not refine the diagnosis: {error}',
+  'error.translate': 'Could not translate the report: {error}',
+  'error.brief': 'Could not write this view of the report: {error}',
+  'error.import': 'Import failed: {error}',
+
+  'export.report': 'OmniDiag report',
+  'export.diagnosed': 'Diagnosed {time}',
+  'export.riskHeading': 'Risk Assessment: {severity} ({level}/4)',
+  'export.severityDisagreement': 'Runs disagreed on severity:',
+  'export.ofRuns': '{percent}% of runs',
+  'export.safety': 'Safety',
+  'export.hazards': 'Hazards:',
+  'export.noneFlagged': 'none flagged',
+  'export.callContacts': 'Call {contacts} unless you are qualified for this work.',
+  'export.stepsWithheld': 'The {count} steps are withheld until this safety checklist is acknowledged in OmniDiag:',
+  'export.tools': 'Tools',
+  'export.partsHeading': 'Parts',
+  'export.originalSubmission': 'Original Submission',
+  'export.voiceNote': 'Voice note:',
+  'export.followUp': 'Follow-up Q&A',
+  'export.question': 'Q',
+  'export.answer': 'A',
+  'export.submittedImages': 'Submitted Images',
+  'export.problemDescription': 'Problem Description',
+  'export.voiceTranscript': 'Voice Note Transcript',
+  'export.csv.type': 'Type',
+  'export.csv.sku': 'SKU',
+  'export.csv.description': 'Description',
+  'export.csv.suggestedAs': 'Suggested as',
+  'export.csv.quantity': 'Quantity',
+  'export.csv.unitPrice': 'Unit price ({currency})',
+  'export.csv.total': 'Total ({currency})',
+  'export.csv.inStock': 'In stock',
+  'export.csv.part': 'Part',
+  'export.csv.tool': 'Tool',
+  'export.csv.labor': 'Labor',
+  'export.csv.laborHours': 'Labor ({hours} h)',
+  'export.csv.yes': 'Yes',
+  'export.csv.no': 'No',
+};
@@ -0,0 +1,490 @@
+import type { Messages } from '.';
+
+export const es: Messages = {
+  'app.tagline': 'Tu asistente con IA para detectar y diagnosticar fallos en cualquier tipo de equipo.',
+  'app.interfaceLanguage': 'Idioma de la interfaz',
+
+  'severity.Low': 'Baja',
+  'severity.Medium': 'Media',
+  'severity.High': 'Alta',
+  'severity.Critical': 'Crítica',
+  'priority.Urgent': 'Urgente',
+  'priority.Recommended': 'Recomendada',
+  'priority.Optional': 'Opcional',
+  'trend.improving': 'Mejorando',
+  'trend.worsening': 'Empeorando',
+  'trend.stable': 'Estable',
+
+  'input.title': 'Enviar un caso',
+  'input.reportLanguage': 'Idioma del informe',
+  'input.asset': 'Activo',
+  'input.noAsset': 'Sin activo vinculado',
+  'input.equipment': 'Equipo',
+  'input.description': 'Descripción del problema',
+  'input.descriptionPlaceholder': 'Describe el problema, incluidos síntomas, ruidos o códigos de error...',
+  'input.images': 'Subir imágenes',
+  'input.dataFiles': 'Datos de sensores y registros',
+  'input.voiceNote': 'Grabar nota de voz',
+  'input.recognitionLanguage': 'Idioma de reconocimiento',
+  'input.startRecording': 'Empezar a grabar',
+  'input.stopRecording': 'Detener grabación',
+  'input.transcribing': 'Transcribiendo la grabación...',
+  'input.offline': 'Estás sin conexión. Los casos que envíes se guardan en este dispositivo y se envían automáticamente cuando vuelva la conexión.',
+  'input.queuedOne': '1 caso en cola espera ser enviado.',
+  'input.queuedMany': '{count} casos en cola esperan ser enviados.',
+  'input.sendNow': 'Enviar ahora',
+  'input.queuedSetAside': 'En cola el {queuedAt}, sin enviar tras {attempts} intentos: {error}',
+  'input.retry': 'Reintentar',
+  'input.discard': 'Descartar',
+  'input.discardConfirm': '¿Descartar este caso en cola? No se ha diagnosticado y no se podrá recuperar.',
+  'input.analyzing': 'Analizando...',
+  'input.runDiagnosis': 'Ejecutar diagnóstico',
+  'input.queueForOnline': 'Poner en cola hasta tener conexión',
+  'input.cancel': 'Cancelar',
+  'input.cancelDiagnosis': 'Cancelar diagnóstico',
+  'equipment.notSpecified': 'Sin especificar',
+  'equipment.manufacturer': 'Fabricante',
+  'equipment.model': 'Modelo',
+  'equipment.serialNumber': 'Número de serie',
+  'equipment.environment': 'Entorno de funcionamiento',
+  'equipment.environmentPlaceholder': 'Entorno (p. ej., azotea, costa)',
+  'equipment.age': 'Antigüedad en años',
+  'equipment.agePlaceholder': 'Antigüedad (años)',
+  'equipment.operatingHours': 'Horas de funcionamiento',
+
+  'image.captioned': 'Imagen {number}: {caption}',
+  'image.unlabeled': 'Zona sin etiqueta',
+  'image.markLabel': 'Imagen {number}:',
+  'image.markPrompt': 'arrastra sobre la zona que quieres que examine el diagnóstico.',
+  'image.done': 'Listo',
+  'image.labelPlaceholder': '¿Qué hay aquí? p. ej., terminal quemado',
+  'image.add': 'Añadir',
+  'image.discard': 'Descartar',
+  'image.removeArea': 'Quitar la zona marcada {number}',
+  'image.markedNote': 'Los recuadros discontinuos son las zonas marcadas antes de enviar.',
+  'image.remove': 'Quitar la imagen {number}',
+  'image.captionPlaceholder': 'Leyenda, p. ej., placa de características, cuadro eléctrico',
+  'image.markedOne': '1 zona marcada',
+  'image.markedMany': '{count} zonas marcadas',
+  'image.markArea': 'Marcar una zona',
+  'image.addMore': 'Añadir más fotos',
+  'image.upload': 'Haz clic para subir fotos',
+  'image.extracting': 'Extrayendo fotogramas...',
+  'image.fromVideo': 'Extraer fotogramas de un vídeo',
+  'image.readError': 'No se pudo leer la imagen: {error}',
+  'image.extractError': 'No se pudieron extraer fotogramas del vídeo: {error}',
+
+  'report.title': 'Informe de diagnóstico',
+  'report.export': 'Exportar informe',
+  'report.exportPdf': 'Abrir una versión para imprimir y guardar como PDF',
+  'report.exportMarkdown': 'Descargar como Markdown',
+  'report.exportJson': 'Descargar como JSON (se puede volver a importar)',
+  'report.translate': 'Traducir informe',
+  'report.translateTo': 'Traducir a…',
+  'report.translating': 'Traduciendo...',
+  'report.linkedAsset': 'Activo vinculado',
+  'report.noAsset': 'Sin activo',
+  'report.generating': 'Generando el análisis...',
+  'report.failed': 'El análisis ha fallado',
+  'report.empty': 'Tu informe de diagnóstico aparecerá aquí cuando termine el análisis.',
+  'report.faultSummary': 'Resumen de la avería',
+  'report.consensusNote': 'Consenso de {count} ejecuciones ({models}). Los porcentajes indican cuántas ejecuciones coincidieron.',
+  'report.riskAssessment': 'Evaluación de riesgos',
+  'report.riskLevel': 'Nivel de riesgo: {severity}',
+  'report.riskBar': '{level} de 4',
+  'report.severityDisagreement': 'Las ejecuciones no coincidieron en la gravedad: {votes}. "{severity}" es la mayoría, o la más grave en caso de empate. Tómala con precaución.',
+  'report.consequences': 'Consecuencias posibles',
+  'report.mitigation': 'Medidas de mitigación',
+  'report.noneSpecified': 'No se especifica.',
+  'report.possibleCauses': 'Causas posibles',
+  'report.image': 'Imagen {number}',
+  'report.photoFindings': 'Hallazgos en las fotos',
+  'report.dataFiles': 'Datos de sensores y registros',
+  'report.troubleshooting': 'Pasos de diagnóstico',
+  'report.stepsLocked': '{count} pasos están ocultos hasta que se confirme la lista de seguridad de arriba.',
+  'report.fixes': 'Reparaciones recomendadas',
+  'report.estimatedLabor': 'Mano de obra estimada',
+  'report.toolsAndParts': 'Herramientas necesarias y posibles repuestos',
+  'report.tools': 'Herramientas recomendadas',
+  'report.parts': 'Posibles repuestos',
+  'report.estimate': 'Presupuesto de reparación',
+  'report.explanation': 'Explicación sencilla',
+  'report.similarCases': 'Casos anteriores similares',
+  'report.stepsLockedStreaming': 'Este informe señala un peligro, así que sus pasos permanecen ocultos hasta que se confirme la lista de seguridad.',
+  'report.stillWriting': 'Todavía redactando el informe...',
+  'compare.title': 'Comparar informes',
+  'compare.swap': 'Intercambiar',
+  'compare.close': 'Cerrar comparación',
+  'compare.before': 'Antes',
+  'compare.after': 'Después',
+  'compare.severity': 'Gravedad',
+  'compare.riskLowered': 'Riesgo reducido',
+  'compare.riskRaised': 'Riesgo aumentado',
+  'compare.riskUnchanged': 'Riesgo sin cambios',
+  'compare.tools': 'Herramientas',
+  'compare.parts': 'Piezas',
+  'compare.noChange': 'Sin cambios.',
+  'compare.unchanged': '{count} sin cambios',
+  'compare.was': 'antes: {text}',
+  'compare.detailsChanged': 'detalles modificados',
+  'similar.match': '{percent} % de coincidencia',
+  'similar.fixedBy': 'Reparado con: {fixes}',
+  'similar.noFix': 'No hay ninguna reparación completada',
+  'audience.label': 'Vista del informe',
+  'audience.technician': 'Técnico',
+  'audience.manager': 'Responsable',
+  'audience.customer': 'Cliente',
+  'customer.writing': 'Redactando un resumen para el cliente...',
+  'customer.write': 'Redactar resumen para el cliente',
+  'customer.share': 'Compartir',
+  'customer.print': 'Imprimir',
+  'customer.copied': 'Copiado al portapapeles.',
+  'customer.shareError': 'No se pudo compartir: {error}',
+  'customer.whatWeWillDo': 'Qué haremos',
+  'customer.whatWeWillDoLabel': 'Qué haremos:',
+  'customer.isItSafe': '¿Es seguro usarlo?',
+  'customer.whatHappensNext': 'Próximos pasos',
+  'customer.diagnosed': 'Diagnosticado el {date}',
+  'manager.risk': 'Riesgo',
+  'manager.downtime': 'Tiempo de inactividad',
+  'manager.aboutHours': 'unas {hours} h',
+  'manager.cost': 'Coste estimado',
+  'manager.costBreakdown': '{parts} en piezas · {hours} h de mano de obra',
+  'manager.unpriced': '{count} artículos sin precio',
+  'manager.notPriced': 'Sin presupuesto. Confirma los artículos del catálogo y fija una tarifa de mano de obra para estimarlo.',
+  'manager.impact': 'Impacto:',
+  'manager.recommendation': 'Recomendación:',
+  'manager.unrepaired': 'Si no se repara',
+  'manager.urgentFixes': 'Reparaciones urgentes',
+  'manager.noUrgentFixes': 'No hay reparaciones urgentes.',
+  'manager.estimating': 'Estimando...',
+  'manager.estimate': 'Estimar',
+
+  'notice.view': 'Ver',
+  'notice.dismiss': 'Descartar aviso',
+  'notice.queuedReady': 'Informe listo para un caso puesto en cola el {queuedAt}: {faultSummary}',
+  'notice.queuedFailed': 'Todavía no se ha podido enviar un caso en cola: {error}',
+  'notice.queuedSetAside': 'Un caso en cola el {queuedAt} ha fallado {attempts} veces y se ha apartado: {error}. Reinténtalo o descártalo desde la cola.',
+  'notice.webhookFailed': 'No se entregó el webhook de alerta de {names}: {error}',
+  'notice.systemTitle': 'Informe de OmniDiag listo ({severity})',
+  'alert.title': 'Regla de alerta activada',
+  'alert.dismiss': 'Descartar alerta',
+  'alert.matchedOne': 'Este caso de gravedad "{severity}" cumple la regla {names}.',
+  'alert.matchedMany': 'Este caso de gravedad "{severity}" cumple las reglas {names}.',
+  'alert.notificationTitle': 'Alerta: {name} ({severity})',
+  'alert.webhookText': 'Alerta: {name} ({severity}): {summary}',
+
+  'alertRules.title': 'Reglas de alerta',
+  'alertRules.active': '{count} activas',
+  'alertRules.noneActive': 'Ninguna activa',
+  'alertRules.orAbove': '{severity} o superior',
+  'alertRules.deletedAsset': 'Activo eliminado',
+  'alertRules.mentions': 'menciona {keywords}',
+  'alertRules.or': ' o ',
+  'alertRules.enable': 'Activar {name}',
+  'alertRules.edit': 'Editar {name}',
+  'alertRules.delete': 'Eliminar {name}',
+  'alertRules.name': 'Nombre de la regla',
+  'alertRules.namePlaceholder': 'Nombre de la regla, p. ej. Fuga de gas en obra',
+  'alertRules.untitled': 'Regla sin nombre',
+  'alertRules.minSeverity': 'Gravedad mínima',
+  'alertRules.domains': 'Ámbitos',
+  'alertRules.assets': 'Activos',
+  'alertRules.anyWhenEmpty': '(sin selección equivale a cualquiera)',
+  'alertRules.keywords': 'Palabras clave',
+  'alertRules.keywordsHint': '(separadas por comas; basta con una)',
+  'alertRules.keywordsPlaceholder': 'fuga de gas, arco eléctrico',
+  'alertRules.desktop': 'Notificación de escritorio',
+  'alertRules.sound': 'Sonido',
+  'alertRules.webhook': 'Webhook',
+  'alertRules.webhookMissing': 'Indica abajo una URL de webhook para que esta regla publique en algún sitio.',
+  'alertRules.save': 'Guardar regla',
+  'alertRules.cancel': 'Cancelar',
+  'alertRules.add': 'Añadir regla',
+  'alertRules.webhookUrl': 'URL del webhook',
+  'alertRules.webhookHint': 'Recibe un POST JSON reenviado por el servidor de OmniDiag, cuyo OMNIDIAG_WEBHOOK_HOSTS debe incluir este host.',
+  'alertRules.log': 'Alertas disparadas',
+  'alertRules.clearLog': 'Borrar registro',
+  'alertRules.noAlerts': 'Aún no se ha disparado ninguna alerta.',
+  'alertRules.delivery.sent': 'enviada',
+  'alertRules.delivery.failed': 'fallida',
+  'alertRules.delivery.skipped': 'omitida',
+
+  'chat.title': 'Preguntas de seguimiento',
+  'chat.placeholder': 'Haz una pregunta de seguimiento...',
+  'chat.send': 'Enviar mensaje',
+  'chat.error': 'Lo siento, se ha producido un error. Inténtalo de nuevo.',
+
+  'history.title': 'Historial de diagnósticos',
+  'history.import': 'Importar',
+  'history.importLabel': 'Importar un caso desde JSON',
+  'history.clear': 'Borrar historial',
+  'history.clearLabel': 'Borrar el historial de diagnósticos',
+  'history.clearConfirm': '¿Seguro que quieres borrar todo el historial de diagnósticos? Esta acción no se puede deshacer.',
+  'history.deleteOneConfirm': '¿Eliminar este caso? Esta acción no se puede deshacer.',
+  'history.deleteManyConfirm': '¿Eliminar estos {count} casos? Esta acción no se puede deshacer.',
+  'history.search': 'Buscar en el historial',
+  'history.searchPlaceholder': 'Busca fallos, causas, piezas y notas',
+  'history.sort': 'Ordenar el historial',
+  'history.newest': 'Más recientes primero',
+  'history.oldest': 'Más antiguos primero',
+  'history.mostSevere': 'Más graves primero',
+  'history.filters': 'Filtros',
+  'history.severity': 'Gravedad',
+  'history.from': 'Desde',
+  'history.to': 'Hasta',
+  'history.domain': 'Ámbito',
+  'history.allDomains': 'Todos los ámbitos',
+  'history.noProfile': 'Sin perfil de equipo',
+  'history.attachments': 'Adjuntos',
+  'history.anyAttachments': 'Con o sin adjuntos',
+  'history.withImages': 'Con imágenes',
+  'history.withVoiceNote': 'Con nota de voz',
+  'history.clearFilters': 'Quitar filtros',
+  'history.selected': '{count} seleccionados',
+  'history.showing': '{visible} de {total} casos',
+  'history.compareHint': 'Selecciona dos casos para compararlos',
+  'history.compare': 'Comparar',
+  'history.export': 'Exportar',
+  'history.delete': 'Eliminar',
+  'history.selectCase': 'Seleccionar {faultSummary}',
+  'history.hasImages': 'Tiene imágenes',
+  'history.hasVoiceNote': 'Tiene nota de voz',
+  'history.noMatches': 'Ningún caso coincide con estos filtros.',
+  'history.empty': 'Tus informes anteriores se guardarán aquí, en este dispositivo.',
+  'assets.title': 'Activos',
+  'assets.select': 'Seleccionar activo',
+  'assets.selectPrompt': 'Selecciona un activo para ver su cronología',
+  'assets.none': 'Aún no hay activos registrados',
+  'assets.new': 'Nuevo activo',
+  'assets.namePlaceholder': 'Nombre, p. ej. Unidad de azotea 3',
+  'assets.location': 'Ubicación',
+  'assets.create': 'Crear',
+  'assets.noDetails': 'Sin datos registrados',
+  'assets.severityTrend': 'Tendencia de gravedad',
+  'assets.noCases': 'Aún no se ha vinculado ningún caso a este activo.',
+
+  'catalogue.clearConfirm': '¿Quitar el catálogo de repuestos de este dispositivo? Las coincidencias confirmadas en casos anteriores dejarán de tener precio.',
+  'catalogue.title': 'Catálogo de piezas y costes',
+  'catalogue.items': '{count} artículos',
+  'catalogue.none': 'Sin catálogo',
+  'catalogue.formatHint': 'Un CSV con fila de encabezado, o un array JSON, con SKU, descripción, precio y existencias de cada artículo. Cargar un archivo sustituye el catálogo actual.',
+  'catalogue.load': 'Cargar catálogo',
+  'catalogue.clear': 'Borrar',
+  'catalogue.laborRate': 'Tarifa de mano de obra por hora',
+  'catalogue.currency': 'Moneda',
+  'catalogue.confirmed': 'Confirmado',
+  'catalogue.itemFor': 'Artículo del catálogo para {suggestion}',
+  'catalogue.inStock': '{count} en existencias',
+  'catalogue.outOfStock': 'agotado',
+  'catalogue.noneOfThese': 'Ninguno de estos',
+  'catalogue.noMatch': 'Sin coincidencia en el catálogo',
+  'catalogue.quantityOf': 'Cantidad de {suggestion}',
+  'catalogue.confirm': 'Confirmar',
+
+  'estimate.item': 'Artículo',
+  'estimate.quantity': 'Cant.',
+  'estimate.total': 'Total',
+  'estimate.lowStock': 'Pocas existencias',
+  'estimate.noItems': 'Aún no se ha confirmado ningún artículo del catálogo.',
+  'estimate.partsAndTools': 'Piezas y herramientas',
+  'estimate.labor': 'Mano de obra ({hours} h a {rate}/h)',
+  'estimate.estimatedTotal': 'Total estimado',
+  'estimate.notPriced': 'Sin precio: {items}.',
+  'estimate.noLaborOne': '1 reparación no tiene estimación de mano de obra; registra las horas en la reparación para incluirla.',
+  'estimate.noLaborMany': '{count} reparaciones no tienen estimación de mano de obra; registra las horas en las reparaciones para incluirlas.',
+  'estimate.noLaborRate': 'Define una tarifa de mano de obra en Catálogo de piezas y costes para valorarla.',
+  'estimate.export': 'Exportar lista de compra',
+
+  'provider.title': 'Proveedor de IA',
+  'provider.option.gemini': 'Google Gemini (a través del servidor OmniDiag)',
+  'provider.option.openai-compatible': 'Servidor compatible con OpenAI',
+  'provider.option.fixture': 'Datos de prueba sin conexión (pruebas)',
+  'provider.consensusShort': 'consenso ×{runs}',
+  'provider.provider': 'Proveedor',
+  'provider.model': 'Modelo',
+  'provider.accessToken': 'Token de acceso',
+  'provider.accessTokenHint': 'Lo emite quien administre tu servidor OmniDiag. Déjalo vacío si el servidor no lo pide.',
+  'provider.baseUrl': 'URL del servidor',
+  'provider.transcriptionModel': 'Modelo de transcripción',
+  'provider.embeddingModel': 'Modelo de embeddings',
+  'provider.apiKey': 'Clave de API (opcional)',
+  'provider.consensusRuns': 'Ejecuciones de consenso',
+  'provider.off': 'Desactivado',
+  'provider.runs': '{count} ejecuciones',
+  'provider.consensusModels': 'Modelos de consenso (opcional)',
+  'provider.consensusNote': 'Cada caso se diagnostica {runs} veces, alternando entre los modelos indicados, y las causas y reparaciones se ordenan según cuántas ejecuciones coinciden.',
+
+  'safety.title': 'Peligros para la seguridad',
+  'safety.callProfessional': 'Llama a un profesional acreditado',
+  'safety.callProfessionalDetail': 'salvo que estés cualificado y equipado para este trabajo. Este caso requiere {professionals}. Si alguien corre peligro ahora mismo, sal de la zona y llama a emergencias.',
+  'safety.or': ' o ',
+  'safety.confirmPrompt': 'Confirma cada punto de bloqueo/etiquetado y EPI para ver los pasos de diagnóstico.',
+  'safety.acknowledge': 'Confirmar y mostrar los pasos',
+  'safety.acknowledged': 'Lista de bloqueo/etiquetado y EPI confirmada el {time}.',
+  'safety.notAcknowledged': 'Lista de bloqueo/etiquetado y EPI sin confirmar.',
+  'safety.anyProfessional': 'un profesional acreditado para este equipo',
+  'safety.checklist.qualified': 'Estoy cualificado para este trabajo, o pararé y llamaré a un profesional acreditado.',
+  'safety.checklist.storedEnergy': 'Toda la energía acumulada se ha liberado y el equipo no puede volver a arrancar mientras trabajo en él.',
+  'safety.checklist.ppe': 'Llevo el EPI que exige este trabajo, incluida protección ocular.',
+  'hazard.mains-voltage.label': 'Tensión de red',
+  'hazard.mains-voltage.professional': 'un electricista acreditado',
+  'hazard.mains-voltage.lockout': 'El circuito está desconectado en el interruptor o seccionador, bloqueado y etiquetado con mi propio candado.',
+  'hazard.mains-voltage.verify': 'He comprobado la ausencia de tensión con un comprobador verificado antes de tocar ningún conductor.',
+  'hazard.mains-voltage.ppe': 'Guantes y herramientas aislados, y ropa y pantalla facial contra arco eléctrico cuando se requiera.',
+  'hazard.gas.label': 'Gas',
+  'hazard.gas.professional': 'un técnico de gas acreditado',
+  'hazard.gas.lockout': 'El suministro de gas está cerrado en la llave del aparato o del contador, bloqueado y etiquetado.',
+  'hazard.gas.verify': 'La zona está ventilada y sin fuentes de ignición, y no se detecta gas ni CO.',
+  'hazard.gas.ppe': 'Llevo encima un detector de gas o CO que funciona.',
+  'hazard.refrigerant.label': 'Refrigerante',
+  'hazard.refrigerant.professional': 'un técnico frigorista certificado',
+  'hazard.refrigerant.lockout': 'El sistema está apagado y bloqueado, y no abriré el circuito de refrigerante sin equipo de recuperación y certificación.',
+  'hazard.refrigerant.ppe': 'Gafas de seguridad y guantes aislantes contra las quemaduras por frío del refrigerante que escape.',
+  'hazard.pressure.label': 'Sistema a presión',
+  'hazard.pressure.professional': 'un técnico acreditado en calderas o sistemas a presión',
+  'hazard.pressure.lockout': 'El sistema está aislado, bloqueado, despresurizado y vaciado, con el manómetro a cero.',
+  'hazard.pressure.ppe': 'Gafas de seguridad o pantalla facial, y guantes resistentes al calor para fluidos calientes.',
+  'hazard.confined-space.label': 'Espacio confinado',
+  'hazard.confined-space.professional': 'una empresa formada para entrar en espacios confinados',
+  'hazard.confined-space.lockout': 'Se ha medido la atmósfera y hay un vigilante y un plan de rescate antes de entrar.',
+  'hazard.confined-space.ppe': 'Arnés y cuerda de rescate, y un medidor de oxígeno y gases tóxicos.',
+  'walkthrough.recorded': '{recorded} de {total} pasos registrados',
+  'walkthrough.showAll': 'Mostrar todos los pasos',
+  'walkthrough.guided': 'Modo guiado',
+  'walkthrough.refining': 'Afinando el diagnóstico con las pruebas reunidas hasta ahora...',
+  'walkthrough.stepOf': 'Paso {step} de {total}',
+  'walkthrough.step': 'Paso {step}',
+  'walkthrough.measurementPlaceholder': 'Valor medido, p. ej. 3,2 µF',
+  'walkthrough.notesPlaceholder': 'Notas (opcional)',
+  'walkthrough.photoAlt': 'Prueba del paso {step}',
+  'walkthrough.removePhoto': 'Quitar foto',
+  'walkthrough.attachPhoto': 'Adjuntar foto',
+  'walkthrough.readPhotoError': 'No se pudo leer la foto: {error}',
+  'walkthrough.pass': 'Correcto',
+  'walkthrough.fail': 'Fallo',
+  'walkthrough.measured': 'Medido',
+  'walkthrough.recordValue': 'Registrar valor',
+  'walkthrough.previous': 'Anterior',
+  'walkthrough.next': 'Siguiente',
+  'workItem.status.open': 'Abierta',
+  'workItem.status.in-progress': 'En curso',
+  'workItem.status.done': 'Hecha',
+  'workItem.status.deferred': 'Aplazada',
+  'workItem.track': 'Seguir',
+  'workItem.assignee': 'Responsable',
+  'workItem.status': 'Estado',
+  'workItem.laborHours': 'Horas de mano de obra',
+  'workItem.laborPlaceholder': 'Mano de obra (horas)',
+  'workItem.notes': 'Notas',
+  'workItem.partsUsed': 'Piezas usadas',
+  'workItem.quantity': 'Cantidad',
+  'workItem.part': 'Pieza',
+  'workItem.removePart': 'Quitar pieza',
+  'workItem.addPart': 'Añadir pieza',
+  'workItem.cancel': 'Cancelar',
+  'workItem.save': 'Guardar',
+  'workItem.unassigned': 'Sin asignar',
+  'workItem.outstanding': 'Reparaciones urgentes pendientes ({count})',
+  'dataFile.kind.telemetry': 'Telemetría',
+  'dataFile.kind.fault-codes': 'Códigos de fallo',
+  'dataFile.kind.log': 'Registro',
+  'dataFile.rows': '{count} filas',
+  'dataFile.lines': '{count} líneas',
+  'dataFile.remove': 'Quitar {fileName}',
+  'dataFile.channel': 'Canal',
+  'dataFile.range': 'Rango',
+  'dataFile.low': 'Límite inferior',
+  'dataFile.high': 'Límite superior',
+  'dataFile.maxStep': 'Salto máx.',
+  'dataFile.maxStepHint': 'El mayor cambio que esperas entre una lectura y la siguiente',
+  'dataFile.limitFor': '{limit} de {channel}',
+  'dataFile.crossingOne': '({count} cruce)',
+  'dataFile.crossingMany': '({count} cruces)',
+  'dataFile.flagged': '({count} señaladas)',
+  'dataFile.previewCharts': 'Ver gráficos',
+  'dataFile.hideCharts': 'Ocultar gráficos',
+  'dataFile.logLines': '{errors} líneas de error y {warnings} de aviso',
+  'dataFile.codes': 'Códigos: {codes}',
+  'dataFile.noCodes': 'No se encontraron códigos',
+  'dataFile.reading': 'Leyendo el archivo...',
+  'dataFile.addPrompt': 'Añade telemetría CSV, volcados de códigos OBD-II o registros de controladores',
+  'dataFile.localNote': 'Los archivos se resumen en este dispositivo; solo se envía el resumen para el diagnóstico.',
+  'dataFile.readError': 'No se pudo leer el archivo de datos: {error}',
+  'dataFile.period': 'del {start} al {end}',
+  'dataFile.lowValue': 'mín. {value}',
+  'dataFile.highValue': 'máx. {value}',
+  'dataFile.windowOne': '{count} ventana señalada',
+  'dataFile.windowMany': '{count} ventanas señaladas',
+  'dataFile.aboveLimit': 'Por encima del límite de {start} a {end}, hasta {extreme}',
+  'dataFile.belowLimit': 'Por debajo del límite de {start} a {end}, hasta {extreme}',
+  'dataFile.row': 'fila {row}',
+  'dataFile.notEnoughReadings': 'No hay suficientes lecturas para el gráfico.',
+  'dataFile.readings': 'Lecturas de {channel}',
+  'dataFile.rangeMean': '{min} – {max}, media {mean}',
+  'dataFile.at': 'en {position}',
+  'dataFile.fromTo': 'de {start} a {end}',
+  'dataFile.anomaly.deviation': 'Desviación repentina',
+  'dataFile.anomaly.rate-of-change': 'Salto entre lecturas',
+  'dataFile.anomaly.stuck': 'Sensor bloqueado',
+  'dataFile.anomalyDetail.deviation': '{label} {span}, alcanzando {peak} (puntuación z móvil {score})',
+  'dataFile.anomalyDetail.rate-of-change': '{label} {span}, con cambios de hasta {score} por lectura',
+  'dataFile.anomalyDetail.stuck': '{label} {span}, repitiendo {peak} durante {count} lecturas',
+  'dataFile.code': 'Código',
+  'dataFile.meaning': 'Significado',
+  'dataFile.seen': 'Veces',
+  'dataFile.notInTable': 'No está en la tabla local de códigos',
+  'dataFile.topMessages': 'Mensajes más repetidos',
+
+  'error.loadHistory': 'No se ha podido cargar el historial guardado: {error}',
+  'error.speechRecognition': 'Error de reconocimiento de voz: {error}',
+  'error.transcription': 'No se ha podido transcribir la nota de voz: {error}. La grabación se enviará igualmente para su análisis.',
+  'error.noAudioCapture': 'Lo siento, tu navegador no puede grabar audio.',
+  'error.saveRecording': 'No se ha podido guardar la grabación: {error}',
+  'error.microphone': 'No se ha podido acceder al micrófono: {error}',
+  'error.queueCase': 'No se ha podido guardar el caso para más tarde: {error}',
+  'error.discardQueued': 'No se pudo descartar el caso en cola: {error}',
+  'error.emptySubmission': 'Añade una descripción, una imagen, un archivo de datos o una nota de voz para empezar el diagnóstico.',
+  'error.unexpected': 'Se ha producido un error inesperado.',
+  'error.loadCatalogue': 'No se ha podido cargar el catálogo: {error}',
+  'error.clearCatalogue': 'No se ha podido borrar el catálogo: {error}',
+  'error.refine': 'No se ha podido afinar el diagnóstico: {error}',
+  'error.translate': 'No se ha podido traducir el informe: {error}',
+  'error.brief': 'No se ha podido generar esta vista del informe: {error}',
+  'error.import': 'La importación ha fallado: {error}',
+
+  'export.report': 'Informe de OmniDiag',
+  'export.diagnosed': 'Diagnosticado el {time}',
+  'export.riskHeading': 'Evaluación de riesgos: {severity} ({level}/4)',
+  'export.severityDisagreement': 'Las ejecuciones no coincidieron en la gravedad:',
+  'export.ofRuns': '{percent} % de las ejecuciones',
+  'export.safety': 'Seguridad',
+  'export.hazards': 'Peligros:',
+  'export.noneFlagged': 'ninguno señalado',
+  'export.callContacts': 'Llama a {contacts} salvo que estés cualificado para este trabajo.',
+  'export.stepsWithheld': 'Los {count} pasos se ocultan hasta que se confirme esta lista de seguridad en OmniDiag:',
+  'export.tools': 'Herramientas',
+  'export.partsHeading': 'Piezas',
+  'export.originalSubmission': 'Envío original',
+  'export.voiceNote': 'Nota de voz:',
+  'export.followUp': 'Preguntas de seguimiento',
+  'export.question': 'P',
+  'export.answer': 'R',
+  'export.submittedImages': 'Imágenes enviadas',
+  'export.problemDescription': 'Descripción del problema',
+  'export.voiceTranscript': 'Transcripción de la nota de voz',
+  'export.csv.type': 'Tipo',
+  'export.csv.sku': 'SKU',
+  'export.csv.description': 'Descripción',
+  'export.csv.suggestedAs': 'Sugerido como',
+  'export.csv.quantity': 'Cantidad',
+  'export.csv.unitPrice': 'Precio unitario ({currency})',
+  'export.csv.total': 'Total ({currency})',
+  'export.csv.inStock': 'En existencias',
+  'export.csv.part': 'Pieza',
+  'export.csv.tool': 'Herramienta',
+  'export.csv.labor': 'Mano de obra',
+  'export.csv.laborHours': 'Mano de obra ({hours} h)',
+  'export.csv.yes': 'Sí',
+  'export.csv.no': 'No',
+};
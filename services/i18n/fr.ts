@@ -0,0 +1,490 @@
+import type { Messages } from '.';
+
+export const fr: Messages = {
+  'app.tagline': 'Votre assistant IA pour détecter et diagnostiquer les pannes sur tout type d’équipement.',
+  'app.interfaceLanguage': 'Langue de l’interface',
+
+  'severity.Low': 'Faible',
+  'severity.Medium': 'Moyenne',
+  'severity.High': 'Élevée',
+  'severity.Critical': 'Critique',
+  'priority.Urgent': 'Urgent',
+  'priority.Recommended': 'Recommandé',
+  'priority.Optional': 'Facultatif',
+  'trend.improving': 'En amélioration',
+  'trend.worsening': 'En aggravation',
+  'trend.stable': 'Stable',
+
+  'input.title': 'Soumettre un cas',
+  'input.reportLanguage': 'Langue du rapport',
+  'input.asset': 'Équipement suivi',
+  'input.noAsset': 'Non lié à un équipement suivi',
+  'input.equipment': 'Équipement',
+  'input.description': 'Description du problème',
+  'input.descriptionPlaceholder': 'Décrivez le problème : symptômes, bruits ou codes d’erreur...',
+  'input.images': 'Ajouter des images',
+  'input.dataFiles': 'Données de capteurs et journaux',
+  'input.voiceNote': 'Enregistrer une note vocale',
+  'input.recognitionLanguage': 'Langue de reconnaissance',
+  'input.startRecording': 'Démarrer l’enregistrement',
+  'input.stopRecording': 'Arrêter l’enregistrement',
+  'input.transcribing': 'Transcription de l’enregistrement...',
+  'input.offline': 'Vous êtes hors ligne. Les cas que vous soumettez sont enregistrés sur cet appareil et envoyés automatiquement au retour de la connexion.',
+  'input.queuedOne': '1 cas en file d’attente doit encore être envoyé.',
+  'input.queuedMany': '{count} cas en file d’attente doivent encore être envoyés.',
+  'input.sendNow': 'Envoyer maintenant',
+  'input.queuedSetAside': 'Mis en file le {queuedAt}, non envoyé après {attempts} tentatives : {error}',
+  'input.retry': 'Réessayer',
+  'input.discard': 'Abandonner',
+  'input.discardConfirm': 'Abandonner ce cas en file d’attente ? Il n’a pas été diagnostiqué et ne pourra pas être récupéré.',
+  'input.analyzing': 'Analyse en cours...',
+  'input.runDiagnosis': 'Lancer le diagnostic',
+  'input.queueForOnline': 'Mettre en file d’attente',
+  'input.cancel': 'Annuler',
+  'input.cancelDiagnosis': 'Annuler le diagnostic',
+  'equipment.notSpecified': 'Non précisé',
+  'equipment.manufacturer': 'Fabricant',
+  'equipment.model': 'Modèle',
+  'equipment.serialNumber': 'Numéro de série',
+  'equipment.environment': 'Environnement d’exploitation',
+  'equipment.environmentPlaceholder': 'Environnement (p. ex. toiture, bord de mer)',
+  'equipment.age': 'Âge en années',
+  'equipment.agePlaceholder': 'Âge (années)',
+  'equipment.operatingHours': 'Heures de fonctionnement',
+
+  'image.captioned': 'Image {number} : {caption}',
+  'image.unlabeled': 'Zone sans libellé',
+  'image.markLabel': 'Image {number} :',
+  'image.markPrompt': 'faites glisser sur la zone que le diagnostic doit examiner.',
+  'image.done': 'Terminé',
+  'image.labelPlaceholder': 'Qu’y a-t-il ici ? p. ex. borne brûlée',
+  'image.add': 'Ajouter',
+  'image.discard': 'Abandonner',
+  'image.removeArea': 'Supprimer la zone marquée {number}',
+  'image.markedNote': 'Les cadres en pointillés sont les zones marquées avant l’envoi.',
+  'image.remove': 'Supprimer l’image {number}',
+  'image.captionPlaceholder': 'Légende, p. ex. plaque signalétique, tableau de câblage',
+  'image.markedOne': '1 zone marquée',
+  'image.markedMany': '{count} zones marquées',
+  'image.markArea': 'Marquer une zone',
+  'image.addMore': 'Ajouter d’autres photos',
+  'image.upload': 'Cliquez pour importer des photos',
+  'image.extracting': 'Extraction des images...',
+  'image.fromVideo': 'Extraire des images d’une vidéo',
+  'image.readError': 'Impossible de lire l’image : {error}',
+  'image.extractError': 'Impossible d’extraire des images de la vidéo : {error}',
+
+  'report.title': 'Rapport de diagnostic',
+  'report.export': 'Exporter le rapport',
+  'report.exportPdf': 'Ouvrir une version imprimable à enregistrer en PDF',
+  'report.exportMarkdown': 'Télécharger en Markdown',
+  'report.exportJson': 'Télécharger en JSON (réimportable)',
+  'report.translate': 'Traduire le rapport',
+  'report.translateTo': 'Traduire en…',
+  'report.translating': 'Traduction en cours...',
+  'report.linkedAsset': 'Équipement suivi lié',
+  'report.noAsset': 'Aucun équipement suivi',
+  'report.generating': 'Analyse en cours de génération...',
+  'report.failed': 'Échec de l’analyse',
+  'report.empty': 'Votre rapport de diagnostic s’affichera ici une fois l’analyse terminée.',
+  'report.faultSummary': 'Résumé de la panne',
+  'report.consensusNote': 'Consensus de {count} exécutions ({models}). Les pourcentages indiquent combien d’exécutions étaient d’accord.',
+  'report.riskAssessment': 'Évaluation des risques',
+  'report.riskLevel': 'Niveau de risque : {severity}',
+  'report.riskBar': '{level} sur 4',
+  'report.severityDisagreement': 'Les exécutions ne s’accordent pas sur la gravité : {votes}. « {severity} » est la majorité, ou la plus grave en cas d’égalité. À considérer avec prudence.',
+  'report.consequences': 'Conséquences possibles',
+  'report.mitigation': 'Mesures d’atténuation',
+  'report.noneSpecified': 'Non précisé.',
+  'report.possibleCauses': 'Causes possibles',
+  'report.image': 'Image {number}',
+  'report.photoFindings': 'Constats sur les photos',
+  'report.dataFiles': 'Données de capteurs et journaux',
+  'report.troubleshooting': 'Étapes de dépannage',
+  'report.stepsLocked': '{count} étapes sont masquées tant que la liste de sécurité ci-dessus n’est pas validée.',
+  'report.fixes': 'Réparations recommandées',
+  'report.estimatedLabor': 'Main-d’œuvre estimée',
+  'report.toolsAndParts': 'Outils nécessaires et pièces possibles',
+  'report.tools': 'Outils recommandés',
+  'report.parts': 'Pièces possibles',
+  'report.estimate': 'Devis de réparation',
+  'report.explanation': 'Explication simplifiée',
+  'report.similarCases': 'Cas similaires précédents',
+  'report.stepsLockedStreaming': 'Ce rapport signale un danger : ses étapes restent masquées tant que la liste de sécurité n’est pas validée.',
+  'report.stillWriting': 'Rédaction du rapport en cours...',
+  'compare.title': 'Comparer les rapports',
+  'compare.swap': 'Inverser',
+  'compare.close': 'Fermer la comparaison',
+  'compare.before': 'Avant',
+  'compare.after': 'Après',
+  'compare.severity': 'Gravité',
+  'compare.riskLowered': 'Risque réduit',
+  'compare.riskRaised': 'Risque accru',
+  'compare.riskUnchanged': 'Risque inchangé',
+  'compare.tools': 'Outils',
+  'compare.parts': 'Pièces',
+  'compare.noChange': 'Aucun changement.',
+  'compare.unchanged': '{count} inchangés',
+  'compare.was': 'avant : {text}',
+  'compare.detailsChanged': 'détails modifiés',
+  'similar.match': '{percent} % de correspondance',
+  'similar.fixedBy': 'Réparé par : {fixes}',
+  'similar.noFix': 'Aucune réparation terminée enregistrée',
+  'audience.label': 'Vue du rapport',
+  'audience.technician': 'Technicien',
+  'audience.manager': 'Responsable',
+  'audience.customer': 'Client',
+  'customer.writing': 'Rédaction d’un résumé pour le client...',
+  'customer.write': 'Rédiger un résumé pour le client',
+  'customer.share': 'Partager',
+  'customer.print': 'Imprimer',
+  'customer.copied': 'Copié dans le presse-papiers.',
+  'customer.shareError': 'Impossible de partager : {error}',
+  'customer.whatWeWillDo': 'Ce que nous allons faire',
+  'customer.whatWeWillDoLabel': 'Ce que nous allons faire :',
+  'customer.isItSafe': 'Peut-on l’utiliser sans danger ?',
+  'customer.whatHappensNext': 'La suite',
+  'customer.diagnosed': 'Diagnostiqué le {date}',
+  'manager.risk': 'Risque',
+  'manager.downtime': 'Immobilisation',
+  'manager.aboutHours': 'environ {hours} h',
+  'manager.cost': 'Coût estimé',
+  'manager.costBreakdown': '{parts} de pièces · {hours} h de main-d’œuvre',
+  'manager.unpriced': '{count} articles sans prix',
+  'manager.notPriced': 'Non chiffré. Confirmez les articles du catalogue et définissez un taux horaire pour l’estimer.',
+  'manager.impact': 'Impact :',
+  'manager.recommendation': 'Recommandation :',
+  'manager.unrepaired': 'Sans réparation',
+  'manager.urgentFixes': 'Réparations urgentes',
+  'manager.noUrgentFixes': 'Aucune réparation urgente.',
+  'manager.estimating': 'Estimation en cours...',
+  'manager.estimate': 'Estimer',
+
+  'notice.view': 'Voir',
+  'notice.dismiss': 'Ignorer l’avis',
+  'notice.queuedReady': 'Rapport prêt pour un cas mis en file d’attente le {queuedAt} : {faultSummary}',
+  'notice.queuedFailed': 'Un cas en file d’attente n’a pas encore pu être envoyé : {error}',
+  'notice.queuedSetAside': 'Un cas mis en file d’attente le {queuedAt} a échoué {attempts} fois et a été mis de côté : {error}. Réessayez-le ou abandonnez-le depuis la file.',
+  'notice.webhookFailed': 'Le webhook d’alerte de {names} n’a pas été remis : {error}',
+  'notice.systemTitle': 'Rapport OmniDiag prêt ({severity})',
+  'alert.title': 'Règle d’alerte déclenchée',
+  'alert.dismiss': 'Ignorer l’alerte',
+  'alert.matchedOne': 'Ce cas de gravité « {severity} » correspond à la règle {names}.',
+  'alert.matchedMany': 'Ce cas de gravité « {severity} » correspond aux règles {names}.',
+  'alert.notificationTitle': 'Alerte : {name} ({severity})',
+  'alert.webhookText': 'Alerte : {name} ({severity}) : {summary}',
+
+  'alertRules.title': 'Règles d’alerte',
+  'alertRules.active': '{count} actives',
+  'alertRules.noneActive': 'Aucune active',
+  'alertRules.orAbove': '{severity} ou plus',
+  'alertRules.deletedAsset': 'Équipement supprimé',
+  'alertRules.mentions': 'mentionne {keywords}',
+  'alertRules.or': ' ou ',
+  'alertRules.enable': 'Activer {name}',
+  'alertRules.edit': 'Modifier {name}',
+  'alertRules.delete': 'Supprimer {name}',
+  'alertRules.name': 'Nom de la règle',
+  'alertRules.namePlaceholder': 'Nom de la règle, par ex. Fuite de gaz sur site',
+  'alertRules.untitled': 'Règle sans nom',
+  'alertRules.minSeverity': 'Gravité minimale',
+  'alertRules.domains': 'Domaines',
+  'alertRules.assets': 'Équipements suivis',
+  'alertRules.anyWhenEmpty': '(aucune sélection signifie tous)',
+  'alertRules.keywords': 'Mots-clés',
+  'alertRules.keywordsHint': '(séparés par des virgules ; un seul suffit)',
+  'alertRules.keywordsPlaceholder': 'fuite de gaz, arc électrique',
+  'alertRules.desktop': 'Notification sur le bureau',
+  'alertRules.sound': 'Son',
+  'alertRules.webhook': 'Webhook',
+  'alertRules.webhookMissing': 'Indiquez une URL de webhook ci-dessous pour que cette règle publie quelque part.',
+  'alertRules.save': 'Enregistrer la règle',
+  'alertRules.cancel': 'Annuler',
+  'alertRules.add': 'Ajouter une règle',
+  'alertRules.webhookUrl': 'URL du webhook',
+  'alertRules.webhookHint': 'Reçoit un POST JSON relayé par le serveur OmniDiag, dont OMNIDIAG_WEBHOOK_HOSTS doit inclure cet hôte.',
+  'alertRules.log': 'Alertes déclenchées',
+  'alertRules.clearLog': 'Effacer le journal',
+  'alertRules.noAlerts': 'Aucune alerte ne s’est encore déclenchée.',
+  'alertRules.delivery.sent': 'envoyée',
+  'alertRules.delivery.failed': 'échec',
+  'alertRules.delivery.skipped': 'ignorée',
+
+  'chat.title': 'Questions de suivi',
+  'chat.placeholder': 'Posez une question de suivi...',
+  'chat.send': 'Envoyer le message',
+  'chat.error': 'Désolé, une erreur s’est produite. Veuillez réessayer.',
+
+  'history.title': 'Historique des diagnostics',
+  'history.import': 'Importer',
+  'history.importLabel': 'Importer un cas depuis un fichier JSON',
+  'history.clear': 'Effacer l’historique',
+  'history.clearLabel': 'Effacer l’historique des diagnostics',
+  'history.clearConfirm': 'Voulez-vous vraiment effacer tout l’historique des diagnostics ? Cette action est irréversible.',
+  'history.deleteOneConfirm': 'Supprimer ce cas ? Cette action est irréversible.',
+  'history.deleteManyConfirm': 'Supprimer ces {count} cas ? Cette action est irréversible.',
+  'history.search': 'Rechercher dans l’historique',
+  'history.searchPlaceholder': 'Rechercher pannes, causes, pièces et notes',
+  'history.sort': 'Trier l’historique',
+  'history.newest': 'Plus récents d’abord',
+  'history.oldest': 'Plus anciens d’abord',
+  'history.mostSevere': 'Plus graves d’abord',
+  'history.filters': 'Filtres',
+  'history.severity': 'Gravité',
+  'history.from': 'Du',
+  'history.to': 'Au',
+  'history.domain': 'Domaine',
+  'history.allDomains': 'Tous les domaines',
+  'history.noProfile': 'Sans profil d’équipement',
+  'history.attachments': 'Pièces jointes',
+  'history.anyAttachments': 'Avec ou sans pièces jointes',
+  'history.withImages': 'Avec images',
+  'history.withVoiceNote': 'Avec note vocale',
+  'history.clearFilters': 'Effacer les filtres',
+  'history.selected': '{count} sélectionnés',
+  'history.showing': '{visible} cas sur {total}',
+  'history.compareHint': 'Sélectionnez deux cas à comparer',
+  'history.compare': 'Comparer',
+  'history.export': 'Exporter',
+  'history.delete': 'Supprimer',
+  'history.selectCase': 'Sélectionner {faultSummary}',
+  'history.hasImages': 'Contient des images',
+  'history.hasVoiceNote': 'Contient une note vocale',
+  'history.noMatches': 'Aucun cas ne correspond à ces filtres.',
+  'history.empty': 'Vos rapports précédents seront enregistrés ici, sur cet appareil.',
+  'assets.title': 'Équipements suivis',
+  'assets.select': 'Sélectionner un équipement',
+  'assets.selectPrompt': 'Sélectionnez un équipement pour voir son historique',
+  'assets.none': 'Aucun équipement enregistré pour l’instant',
+  'assets.new': 'Nouvel équipement',
+  'assets.namePlaceholder': 'Nom, par ex. Unité de toiture 3',
+  'assets.location': 'Emplacement',
+  'assets.create': 'Créer',
+  'assets.noDetails': 'Aucun détail enregistré',
+  'assets.severityTrend': 'Évolution de la gravité',
+  'assets.noCases': 'Aucun cas n’a encore été lié à cet équipement.',
+
+  'catalogue.clearConfirm': 'Retirer le catalogue de pièces de cet appareil ? Les correspondances confirmées sur les cas précédents ne seront plus chiffrées.',
+  'catalogue.title': 'Catalogue de pièces et coûts',
+  'catalogue.items': '{count} articles',
+  'catalogue.none': 'Aucun catalogue',
+  'catalogue.formatHint': 'Un CSV avec une ligne d’en-tête, ou un tableau JSON, avec la référence, la description, le prix et le stock de chaque article. Charger un fichier remplace le catalogue actuel.',
+  'catalogue.load': 'Charger le catalogue',
+  'catalogue.clear': 'Effacer',
+  'catalogue.laborRate': 'Taux horaire de main-d’œuvre',
+  'catalogue.currency': 'Devise',
+  'catalogue.confirmed': 'Confirmé',
+  'catalogue.itemFor': 'Article du catalogue pour {suggestion}',
+  'catalogue.inStock': '{count} en stock',
+  'catalogue.outOfStock': 'en rupture de stock',
+  'catalogue.noneOfThese': 'Aucun de ceux-ci',
+  'catalogue.noMatch': 'Aucune correspondance dans le catalogue',
+  'catalogue.quantityOf': 'Quantité de {suggestion}',
+  'catalogue.confirm': 'Confirmer',
+
+  'estimate.item': 'Article',
+  'estimate.quantity': 'Qté',
+  'estimate.total': 'Total',
+  'estimate.lowStock': 'Stock faible',
+  'estimate.noItems': 'Aucun article du catalogue confirmé pour l’instant.',
+  'estimate.partsAndTools': 'Pièces et outils',
+  'estimate.labor': 'Main-d’œuvre ({hours} h à {rate}/h)',
+  'estimate.estimatedTotal': 'Total estimé',
+  'estimate.notPriced': 'Sans prix : {items}.',
+  'estimate.noLaborOne': '1 réparation n’a pas d’estimation de main-d’œuvre ; saisissez les heures sur la réparation pour l’inclure.',
+  'estimate.noLaborMany': '{count} réparations n’ont pas d’estimation de main-d’œuvre ; saisissez les heures sur les réparations pour les inclure.',
+  'estimate.noLaborRate': 'Définissez un taux de main-d’œuvre dans Catalogue de pièces et coûts pour la chiffrer.',
+  'estimate.export': 'Exporter la liste d’achats',
+
+  'provider.title': 'Fournisseur d’IA',
+  'provider.option.gemini': 'Google Gemini (via le serveur OmniDiag)',
+  'provider.option.openai-compatible': 'Serveur compatible OpenAI',
+  'provider.option.fixture': 'Données fictives hors ligne (tests)',
+  'provider.consensusShort': 'consensus ×{runs}',
+  'provider.provider': 'Fournisseur',
+  'provider.model': 'Modèle',
+  'provider.accessToken': 'Jeton d’accès',
+  'provider.accessTokenHint': 'Délivré par l’administrateur de votre serveur OmniDiag. Laissez-le vide si le serveur n’en demande pas.',
+  'provider.baseUrl': 'URL du serveur',
+  'provider.transcriptionModel': 'Modèle de transcription',
+  'provider.embeddingModel': 'Modèle d’embeddings',
+  'provider.apiKey': 'Clé d’API (facultative)',
+  'provider.consensusRuns': 'Exécutions de consensus',
+  'provider.off': 'Désactivé',
+  'provider.runs': '{count} exécutions',
+  'provider.consensusModels': 'Modèles de consensus (facultatif)',
+  'provider.consensusNote': 'Chaque cas est diagnostiqué {runs} fois en alternant entre les modèles indiqués, et les causes et réparations sont classées selon le nombre d’exécutions concordantes.',
+
+  'safety.title': 'Dangers pour la sécurité',
+  'safety.callProfessional': 'Faites appel à un professionnel agréé',
+  'safety.callProfessionalDetail': 'sauf si vous êtes qualifié et équipé pour ce travail. Ce cas nécessite {professionals}. Si quelqu’un est en danger en ce moment, quittez les lieux et appelez les secours.',
+  'safety.or': ' ou ',
+  'safety.confirmPrompt': 'Validez chaque point de consignation et d’EPI pour voir les étapes de dépannage.',
+  'safety.acknowledge': 'Valider et afficher les étapes',
+  'safety.acknowledged': 'Liste de consignation et d’EPI validée le {time}.',
+  'safety.notAcknowledged': 'Liste de consignation et d’EPI non validée.',
+  'safety.anyProfessional': 'un professionnel agréé pour cet équipement',
+  'safety.checklist.qualified': 'Je suis qualifié pour ce travail, ou je m’arrête et fais appel à un professionnel agréé.',
+  'safety.checklist.storedEnergy': 'Toute l’énergie stockée est libérée et l’équipement ne peut pas redémarrer pendant que j’interviens.',
+  'safety.checklist.ppe': 'Je porte les EPI requis pour ce travail, y compris une protection oculaire.',
+  'hazard.mains-voltage.label': 'Tension secteur',
+  'hazard.mains-voltage.professional': 'un électricien agréé',
+  'hazard.mains-voltage.lockout': 'Le circuit est coupé au disjoncteur ou au sectionneur, consigné et étiqueté avec mon propre cadenas.',
+  'hazard.mains-voltage.verify': 'J’ai vérifié l’absence de tension avec un testeur contrôlé avant de toucher le moindre conducteur.',
+  'hazard.mains-voltage.ppe': 'Gants et outils isolés, et vêtements et écran facial résistants à l’arc si nécessaire.',
+  'hazard.gas.label': 'Gaz',
+  'hazard.gas.professional': 'un technicien gaz agréé',
+  'hazard.gas.lockout': 'L’arrivée de gaz est fermée au robinet de l’appareil ou du compteur, consignée et étiquetée.',
+  'hazard.gas.verify': 'La zone est aérée et sans source d’inflammation, et aucun gaz ni CO n’est détecté.',
+  'hazard.gas.ppe': 'Un détecteur de gaz ou de CO en état de marche sur moi.',
+  'hazard.refrigerant.label': 'Fluide frigorigène',
+  'hazard.refrigerant.professional': 'un frigoriste certifié',
+  'hazard.refrigerant.lockout': 'Le système est hors tension et consigné, et je n’ouvrirai pas le circuit frigorifique sans équipement de récupération ni certification.',
+  'hazard.refrigerant.ppe': 'Lunettes de sécurité et gants isolants contre les gelures dues aux fuites de fluide.',
+  'hazard.pressure.label': 'Système sous pression',
+  'hazard.pressure.professional': 'un technicien agréé en chaudières ou systèmes sous pression',
+  'hazard.pressure.lockout': 'Le système est isolé, consigné, dépressurisé et vidangé, le manomètre indiquant zéro.',
+  'hazard.pressure.ppe': 'Lunettes de sécurité ou écran facial, et gants résistants à la chaleur pour les fluides chauds.',
+  'hazard.confined-space.label': 'Espace confiné',
+  'hazard.confined-space.professional': 'une entreprise formée à l’intervention en espace confiné',
+  'hazard.confined-space.lockout': 'L’atmosphère a été contrôlée, et un surveillant et un plan de secours sont en place avant l’entrée.',
+  'hazard.confined-space.ppe': 'Un harnais et une ligne de récupération, et un détecteur d’oxygène et de gaz toxiques.',
+  'walkthrough.recorded': '{recorded} étapes sur {total} enregistrées',
+  'walkthrough.showAll': 'Afficher toutes les étapes',
+  'walkthrough.guided': 'Mode guidé',
+  'walkthrough.refining': 'Affinage du diagnostic avec les éléments recueillis jusqu’ici...',
+  'walkthrough.stepOf': 'Étape {step} sur {total}',
+  'walkthrough.step': 'Étape {step}',
+  'walkthrough.measurementPlaceholder': 'Valeur mesurée, par ex. 3,2 µF',
+  'walkthrough.notesPlaceholder': 'Notes (facultatif)',
+  'walkthrough.photoAlt': 'Preuve pour l’étape {step}',
+  'walkthrough.removePhoto': 'Retirer la photo',
+  'walkthrough.attachPhoto': 'Joindre une photo',
+  'walkthrough.readPhotoError': 'Impossible de lire la photo : {error}',
+  'walkthrough.pass': 'Conforme',
+  'walkthrough.fail': 'Non conforme',
+  'walkthrough.measured': 'Mesuré',
+  'walkthrough.recordValue': 'Enregistrer la valeur',
+  'walkthrough.previous': 'Précédente',
+  'walkthrough.next': 'Suivante',
+  'workItem.status.open': 'Ouverte',
+  'workItem.status.in-progress': 'En cours',
+  'workItem.status.done': 'Terminée',
+  'workItem.status.deferred': 'Reportée',
+  'workItem.track': 'Suivre',
+  'workItem.assignee': 'Responsable',
+  'workItem.status': 'Statut',
+  'workItem.laborHours': 'Heures de main-d’œuvre',
+  'workItem.laborPlaceholder': 'Main-d’œuvre (heures)',
+  'workItem.notes': 'Notes',
+  'workItem.partsUsed': 'Pièces utilisées',
+  'workItem.quantity': 'Quantité',
+  'workItem.part': 'Pièce',
+  'workItem.removePart': 'Retirer la pièce',
+  'workItem.addPart': 'Ajouter une pièce',
+  'workItem.cancel': 'Annuler',
+  'workItem.save': 'Enregistrer',
+  'workItem.unassigned': 'Non attribuée',
+  'workItem.outstanding': 'Réparations urgentes en attente ({count})',
+  'dataFile.kind.telemetry': 'Télémesure',
+  'dataFile.kind.fault-codes': 'Codes de défaut',
+  'dataFile.kind.log': 'Journal',
+  'dataFile.rows': '{count} lignes',
+  'dataFile.lines': '{count} lignes',
+  'dataFile.remove': 'Retirer {fileName}',
+  'dataFile.channel': 'Canal',
+  'dataFile.range': 'Plage',
+  'dataFile.low': 'Limite basse',
+  'dataFile.high': 'Limite haute',
+  'dataFile.maxStep': 'Écart max.',
+  'dataFile.maxStepHint': 'Le plus grand écart attendu d’une mesure à la suivante',
+  'dataFile.limitFor': '{limit} pour {channel}',
+  'dataFile.crossingOne': '({count} dépassement)',
+  'dataFile.crossingMany': '({count} dépassements)',
+  'dataFile.flagged': '({count} signalées)',
+  'dataFile.previewCharts': 'Aperçu des graphiques',
+  'dataFile.hideCharts': 'Masquer les graphiques',
+  'dataFile.logLines': '{errors} lignes d’erreur et {warnings} d’avertissement',
+  'dataFile.codes': 'Codes : {codes}',
+  'dataFile.noCodes': 'Aucun code trouvé',
+  'dataFile.reading': 'Lecture du fichier...',
+  'dataFile.addPrompt': 'Ajoutez de la télémesure CSV, des relevés de codes OBD-II ou des journaux d’automate',
+  'dataFile.localNote': 'Les fichiers sont résumés sur cet appareil ; seul le résumé est envoyé pour le diagnostic.',
+  'dataFile.readError': 'Impossible de lire le fichier de données : {error}',
+  'dataFile.period': 'du {start} au {end}',
+  'dataFile.lowValue': 'bas {value}',
+  'dataFile.highValue': 'haut {value}',
+  'dataFile.windowOne': '{count} fenêtre signalée',
+  'dataFile.windowMany': '{count} fenêtres signalées',
+  'dataFile.aboveLimit': 'Au-dessus de la limite de {start} à {end}, jusqu’à {extreme}',
+  'dataFile.belowLimit': 'En dessous de la limite de {start} à {end}, jusqu’à {extreme}',
+  'dataFile.row': 'ligne {row}',
+  'dataFile.notEnoughReadings': 'Pas assez de mesures pour tracer un graphique.',
+  'dataFile.readings': 'Mesures de {channel}',
+  'dataFile.rangeMean': '{min} – {max}, moyenne {mean}',
+  'dataFile.at': 'à {position}',
+  'dataFile.fromTo': 'de {start} à {end}',
+  'dataFile.anomaly.deviation': 'Écart soudain',
+  'dataFile.anomaly.rate-of-change': 'Saut entre deux mesures',
+  'dataFile.anomaly.stuck': 'Capteur figé',
+  'dataFile.anomalyDetail.deviation': '{label} {span}, atteignant {peak} (score z glissant {score})',
+  'dataFile.anomalyDetail.rate-of-change': '{label} {span}, variant jusqu’à {score} par mesure',
+  'dataFile.anomalyDetail.stuck': '{label} {span}, répétant {peak} sur {count} mesures',
+  'dataFile.code': 'Code',
+  'dataFile.meaning': 'Signification',
+  'dataFile.seen': 'Occurrences',
+  'dataFile.notInTable': 'Absent de la table de codes locale',
+  'dataFile.topMessages': 'Messages les plus fréquents',
+
+  'error.loadHistory': 'Impossible de charger l’historique enregistré : {error}',
+  'error.speechRecognition': 'Erreur de reconnaissance vocale : {error}',
+  'error.transcription': 'Impossible de transcrire la note vocale : {error}. L’enregistrement sera tout de même envoyé pour analyse.',
+  'error.noAudioCapture': 'Désolé, votre navigateur ne peut pas enregistrer de son.',
+  'error.saveRecording': 'Impossible d’enregistrer la note vocale : {error}',
+  'error.microphone': 'Impossible d’accéder au microphone : {error}',
+  'error.queueCase': 'Impossible d’enregistrer le cas pour plus tard : {error}',
+  'error.discardQueued': 'Impossible d’abandonner le cas en file d’attente : {error}',
+  'error.emptySubmission': 'Ajoutez une description, une image, un fichier de données ou une note vocale pour lancer le diagnostic.',
+  'error.unexpected': 'Une erreur inattendue s’est produite.',
+  'error.loadCatalogue': 'Impossible de charger le catalogue : {error}',
+  'error.clearCatalogue': 'Impossible d’effacer le catalogue : {error}',
+  'error.refine': 'Impossible d’affiner le diagnostic : {error}',
+  'error.translate': 'Impossible de traduire le rapport : {error}',
+  'error.brief': 'Impossible de rédiger cette vue du rapport : {error}',
+  'error.import': 'Échec de l’importation : {error}',
+
+  'export.report': 'Rapport OmniDiag',
+  'export.diagnosed': 'Diagnostiqué le {time}',
+  'export.riskHeading': 'Évaluation des risques : {severity} ({level}/4)',
+  'export.severityDisagreement': 'Les exécutions ne s’accordent pas sur la gravité :',
+  'export.ofRuns': '{percent} % des exécutions',
+  'export.safety': 'Sécurité',
+  'export.hazards': 'Dangers :',
+  'export.noneFlagged': 'aucun signalé',
+  'export.callContacts': 'Faites appel à {contacts} sauf si vous êtes qualifié pour ce travail.',
+  'export.stepsWithheld': 'Les {count} étapes sont masquées tant que cette liste de sécurité n’est pas validée dans OmniDiag :',
+  'export.tools': 'Outils',
+  'export.partsHeading': 'Pièces',
+  'export.originalSubmission': 'Demande initiale',
+  'export.voiceNote': 'Note vocale :',
+  'export.followUp': 'Questions de suivi',
+  'export.question': 'Q',
+  'export.answer': 'R',
+  'export.submittedImages': 'Images envoyées',
+  'export.problemDescription': 'Description du problème',
+  'export.voiceTranscript': 'Transcription de la note vocale',
+  'export.csv.type': 'Type',
+  'export.csv.sku': 'Référence',
+  'export.csv.description': 'Description',
+  'export.csv.suggestedAs': 'Suggéré comme',
+  'export.csv.quantity': 'Quantité',
+  'export.csv.unitPrice': 'Prix unitaire ({currency})',
+  'export.csv.total': 'Total ({currency})',
+  'export.csv.inStock': 'En stock',
+  'export.csv.part': 'Pièce',
+  'export.csv.tool': 'Outil',
+  'export.csv.labor': 'Main-d’œuvre',
+  'export.csv.laborHours': 'Main-d’œuvre ({hours} h)',
+  'export.csv.yes': 'Oui',
+  'export.csv.no': 'Non',
+};
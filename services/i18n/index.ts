@@ -0,0 +1,35 @@
+import { Language } from '../../types';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { pt } from './pt';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// `label` is shown in language pickers in its own language; `promptName` is how prompts to the model name it.
+export const languageOptions: Record<Language, { label: string; promptName: string }> = {
+  en: { label: 'English', promptName: 'English' },
+  es: { label: 'Español', promptName: 'Spanish' },
+  fr: { label: 'Français', promptName: 'French' },
+  pt: { label: 'Português', promptName: 'Portuguese' },
+};
+
+const catalogues: Record<Language, Messages> = { en, es, fr, pt };
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(languageOptions, value);
+
+/** The browser's preferred language if the app has it, otherwise English. */
+export const browserLanguage = (): Language => {
+  const primary = (navigator.language || 'en').split('-')[0].toLowerCase();
+  return isLanguage(primary) ? primary : 'en';
+};
+
+export const createTranslator = (language: Language): Translate => (key, params) => {
+  const template = catalogues[language][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+};
@@ -0,0 +1,490 @@
+import type { Messages } from '.';
+
+export const pt: Messages = {
+  'app.tagline': 'Seu assistente com IA para detectar e diagnosticar falhas em qualquer tipo de equipamento.',
+  'app.interfaceLanguage': 'Idioma da interface',
+
+  'severity.Low': 'Baixa',
+  'severity.Medium': 'Média',
+  'severity.High': 'Alta',
+  'severity.Critical': 'Crítica',
+  'priority.Urgent': 'Urgente',
+  'priority.Recommended': 'Recomendada',
+  'priority.Optional': 'Opcional',
+  'trend.improving': 'Melhorando',
+  'trend.worsening': 'Piorando',
+  'trend.stable': 'Estável',
+
+  'input.title': 'Enviar um caso',
+  'input.reportLanguage': 'Idioma do relatório',
+  'input.asset': 'Ativo',
+  'input.noAsset': 'Não vinculado a um ativo',
+  'input.equipment': 'Equipamento',
+  'input.description': 'Descrição do problema',
+  'input.descriptionPlaceholder': 'Descreva o problema, incluindo sintomas, ruídos ou códigos de erro...',
+  'input.images': 'Enviar imagens',
+  'input.dataFiles': 'Dados de sensores e registros',
+  'input.voiceNote': 'Gravar nota de voz',
+  'input.recognitionLanguage': 'Idioma de reconhecimento',
+  'input.startRecording': 'Iniciar gravação',
+  'input.stopRecording': 'Parar gravação',
+  'input.transcribing': 'Transcrevendo a gravação...',
+  'input.offline': 'Você está offline. Os casos enviados ficam salvos neste dispositivo e são enviados automaticamente quando a conexão voltar.',
+  'input.queuedOne': '1 caso na fila aguarda envio.',
+  'input.queuedMany': '{count} casos na fila aguardam envio.',
+  'input.sendNow': 'Enviar agora',
+  'input.queuedSetAside': 'Na fila desde {queuedAt}, não enviado após {attempts} tentativas: {error}',
+  'input.retry': 'Tentar novamente',
+  'input.discard': 'Descartar',
+  'input.discardConfirm': 'Descartar este caso da fila? Ele não foi diagnosticado e não poderá ser recuperado.',
+  'input.analyzing': 'Analisando...',
+  'input.runDiagnosis': 'Executar diagnóstico',
+  'input.queueForOnline': 'Colocar na fila até ficar online',
+  'input.cancel': 'Cancelar',
+  'input.cancelDiagnosis': 'Cancelar diagnóstico',
+  'equipment.notSpecified': 'Não especificado',
+  'equipment.manufacturer': 'Fabricante',
+  'equipment.model': 'Modelo',
+  'equipment.serialNumber': 'Número de série',
+  'equipment.environment': 'Ambiente de operação',
+  'equipment.environmentPlaceholder': 'Ambiente (p. ex. telhado, litoral)',
+  'equipment.age': 'Idade em anos',
+  'equipment.agePlaceholder': 'Idade (anos)',
+  'equipment.operatingHours': 'Horas de operação',
+
+  'image.captioned': 'Imagem {number}: {caption}',
+  'image.unlabeled': 'Área sem rótulo',
+  'image.markLabel': 'Imagem {number}:',
+  'image.markPrompt': 'arraste sobre a área que o diagnóstico deve examinar.',
+  'image.done': 'Concluir',
+  'image.labelPlaceholder': 'O que há aqui? p. ex. terminal queimado',
+  'image.add': 'Adicionar',
+  'image.discard': 'Descartar',
+  'image.removeArea': 'Remover a área marcada {number}',
+  'image.markedNote': 'As caixas tracejadas são as áreas marcadas antes do envio.',
+  'image.remove': 'Remover a imagem {number}',
+  'image.captionPlaceholder': 'Legenda, p. ex. placa de identificação, painel elétrico',
+  'image.markedOne': '1 área marcada',
+  'image.markedMany': '{count} áreas marcadas',
+  'image.markArea': 'Marcar uma área',
+  'image.addMore': 'Adicionar mais fotos',
+  'image.upload': 'Clique para enviar fotos',
+  'image.extracting': 'Extraindo quadros...',
+  'image.fromVideo': 'Extrair quadros de um vídeo',
+  'image.readError': 'Não foi possível ler a imagem: {error}',
+  'image.extractError': 'Não foi possível extrair quadros do vídeo: {error}',
+
+  'report.title': 'Relatório de diagnóstico',
+  'report.export': 'Exportar relatório',
+  'report.exportPdf': 'Abrir uma versão para impressão e salvar como PDF',
+  'report.exportMarkdown': 'Baixar como Markdown',
+  'report.exportJson': 'Baixar como JSON (pode ser importado novamente)',
+  'report.translate': 'Traduzir relatório',
+  'report.translateTo': 'Traduzir para…',
+  'report.translating': 'Traduzindo...',
+  'report.linkedAsset': 'Ativo vinculado',
+  'report.noAsset': 'Nenhum ativo',
+  'report.generating': 'Gerando a análise...',
+  'report.failed': 'A análise falhou',
+  'report.empty': 'Seu relatório de diagnóstico aparecerá aqui quando a análise terminar.',
+  'report.faultSummary': 'Resumo da falha',
+  'report.consensusNote': 'Consenso de {count} execuções ({models}). As porcentagens mostram quantas execuções concordaram.',
+  'report.riskAssessment': 'Avaliação de risco',
+  'report.riskLevel': 'Nível de risco: {severity}',
+  'report.riskBar': '{level} de 4',
+  'report.severityDisagreement': 'As execuções discordaram sobre a gravidade: {votes}. "{severity}" é a maioria, ou a mais grave em caso de empate. Trate com cautela.',
+  'report.consequences': 'Consequências possíveis',
+  'report.mitigation': 'Medidas de mitigação',
+  'report.noneSpecified': 'Não especificado.',
+  'report.possibleCauses': 'Causas possíveis',
+  'report.image': 'Imagem {number}',
+  'report.photoFindings': 'Achados nas fotos',
+  'report.dataFiles': 'Dados de sensores e registros',
+  'report.troubleshooting': 'Etapas de diagnóstico',
+  'report.stepsLocked': '{count} etapas ficam ocultas até que a lista de segurança acima seja confirmada.',
+  'report.fixes': 'Reparos recomendados',
+  'report.estimatedLabor': 'Mão de obra estimada',
+  'report.toolsAndParts': 'Ferramentas necessárias e possíveis peças',
+  'report.tools': 'Ferramentas recomendadas',
+  'report.parts': 'Possíveis peças',
+  'report.estimate': 'Orçamento de reparo',
+  'report.explanation': 'Explicação simplificada',
+  'report.similarCases': 'Casos anteriores semelhantes',
+  'report.stepsLockedStreaming': 'Este relatório aponta um perigo, por isso os passos ficam ocultos até a lista de segurança ser confirmada.',
+  'report.stillWriting': 'Ainda escrevendo o relatório...',
+  'compare.title': 'Comparar relatórios',
+  'compare.swap': 'Inverter',
+  'compare.close': 'Fechar comparação',
+  'compare.before': 'Antes',
+  'compare.after': 'Depois',
+  'compare.severity': 'Gravidade',
+  'compare.riskLowered': 'Risco reduzido',
+  'compare.riskRaised': 'Risco aumentado',
+  'compare.riskUnchanged': 'Risco inalterado',
+  'compare.tools': 'Ferramentas',
+  'compare.parts': 'Peças',
+  'compare.noChange': 'Sem alterações.',
+  'compare.unchanged': '{count} inalterados',
+  'compare.was': 'antes: {text}',
+  'compare.detailsChanged': 'detalhes alterados',
+  'similar.match': '{percent}% de correspondência',
+  'similar.fixedBy': 'Reparado com: {fixes}',
+  'similar.noFix': 'Nenhum reparo concluído registrado',
+  'audience.label': 'Visão do relatório',
+  'audience.technician': 'Técnico',
+  'audience.manager': 'Gestor',
+  'audience.customer': 'Cliente',
+  'customer.writing': 'Escrevendo um resumo para o cliente...',
+  'customer.write': 'Escrever resumo para o cliente',
+  'customer.share': 'Compartilhar',
+  'customer.print': 'Imprimir',
+  'customer.copied': 'Copiado para a área de transferência.',
+  'customer.shareError': 'Não foi possível compartilhar: {error}',
+  'customer.whatWeWillDo': 'O que vamos fazer',
+  'customer.whatWeWillDoLabel': 'O que vamos fazer:',
+  'customer.isItSafe': 'É seguro usar?',
+  'customer.whatHappensNext': 'Próximos passos',
+  'customer.diagnosed': 'Diagnosticado em {date}',
+  'manager.risk': 'Risco',
+  'manager.downtime': 'Tempo de parada',
+  'manager.aboutHours': 'cerca de {hours} h',
+  'manager.cost': 'Custo estimado',
+  'manager.costBreakdown': '{parts} em peças · {hours} h de mão de obra',
+  'manager.unpriced': '{count} itens sem preço',
+  'manager.notPriced': 'Sem orçamento. Confirme os itens do catálogo e defina um valor de mão de obra para estimar.',
+  'manager.impact': 'Impacto:',
+  'manager.recommendation': 'Recomendação:',
+  'manager.unrepaired': 'Se não for reparado',
+  'manager.urgentFixes': 'Reparos urgentes',
+  'manager.noUrgentFixes': 'Nenhum reparo urgente.',
+  'manager.estimating': 'Estimando...',
+  'manager.estimate': 'Estimar',
+
+  'notice.view': 'Ver',
+  'notice.dismiss': 'Dispensar aviso',
+  'notice.queuedReady': 'Relatório pronto para um caso colocado na fila em {queuedAt}: {faultSummary}',
+  'notice.queuedFailed': 'Ainda não foi possível enviar um caso da fila: {error}',
+  'notice.queuedSetAside': 'Um caso colocado na fila em {queuedAt} falhou {attempts} vezes e foi deixado de lado: {error}. Tente novamente ou descarte-o na fila.',
+  'notice.webhookFailed': 'O webhook de alerta de {names} não foi entregue: {error}',
+  'notice.systemTitle': 'Relatório do OmniDiag pronto ({severity})',
+  'alert.title': 'Regra de alerta acionada',
+  'alert.dismiss': 'Dispensar alerta',
+  'alert.matchedOne': 'Este caso de gravidade "{severity}" corresponde à regra {names}.',
+  'alert.matchedMany': 'Este caso de gravidade "{severity}" corresponde às regras {names}.',
+  'alert.notificationTitle': 'Alerta: {name} ({severity})',
+  'alert.webhookText': 'Alerta: {name} ({severity}): {summary}',
+
+  'alertRules.title': 'Regras de alerta',
+  'alertRules.active': '{count} ativas',
+  'alertRules.noneActive': 'Nenhuma ativa',
+  'alertRules.orAbove': '{severity} ou acima',
+  'alertRules.deletedAsset': 'Ativo excluído',
+  'alertRules.mentions': 'menciona {keywords}',
+  'alertRules.or': ' ou ',
+  'alertRules.enable': 'Ativar {name}',
+  'alertRules.edit': 'Editar {name}',
+  'alertRules.delete': 'Excluir {name}',
+  'alertRules.name': 'Nome da regra',
+  'alertRules.namePlaceholder': 'Nome da regra, por ex. Vazamento de gás no local',
+  'alertRules.untitled': 'Regra sem nome',
+  'alertRules.minSeverity': 'Gravidade mínima',
+  'alertRules.domains': 'Áreas',
+  'alertRules.assets': 'Ativos',
+  'alertRules.anyWhenEmpty': '(nenhuma seleção significa qualquer um)',
+  'alertRules.keywords': 'Palavras-chave',
+  'alertRules.keywordsHint': '(separadas por vírgulas; basta uma)',
+  'alertRules.keywordsPlaceholder': 'vazamento de gás, arco elétrico',
+  'alertRules.desktop': 'Notificação na área de trabalho',
+  'alertRules.sound': 'Som',
+  'alertRules.webhook': 'Webhook',
+  'alertRules.webhookMissing': 'Defina uma URL de webhook abaixo para que esta regra publique em algum lugar.',
+  'alertRules.save': 'Salvar regra',
+  'alertRules.cancel': 'Cancelar',
+  'alertRules.add': 'Adicionar regra',
+  'alertRules.webhookUrl': 'URL do webhook',
+  'alertRules.webhookHint': 'Recebe um POST JSON retransmitido pelo servidor do OmniDiag, cujo OMNIDIAG_WEBHOOK_HOSTS deve incluir este host.',
+  'alertRules.log': 'Alertas disparados',
+  'alertRules.clearLog': 'Limpar registro',
+  'alertRules.noAlerts': 'Nenhum alerta foi disparado ainda.',
+  'alertRules.delivery.sent': 'enviado',
+  'alertRules.delivery.failed': 'falhou',
+  'alertRules.delivery.skipped': 'ignorado',
+
+  'chat.title': 'Perguntas de acompanhamento',
+  'chat.placeholder': 'Faça uma pergunta de acompanhamento...',
+  'chat.send': 'Enviar mensagem',
+  'chat.error': 'Desculpe, ocorreu um erro. Tente novamente.',
+
+  'history.title': 'Histórico de diagnósticos',
+  'history.import': 'Importar',
+  'history.importLabel': 'Importar um caso de um arquivo JSON',
+  'history.clear': 'Limpar histórico',
+  'history.clearLabel': 'Limpar o histórico de diagnósticos',
+  'history.clearConfirm': 'Tem certeza de que deseja limpar todo o histórico de diagnósticos? Esta ação não pode ser desfeita.',
+  'history.deleteOneConfirm': 'Excluir este caso? Esta ação não pode ser desfeita.',
+  'history.deleteManyConfirm': 'Excluir estes {count} casos? Esta ação não pode ser desfeita.',
+  'history.search': 'Pesquisar no histórico',
+  'history.searchPlaceholder': 'Pesquise falhas, causas, peças e notas',
+  'history.sort': 'Ordenar o histórico',
+  'history.newest': 'Mais recentes primeiro',
+  'history.oldest': 'Mais antigos primeiro',
+  'history.mostSevere': 'Mais graves primeiro',
+  'history.filters': 'Filtros',
+  'history.severity': 'Gravidade',
+  'history.from': 'De',
+  'history.to': 'Até',
+  'history.domain': 'Área',
+  'history.allDomains': 'Todas as áreas',
+  'history.noProfile': 'Sem perfil de equipamento',
+  'history.attachments': 'Anexos',
+  'history.anyAttachments': 'Com ou sem anexos',
+  'history.withImages': 'Com imagens',
+  'history.withVoiceNote': 'Com nota de voz',
+  'history.clearFilters': 'Limpar filtros',
+  'history.selected': '{count} selecionados',
+  'history.showing': '{visible} de {total} casos',
+  'history.compareHint': 'Selecione dois casos para comparar',
+  'history.compare': 'Comparar',
+  'history.export': 'Exportar',
+  'history.delete': 'Excluir',
+  'history.selectCase': 'Selecionar {faultSummary}',
+  'history.hasImages': 'Tem imagens',
+  'history.hasVoiceNote': 'Tem nota de voz',
+  'history.noMatches': 'Nenhum caso corresponde a esses filtros.',
+  'history.empty': 'Seus relatórios anteriores serão salvos aqui, neste dispositivo.',
+  'assets.title': 'Ativos',
+  'assets.select': 'Selecionar ativo',
+  'assets.selectPrompt': 'Selecione um ativo para ver sua linha do tempo',
+  'assets.none': 'Nenhum ativo cadastrado ainda',
+  'assets.new': 'Novo ativo',
+  'assets.namePlaceholder': 'Nome, por ex. Unidade de cobertura 3',
+  'assets.location': 'Local',
+  'assets.create': 'Criar',
+  'assets.noDetails': 'Nenhum detalhe registrado',
+  'assets.severityTrend': 'Tendência de gravidade',
+  'assets.noCases': 'Nenhum caso foi vinculado a este ativo ainda.',
+
+  'catalogue.clearConfirm': 'Remover o catálogo de peças deste dispositivo? As correspondências confirmadas em casos anteriores deixarão de ter preço.',
+  'catalogue.title': 'Catálogo de peças e custos',
+  'catalogue.items': '{count} itens',
+  'catalogue.none': 'Sem catálogo',
+  'catalogue.formatHint': 'Um CSV com linha de cabeçalho, ou um array JSON, com SKU, descrição, preço e estoque de cada item. Carregar um arquivo substitui o catálogo atual.',
+  'catalogue.load': 'Carregar catálogo',
+  'catalogue.clear': 'Limpar',
+  'catalogue.laborRate': 'Valor da mão de obra por hora',
+  'catalogue.currency': 'Moeda',
+  'catalogue.confirmed': 'Confirmado',
+  'catalogue.itemFor': 'Item do catálogo para {suggestion}',
+  'catalogue.inStock': '{count} em estoque',
+  'catalogue.outOfStock': 'sem estoque',
+  'catalogue.noneOfThese': 'Nenhum destes',
+  'catalogue.noMatch': 'Nenhuma correspondência no catálogo',
+  'catalogue.quantityOf': 'Quantidade de {suggestion}',
+  'catalogue.confirm': 'Confirmar',
+
+  'estimate.item': 'Item',
+  'estimate.quantity': 'Qtd.',
+  'estimate.total': 'Total',
+  'estimate.lowStock': 'Estoque baixo',
+  'estimate.noItems': 'Nenhum item do catálogo confirmado ainda.',
+  'estimate.partsAndTools': 'Peças e ferramentas',
+  'estimate.labor': 'Mão de obra ({hours} h a {rate}/h)',
+  'estimate.estimatedTotal': 'Total estimado',
+  'estimate.notPriced': 'Sem preço: {items}.',
+  'estimate.noLaborOne': '1 reparo não tem estimativa de mão de obra; registre as horas no reparo para incluí-lo.',
+  'estimate.noLaborMany': '{count} reparos não têm estimativa de mão de obra; registre as horas nos reparos para incluí-los.',
+  'estimate.noLaborRate': 'Defina um valor de mão de obra em Catálogo de peças e custos para orçá-la.',
+  'estimate.export': 'Exportar lista de compras',
+
+  'provider.title': 'Provedor de IA',
+  'provider.option.gemini': 'Google Gemini (via servidor OmniDiag)',
+  'provider.option.openai-compatible': 'Servidor compatível com OpenAI',
+  'provider.option.fixture': 'Dados fictícios offline (testes)',
+  'provider.consensusShort': 'consenso ×{runs}',
+  'provider.provider': 'Provedor',
+  'provider.model': 'Modelo',
+  'provider.accessToken': 'Token de acesso',
+  'provider.accessTokenHint': 'Emitido por quem administra o seu servidor OmniDiag. Deixe em branco se o servidor não pedir um.',
+  'provider.baseUrl': 'URL do servidor',
+  'provider.transcriptionModel': 'Modelo de transcrição',
+  'provider.embeddingModel': 'Modelo de embeddings',
+  'provider.apiKey': 'Chave de API (opcional)',
+  'provider.consensusRuns': 'Execuções de consenso',
+  'provider.off': 'Desativado',
+  'provider.runs': '{count} execuções',
+  'provider.consensusModels': 'Modelos de consenso (opcional)',
+  'provider.consensusNote': 'Cada caso é diagnosticado {runs} vezes, alternando entre os modelos listados, e as causas e reparos são ordenados pelo número de execuções que concordam.',
+
+  'safety.title': 'Riscos de segurança',
+  'safety.callProfessional': 'Chame um profissional habilitado',
+  'safety.callProfessionalDetail': 'a menos que você seja qualificado e equipado para este trabalho. Este caso exige {professionals}. Se alguém estiver em risco agora, saia da área e ligue para a emergência.',
+  'safety.or': ' ou ',
+  'safety.confirmPrompt': 'Confirme cada item de bloqueio/etiquetagem e EPI para ver os passos de diagnóstico.',
+  'safety.acknowledge': 'Confirmar e mostrar os passos',
+  'safety.acknowledged': 'Lista de bloqueio/etiquetagem e EPI confirmada em {time}.',
+  'safety.notAcknowledged': 'Lista de bloqueio/etiquetagem e EPI não confirmada.',
+  'safety.anyProfessional': 'um profissional habilitado para este equipamento',
+  'safety.checklist.qualified': 'Sou qualificado para este trabalho, ou vou parar e chamar um profissional habilitado.',
+  'safety.checklist.storedEnergy': 'Toda a energia armazenada foi liberada e o equipamento não pode ser religado enquanto eu trabalho nele.',
+  'safety.checklist.ppe': 'Estou usando o EPI que este trabalho exige, incluindo proteção para os olhos.',
+  'hazard.mains-voltage.label': 'Tensão da rede',
+  'hazard.mains-voltage.professional': 'um eletricista habilitado',
+  'hazard.mains-voltage.lockout': 'O circuito está desligado no disjuntor ou seccionador, bloqueado e etiquetado com meu próprio cadeado.',
+  'hazard.mains-voltage.verify': 'Testei a ausência de tensão com um testador verificado antes de tocar em qualquer condutor.',
+  'hazard.mains-voltage.ppe': 'Luvas e ferramentas isoladas, e roupa e protetor facial contra arco elétrico quando exigido.',
+  'hazard.gas.label': 'Gás',
+  'hazard.gas.professional': 'um técnico de gás habilitado',
+  'hazard.gas.lockout': 'O fornecimento de gás está fechado no registro do aparelho ou do medidor, bloqueado e etiquetado.',
+  'hazard.gas.verify': 'A área está ventilada e sem fontes de ignição, e não há gás nem CO detectado.',
+  'hazard.gas.ppe': 'Um detector de gás ou CO funcionando comigo.',
+  'hazard.refrigerant.label': 'Refrigerante',
+  'hazard.refrigerant.professional': 'um técnico de refrigeração certificado',
+  'hazard.refrigerant.lockout': 'O sistema está desligado e bloqueado, e não vou abrir o circuito de refrigerante sem equipamento de recolhimento e certificação.',
+  'hazard.refrigerant.ppe': 'Óculos de segurança e luvas isolantes contra queimaduras por frio do refrigerante que escapar.',
+  'hazard.pressure.label': 'Sistema pressurizado',
+  'hazard.pressure.professional': 'um técnico habilitado em caldeiras ou sistemas pressurizados',
+  'hazard.pressure.lockout': 'O sistema está isolado, bloqueado, despressurizado e drenado, com o manômetro marcando zero.',
+  'hazard.pressure.ppe': 'Óculos de segurança ou protetor facial, e luvas resistentes ao calor para fluidos quentes.',
+  'hazard.confined-space.label': 'Espaço confinado',
+  'hazard.confined-space.professional': 'uma empresa treinada para entrada em espaços confinados',
+  'hazard.confined-space.lockout': 'A atmosfera foi testada, e há um vigia e um plano de resgate antes da entrada.',
+  'hazard.confined-space.ppe': 'Cinto com linha de resgate, e um monitor de oxigênio e gases tóxicos.',
+  'walkthrough.recorded': '{recorded} de {total} passos registrados',
+  'walkthrough.showAll': 'Mostrar todos os passos',
+  'walkthrough.guided': 'Modo guiado',
+  'walkthrough.refining': 'Refinando o diagnóstico com as evidências reunidas até agora...',
+  'walkthrough.stepOf': 'Passo {step} de {total}',
+  'walkthrough.step': 'Passo {step}',
+  'walkthrough.measurementPlaceholder': 'Valor medido, por ex. 3,2 µF',
+  'walkthrough.notesPlaceholder': 'Notas (opcional)',
+  'walkthrough.photoAlt': 'Evidência do passo {step}',
+  'walkthrough.removePhoto': 'Remover foto',
+  'walkthrough.attachPhoto': 'Anexar foto',
+  'walkthrough.readPhotoError': 'Não foi possível ler a foto: {error}',
+  'walkthrough.pass': 'Aprovado',
+  'walkthrough.fail': 'Reprovado',
+  'walkthrough.measured': 'Medido',
+  'walkthrough.recordValue': 'Registrar valor',
+  'walkthrough.previous': 'Anterior',
+  'walkthrough.next': 'Próximo',
+  'workItem.status.open': 'Aberta',
+  'workItem.status.in-progress': 'Em andamento',
+  'workItem.status.done': 'Concluída',
+  'workItem.status.deferred': 'Adiada',
+  'workItem.track': 'Acompanhar',
+  'workItem.assignee': 'Responsável',
+  'workItem.status': 'Status',
+  'workItem.laborHours': 'Horas de mão de obra',
+  'workItem.laborPlaceholder': 'Mão de obra (horas)',
+  'workItem.notes': 'Notas',
+  'workItem.partsUsed': 'Peças usadas',
+  'workItem.quantity': 'Quantidade',
+  'workItem.part': 'Peça',
+  'workItem.removePart': 'Remover peça',
+  'workItem.addPart': 'Adicionar peça',
+  'workItem.cancel': 'Cancelar',
+  'workItem.save': 'Salvar',
+  'workItem.unassigned': 'Não atribuída',
+  'workItem.outstanding': 'Reparos urgentes pendentes ({count})',
+  'dataFile.kind.telemetry': 'Telemetria',
+  'dataFile.kind.fault-codes': 'Códigos de falha',
+  'dataFile.kind.log': 'Log',
+  'dataFile.rows': '{count} linhas',
+  'dataFile.lines': '{count} linhas',
+  'dataFile.remove': 'Remover {fileName}',
+  'dataFile.channel': 'Canal',
+  'dataFile.range': 'Faixa',
+  'dataFile.low': 'Limite inferior',
+  'dataFile.high': 'Limite superior',
+  'dataFile.maxStep': 'Salto máx.',
+  'dataFile.maxStepHint': 'A maior variação esperada de uma leitura para a seguinte',
+  'dataFile.limitFor': '{limit} de {channel}',
+  'dataFile.crossingOne': '({count} cruzamento)',
+  'dataFile.crossingMany': '({count} cruzamentos)',
+  'dataFile.flagged': '({count} sinalizadas)',
+  'dataFile.previewCharts': 'Ver gráficos',
+  'dataFile.hideCharts': 'Ocultar gráficos',
+  'dataFile.logLines': '{errors} linhas de erro e {warnings} de aviso',
+  'dataFile.codes': 'Códigos: {codes}',
+  'dataFile.noCodes': 'Nenhum código encontrado',
+  'dataFile.reading': 'Lendo o arquivo...',
+  'dataFile.addPrompt': 'Adicione telemetria CSV, despejos de códigos OBD-II ou logs de controladores',
+  'dataFile.localNote': 'Os arquivos são resumidos neste dispositivo; só o resumo é enviado para o diagnóstico.',
+  'dataFile.readError': 'Não foi possível ler o arquivo de dados: {error}',
+  'dataFile.period': 'de {start} a {end}',
+  'dataFile.lowValue': 'mín. {value}',
+  'dataFile.highValue': 'máx. {value}',
+  'dataFile.windowOne': '{count} janela sinalizada',
+  'dataFile.windowMany': '{count} janelas sinalizadas',
+  'dataFile.aboveLimit': 'Acima do limite de {start} a {end}, chegando a {extreme}',
+  'dataFile.belowLimit': 'Abaixo do limite de {start} a {end}, chegando a {extreme}',
+  'dataFile.row': 'linha {row}',
+  'dataFile.notEnoughReadings': 'Leituras insuficientes para o gráfico.',
+  'dataFile.readings': 'Leituras de {channel}',
+  'dataFile.rangeMean': '{min} – {max}, média {mean}',
+  'dataFile.at': 'em {position}',
+  'dataFile.fromTo': 'de {start} a {end}',
+  'dataFile.anomaly.deviation': 'Desvio repentino',
+  'dataFile.anomaly.rate-of-change': 'Salto entre leituras',
+  'dataFile.anomaly.stuck': 'Sensor travado',
+  'dataFile.anomalyDetail.deviation': '{label} {span}, chegando a {peak} (escore z móvel {score})',
+  'dataFile.anomalyDetail.rate-of-change': '{label} {span}, variando até {score} por leitura',
+  'dataFile.anomalyDetail.stuck': '{label} {span}, repetindo {peak} por {count} leituras',
+  'dataFile.code': 'Código',
+  'dataFile.meaning': 'Significado',
+  'dataFile.seen': 'Vezes',
+  'dataFile.notInTable': 'Fora da tabela local de códigos',
+  'dataFile.topMessages': 'Mensagens mais repetidas',
+
+  'error.loadHistory': 'Não foi possível carregar o histórico salvo: {error}',
+  'error.speechRecognition': 'Erro no reconhecimento de voz: {error}',
+  'error.transcription': 'Não foi possível transcrever a nota de voz: {error}. A gravação ainda será enviada para análise.',
+  'error.noAudioCapture': 'Desculpe, seu navegador não consegue gravar áudio.',
+  'error.saveRecording': 'Não foi possível salvar a gravação: {error}',
+  'error.microphone': 'Não foi possível acessar o microfone: {error}',
+  'error.queueCase': 'Não foi possível salvar o caso para depois: {error}',
+  'error.discardQueued': 'Não foi possível descartar o caso da fila: {error}',
+  'error.emptySubmission': 'Adicione uma descrição, imagem, arquivo de dados ou nota de voz para iniciar o diagnóstico.',
+  'error.unexpected': 'Ocorreu um erro inesperado.',
+  'error.loadCatalogue': 'Não foi possível carregar o catálogo: {error}',
+  'error.clearCatalogue': 'Não foi possível limpar o catálogo: {error}',
+  'error.refine': 'Não foi possível refinar o diagnóstico: {error}',
+  'error.translate': 'Não foi possível traduzir o relatório: {error}',
+  'error.brief': 'Não foi possível gerar esta visão do relatório: {error}',
+  'error.import': 'A importação falhou: {error}',
+
+  'export.report': 'Relatório do OmniDiag',
+  'export.diagnosed': 'Diagnosticado em {time}',
+  'export.riskHeading': 'Avaliação de riscos: {severity} ({level}/4)',
+  'export.severityDisagreement': 'As execuções divergiram na gravidade:',
+  'export.ofRuns': '{percent}% das execuções',
+  'export.safety': 'Segurança',
+  'export.hazards': 'Riscos:',
+  'export.noneFlagged': 'nenhum apontado',
+  'export.callContacts': 'Chame {contacts} a menos que você seja qualificado para este trabalho.',
+  'export.stepsWithheld': 'Os {count} passos ficam ocultos até esta lista de segurança ser confirmada no OmniDiag:',
+  'export.tools': 'Ferramentas',
+  'export.partsHeading': 'Peças',
+  'export.originalSubmission': 'Envio original',
+  'export.voiceNote': 'Nota de voz:',
+  'export.followUp': 'Perguntas de acompanhamento',
+  'export.question': 'P',
+  'export.answer': 'R',
+  'export.submittedImages': 'Imagens enviadas',
+  'export.problemDescription': 'Descrição do problema',
+  'export.voiceTranscript': 'Transcrição da nota de voz',
+  'export.csv.type': 'Tipo',
+  'export.csv.sku': 'SKU',
+  'export.csv.description': 'Descrição',
+  'export.csv.suggestedAs': 'Sugerido como',
+  'export.csv.quantity': 'Quantidade',
+  'export.csv.unitPrice': 'Preço unitário ({currency})',
+  'export.csv.total': 'Total ({currency})',
+  'export.csv.inStock': 'Em estoque',
+  'export.csv.part': 'Peça',
+  'export.csv.tool': 'Ferramenta',
+  'export.csv.labor': 'Mão de obra',
+  'export.csv.laborHours': 'Mão de obra ({hours} h)',
+  'export.csv.yes': 'Sim',
+  'export.csv.no': 'Não',
+};
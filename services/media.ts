@@ -0,0 +1,66 @@
+import { ImageAttachment } from '../types';
+
+/** Reads a file and resolves with its contents as bare base64 (no data: URL prefix). */
+export const readFileAsBase64 = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Could not decode the video clip.'));
+    video.currentTime = time;
+  });
+
+/**
+ * Extracts evenly spaced keyframes from a short video clip, entirely in the
+ * browser, as JPEG image attachments.
+ */
+export const extractVideoKeyframes = async (file: File, frameCount = 4, maxWidth = 1280): Promise<ImageAttachment[]> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Could not read the video clip. Try an MP4 or WebM file.'));
+    });
+
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const scale = Math.min(1, maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available in this browser.');
+
+    const frames: ImageAttachment[] = [];
+    for (let i = 0; i < frameCount; i++) {
+      // Sample the middle of each segment so the first and last (often black) frames are skipped.
+      const time = (duration * (i + 0.5)) / frameCount;
+      await seekTo(video, time);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push({
+        mimeType: 'image/jpeg',
+        data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+        caption: `${file.name} @ ${formatTimestamp(time)}`,
+        videoTimestamp: time,
+      });
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,44 @@
+export const isNotificationSupported = () => typeof Notification !== 'undefined';
+
+/** Asks for permission to show system notifications, unless the user has already answered. */
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!isNotificationSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows a system notification if the user has allowed them. Goes through the
+ * service worker where there is one, since mobile browsers only allow
+ * notifications from there.
+ */
+export const showSystemNotification = async (title: string, body: string): Promise<void> => {
+  if (!isNotificationSupported() || Notification.permission !== 'granted') return;
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, { body, icon: '/icon.svg' });
+  } else {
+    new Notification(title, { body, icon: '/icon.svg' });
+  }
+};
+
+/** A short two-tone chime, generated so there is no audio file to cache for offline use. */
+export const playAlertSound = async (): Promise<void> => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) throw new Error('Audio playback is not supported in this browser.');
+  const context: AudioContext = new AudioContextClass();
+  const gain = context.createGain();
+  gain.connect(context.destination);
+  [880, 660].forEach((frequency, i) => {
+    const start = context.currentTime + i * 0.25;
+    const oscillator = context.createOscillator();
+    oscillator.frequency.value = frequency;
+    oscillator.connect(gain);
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.22);
+    oscillator.start(start);
+    oscillator.stop(start + 0.22);
+  });
+  await new Promise(resolve => setTimeout(resolve, 600));
+  await context.close();
+};
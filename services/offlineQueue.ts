@@ -0,0 +1,34 @@
+import { QueuedCase } from '../types';
+import { openDb, QUEUE_STORE, requestToPromise, transactionDone } from './db';
+import { ProviderResponseError } from './providers/types';
+
+/** Queued cases, oldest first, so they are sent in the order they were submitted. */
+export const loadQueuedCases = async (): Promise<QueuedCase[]> => {
+  const db = await openDb();
+  const cases: QueuedCase[] = await requestToPromise(db.transaction(QUEUE_STORE, 'readonly').objectStore(QUEUE_STORE).getAll());
+  return cases.sort((a, b) => new Date(a.queuedAt).getTime() - new Date(b.queuedAt).getTime());
+};
+
+export const enqueueCase = async (queued: QueuedCase): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(queued);
+  await transactionDone(tx);
+};
+
+export const removeQueuedCase = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Whether a failed send counts against the case. Rate limits, server errors and servers
+ * that can't be reached say nothing about the case, so it is simply tried again later.
+ */
+export const countsAsQueueFailure = (error: unknown): boolean => {
+  if (error instanceof ProviderResponseError) return error.status !== 429 && error.status < 500;
+  // fetch rejects with a TypeError when the request never got a response.
+  return !(error instanceof TypeError);
+};
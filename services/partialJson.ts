@@ -0,0 +1,128 @@
+/**
+ * Parses the beginning of a JSON document that is still arriving, returning
+ * everything that can be read so far. Unterminated strings are returned as
+ * far as they go, unterminated objects and arrays are closed, and a key or
+ * number that may still be cut short is left out. Returns undefined until the
+ * first value has started.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  let pos = 0;
+  // Set once the input runs out; every caller unwinds with what it has.
+  let truncated = false;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    pos++; // opening quote
+    let result = '';
+    while (pos < text.length) {
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return result;
+      }
+      if (char === '\\') {
+        const escape = text[pos + 1];
+        if (escape === undefined) break;
+        if (escape === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (hex.length < 4) break;
+          result += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        result += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+        pos += 2;
+        continue;
+      }
+      result += char;
+      pos++;
+    }
+    truncated = true;
+    return result;
+  };
+
+  const parseLiteral = (): unknown => {
+    const match = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(pos));
+    // A literal that reaches the end of the input might continue in the next chunk.
+    if (!match || pos + match[0].length >= text.length) {
+      truncated = true;
+      return undefined;
+    }
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseArray = (): unknown[] => {
+    pos++; // [
+    const result: unknown[] = [];
+    while (!truncated) {
+      skipWhitespace();
+      if (pos >= text.length) {
+        truncated = true;
+        break;
+      }
+      if (text[pos] === ']') {
+        pos++;
+        break;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      const value = parseValue();
+      if (value !== undefined) result.push(value);
+    }
+    return result;
+  };
+
+  const parseObject = (): Record<string, unknown> => {
+    pos++; // {
+    const result: Record<string, unknown> = {};
+    while (!truncated) {
+      skipWhitespace();
+      if (pos >= text.length) {
+        truncated = true;
+        break;
+      }
+      if (text[pos] === '}') {
+        pos++;
+        break;
+      }
+      if (text[pos] === ',') {
+        pos++;
+        continue;
+      }
+      if (text[pos] !== '"') throw new Error(`Unexpected character "${text[pos]}" at position ${pos}.`);
+      const key = parseString();
+      skipWhitespace();
+      if (truncated || pos >= text.length) {
+        truncated = true;
+        break;
+      }
+      if (text[pos] !== ':') throw new Error(`Expected ":" at position ${pos}.`);
+      pos++;
+      const value = parseValue();
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) {
+      truncated = true;
+      return undefined;
+    }
+    switch (text[pos]) {
+      case '{': return parseObject();
+      case '[': return parseArray();
+      case '"': return parseString();
+      default: return parseLiteral();
+    }
+  };
+
+  return parseValue();
+};
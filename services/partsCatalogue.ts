@@ -0,0 +1,117 @@
+import { CatalogueItem, CatalogueItemKind, CatalogueMatch, HistoryEntry } from '../types';
+import { tokenize } from './similarCases';
+import { parseCsvRows } from './csv';
+
+// Below this a candidate shares little more than a generic word like "motor" or "kit".
+const MIN_MATCH_SCORE = 0.25;
+
+// Accepted column names for each field, lowercased. Catalogue exports rarely agree on headers.
+const columnAliases: Record<keyof CatalogueItem, string[]> = {
+  sku: ['sku', 'part number', 'part no', 'item number', 'code'],
+  description: ['description', 'name', 'item', 'title'],
+  price: ['price', 'unit price', 'cost'],
+  stock: ['stock', 'qty', 'quantity', 'on hand', 'in stock'],
+};
+
+// Tolerates currency symbols and thousands separators, e.g. "$1,249.00".
+const parseNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value ?? '').replace(/[^\d.-]/g, '');
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+const toItem = (record: Record<string, unknown>, rowLabel: string): CatalogueItem => {
+  const field = (key: keyof CatalogueItem) => {
+    const name = Object.keys(record).find(k => columnAliases[key].includes(k.trim().toLowerCase()));
+    return name === undefined ? undefined : record[name];
+  };
+  const sku = String(field('sku') ?? '').trim();
+  const description = String(field('description') ?? '').trim();
+  const price = parseNumber(field('price'));
+  const stock = parseNumber(field('stock') ?? 0);
+  if (!sku) throw new Error(`${rowLabel} has no SKU.`);
+  if (!description) throw new Error(`${rowLabel} (${sku}) has no description.`);
+  if (!Number.isFinite(price) || price < 0) throw new Error(`${rowLabel} (${sku}) has an invalid price.`);
+  return { sku, description, price, stock: Number.isFinite(stock) ? stock : 0 };
+};
+
+/**
+ * Reads a catalogue from a CSV file with a header row, or a JSON array of
+ * objects. Both need SKU, description and price columns; stock defaults to 0.
+ * A repeated SKU keeps the last row.
+ */
+export const parseCatalogue = (text: string, fileName: string): CatalogueItem[] => {
+  let records: Record<string, unknown>[];
+  if (fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('[')) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('A JSON catalogue must be an array of items.');
+    records = data;
+  } else {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) throw new Error('The catalogue file is empty.');
+    records = rows.map(row => Object.fromEntries(header.map((name, i) => [name, row[i] ?? ''])));
+  }
+
+  const items = new Map<string, CatalogueItem>();
+  records.forEach((record, i) => {
+    if (!record || typeof record !== 'object') throw new Error(`Item ${i + 1} is not an object.`);
+    const item = toItem(record, `Item ${i + 1}`);
+    items.set(item.sku, item);
+  });
+  if (items.size === 0) throw new Error('The catalogue file has no items.');
+  return [...items.values()];
+};
+
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => { if (b.has(value)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+interface IndexedItem {
+  item: CatalogueItem;
+  tokens: Set<string>;
+  grams: Set<string>;
+}
+
+/** Catalogue items with their match features precomputed, since every suggestion is scored against every item. */
+export type CatalogueIndex = IndexedItem[];
+
+export const indexCatalogue = (items: CatalogueItem[]): CatalogueIndex =>
+  items.map(item => ({ item, tokens: new Set(tokenize(item.description)), grams: trigrams(`${item.description} ${item.sku}`) }));
+
+export interface CatalogueCandidate {
+  item: CatalogueItem;
+  /** 0–1; word overlap and character trigrams count equally, so both plurals and typos still match. */
+  score: number;
+}
+
+export const catalogueCandidates = (suggestion: string, index: CatalogueIndex, limit = 5): CatalogueCandidate[] => {
+  const tokens = new Set(tokenize(suggestion));
+  const grams = trigrams(suggestion);
+  return index
+    .map(({ item, tokens: itemTokens, grams: itemGrams }) => ({ item, score: (dice(tokens, itemTokens) + dice(grams, itemGrams)) / 2 }))
+    .filter(candidate => candidate.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/** The confirmed match for a suggestion, if the user has confirmed one. */
+export const catalogueMatchFor = (entry: HistoryEntry, kind: CatalogueItemKind, suggestion: string): CatalogueMatch | undefined =>
+  entry.catalogueMatches?.find(match => match.kind === kind && match.suggestion === suggestion);
+
+export const upsertCatalogueMatch = (entry: HistoryEntry, match: CatalogueMatch): HistoryEntry => ({
+  ...entry,
+  catalogueMatches: [
+    ...(entry.catalogueMatches ?? []).filter(existing => existing.kind !== match.kind || existing.suggestion !== match.suggestion),
+    match,
+  ],
+});
@@ -0,0 +1,294 @@
+import { Asset, AudioAttachment, DataFileSummary, DiagnosticReport, EquipmentProfile, HistoryEntry, ImageAttachment, Language, StepOutcome } from '../types';
+import { describeEquipmentProfile, summarizeEquipmentProfile } from './equipmentTemplates';
+import { describeDataFiles } from './dataFiles';
+import { ContentPart } from './providers/types';
+import { completedFixes } from './workItems';
+import { languageOptions } from './i18n';
+import { customerSummarySchema, managerBriefSchema, reportSchema } from './reportSchema';
+import { ValidationIssue } from './reportValidator';
+
+/**
+ * Every prompt OmniDiag sends. Requests are described as a ReportTask or a
+ * ChatContext, which hold only the case data; the browser builds prompts from
+ * them for providers it talks to directly, and the OmniDiag server builds them
+ * itself, so a client cannot make it send arbitrary instructions.
+ */
+
+/** The parts of a past case that prompts quote. */
+export type PastCase = Pick<HistoryEntry, 'timestamp' | 'report' | 'workItems'>;
+
+/** The parts of a case the manager and customer briefs are written from. */
+export type BriefCase = Pick<HistoryEntry, 'report' | 'equipmentProfile' | 'workItems' | 'reportLanguage'>;
+
+export interface DiagnosticInput {
+  text: string;
+  images: ImageAttachment[];
+  audioTranscript?: string;
+  audioClip?: AudioAttachment;
+  /** Summaries of uploaded telemetry, fault-code dumps and logs. */
+  dataFiles?: DataFileSummary[];
+  equipmentProfile?: EquipmentProfile;
+  asset?: Asset;
+  /** Earlier cases for `asset`, in any order. */
+  assetHistory?: PastCase[];
+  /** The closest matches from the whole case history, best first. */
+  similarCases?: PastCase[];
+  /** The language to write the report in; English when absent. */
+  language?: Language;
+}
+
+export type ReportTask =
+  | { kind: 'diagnosis'; input: DiagnosticInput }
+  | { kind: 'refinement'; entry: HistoryEntry }
+  | { kind: 'translation'; report: DiagnosticReport; language: Language }
+  | { kind: 'manager-brief'; entry: BriefCase }
+  | { kind: 'customer-summary'; entry: BriefCase };
+
+/** A response that failed validation, for the model to correct. */
+export interface Correction {
+  previousResponse: string;
+  issues: ValidationIssue[];
+}
+
+export interface ReportPrompt {
+  systemInstruction: string;
+  parts: ContentPart[];
+  responseSchema: object;
+}
+
+/** What a follow-up chat needs to know about its case. */
+export interface ChatContext {
+  report: DiagnosticReport;
+  equipmentProfile?: EquipmentProfile;
+  reportLanguage?: Language;
+  hasText: boolean;
+  imageCount: number;
+  hasVoiceNote: boolean;
+}
+
+const buildRepairPrompt = ({ previousResponse, issues }: Correction) => `
+    Your previous response did not match the required diagnostic report schema.
+
+    **Your previous response:**
+    ${previousResponse}
+
+    **Problems found:**
+    ${issues.map(issue => `- ${issue.path || 'report'}: ${issue.message}`).join('\n    ')}
+
+    Return the complete corrected report as a single JSON object that fixes every problem listed above.
+  `;
+
+const diagnosticSystemInstruction = `You are OmniDiag, an expert AI diagnostic assistant. Analyze the user's input (text, images, audio transcript) to identify faults in any system (e.g., HVAC, electrical, mechanical, automotive, plumbing).
+  When an equipment profile is given, tailor the diagnosis to that domain, make and model: account for its age, operating hours and environment, and interpret any codes or readings it contains (such as OBD-II codes or refrigerant type).
+  When a service history for the asset is given, look for recurring problems. If the current fault repeats or relates to an earlier one, say so in the 'faultSummary', consider why the earlier fixes did not hold, and rank causes accordingly.
+  Your response MUST be a valid JSON object that adheres to the provided schema. Do not include any markdown formatting like \`\`\`json.
+  Write the fields in the order the schema lists them, starting with 'faultSummary' and 'riskAssessment'; the report is shown to the technician while you write it.
+  Provide a structured, actionable diagnostic report. Be thorough, clear, and professional.
+  For the 'riskAssessment', you must provide a detailed breakdown. Go beyond a simple description. Explicitly list at least 2-3 specific 'potentialConsequences' of ignoring the fault, and provide a corresponding list of actionable 'mitigationSteps' to prevent those consequences.
+  Include a list of necessary tools and potential replacement parts.
+  Images are labeled "Image 1", "Image 2", and so on, with the user's caption where given. When a possible cause is visibly supported by one or more images, record it in 'causeEvidence' using those image numbers.
+  Where a fault can be located in an image, such as a burnt terminal or a corroded fitting, mark it in 'imageAnnotations' with a tight bounding box and a short label, tied to the cause it supports. If the user has marked areas on an image, examine those first and say in the report whether they show the fault.
+  When similar past cases are given, treat them as precedent: a fix recorded as having worked on a matching fault is strong evidence for the corresponding cause, but only rely on it where the symptoms genuinely match.
+  When summaries of sensor data or logs are given, they were computed on the user's device from the full files. Treat threshold crossings, windows flagged by the local anomaly screen, fault codes and repeated errors as measured evidence, line them up in time with the reported symptoms, and refer to them in the causes and troubleshooting steps. A stuck-sensor flag may mean the sensor or its wiring has failed rather than the process it measures. A code described as not in the local code table has only its category decoded.
+  If a voice note recording is attached, listen to it as evidence in its own right, not just for the words: knocking, grinding, squealing, rattling, hissing, electrical buzzing or an abnormal compressor or motor hum can all point to specific faults.`;
+
+// The app reads these enum values, so they stay in English whatever language the text is in.
+const languageInstruction = (language: Language) => `
+  Write every free-text field of the report in ${languageOptions[language].promptName}, whatever language the user wrote in. Keep 'severity', 'hazards' and 'priority' exactly as the schema's English values.`;
+
+// Older cases add little beyond the most recent ones and would crowd the prompt.
+const MAX_ASSET_HISTORY_CASES = 10;
+
+const describeAssetHistory = (asset: Asset, entries: PastCase[]): string => {
+  const recent = [...entries]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .slice(0, MAX_ASSET_HISTORY_CASES);
+  const header = `Asset: ${asset.name}${asset.location ? ` (${asset.location})` : ''}`;
+  if (recent.length === 0) return `${header}\nNo previous cases recorded.`;
+
+  return [header, ...recent.map(entry => {
+    const { report } = entry;
+    const fixes = report.recommendedFixes.map(fix => `${fix.fix} [${fix.priority}]`).join('; ');
+    return `- ${new Date(entry.timestamp).toISOString().slice(0, 10)} | Severity: ${report.riskAssessment.severity} | Fault: ${report.faultSummary} | Causes: ${report.possibleCauses.join('; ')} | Fixes recommended: ${fixes || 'none'}`;
+  })].join('\n');
+};
+
+const describeSimilarCases = (entries: PastCase[]): string =>
+  entries.map(entry => {
+    const { report } = entry;
+    const worked = completedFixes(entry).map(item => `${item.fix}${item.notes ? ` (${item.notes})` : ''}`).join('; ');
+    return `- ${new Date(entry.timestamp).toISOString().slice(0, 10)} | Fault: ${report.faultSummary} | Causes considered: ${report.possibleCauses.join('; ')} | Fix that worked: ${worked || 'not recorded'}`;
+  }).join('\n');
+
+const describeMarkedRegions = (image: ImageAttachment) =>
+  image.regions?.length
+    ? `\nAreas marked by the user, as [ymin, xmin, ymax, xmax] from 0 to 1000: ${image.regions.map(region => `"${region.label || 'unlabeled'}" at [${region.box.join(', ')}]`).join('; ')}`
+    : '';
+
+const toImageParts = (images: ImageAttachment[]): ContentPart[] =>
+  images.flatMap((image, i): ContentPart[] => [
+    { text: `Image ${i + 1}${image.caption ? `: ${image.caption}` : ''}${describeMarkedRegions(image)}` },
+    { inlineData: { mimeType: image.mimeType, data: image.data } },
+  ]);
+
+const buildDiagnosticParts = ({ text, images, audioTranscript, audioClip, dataFiles, equipmentProfile, asset, assetHistory, similarCases }: DiagnosticInput): ContentPart[] => {
+  const userPrompt = `
+    Please perform a diagnostic analysis based on the following information.
+
+    **Equipment Profile:**
+    ${equipmentProfile ? describeEquipmentProfile(equipmentProfile).replace(/\n/g, '\n    ') : "No equipment profile provided."}
+
+    **Service History for This Asset:**
+    ${asset ? describeAssetHistory(asset, assetHistory ?? []).replace(/\n/g, '\n    ') : "Not linked to a registered asset."}
+
+    **Similar Past Cases:**
+    ${similarCases?.length ? describeSimilarCases(similarCases).replace(/\n/g, '\n    ') : "None found."}
+
+    **User's Written Description:**
+    ${text || "No written description provided."}
+
+    **Transcript from User's Voice Note:**
+    ${audioTranscript || "No voice note provided."}
+
+    **Sensor Data and Logs:**
+    ${dataFiles?.length ? describeDataFiles(dataFiles).replace(/\n/g, '\n    ') : "No data files provided."}
+
+    Analyze the provided information and generate a complete diagnostic report.
+  `;
+
+  const parts = toImageParts(images);
+  if (audioClip) {
+    parts.push(
+      { text: `Voice note recording (${audioClip.durationSeconds.toFixed(1)}s):` },
+      { inlineData: { mimeType: audioClip.mimeType, data: audioClip.data } },
+    );
+  }
+  parts.push({ text: userPrompt });
+  return parts;
+};
+
+const diagnosisInstruction = (language: Language = 'en') => diagnosticSystemInstruction + languageInstruction(language);
+
+const describeOutcome = (outcome: StepOutcome, report: DiagnosticReport): string => {
+  const step = report.troubleshootingSteps.find(s => s.step === outcome.step);
+  const result = outcome.status === 'measured' ? `MEASURED ${outcome.measurement ?? ''}`.trim() : outcome.status.toUpperCase();
+  return `- Step ${outcome.step} (${step?.action ?? 'unknown step'}): ${result}${outcome.notes ? ` | Notes: ${outcome.notes}` : ''}${outcome.photo ? ' | Photo attached' : ''}`;
+};
+
+const buildRefinementPrompt = (entry: HistoryEntry): ReportPrompt => {
+  const { report, userInput } = entry;
+  const outcomes = entry.walkthrough?.outcomes ?? [];
+
+  const systemInstruction = `${diagnosisInstruction(entry.reportLanguage)}
+  You are now refining a report you produced earlier, using results a technician recorded while working through its troubleshooting steps. Failed checks and measured values are hard evidence: drop or demote causes they rule out, promote causes they support, and update the risk assessment and fixes if the evidence changes them.
+  In 'troubleshootingSteps', return ONLY the new steps still to be performed, numbered from 1. Do not repeat steps that have already been carried out.`;
+
+  const evidencePhotos = outcomes.filter(outcome => outcome.photo);
+  const prompt = `
+    **Equipment Profile:**
+    ${entry.equipmentProfile ? describeEquipmentProfile(entry.equipmentProfile).replace(/\n/g, '\n    ') : "No equipment profile provided."}
+
+    **User's Written Description:**
+    ${userInput.text || "No written description provided."}
+
+    **Transcript from User's Voice Note:**
+    ${userInput.audio || "No voice note provided."}
+
+    **Sensor Data and Logs:**
+    ${userInput.dataFiles?.length ? describeDataFiles(userInput.dataFiles).replace(/\n/g, '\n    ') : "No data files provided."}
+
+    **Your Previous Report:**
+    ${JSON.stringify(report)}
+
+    **Step Results Recorded by the Technician:**
+    ${outcomes.map(outcome => describeOutcome(outcome, report)).join('\n    ')}
+
+    Produce the refined diagnostic report.
+  `;
+
+  const parts: ContentPart[] = [
+    ...toImageParts(userInput.images),
+    ...evidencePhotos.flatMap((outcome): ContentPart[] => [
+      { text: `Evidence photo for step ${outcome.step}${outcome.notes ? `: ${outcome.notes}` : ''}` },
+      { inlineData: { mimeType: outcome.photo!.mimeType, data: outcome.photo!.data } },
+    ]),
+    { text: prompt },
+  ];
+
+  return { systemInstruction, parts, responseSchema: reportSchema };
+};
+
+const translationInstruction = (language: Language) => `You are OmniDiag's translator. Translate the diagnostic report you are given into ${languageOptions[language].promptName}, keeping its technical meaning exact.
+  Your response MUST be a valid JSON object that adheres to the provided schema. Do not include any markdown formatting like \`\`\`json.
+  Translate the text only. Keep every list the same length and in the same order, keep step numbers, 'causeEvidence', 'laborHours' and the image numbers, cause indexes and boxes in 'imageAnnotations' unchanged, and keep 'severity' and 'priority' exactly as given in English.
+  Leave part numbers, model numbers, error codes and units as they are.`;
+
+const describeCaseForBrief = (entry: BriefCase): string => `
+    **Equipment:**
+    ${entry.equipmentProfile ? summarizeEquipmentProfile(entry.equipmentProfile) : "Not specified."}
+
+    **Diagnostic Report:**
+    ${JSON.stringify(entry.report)}
+
+    **Repair Progress:**
+    ${entry.workItems?.length ? entry.workItems.map(item => `- ${item.fix}: ${item.status}`).join('\n    ') : "No work started."}
+  `;
+
+const managerBriefInstruction = (language: Language) => `You are OmniDiag, briefing a facilities or operations manager on a diagnosed fault. They decide on scheduling and spending, not on how the repair is done.
+  Your response MUST be a valid JSON object that adheres to the provided schema. Do not include any markdown formatting like \`\`\`json.
+  Base the downtime on the recommended fixes and their labor hours, plus a realistic allowance for getting parts. Include only the technical detail a decision needs.${languageInstruction(language)}`;
+
+const customerSummaryInstruction = (language: Language) => `You are OmniDiag, explaining a diagnosed fault to the customer who owns the equipment. Write warmly and plainly, as a trusted technician would to a homeowner or client.
+  Your response MUST be a valid JSON object that adheres to the provided schema. Do not include any markdown formatting like \`\`\`json.
+  Leave out anything internal: part numbers, prices, labor hours, technician notes, test readings and diagnostic procedures. Do not go beyond what the report says, and never play down a safety risk: if the severity is High or Critical, say clearly whether the equipment should be used at all.${languageInstruction(language)}`;
+
+const buildTaskPrompt = (task: ReportTask): ReportPrompt => {
+  switch (task.kind) {
+    case 'diagnosis':
+      return { systemInstruction: diagnosisInstruction(task.input.language), parts: buildDiagnosticParts(task.input), responseSchema: reportSchema };
+    case 'refinement':
+      return buildRefinementPrompt(task.entry);
+    case 'translation':
+      return { systemInstruction: translationInstruction(task.language), parts: [{ text: JSON.stringify(task.report) }], responseSchema: reportSchema };
+    case 'manager-brief':
+      return { systemInstruction: managerBriefInstruction(task.entry.reportLanguage ?? 'en'), parts: [{ text: describeCaseForBrief(task.entry) }], responseSchema: managerBriefSchema };
+    case 'customer-summary':
+      return { systemInstruction: customerSummaryInstruction(task.entry.reportLanguage ?? 'en'), parts: [{ text: describeCaseForBrief(task.entry) }], responseSchema: customerSummarySchema };
+    default:
+      throw new Error(`Unknown task "${(task as { kind?: unknown }).kind}".`);
+  }
+};
+
+/** The prompt for a task, with the request to fix `correction` appended when the previous response failed validation. */
+export const buildReportPrompt = (task: ReportTask, correction?: Correction): ReportPrompt => {
+  const prompt = buildTaskPrompt(task);
+  return correction ? { ...prompt, parts: [...prompt.parts, { text: buildRepairPrompt(correction) }] } : prompt;
+};
+
+/** Keeps only what the prompts quote from past cases, so their photos and recordings are not sent along. */
+export const toPastCase = ({ timestamp, report, workItems }: PastCase): PastCase => ({ timestamp, report, workItems });
+
+export const toBriefCase = ({ report, equipmentProfile, workItems, reportLanguage }: BriefCase): BriefCase => ({ report, equipmentProfile, workItems, reportLanguage });
+
+export const chatContextFor = ({ report, equipmentProfile, reportLanguage, userInput }: HistoryEntry): ChatContext => ({
+  report,
+  equipmentProfile,
+  reportLanguage,
+  hasText: Boolean(userInput.text),
+  imageCount: userInput.images.length,
+  hasVoiceNote: Boolean(userInput.audio || userInput.audioClip),
+});
+
+export const followUpInstruction = ({ report, equipmentProfile, reportLanguage, hasText, imageCount, hasVoiceNote }: ChatContext): string =>
+  `You are OmniDiag, an expert AI diagnostic assistant. You've provided the user with a diagnostic report based on their initial submission. Now, you must answer their follow-up questions. Maintain the persona of a helpful, expert assistant.
+
+  CONTEXT of the report you generated:
+  ---
+  Fault Summary: ${report.faultSummary}
+  Possible Causes: ${report.possibleCauses.join(', ')}
+  Risk: ${report.riskAssessment.severity} - ${report.riskAssessment.summary}
+  ---
+  ${equipmentProfile ? `Equipment: ${summarizeEquipmentProfile(equipmentProfile)}` : ''}
+  The user's original submission included: ${hasText ? `A text description.` : ''} ${imageCount > 0 ? `${imageCount} image(s).` : ''} ${hasVoiceNote ? 'A voice note.' : ''}
+  Base all your answers on this context and the user's follow-up questions.
+  Reply in ${languageOptions[reportLanguage ?? 'en'].promptName} unless the user writes to you in another language.`;
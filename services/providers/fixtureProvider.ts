@@ -0,0 +1,108 @@
+import { CustomerSummary, DiagnosticReport, ManagerBrief } from '../../types';
+import { customerSummarySchema, managerBriefSchema } from '../reportSchema';
+import { DiagnosticProvider } from './types';
+
+const fixtureReport: DiagnosticReport = {
+  faultSummary: "Fixture report: condenser fan motor is not starting on call for cooling.",
+  possibleCauses: [
+    "Failed run capacitor on the condenser fan motor",
+    "Seized fan motor bearings",
+    "Open contactor coil or burnt contactor points",
+  ],
+  riskAssessment: {
+    severity: "Medium",
+    summary: "The compressor will overheat and trip on high head pressure if it keeps running without airflow.",
+    potentialConsequences: [
+      "Compressor damage from repeated high-pressure trips",
+      "Loss of cooling to the conditioned space",
+    ],
+    mitigationSteps: [
+      "Switch the unit off at the disconnect until the fan is repaired",
+      "Check the high-pressure switch resets correctly after repair",
+    ],
+  },
+  troubleshootingSteps: [
+    { step: 1, action: "Isolate power at the outdoor disconnect", details: "Verify zero voltage at the contactor line side before touching components." },
+    { step: 2, action: "Discharge and test the run capacitor", details: "Compare the measured microfarads to the rating on the label; more than 6% low means replace." },
+    { step: 3, action: "Spin the fan blade by hand", details: "It should turn freely and coast. Stiffness or grinding points to seized bearings." },
+  ],
+  recommendedFixes: [
+    { fix: "Replace the run capacitor", priority: "Urgent", details: "Fit a capacitor with the same microfarad and voltage rating.", laborHours: 0.5 },
+    { fix: "Replace the condenser fan motor", priority: "Recommended", details: "Only if the motor is still stiff or draws excessive current with a good capacitor.", laborHours: 1.5 },
+  ],
+  simplifiedExplanation: "The outdoor fan that cools the system is not spinning, most likely because a small starting part has failed. It is a common, inexpensive repair.",
+  toolsAndParts: {
+    tools: ["Multimeter with capacitance range", "Insulated screwdrivers", "Non-contact voltage tester"],
+    parts: ["Run capacitor (matching µF rating)", "Condenser fan motor"],
+  },
+};
+
+const fixtureManagerBrief: ManagerBrief = {
+  downtimeEstimate: "Half a day",
+  downtimeHours: 4,
+  businessImpact: "No cooling to the served area until the fan runs again; the unit must stay off to protect the compressor.",
+  recommendation: "Approve the capacitor replacement today. Budget for a fan motor only if the technician finds it seized.",
+};
+
+const fixtureCustomerSummary: CustomerSummary = {
+  headline: "Your outdoor air-conditioning fan has stopped spinning.",
+  whatWeFound: "A small part that helps the fan motor start has most likely worn out. Without the fan, the system cannot get rid of heat.",
+  whatWeWillDo: ["Replace the worn starting part.", "Check the fan motor turns freely, and replace it only if it doesn't."],
+  isItSafe: "Please keep the air conditioning switched off until the repair, to avoid damaging the system.",
+  whatHappensNext: "We will confirm a visit time with you. Most repairs like this take under an hour on site.",
+};
+
+// Responses other than the report, keyed by the schema they are requested with.
+const fixtureResponses = new Map<object, unknown>([
+  [managerBriefSchema, fixtureManagerBrief],
+  [customerSummarySchema, fixtureCustomerSummary],
+]);
+
+/** The canned response for output requested with `responseSchema`. */
+export const fixtureResponseFor = (responseSchema: object): unknown => fixtureResponses.get(responseSchema) ?? fixtureReport;
+
+// Small enough that the fixture report arrives over a second or so, like a real stream would.
+const FIXTURE_CHUNK_SIZE = 48;
+
+const fixtureReply = "This is a fixture reply from the offline test provider. No model was called.";
+
+// Dimensions of the fixture's feature-hashed embeddings.
+const FIXTURE_EMBEDDING_SIZE = 64;
+
+/** A bag-of-words vector, so texts sharing words come out similar without a model. */
+const hashEmbedding = (text: string): number[] => {
+  const vector = new Array(FIXTURE_EMBEDDING_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    vector[Math.abs(hash) % FIXTURE_EMBEDDING_SIZE] += 1;
+  }
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(value => value / norm);
+};
+
+const fixtureTranscript = "Fixture transcript: the outdoor unit hums but the fan does not turn.";
+
+/** Returns canned responses so the app can be exercised without network access or an API key. */
+export const createFixtureProvider = (): DiagnosticProvider => ({
+  async *generateReportStream({ responseSchema, signal }) {
+    const json = JSON.stringify(fixtureResponseFor(responseSchema));
+    for (let i = 0; i < json.length; i += FIXTURE_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      if (signal?.aborted) throw new Error('The request was cancelled.');
+      yield json.slice(i, i + FIXTURE_CHUNK_SIZE);
+    }
+  },
+
+  createChat: () => ({
+    async *sendMessageStream() {
+      for (const word of fixtureReply.split(' ')) {
+        yield `${word} `;
+      }
+    },
+  }),
+
+  transcribeAudio: async () => fixtureTranscript,
+
+  embedTexts: async (texts) => texts.map(hashEmbedding),
+});
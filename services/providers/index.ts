@@ -0,0 +1,64 @@
+import { ProviderId, ProviderSettings } from '../../types';
+import { createFixtureProvider } from './fixtureProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createServerProvider } from './serverProvider';
+import { DiagnosticProvider } from './types';
+
+export type { DiagnosticProvider, ChatSession, ContentPart, ReportRequest } from './types';
+
+export const providerOptions: Record<ProviderId, { defaultModel: string }> = {
+  'gemini': { defaultModel: 'gemini-2.5-flash' },
+  'openai-compatible': { defaultModel: 'llama3.1' },
+  'fixture': { defaultModel: 'fixture' },
+};
+
+export const defaultProviderSettings: ProviderSettings = {
+  provider: 'gemini',
+  model: providerOptions['gemini'].defaultModel,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  accessToken: '',
+  transcriptionModel: 'whisper-1',
+  embeddingModel: 'nomic-embed-text',
+  consensusRuns: 1,
+  consensusModels: [],
+};
+
+/** The model for each consensus run, or an empty list when consensus mode is off. */
+export const consensusRunModels = (settings: ProviderSettings): string[] => {
+  if (settings.consensusRuns <= 1) return [];
+  const models = settings.consensusModels.length > 0 ? settings.consensusModels : [settings.model];
+  return Array.from({ length: settings.consensusRuns }, (_, i) => models[i % models.length]);
+};
+
+/**
+ * Identifies the embedding space a provider's vectors live in. Vectors are
+ * only comparable when their keys match.
+ */
+export const embeddingKeyFor = (settings: ProviderSettings): string => {
+  switch (settings.provider) {
+    case 'gemini':
+      return 'gemini';
+    case 'openai-compatible':
+      return `openai-compatible:${settings.baseUrl}:${settings.embeddingModel}`;
+    case 'fixture':
+      return 'fixture';
+  }
+};
+
+export const createProvider = (settings: ProviderSettings): DiagnosticProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createServerProvider(settings.model, settings.accessToken);
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: settings.baseUrl,
+        model: settings.model,
+        transcriptionModel: settings.transcriptionModel,
+        embeddingModel: settings.embeddingModel,
+        apiKey: settings.apiKey || undefined,
+      });
+    case 'fixture':
+      return createFixtureProvider();
+  }
+};
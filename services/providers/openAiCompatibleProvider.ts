@@ -0,0 +1,143 @@
+import { ChatMessage } from '../../types';
+import { ContentPart, DiagnosticProvider, ProviderResponseError } from './types';
+
+interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  model: string;
+  transcriptionModel: string;
+  embeddingModel: string;
+  apiKey?: string;
+}
+
+type OpenAiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'input_audio'; input_audio: { data: string; format: string } };
+
+type OpenAiMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAiContentPart[];
+};
+
+// The chat completions API only accepts WAV and MP3 audio; browser recordings are usually WebM or Ogg.
+const supportedAudioFormats: Record<string, string> = { 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/mpeg': 'mp3', 'audio/mp3': 'mp3' };
+
+const toOpenAiPart = (part: ContentPart): OpenAiContentPart => {
+  if ('text' in part) return { type: 'text', text: part.text };
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith('audio/')) {
+    const format = supportedAudioFormats[mimeType];
+    return format
+      ? { type: 'input_audio', input_audio: { data, format } }
+      : { type: 'text', text: `(An ${mimeType} recording was attached but this provider cannot receive it; rely on the transcript instead.)` };
+  }
+  return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+};
+
+/** Yields the content deltas from a streamed chat completions response. */
+async function* readStreamedContent(response: Response): AsyncIterable<string> {
+  if (!response.body) throw new Error('Streaming is not supported by this server.');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!payload || payload === '[DONE]' || !line.startsWith('data:')) continue;
+      const delta: string = JSON.parse(payload).choices?.[0]?.delta?.content ?? '';
+      if (delta) yield delta;
+    }
+  }
+}
+
+const toOpenAiHistory = (history: ChatMessage[]): OpenAiMessage[] =>
+  history.map(msg => ({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text }));
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API, such as
+ * llama.cpp, Ollama, LM Studio or vLLM.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, model, transcriptionModel, embeddingModel, apiKey }: OpenAiCompatibleConfig): DiagnosticProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const request = async (path: string, init: RequestInit): Promise<Response> => {
+    const endpoint = `${root}${path}`;
+    const response = await fetch(endpoint, { method: 'POST', ...init, headers: { ...authHeaders, ...init.headers } });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new ProviderResponseError(`${endpoint} responded with ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+    }
+    return response;
+  };
+
+  const post = (body: object, signal?: AbortSignal): Promise<Response> =>
+    request('/chat/completions', {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, ...body }),
+      signal,
+    });
+
+  return {
+    async *generateReportStream({ systemInstruction, parts, responseSchema, temperature, signal }) {
+      const response = await post({
+        temperature,
+        stream: true,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: parts.map(toOpenAiPart) },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'diagnostic_report', schema: responseSchema },
+        },
+      }, signal);
+      yield* readStreamedContent(response);
+    },
+
+    createChat: ({ systemInstruction, history }) => {
+      const messages: OpenAiMessage[] = [{ role: 'system', content: systemInstruction }, ...toOpenAiHistory(history)];
+
+      return {
+        async *sendMessageStream(message) {
+          // The turn joins the conversation only once the reply has arrived, so a failed or aborted stream can be retried cleanly.
+          const turn: OpenAiMessage = { role: 'user', content: message };
+          const response = await post({ messages: [...messages, turn], stream: true });
+          let reply = '';
+          for await (const delta of readStreamedContent(response)) {
+            reply += delta;
+            yield delta;
+          }
+          messages.push(turn, { role: 'assistant', content: reply });
+        },
+      };
+    },
+
+    transcribeAudio: async (audio, language) => {
+      const bytes = Uint8Array.from(atob(audio.data), c => c.charCodeAt(0));
+      const form = new FormData();
+      form.append('file', new Blob([bytes], { type: audio.mimeType }), `voice-note.${audio.mimeType.split('/')[1] || 'webm'}`);
+      form.append('model', transcriptionModel);
+      // The transcriptions API takes an ISO-639-1 code, not a full BCP-47 tag.
+      form.append('language', language.split('-')[0]);
+
+      const response = await request('/audio/transcriptions', { body: form });
+      const data = await response.json();
+      return (data.text ?? '').trim();
+    },
+
+    embedTexts: async (texts) => {
+      const response = await request('/embeddings', {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: embeddingModel, input: texts }),
+      });
+      const data = await response.json();
+      return (data.data ?? []).sort((a: any, b: any) => a.index - b.index).map((item: any) => item.embedding);
+    },
+  };
+};
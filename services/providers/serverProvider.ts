@@ -0,0 +1,68 @@
+import { ChatMessage } from '../../types';
+import { DiagnosticProvider, ProviderResponseError } from './types';
+
+// Served from the same origin in production; the Vite dev server proxies it to `npm run server`.
+const API_ROOT = '/api';
+
+/** Posts JSON to the OmniDiag server, turning an error response into a thrown ProviderResponseError with the server's message. */
+export const postToServer = async (path: string, accessToken: string, body: object, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${API_ROOT}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}) },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.json().then(data => data.error, () => '');
+    throw new ProviderResponseError(detail || `The OmniDiag server responded with ${response.status}.`, response.status);
+  }
+  return response;
+};
+
+async function* readText(response: Response): AsyncIterable<string> {
+  if (!response.body) throw new Error('Streaming is not supported by this browser.');
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    yield value;
+  }
+}
+
+/**
+ * Reaches Gemini through the OmniDiag server (see server/), which holds the
+ * API key so it never reaches the browser. Only the task and case data are
+ * sent; the server builds the prompts itself. `accessToken` identifies the user
+ * to the server's rate limiter.
+ */
+export const createServerProvider = (model: string, accessToken: string): DiagnosticProvider => ({
+  async *generateReportStream({ task, correction, temperature, signal }) {
+    yield* readText(await postToServer('/diagnose', accessToken, { model, task, correction, temperature }, signal));
+  },
+
+  createChat: ({ context, history }) => {
+    const transcript: ChatMessage[] = [...history];
+
+    return {
+      async *sendMessageStream(message) {
+        const response = await postToServer('/chat', accessToken, { model, context, history: transcript, message });
+        let reply = '';
+        for await (const chunk of readText(response)) {
+          reply += chunk;
+          yield chunk;
+        }
+        transcript.push({ role: 'user', text: message }, { role: 'model', text: reply });
+      },
+    };
+  },
+
+  transcribeAudio: async (audio, language) => {
+    const data = await (await postToServer('/transcribe', accessToken, { model, audio, language })).json();
+    return (data.text ?? '').trim();
+  },
+
+  embedTexts: async (texts) => {
+    const data = await (await postToServer('/embed', accessToken, { texts })).json();
+    return data.embeddings;
+  },
+});
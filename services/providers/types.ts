@@ -0,0 +1,57 @@
+import { AudioAttachment, ChatMessage } from '../../types';
+import { ChatContext, Correction, ReportTask } from '../prompts';
+
+/** A request the model's server answered with an error status. */
+export class ProviderResponseError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderResponseError';
+    this.status = status;
+  }
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface ReportRequest {
+  /** What the prompt below was built from. The server provider sends this instead, and the server rebuilds the prompt. */
+  task: ReportTask;
+  correction?: Correction;
+  systemInstruction: string;
+  parts: ContentPart[];
+  /** JSON Schema the response must conform to. */
+  responseSchema: object;
+  temperature: number;
+  /** Aborts the request when signalled. */
+  signal?: AbortSignal;
+}
+
+export interface ChatOptions {
+  /** What `systemInstruction` was built from; see ReportRequest.task. */
+  context: ChatContext;
+  systemInstruction: string;
+  history: ChatMessage[];
+}
+
+export interface ChatSession {
+  /** Sends a message and yields the reply as text chunks. */
+  sendMessageStream(message: string): AsyncIterable<string>;
+}
+
+/**
+ * A backend that can produce diagnostic reports and hold follow-up conversations.
+ * Implementations stream the raw JSON text of the report; parsing happens in the
+ * diagnostics service so every provider is held to the same rules.
+ */
+export interface DiagnosticProvider {
+  /** Yields the report's JSON text as it is generated. */
+  generateReportStream(request: ReportRequest): AsyncIterable<string>;
+  createChat(options: ChatOptions): ChatSession;
+  /** Speech-to-text for browsers without the Web Speech API. `language` is a BCP-47 tag such as `es-ES`. */
+  transcribeAudio(audio: AudioAttachment, language: string): Promise<string>;
+  /** One embedding vector per text, for similarity search over past cases. */
+  embedTexts(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,82 @@
+import { CatalogueItem, CatalogueItemKind, HistoryEntry } from '../types';
+import { workItemFor } from './workItems';
+import { catalogueMatchFor } from './partsCatalogue';
+
+export interface ShoppingListLine {
+  kind: CatalogueItemKind;
+  suggestion: string;
+  item: CatalogueItem;
+  quantity: number;
+  total: number;
+  /** Whether the catalogue has enough stock for `quantity`. */
+  inStock: boolean;
+}
+
+export interface LaborLine {
+  fix: string;
+  /** Logged hours from the fix's work item, else the model's estimate; null if neither exists. */
+  hours: number | null;
+  /** True when `hours` comes from the work item rather than the model. */
+  logged: boolean;
+}
+
+export interface RepairEstimate {
+  lines: ShoppingListLine[];
+  labor: LaborLine[];
+  laborRate: number;
+  partsTotal: number;
+  laborHours: number;
+  laborTotal: number;
+  total: number;
+  /** Suggested parts and tools with no confirmed catalogue item, which the total leaves out. */
+  unmatched: string[];
+}
+
+/**
+ * Prices the confirmed catalogue matches and the labor for each recommended
+ * fix at `laborRate` per hour. Deferred fixes are left out, since they are not
+ * part of this repair.
+ */
+export const estimateRepair = (entry: HistoryEntry, catalogue: Map<string, CatalogueItem>, laborRate: number): RepairEstimate => {
+  const { tools, parts } = entry.report.toolsAndParts;
+  const suggestions: { kind: CatalogueItemKind; suggestion: string }[] = [
+    ...parts.map(suggestion => ({ kind: 'part' as const, suggestion })),
+    ...tools.map(suggestion => ({ kind: 'tool' as const, suggestion })),
+  ];
+
+  const lines: ShoppingListLine[] = [];
+  const unmatched: string[] = [];
+  for (const { kind, suggestion } of suggestions) {
+    const match = catalogueMatchFor(entry, kind, suggestion);
+    const item = match?.sku ? catalogue.get(match.sku) : undefined;
+    if (!match || !item) {
+      unmatched.push(suggestion);
+      continue;
+    }
+    if (match.quantity <= 0) continue;
+    lines.push({ kind, suggestion, item, quantity: match.quantity, total: item.price * match.quantity, inStock: item.stock >= match.quantity });
+  }
+
+  const labor: LaborLine[] = entry.report.recommendedFixes
+    .map(fix => ({ fix, item: workItemFor(entry, fix) }))
+    .filter(({ item }) => item.status !== 'deferred')
+    .map(({ fix, item }) => ({
+      fix: fix.fix,
+      hours: item.laborHours ?? fix.laborHours ?? null,
+      logged: item.laborHours !== undefined,
+    }));
+
+  const partsTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const laborHours = labor.reduce((sum, line) => sum + (line.hours ?? 0), 0);
+  const laborTotal = laborHours * laborRate;
+  return { lines, labor, laborRate, partsTotal, laborHours, laborTotal, total: partsTotal + laborTotal, unmatched };
+};
+
+/** Formats an amount in `currency`, falling back to a plain number if the code isn't one the browser knows. */
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
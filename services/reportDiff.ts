@@ -0,0 +1,119 @@
+import { DiagnosticReport, RecommendedFix } from '../types';
+import { Severity, SeverityTrend, severityTrend } from './severity';
+import { tokenize } from './similarCases';
+import { wordOverlap } from './consensus';
+
+export interface ItemChange {
+  before: string;
+  after: string;
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  /** The same item, reworded. */
+  changed: ItemChange[];
+  unchanged: string[];
+}
+
+export interface FixChange {
+  before: RecommendedFix;
+  after: RecommendedFix;
+}
+
+export interface FixDiff {
+  added: RecommendedFix[];
+  removed: RecommendedFix[];
+  /** Same fix, reworded or with a different priority or details. */
+  changed: FixChange[];
+  unchanged: RecommendedFix[];
+}
+
+export interface ReportDiff {
+  severity: { before: Severity; after: Severity; trend: SeverityTrend };
+  causes: ListDiff;
+  fixes: FixDiff;
+  tools: ListDiff;
+  parts: ListDiff;
+}
+
+// Models reword casing and spacing between runs; those alone shouldn't count as a change.
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Above this word overlap, two items are the same one reworded rather than one dropped and another added.
+const SAME_ITEM_SIMILARITY = 0.5;
+
+interface Matching<T> {
+  pairs: { before: T; after: T }[];
+  removed: T[];
+  added: T[];
+}
+
+/**
+ * Pairs each item of `before` with the same item in `after`: identical text
+ * first, then the closest rewording, best overlaps first.
+ */
+const matchItems = <T>(before: T[], after: T[], textOf: (item: T) => string): Matching<T> => {
+  const pairs: { before: T; after: T }[] = [];
+  const unmatchedBefore = new Set(before);
+  const unmatchedAfter = new Set(after);
+
+  for (const item of after) {
+    const same = [...unmatchedBefore].find(previous => normalize(textOf(previous)) === normalize(textOf(item)));
+    if (same === undefined) continue;
+    pairs.push({ before: same, after: item });
+    unmatchedBefore.delete(same);
+    unmatchedAfter.delete(item);
+  }
+
+  const tokens = new Map([...unmatchedBefore, ...unmatchedAfter].map(item => [item, new Set(tokenize(textOf(item)))]));
+  const candidates = [...unmatchedBefore]
+    .flatMap(previous => [...unmatchedAfter].map(item => ({ before: previous, after: item, score: wordOverlap(tokens.get(previous)!, tokens.get(item)!) })))
+    .filter(candidate => candidate.score >= SAME_ITEM_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+  for (const candidate of candidates) {
+    if (!unmatchedBefore.has(candidate.before) || !unmatchedAfter.has(candidate.after)) continue;
+    pairs.push({ before: candidate.before, after: candidate.after });
+    unmatchedBefore.delete(candidate.before);
+    unmatchedAfter.delete(candidate.after);
+  }
+
+  return { pairs, removed: [...unmatchedBefore], added: after.filter(item => unmatchedAfter.has(item)) };
+};
+
+const diffList = (before: string[], after: string[]): ListDiff => {
+  const { pairs, removed, added } = matchItems(before, after, item => item);
+  const reworded = pairs.filter(pair => normalize(pair.before) !== normalize(pair.after));
+  return {
+    added,
+    removed,
+    changed: reworded,
+    unchanged: pairs.filter(pair => !reworded.includes(pair)).map(pair => pair.after),
+  };
+};
+
+const diffFixes = (before: RecommendedFix[], after: RecommendedFix[]): FixDiff => {
+  const { pairs, removed, added } = matchItems(before, after, fix => fix.fix);
+  const diff: FixDiff = { added, removed, changed: [], unchanged: [] };
+  for (const { before: previous, after: fix } of pairs) {
+    if (normalize(previous.fix) !== normalize(fix.fix) || previous.priority !== fix.priority || normalize(previous.details) !== normalize(fix.details)) {
+      diff.changed.push({ before: previous, after: fix });
+    } else {
+      diff.unchanged.push(fix);
+    }
+  }
+  return diff;
+};
+
+/** What changed from `before` to `after`, e.g. from the diagnosis before a repair to the one after it. */
+export const diffReports = (before: DiagnosticReport, after: DiagnosticReport): ReportDiff => ({
+  severity: {
+    before: before.riskAssessment.severity,
+    after: after.riskAssessment.severity,
+    trend: severityTrend([before.riskAssessment.severity, after.riskAssessment.severity])!,
+  },
+  causes: diffList(before.possibleCauses, after.possibleCauses),
+  fixes: diffFixes(before.recommendedFixes, after.recommendedFixes),
+  tools: diffList(before.toolsAndParts.tools, after.toolsAndParts.tools),
+  parts: diffList(before.toolsAndParts.parts, after.toolsAndParts.parts),
+});
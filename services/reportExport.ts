@@ -0,0 +1,390 @@
+import { CustomerSummary, HistoryEntry, ImageAttachment } from '../types';
+import { HISTORY_SCHEMA_VERSION, upgradeHistoryRecord } from './historyStore';
+import { validateReport } from './reportValidator';
+import { requiredFieldIssues, withValidOptionalFields } from './entryValidator';
+import { Severity, severityLevels } from './severity';
+import { summarizeEquipmentProfile } from './equipmentTemplates';
+import { RepairEstimate } from './repairEstimate';
+import { causeConfidence, hasSeverityDisagreement } from './consensus';
+import { escalationContacts, hazardDefinitions, hazardsOf, interlockChecklist, needsSafetyAcknowledgement, requiresInterlock } from './safetyInterlock';
+import { createTranslator, Translate } from './i18n';
+
+const EXPORT_FORMAT = 'omnidiag-case';
+const BUNDLE_EXPORT_FORMAT = 'omnidiag-cases';
+
+interface CaseExportFile {
+  format: typeof EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  entry: HistoryEntry;
+}
+
+interface CaseBundleExportFile {
+  format: typeof BUNDLE_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  entries: HistoryEntry[];
+}
+
+const severityColors = { Low: '#22c55e', Medium: '#eab308', High: '#f97316', Critical: '#dc2626' };
+
+const fileSlug = (entry: HistoryEntry) =>
+  `omnidiag-${new Date(entry.timestamp).toISOString().slice(0, 10)}-${entry.report.faultSummary.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40).replace(/^-|-$/g, '')}`;
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Exports are written in the language of the report they carry, whatever the interface language.
+const exportTranslator = (entry: HistoryEntry): Translate => createTranslator(entry.reportLanguage ?? 'en');
+
+interface SafetySummary {
+  hazards: string[];
+  contacts: string[];
+  acknowledgement: string | null;
+  /** Set while the steps are locked: the checklist to confirm in OmniDiag, printed in place of the steps. */
+  checklist: string[] | null;
+}
+
+// Null when the report neither mentions a hazard nor needs the safety checklist.
+const safetySummary = (entry: HistoryEntry, t: Translate): SafetySummary | null => {
+  const hazards = hazardsOf(entry);
+  if (hazards.length === 0 && !requiresInterlock(entry.report)) return null;
+  const { safetyAcknowledgement } = entry;
+  return {
+    hazards: hazards.map(hazard => t(hazardDefinitions[hazard].label)),
+    contacts: escalationContacts(hazards, t),
+    acknowledgement: safetyAcknowledgement
+      ? t('safety.acknowledged', { time: new Date(safetyAcknowledgement.acknowledgedAt).toLocaleString() })
+      : null,
+    checklist: needsSafetyAcknowledgement(entry) ? interlockChecklist(hazards, t) : null,
+  };
+};
+
+export const reportToMarkdown = (entry: HistoryEntry): string => {
+  const { report, userInput } = entry;
+  const { riskAssessment } = report;
+  const t = exportTranslator(entry);
+  const list = (items: string[]) => (items.length > 0 ? items.map(item => `- ${item}`).join('\n') : `_${t('report.noneSpecified')}_`);
+  const safety = safetySummary(entry, t);
+  const { consensus } = entry;
+  const withAgreement = (cause: string) => {
+    const confidence = causeConfidence(consensus, cause);
+    return confidence === undefined ? cause : `${cause} _(${t('export.ofRuns', { percent: Math.round(confidence * 100) })})_`;
+  };
+
+  const sections = [
+    `# ${report.faultSummary}`,
+    `_${t('export.diagnosed', { time: new Date(entry.timestamp).toLocaleString() })}${entry.equipmentProfile ? ` · ${summarizeEquipmentProfile(entry.equipmentProfile)}` : ''}_`,
+    `## ${t('export.riskHeading', { severity: t(`severity.${riskAssessment.severity}`), level: severityLevels[riskAssessment.severity] })}`,
+    riskAssessment.summary,
+    ...(consensus && hasSeverityDisagreement(consensus)
+      ? [`> **${t('export.severityDisagreement')}** ${(Object.entries(consensus.severityVotes) as [Severity, number][]).map(([level, votes]) => `${t(`severity.${level}`)} ×${votes}`).join(', ')}`]
+      : []),
+    `**${t('report.consequences')}**\n\n${list(riskAssessment.potentialConsequences)}`,
+    `**${t('report.mitigation')}**\n\n${list(riskAssessment.mitigationSteps)}`,
+    ...(safety ? [`## ${t('export.safety')}\n\n**${t('export.hazards')}** ${safety.hazards.join(', ') || t('export.noneFlagged')}\n\n${t('export.callContacts', { contacts: safety.contacts.join(t('safety.or')) })}\n\n${safety.acknowledgement ?? `_${t('safety.notAcknowledged')}_`}`] : []),
+    `## ${t('report.possibleCauses')}\n\n${list(report.possibleCauses.map(withAgreement))}`,
+    safety?.checklist
+      ? `## ${t('report.troubleshooting')}\n\n_${t('export.stepsWithheld', { count: report.troubleshootingSteps.length })}_\n\n${safety.checklist.map(item => `- [ ] ${item}`).join('\n')}`
+      : `## ${t('report.troubleshooting')}\n\n${report.troubleshootingSteps.map(step => `${step.step}. **${step.action}** — ${step.details}`).join('\n')}`,
+    `## ${t('report.fixes')}\n\n${report.recommendedFixes.map(fix => `- **${fix.fix}** (${t(`priority.${fix.priority}`)}): ${fix.details}`).join('\n')}`,
+    `## ${t('export.tools')}\n\n${list(report.toolsAndParts.tools)}`,
+    `## ${t('export.partsHeading')}\n\n${list(report.toolsAndParts.parts)}`,
+    `## ${t('report.explanation')}\n\n${report.simplifiedExplanation}`,
+  ];
+
+  if (userInput.text || userInput.audio) {
+    sections.push(`## ${t('export.originalSubmission')}\n\n${[userInput.text, userInput.audio && `> ${t('export.voiceNote')} ${userInput.audio}`].filter(Boolean).join('\n\n')}`);
+  }
+  if (entry.chatHistory.length > 0) {
+    sections.push(`## ${t('export.followUp')}\n\n${entry.chatHistory.map(msg => `**${msg.role === 'user' ? t('export.question') : t('export.answer')}:** ${msg.text}`).join('\n\n')}`);
+  }
+  return sections.join('\n\n') + '\n';
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlList = (items: string[], t: Translate) =>
+  items.length > 0 ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : `<p class="muted">${escapeHtml(t('report.noneSpecified'))}</p>`;
+
+export const reportToPrintableHtml = (entry: HistoryEntry): string => {
+  const { report, userInput } = entry;
+  const { severity } = report.riskAssessment;
+  const level = severityLevels[severity];
+  const gauge = [0, 1, 2, 3]
+    .map(i => `<span class="bar" style="height:${10 + i * 6}px;background:${i < level ? severityColors[severity] : '#cbd5e1'}"></span>`)
+    .join('');
+
+  const t = exportTranslator(entry);
+  const safety = safetySummary(entry, t);
+
+  const boxes = (image: ImageAttachment, number: number) => [
+    ...(image.regions ?? []).map(region => ({ ...region, className: 'box marked' })),
+    ...(report.imageAnnotations ?? []).filter(annotation => annotation.image === number).map(annotation => ({ ...annotation, className: 'box' })),
+  ].map(({ box: [ymin, xmin, ymax, xmax], label, className }) =>
+    `<span class="${className}" style="top:${ymin / 10}%;left:${xmin / 10}%;height:${(ymax - ymin) / 10}%;width:${(xmax - xmin) / 10}%">${label ? `<span>${escapeHtml(label)}</span>` : ''}</span>`
+  ).join('');
+
+  const images = userInput.images
+    .map((image, i) => `<figure><div class="frame"><img src="data:${image.mimeType};base64,${image.data}" alt="${escapeHtml(t('report.image', { number: i + 1 }))}">${boxes(image, i + 1)}</div><figcaption>${escapeHtml(t('report.image', { number: i + 1 }))}${image.caption ? `: ${escapeHtml(image.caption)}` : ''}</figcaption></figure>`)
+    .join('');
+
+  const chat = entry.chatHistory
+    .map(msg => `<p class="${msg.role}"><strong>${escapeHtml(msg.role === 'user' ? t('export.question') : t('export.answer'))}:</strong> ${escapeHtml(msg.text)}</p>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="${entry.reportLanguage ?? 'en'}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(fileSlug(entry))}</title>
+<style>
+  @page { margin: 18mm; }
+  body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; font-size: 11pt; line-height: 1.45; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; border-bottom: 1px solid #cbd5e1; padding-bottom: 2px; margin-top: 18px; break-after: avoid; }
+  .muted { color: #64748b; }
+  .gauge { display: inline-flex; align-items: flex-end; gap: 4px; margin-right: 8px; vertical-align: middle; }
+  .bar { display: inline-block; width: 10px; border-radius: 5px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .severity { font-weight: 700; font-size: 13pt; vertical-align: middle; color: ${severityColors[severity]}; }
+  .columns { display: flex; gap: 24px; } .columns > div { flex: 1; }
+  .fix { border: 1px solid #e2e8f0; border-radius: 6px; padding: 6px 10px; margin: 6px 0; break-inside: avoid; }
+  .priority { font-size: 9pt; font-weight: 600; padding: 1px 6px; border-radius: 8px; background: #e2e8f0; }
+  .images { display: flex; flex-wrap: wrap; gap: 10px; }
+  figure { margin: 0; width: 48%; break-inside: avoid; }
+  .frame { position: relative; display: inline-block; } .frame img { display: block; max-width: 100%; max-height: 220px; border: 1px solid #e2e8f0; }
+  .box { position: absolute; border: 2px solid #f59e0b; } .box.marked { border: 2px dashed #0891b2; }
+  .box > span { position: absolute; left: 0; bottom: 100%; font-size: 7pt; font-weight: 600; background: #f59e0b; color: #0f172a; padding: 0 3px; white-space: nowrap; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .box.marked > span { background: #0891b2; color: #fff; }
+  figcaption { font-size: 9pt; color: #64748b; }
+  .checklist { list-style: none; padding-left: 0; } .checklist li::before { content: '\\2610'; margin-right: 8px; }
+  .user { margin-bottom: 2px; } .model { margin-top: 0; color: #334155; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.faultSummary)}</h1>
+  <p class="muted">${escapeHtml(t('export.report'))} · ${escapeHtml(new Date(entry.timestamp).toLocaleString())}${entry.equipmentProfile ? ` · ${escapeHtml(summarizeEquipmentProfile(entry.equipmentProfile))}` : ''}</p>
+
+  <h2>${escapeHtml(t('report.riskAssessment'))}</h2>
+  <p><span class="gauge">${gauge}</span><span class="severity">${escapeHtml(t(`severity.${severity}`))}</span></p>
+  <p>${escapeHtml(report.riskAssessment.summary)}</p>
+  <div class="columns">
+    <div><strong>${escapeHtml(t('report.consequences'))}</strong>${htmlList(report.riskAssessment.potentialConsequences, t)}</div>
+    <div><strong>${escapeHtml(t('report.mitigation'))}</strong>${htmlList(report.riskAssessment.mitigationSteps, t)}</div>
+  </div>
+
+  ${safety ? `<h2>${escapeHtml(t('export.safety'))}</h2>
+  <p><strong>${escapeHtml(t('export.hazards'))}</strong> ${escapeHtml(safety.hazards.join(', ') || t('export.noneFlagged'))}</p>
+  <p>${escapeHtml(t('export.callContacts', { contacts: safety.contacts.join(t('safety.or')) }))}</p>
+  <p class="muted">${escapeHtml(safety.acknowledgement ?? t('safety.notAcknowledged'))}</p>` : ''}
+
+  <h2>${escapeHtml(t('report.possibleCauses'))}</h2>
+  ${htmlList(report.possibleCauses, t)}
+
+  <h2>${escapeHtml(t('report.troubleshooting'))}</h2>
+  ${safety?.checklist
+    ? `<p class="muted">${escapeHtml(t('export.stepsWithheld', { count: report.troubleshootingSteps.length }))}</p>
+  <ul class="checklist">${safety.checklist.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : `<ol>${report.troubleshootingSteps.map(step => `<li><strong>${escapeHtml(step.action)}</strong><br><span class="muted">${escapeHtml(step.details)}</span></li>`).join('')}</ol>`}
+
+  <h2>${escapeHtml(t('report.fixes'))}</h2>
+  ${report.recommendedFixes.map(fix => `<div class="fix"><strong>${escapeHtml(fix.fix)}</strong> <span class="priority">${escapeHtml(t(`priority.${fix.priority}`))}</span><br>${escapeHtml(fix.details)}</div>`).join('')}
+
+  <h2>${escapeHtml(t('report.toolsAndParts'))}</h2>
+  <div class="columns">
+    <div><strong>${escapeHtml(t('export.tools'))}</strong>${htmlList(report.toolsAndParts.tools, t)}</div>
+    <div><strong>${escapeHtml(t('export.partsHeading'))}</strong>${htmlList(report.toolsAndParts.parts, t)}</div>
+  </div>
+
+  <h2>${escapeHtml(t('report.explanation'))}</h2>
+  <p>${escapeHtml(report.simplifiedExplanation)}</p>
+
+  ${images ? `<h2>${escapeHtml(t('export.submittedImages'))}</h2><div class="images">${images}</div>` : ''}
+  ${userInput.text ? `<h2>${escapeHtml(t('export.problemDescription'))}</h2><p>${escapeHtml(userInput.text)}</p>` : ''}
+  ${userInput.audio ? `<h2>${escapeHtml(t('export.voiceTranscript'))}</h2><p>${escapeHtml(userInput.audio)}</p>` : ''}
+  ${chat ? `<h2>${escapeHtml(t('export.followUp'))}</h2>${chat}` : ''}
+</body>
+</html>`;
+};
+
+const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Allow pop-ups for this site to export PDFs.');
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.onload = () => printWindow.print();
+};
+
+/** Opens the report as a print-ready page and brings up the print dialog, where it can be saved as PDF. */
+export const printReportAsPdf = (entry: HistoryEntry) => printHtml(reportToPrintableHtml(entry));
+
+/** The customer view as plain text, for sharing by message or email. */
+export const customerSummaryToText = (entry: HistoryEntry, summary: CustomerSummary): string => {
+  const t = exportTranslator(entry);
+  return [
+    summary.headline,
+    summary.whatWeFound,
+    `${t('customer.whatWeWillDoLabel')}\n${summary.whatWeWillDo.map(step => `- ${step}`).join('\n')}`,
+    `${t('customer.isItSafe')} ${summary.isItSafe}`,
+    summary.whatHappensNext,
+    `${t('customer.diagnosed', { date: new Date(entry.timestamp).toLocaleDateString() })}${entry.equipmentProfile ? ` · ${summarizeEquipmentProfile(entry.equipmentProfile)}` : ''}`,
+  ].join('\n\n');
+};
+
+/** Shares the customer view through the device's share sheet, or copies it where there is none. */
+export const shareCustomerSummary = async (entry: HistoryEntry, summary: CustomerSummary): Promise<'shared' | 'copied'> => {
+  const text = customerSummaryToText(entry, summary);
+  if (navigator.share) {
+    await navigator.share({ title: summary.headline, text });
+    return 'shared';
+  }
+  await navigator.clipboard.writeText(text);
+  return 'copied';
+};
+
+export const customerSummaryToPrintableHtml = (entry: HistoryEntry, summary: CustomerSummary): string => {
+  const t = exportTranslator(entry);
+  return `<!DOCTYPE html>
+<html lang="${entry.reportLanguage ?? 'en'}">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(fileSlug(entry))}</title>
+<style>
+  @page { margin: 18mm; }
+  body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; font-size: 12pt; line-height: 1.5; max-width: 640px; }
+  h1 { font-size: 18pt; margin: 0 0 4px; }
+  h2 { font-size: 13pt; margin-top: 18px; }
+  .muted { color: #64748b; }
+  .safety { border-left: 4px solid ${severityColors[entry.report.riskAssessment.severity]}; padding: 4px 12px; background: #f8fafc; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(summary.headline)}</h1>
+  <p class="muted">${escapeHtml(new Date(entry.timestamp).toLocaleDateString())}${entry.equipmentProfile ? ` · ${escapeHtml(summarizeEquipmentProfile(entry.equipmentProfile))}` : ''}</p>
+  <p>${escapeHtml(summary.whatWeFound)}</p>
+  <h2>${escapeHtml(t('customer.whatWeWillDo'))}</h2>
+  ${htmlList(summary.whatWeWillDo, t)}
+  <h2>${escapeHtml(t('customer.isItSafe'))}</h2>
+  <p class="safety">${escapeHtml(summary.isItSafe)}</p>
+  <h2>${escapeHtml(t('customer.whatHappensNext'))}</h2>
+  <p>${escapeHtml(summary.whatHappensNext)}</p>
+</body>
+</html>`;
+};
+
+export const printCustomerSummary = (entry: HistoryEntry, summary: CustomerSummary) => printHtml(customerSummaryToPrintableHtml(entry, summary));
+
+export const exportReportAsMarkdown = (entry: HistoryEntry) =>
+  downloadFile(`${fileSlug(entry)}.md`, reportToMarkdown(entry), 'text/markdown');
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The confirmed catalogue items and labor for a case, with totals, as CSV for a purchase order or quote, in the report's language. */
+export const shoppingListToCsv = (entry: HistoryEntry, estimate: RepairEstimate, currency: string): string => {
+  const t = exportTranslator(entry);
+  const rows: (string | number)[][] = [
+    [
+      t('export.csv.type'),
+      t('export.csv.sku'),
+      t('export.csv.description'),
+      t('export.csv.suggestedAs'),
+      t('export.csv.quantity'),
+      t('export.csv.unitPrice', { currency }),
+      t('export.csv.total', { currency }),
+      t('export.csv.inStock'),
+    ],
+    ...estimate.lines.map(line => [
+      t(line.kind === 'part' ? 'export.csv.part' : 'export.csv.tool'),
+      line.item.sku,
+      line.item.description,
+      line.suggestion,
+      line.quantity,
+      line.item.price.toFixed(2),
+      line.total.toFixed(2),
+      t(line.inStock ? 'export.csv.yes' : 'export.csv.no'),
+    ]),
+    ...estimate.labor.map(line => [
+      t('export.csv.labor'),
+      '',
+      line.fix,
+      '',
+      line.hours ?? '',
+      estimate.laborRate.toFixed(2),
+      line.hours === null ? '' : (line.hours * estimate.laborRate).toFixed(2),
+      '',
+    ]),
+    [],
+    ['', '', t('estimate.partsAndTools'), '', '', '', estimate.partsTotal.toFixed(2), ''],
+    ['', '', t('export.csv.laborHours', { hours: estimate.laborHours }), '', '', '', estimate.laborTotal.toFixed(2), ''],
+    ['', '', t('estimate.estimatedTotal'), '', '', '', estimate.total.toFixed(2), ''],
+  ];
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+};
+
+export const exportShoppingListAsCsv = (entry: HistoryEntry, estimate: RepairEstimate, currency: string) =>
+  downloadFile(`${fileSlug(entry)}-shopping-list.csv`, shoppingListToCsv(entry, estimate, currency), 'text/csv');
+
+export const exportReportAsJson = (entry: HistoryEntry) => {
+  const file: CaseExportFile = {
+    format: EXPORT_FORMAT,
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entry,
+  };
+  downloadFile(`${fileSlug(entry)}.json`, JSON.stringify(file, null, 2), 'application/json');
+};
+
+/** Exports several cases as one file that parseCaseExport can read back. */
+export const exportCasesAsJson = (entries: HistoryEntry[]) => {
+  const file: CaseBundleExportFile = {
+    format: BUNDLE_EXPORT_FORMAT,
+    schemaVersion: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  downloadFile(`omnidiag-${new Date().toISOString().slice(0, 10)}-${entries.length}-cases.json`, JSON.stringify(file, null, 2), 'application/json');
+};
+
+const importEntry = (record: unknown, schemaVersion: number | undefined): HistoryEntry => {
+  const entry = upgradeHistoryRecord({ ...withValidOptionalFields(record), schemaVersion });
+  if (!entry) {
+    throw new Error('The file was exported by a newer version of OmniDiag.');
+  }
+  const issues = [...requiredFieldIssues(entry), ...validateReport(entry.report).map(issue => `${issue.path} ${issue.message}`)];
+  if (issues.length > 0) {
+    throw new Error(`The case "${entry.report?.faultSummary ?? entry.id}" is invalid: ${issues.join('; ')}`);
+  }
+  return entry;
+};
+
+/**
+ * Reads a file produced by exportReportAsJson or exportCasesAsJson back into
+ * HistoryEntries, upgrading them if an older version of the app exported them.
+ */
+export const parseCaseExport = (json: string): HistoryEntry[] => {
+  let file: Partial<CaseExportFile> | Partial<CaseBundleExportFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (file.format === EXPORT_FORMAT && 'entry' in file && file.entry) {
+    return [importEntry(file.entry, file.schemaVersion)];
+  }
+  if (file.format === BUNDLE_EXPORT_FORMAT && 'entries' in file && Array.isArray(file.entries)) {
+    return file.entries.map(entry => importEntry(entry, file.schemaVersion));
+  }
+  throw new Error('The file is not an OmniDiag case export.');
+};
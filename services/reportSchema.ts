@@ -0,0 +1,198 @@
+/**
+ * JSON Schema for DiagnosticReport, shared by every provider that supports
+ * structured output. Models emit properties in the order listed here, so the
+ * fields a technician needs first come first while the report streams in.
+ */
+export const reportSchema = {
+  type: "object",
+  properties: {
+    faultSummary: {
+      type: "string",
+      description: "A concise summary of the primary fault or issue detected.",
+    },
+    riskAssessment: {
+      type: "object",
+      description: "An assessment of the risks associated with the fault, including specific consequences and mitigation strategies.",
+      properties: {
+        severity: {
+          type: "string",
+          enum: ["Low", "Medium", "High", "Critical"],
+          description: "The severity level of the risk.",
+        },
+        hazards: {
+          type: "array",
+          description: "Every hazard category that working on this fault exposes the technician to. Omit it when none apply.",
+          items: { type: "string", enum: ["mains-voltage", "gas", "refrigerant", "pressure", "confined-space"] },
+        },
+        summary: {
+          type: "string",
+          description: "A brief summary of the overall risk.",
+        },
+        potentialConsequences: {
+            type: "array",
+            description: "A list of specific, potential negative consequences if the issue is not addressed.",
+            items: { type: "string" },
+        },
+        mitigationSteps: {
+            type: "array",
+            description: "A list of actionable steps to mitigate or prevent the identified risks.",
+            items: { type: "string" },
+        }
+      },
+      required: ["severity", "summary", "potentialConsequences", "mitigationSteps"],
+    },
+    possibleCauses: {
+      type: "array",
+      description: "A list of likely root causes for the identified fault.",
+      items: { type: "string" },
+    },
+    causeEvidence: {
+      type: "array",
+      description: "For each possible cause that is visibly supported by one of the numbered images, the images that show it. Omit causes with no visual evidence.",
+      items: {
+        type: "object",
+        properties: {
+          causeIndex: { type: "integer", description: "Zero-based index of the cause in possibleCauses." },
+          images: {
+            type: "array",
+            description: "The numbers of the supporting images, as given in their 'Image N' labels.",
+            items: { type: "integer" },
+          },
+        },
+        required: ["causeIndex", "images"],
+      },
+    },
+    imageAnnotations: {
+      type: "array",
+      description: "Where in the numbered images the fault can be seen, such as a burnt terminal or a corroded fitting, as labeled bounding boxes. Omit it when nothing specific is visible.",
+      items: {
+        type: "object",
+        properties: {
+          image: { type: "integer", description: "The number of the image, as given in its 'Image N' label." },
+          label: { type: "string", description: "A short name for what the box shows, e.g. 'burnt terminal'." },
+          causeIndex: { type: "integer", description: "Zero-based index of the cause in possibleCauses that this area is evidence for. Omit it if the area does not support one cause in particular." },
+          box: {
+            type: "array",
+            description: "The bounding box as [ymin, xmin, ymax, xmax], each scaled from 0 to 1000 of the image's height or width.",
+            items: { type: "integer" },
+          },
+        },
+        required: ["image", "label", "box"],
+      },
+    },
+    troubleshootingSteps: {
+      type: "array",
+      description: "A step-by-step guide to further diagnose the problem.",
+      items: {
+        type: "object",
+        properties: {
+          step: { type: "integer" },
+          action: { type: "string", description: "The action to perform for this step." },
+          details: { type: "string", description: "Additional details or expected outcomes for the action." },
+        },
+        required: ["step", "action", "details"],
+      },
+    },
+    recommendedFixes: {
+      type: "array",
+      description: "A list of recommended actions to fix the issue.",
+      items: {
+        type: "object",
+        properties: {
+          fix: { type: "string", description: "The recommended fix." },
+          priority: {
+            type: "string",
+            enum: ["Recommended", "Optional", "Urgent"],
+            description: "The priority of this fix."
+          },
+          details: { type: "string", description: "More information about the implementation of the fix." },
+          laborHours: { type: "number", description: "Estimated hands-on labor for a qualified technician to carry out this fix, in hours." },
+        },
+        required: ["fix", "priority", "details"],
+      },
+    },
+    simplifiedExplanation: {
+      type: "string",
+      description: "A simple, non-technical explanation of the problem and solution, suitable for a client or manager.",
+    },
+    toolsAndParts: {
+      type: "object",
+      description: "A list of tools and potential parts needed for diagnosis or repair.",
+      properties: {
+        tools: {
+          type: "array",
+          description: "A list of tools that might be required.",
+          items: { type: "string" },
+        },
+        parts: {
+          type: "array",
+          description: "A list of potential parts that may need replacement.",
+          items: { type: "string" },
+        },
+      },
+      required: ["tools", "parts"],
+    },
+  },
+  required: [
+    "faultSummary",
+    "possibleCauses",
+    "riskAssessment",
+    "troubleshootingSteps",
+    "recommendedFixes",
+    "simplifiedExplanation",
+    "toolsAndParts",
+  ],
+};
+
+/** JSON Schema for ManagerBrief, the extra content behind the manager view. */
+export const managerBriefSchema = {
+  type: "object",
+  properties: {
+    downtimeEstimate: {
+      type: "string",
+      description: "How long the equipment is likely to be out of service until repaired, in words a manager would use, e.g. \"Half a day\".",
+    },
+    downtimeHours: {
+      type: "number",
+      description: "The same downtime estimate in hours, for planning.",
+    },
+    businessImpact: {
+      type: "string",
+      description: "What the fault and its repair mean for operations, occupants or production, in one or two sentences.",
+    },
+    recommendation: {
+      type: "string",
+      description: "The decision the manager needs to make and what you recommend, in one or two sentences.",
+    },
+  },
+  required: ["downtimeEstimate", "downtimeHours", "businessImpact", "recommendation"],
+};
+
+/** JSON Schema for CustomerSummary, the plain-language content behind the customer view. */
+export const customerSummarySchema = {
+  type: "object",
+  properties: {
+    headline: {
+      type: "string",
+      description: "One short sentence saying what is wrong, with no jargon.",
+    },
+    whatWeFound: {
+      type: "string",
+      description: "What was found and why it happens, in two or three plain sentences.",
+    },
+    whatWeWillDo: {
+      type: "array",
+      description: "The repairs, each as one plain sentence, most important first.",
+      items: { type: "string" },
+    },
+    isItSafe: {
+      type: "string",
+      description: "Whether the equipment is safe to keep using until it is repaired, and any precaution the customer should take.",
+    },
+    whatHappensNext: {
+      type: "string",
+      description: "What the customer can expect next, in one or two sentences.",
+    },
+  },
+  required: ["headline", "whatWeFound", "whatWeWillDo", "isItSafe", "whatHappensNext"],
+};
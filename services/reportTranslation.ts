@@ -0,0 +1,74 @@
+import { DiagnosticReport, HistoryEntry, Language } from '../types';
+
+const listsOf = (report: DiagnosticReport): Record<string, unknown[]> => ({
+  possibleCauses: report.possibleCauses,
+  potentialConsequences: report.riskAssessment.potentialConsequences,
+  mitigationSteps: report.riskAssessment.mitigationSteps,
+  troubleshootingSteps: report.troubleshootingSteps,
+  recommendedFixes: report.recommendedFixes,
+  tools: report.toolsAndParts.tools,
+  parts: report.toolsAndParts.parts,
+  imageAnnotations: report.imageAnnotations ?? [],
+});
+
+/**
+ * Checks that `translated` has the same shape as `original` and takes every
+ * non-text field from the original, so a translation can't change severity,
+ * hazards, priorities, step numbers, evidence or where annotations are drawn.
+ */
+export const alignTranslation = (original: DiagnosticReport, translated: DiagnosticReport): DiagnosticReport => {
+  const before = listsOf(original);
+  const after = listsOf(translated);
+  const mismatched = Object.keys(before).filter(list => before[list].length !== after[list].length);
+  if (mismatched.length > 0) {
+    throw new Error(`The translation does not line up with the original report (${mismatched.join(', ')} changed length). Please try again.`);
+  }
+
+  return {
+    ...translated,
+    causeEvidence: original.causeEvidence,
+    imageAnnotations: original.imageAnnotations?.map((annotation, i) => ({ ...annotation, label: translated.imageAnnotations![i].label })),
+    riskAssessment: { ...translated.riskAssessment, severity: original.riskAssessment.severity, hazards: original.riskAssessment.hazards },
+    troubleshootingSteps: translated.troubleshootingSteps.map((step, i) => ({ ...step, step: original.troubleshootingSteps[i].step })),
+    recommendedFixes: translated.recommendedFixes.map((fix, i) => {
+      const { priority, laborHours } = original.recommendedFixes[i];
+      return { ...fix, priority, laborHours };
+    }),
+  };
+};
+
+const renamer = (from: string[], to: string[]) => {
+  const names = new Map(from.map((text, i) => [text, to[i]]));
+  return (text: string) => names.get(text) ?? text;
+};
+
+/**
+ * Swaps an entry's report for its translation. Work items, catalogue matches
+ * and consensus scores refer to causes, fixes, tools and parts by their text,
+ * so they are renamed along with them.
+ */
+export const applyTranslation = (entry: HistoryEntry, translated: DiagnosticReport, language: Language): HistoryEntry => {
+  const { report } = entry;
+  const renameCause = renamer(report.possibleCauses, translated.possibleCauses);
+  const renameFix = renamer(report.recommendedFixes.map(fix => fix.fix), translated.recommendedFixes.map(fix => fix.fix));
+  const renameTool = renamer(report.toolsAndParts.tools, translated.toolsAndParts.tools);
+  const renamePart = renamer(report.toolsAndParts.parts, translated.toolsAndParts.parts);
+
+  return {
+    ...entry,
+    report: translated,
+    reportLanguage: language,
+    // Briefs are rewritten in the new language when their view is next opened.
+    audienceBriefs: undefined,
+    workItems: entry.workItems?.map(item => ({ ...item, fix: renameFix(item.fix) })),
+    catalogueMatches: entry.catalogueMatches?.map(match => ({
+      ...match,
+      suggestion: match.kind === 'tool' ? renameTool(match.suggestion) : renamePart(match.suggestion),
+    })),
+    consensus: entry.consensus && {
+      ...entry.consensus,
+      causes: entry.consensus.causes.map(c => ({ ...c, cause: renameCause(c.cause) })),
+      fixes: entry.consensus.fixes.map(f => ({ ...f, fix: renameFix(f.fix) })),
+    },
+  };
+};
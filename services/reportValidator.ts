@@ -0,0 +1,148 @@
+import { DiagnosticReport } from '../types';
+import { reportSchema } from './reportSchema';
+
+export interface ValidationIssue {
+  /** Dotted path to the offending field, e.g. `riskAssessment.severity`. */
+  path: string;
+  message: string;
+}
+
+export class ReportValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`The AI returned an invalid report: ${issues.map(issue => `${issue.path || 'report'} ${issue.message}`).join('; ')}`);
+    this.name = 'ReportValidationError';
+    this.issues = issues;
+  }
+}
+
+interface SchemaNode {
+  type?: string;
+  enum?: readonly string[];
+  properties?: Record<string, SchemaNode>;
+  required?: readonly string[];
+  items?: SchemaNode;
+}
+
+const joinPath = (base: string, key: string | number) =>
+  typeof key === 'number' ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+// Walks the subset of JSON Schema used by the response schemas, so the validator can never drift from what the model is asked for.
+const validateNode = (value: unknown, schema: SchemaNode, path: string, issues: ValidationIssue[]) => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `must be an object, got ${describe(value)}` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) issues.push({ path: joinPath(path, key), message: 'is missing' });
+      }
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) validateNode(record[key], child, joinPath(path, key), issues);
+      }
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array, got ${describe(value)}` });
+        return;
+      }
+      if (schema.items) value.forEach((item, i) => validateNode(item, schema.items!, joinPath(path, i), issues));
+      return;
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `must be a string, got ${describe(value)}` });
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `must be one of ${schema.enum.join(', ')}, got "${value}"` });
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `must be a number, got ${describe(value)}` });
+      }
+      return;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        issues.push({ path, message: `must be an integer, got ${describe(value)}` });
+      }
+      return;
+  }
+};
+
+// Rules JSON Schema can't express.
+const boxProblem = (box: number[]): string | undefined => {
+  if (box.length !== 4) return `must have 4 numbers [ymin, xmin, ymax, xmax], got ${box.length}`;
+  if (box.some(value => value < 0 || value > 1000)) return `must be scaled from 0 to 1000, got [${box.join(', ')}]`;
+  const [ymin, xmin, ymax, xmax] = box;
+  if (ymin >= ymax || xmin >= xmax) return `must have ymin < ymax and xmin < xmax, got [${box.join(', ')}]`;
+  return undefined;
+};
+
+const validateSemantics = (report: Partial<DiagnosticReport>, issues: ValidationIssue[]) => {
+  if (Array.isArray(report.causeEvidence) && Array.isArray(report.possibleCauses)) {
+    const causeCount = report.possibleCauses.length;
+    report.causeEvidence.forEach((evidence, i) => {
+      if (evidence && typeof evidence.causeIndex === 'number' && (evidence.causeIndex < 0 || evidence.causeIndex >= causeCount)) {
+        issues.push({ path: `causeEvidence[${i}].causeIndex`, message: `must refer to one of the ${causeCount} possible causes, got ${evidence.causeIndex}` });
+      }
+    });
+  }
+  if (Array.isArray(report.imageAnnotations)) {
+    const causeCount = Array.isArray(report.possibleCauses) ? report.possibleCauses.length : 0;
+    report.imageAnnotations.forEach((annotation, i) => {
+      if (!annotation) return;
+      if (typeof annotation.image === 'number' && annotation.image < 1) {
+        issues.push({ path: `imageAnnotations[${i}].image`, message: `must be an image number starting from 1, got ${annotation.image}` });
+      }
+      if (typeof annotation.causeIndex === 'number' && (annotation.causeIndex < 0 || annotation.causeIndex >= causeCount)) {
+        issues.push({ path: `imageAnnotations[${i}].causeIndex`, message: `must refer to one of the ${causeCount} possible causes, got ${annotation.causeIndex}` });
+      }
+      const problem = Array.isArray(annotation.box) ? boxProblem(annotation.box) : undefined;
+      if (problem) issues.push({ path: `imageAnnotations[${i}].box`, message: problem });
+    });
+  }
+  if (Array.isArray(report.troubleshootingSteps)) {
+    report.troubleshootingSteps.forEach((step, i) => {
+      if (step && typeof step.step === 'number' && step.step !== i + 1) {
+        issues.push({ path: `troubleshootingSteps[${i}].step`, message: `must be ${i + 1} (steps are numbered sequentially from 1), got ${step.step}` });
+      }
+    });
+  }
+};
+
+export const validateReport = (value: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  validateNode(value, reportSchema, '', issues);
+  if (typeof value === 'object' && value !== null) validateSemantics(value as Partial<DiagnosticReport>, issues);
+  return issues;
+};
+
+const parseJson = (jsonString: string): unknown => {
+  try {
+    return JSON.parse(jsonString.trim());
+  } catch (error) {
+    throw new ReportValidationError([{ path: '', message: `is not valid JSON (${error instanceof Error ? error.message : String(error)})` }]);
+  }
+};
+
+/** Parses raw model output into a DiagnosticReport, throwing ReportValidationError if it doesn't conform. */
+export const parseReport = (jsonString: string): DiagnosticReport => {
+  const data = parseJson(jsonString);
+  const issues = validateReport(data);
+  if (issues.length > 0) throw new ReportValidationError(issues);
+  return data as DiagnosticReport;
+};
+
+/** Parses raw model output against one of the other response schemas, such as the audience briefs. */
+export const parseStructured = <T>(jsonString: string, schema: SchemaNode): T => {
+  const data = parseJson(jsonString);
+  const issues: ValidationIssue[] = [];
+  validateNode(data, schema, '', issues);
+  if (issues.length > 0) throw new ReportValidationError(issues);
+  return data as T;
+};
@@ -0,0 +1,125 @@
+import { DiagnosticReport, HazardType, HistoryEntry, PartialDiagnosticReport } from '../types';
+import type { MessageKey, Translate } from './i18n';
+
+interface HazardDefinition {
+  label: MessageKey;
+  icon: string;
+  pattern: RegExp;
+  /** Who to call instead of attempting the work unqualified. */
+  professional: MessageKey;
+  lockout: MessageKey[];
+  ppe: MessageKey[];
+}
+
+export const hazardDefinitions: Record<HazardType, HazardDefinition> = {
+  'mains-voltage': {
+    label: 'hazard.mains-voltage.label',
+    icon: 'fa-bolt',
+    pattern: /\b(mains|line voltage|high voltage|live (wire|wiring|conductor|circuit|terminal)s?|energi[sz]ed|arc flash|electric(al)? shock|electrocution|switchgear|breaker panel|\d{3}\s?(v|vac|volts?))\b/i,
+    professional: 'hazard.mains-voltage.professional',
+    lockout: ['hazard.mains-voltage.lockout', 'hazard.mains-voltage.verify'],
+    ppe: ['hazard.mains-voltage.ppe'],
+  },
+  gas: {
+    label: 'hazard.gas.label',
+    icon: 'fa-fire',
+    pattern: /\b(gas (leak|line|valve|supply|pipe|meter)s?|natural gas|propane|lpg|methane|smell of gas|carbon monoxide)\b/i,
+    professional: 'hazard.gas.professional',
+    lockout: ['hazard.gas.lockout', 'hazard.gas.verify'],
+    ppe: ['hazard.gas.ppe'],
+  },
+  refrigerant: {
+    label: 'hazard.refrigerant.label',
+    icon: 'fa-snowflake',
+    pattern: /\b(refrigerants?|freon|r-?(22|32|134a|290|410a|600a))\b/i,
+    professional: 'hazard.refrigerant.professional',
+    lockout: ['hazard.refrigerant.lockout'],
+    ppe: ['hazard.refrigerant.ppe'],
+  },
+  pressure: {
+    label: 'hazard.pressure.label',
+    icon: 'fa-tachometer-alt',
+    pattern: /\b(pressuri[sz]ed|high pressure|pressure vessel|boiler|steam|hydraulic|pneumatic|compressed air|relief valve|expansion tank)\b/i,
+    professional: 'hazard.pressure.professional',
+    lockout: ['hazard.pressure.lockout'],
+    ppe: ['hazard.pressure.ppe'],
+  },
+  'confined-space': {
+    label: 'hazard.confined-space.label',
+    icon: 'fa-door-closed',
+    pattern: /\b(confined space|crawl ?space|manhole|sewer|tank entry|vault|trench)\b/i,
+    professional: 'hazard.confined-space.professional',
+    lockout: ['hazard.confined-space.lockout'],
+    ppe: ['hazard.confined-space.ppe'],
+  },
+};
+
+// Takes a partial report too, so hazards can be spotted while it streams in.
+const reportText = ({ faultSummary, possibleCauses = [], riskAssessment = {}, troubleshootingSteps = [], recommendedFixes = [] }: PartialDiagnosticReport): string =>
+  [
+    faultSummary,
+    ...possibleCauses,
+    riskAssessment.summary,
+    ...(riskAssessment.potentialConsequences ?? []),
+    ...(riskAssessment.mitigationSteps ?? []),
+    ...troubleshootingSteps.flatMap(step => [step.action, step.details]),
+    ...recommendedFixes.flatMap(fix => [fix.fix, fix.details]),
+  ].filter(Boolean).join('\n');
+
+const hazardsIn = (report: PartialDiagnosticReport): HazardType[] => {
+  const text = reportText(report);
+  return (Object.keys(hazardDefinitions) as HazardType[]).filter(hazard => hazardDefinitions[hazard].pattern.test(text));
+};
+
+/**
+ * The hazards of a freshly written report, in the order of `hazardDefinitions`:
+ * those the model classified, plus any its text mentions. The keywords are
+ * English, so run this on the report as generated, never on a translation;
+ * later use the hazards saved on the case (see hazardsOf).
+ */
+export const detectHazards = (report: DiagnosticReport): HazardType[] => {
+  const mentioned = hazardsIn(report);
+  const classified = report.riskAssessment.hazards ?? [];
+  return (Object.keys(hazardDefinitions) as HazardType[]).filter(hazard => classified.includes(hazard) || mentioned.includes(hazard));
+};
+
+/** The hazards saved on a case; cases from before they were saved are checked now. */
+export const hazardsOf = (entry: HistoryEntry): HazardType[] => entry.hazards ?? detectHazards(entry.report);
+
+/** The case's hazards once `report` replaces its report. None are dropped, so a refinement cannot quietly unlock the steps. */
+export const mergeHazards = (entry: HistoryEntry, report: DiagnosticReport): HazardType[] => {
+  const found = [...hazardsOf(entry), ...detectHazards(report)];
+  return (Object.keys(hazardDefinitions) as HazardType[]).filter(hazard => found.includes(hazard));
+};
+
+/** Critical reports are locked behind the safety checklist whatever hazards they mention. */
+export const requiresInterlock = (report: DiagnosticReport): boolean => report.riskAssessment.severity === 'Critical';
+
+/**
+ * Whether a report that is still streaming in may turn out to need the
+ * checklist. Its steps stay hidden until the finished report says otherwise.
+ */
+export const mayRequireInterlock = (report: PartialDiagnosticReport): boolean =>
+  report.riskAssessment?.severity === 'Critical' || (report.riskAssessment?.hazards ?? []).length > 0 || hazardsIn(report).length > 0;
+
+/** Who to call for these hazards, without repeats. */
+export const escalationContacts = (hazards: HazardType[], t: Translate): string[] =>
+  hazards.length > 0
+    ? [...new Set(hazards.map(hazard => t(hazardDefinitions[hazard].professional)))]
+    : [t('safety.anyProfessional')];
+
+/** The lockout/tagout and PPE items to confirm, general ones first. */
+export const interlockChecklist = (hazards: HazardType[], t: Translate): string[] => [
+  t('safety.checklist.qualified'),
+  ...hazards.flatMap(hazard => hazardDefinitions[hazard].lockout.map(key => t(key))),
+  t('safety.checklist.storedEnergy'),
+  ...hazards.flatMap(hazard => hazardDefinitions[hazard].ppe.map(key => t(key))),
+  t('safety.checklist.ppe'),
+];
+
+/** Whether the steps are still locked: a Critical report with no acknowledgement, or one covering fewer hazards than the report now mentions. */
+export const needsSafetyAcknowledgement = (entry: HistoryEntry): boolean => {
+  if (!requiresInterlock(entry.report)) return false;
+  const acknowledged = entry.safetyAcknowledgement?.hazards;
+  return !acknowledged || hazardsOf(entry).some(hazard => !acknowledged.includes(hazard));
+};
@@ -0,0 +1,78 @@
+import { AlertSettings, CostSettings, FiredAlert, Language, ProviderSettings } from '../types';
+import { defaultProviderSettings } from './providers';
+import { browserLanguage, isLanguage } from './i18n';
+
+const PROVIDER_SETTINGS_KEY = 'omnidiag.providerSettings';
+const SPEECH_LANGUAGE_KEY = 'omnidiag.speechLanguage';
+const ALERT_SETTINGS_KEY = 'omnidiag.alertSettings';
+const ALERT_LOG_KEY = 'omnidiag.alertLog';
+const COST_SETTINGS_KEY = 'omnidiag.costSettings';
+const UI_LANGUAGE_KEY = 'omnidiag.uiLanguage';
+const REPORT_LANGUAGE_KEY = 'omnidiag.reportLanguage';
+
+// Older alerts are dropped so the log can't outgrow localStorage.
+const MAX_ALERT_LOG_ENTRIES = 200;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (err) {
+    console.error(`Failed to read ${key} from localStorage:`, err);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Failed to write ${key} to localStorage:`, err);
+  }
+};
+
+export const loadProviderSettings = (): ProviderSettings => ({
+  ...defaultProviderSettings,
+  ...readJson<Partial<ProviderSettings>>(PROVIDER_SETTINGS_KEY, {}),
+});
+
+export const saveProviderSettings = (settings: ProviderSettings) => writeJson(PROVIDER_SETTINGS_KEY, settings);
+
+export const loadSpeechLanguage = (): string => readJson(SPEECH_LANGUAGE_KEY, navigator.language || 'en-US');
+
+export const saveSpeechLanguage = (language: string) => writeJson(SPEECH_LANGUAGE_KEY, language);
+
+export const loadAlertSettings = (): AlertSettings => ({
+  rules: [],
+  webhookUrl: '',
+  ...readJson<Partial<AlertSettings>>(ALERT_SETTINGS_KEY, {}),
+});
+
+export const saveAlertSettings = (settings: AlertSettings) => writeJson(ALERT_SETTINGS_KEY, settings);
+
+/** Fired alerts, newest first. */
+export const loadAlertLog = (): FiredAlert[] =>
+  readJson<FiredAlert[]>(ALERT_LOG_KEY, []).map(alert => ({ ...alert, firedAt: new Date(alert.firedAt) }));
+
+export const saveAlertLog = (log: FiredAlert[]) => writeJson(ALERT_LOG_KEY, log.slice(0, MAX_ALERT_LOG_ENTRIES));
+
+export const loadCostSettings = (): CostSettings => ({
+  laborRate: 0,
+  currency: 'USD',
+  ...readJson<Partial<CostSettings>>(COST_SETTINGS_KEY, {}),
+});
+
+export const saveCostSettings = (settings: CostSettings) => writeJson(COST_SETTINGS_KEY, settings);
+
+const readLanguage = (key: string): Language => {
+  const stored = readJson<unknown>(key, null);
+  return isLanguage(stored) ? stored : browserLanguage();
+};
+
+export const loadUiLanguage = (): Language => readLanguage(UI_LANGUAGE_KEY);
+
+export const saveUiLanguage = (language: Language) => writeJson(UI_LANGUAGE_KEY, language);
+
+export const loadReportLanguage = (): Language => readLanguage(REPORT_LANGUAGE_KEY);
+
+export const saveReportLanguage = (language: Language) => writeJson(REPORT_LANGUAGE_KEY, language);
@@ -0,0 +1,19 @@
+import { RiskAssessment } from '../types';
+
+export type Severity = RiskAssessment['severity'];
+
+export const severityLevels: Record<Severity, number> = {
+  'Low': 1,
+  'Medium': 2,
+  'High': 3,
+  'Critical': 4,
+};
+
+export type SeverityTrend = 'improving' | 'worsening' | 'stable';
+
+/** Compares the latest severity with the one before it. Expects severities oldest first. */
+export const severityTrend = (severities: Severity[]): SeverityTrend | null => {
+  if (severities.length < 2) return null;
+  const delta = severityLevels[severities[severities.length - 1]] - severityLevels[severities[severities.length - 2]];
+  return delta < 0 ? 'improving' : delta > 0 ? 'worsening' : 'stable';
+};
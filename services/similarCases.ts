@@ -0,0 +1,121 @@
+import { HistoryEntry } from '../types';
+import { CaseIndexRecord } from './caseIndexStore';
+import { DiagnosticProvider } from './providers';
+
+export interface SimilarCase {
+  entry: HistoryEntry;
+  /** Combined similarity from 0 to 1. */
+  score: number;
+}
+
+export interface SimilarityQuery {
+  tokens: string[];
+  embedding?: number[];
+  embeddingKey?: string;
+}
+
+// Matches weaker than this share little more than common trade vocabulary.
+const MIN_SIMILARITY = 0.2;
+
+// How much the embedding similarity counts against the keyword overlap when both are available.
+const EMBEDDING_WEIGHT = 0.6;
+
+const stopWords = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'with', 'this', 'that', 'from', 'have', 'has', 'was', 'were', 'will',
+  'its', 'into', 'when', 'then', 'than', 'there', 'which', 'while', 'been', 'being', 'can', 'could', 'may', 'might',
+  'should', 'would', 'also', 'any', 'all', 'some', 'our', 'your', 'their', 'they', 'them', 'out', 'off', 'one',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 2 && !stopWords.has(word))
+    // A crude stem so "leaks" finds "leak" and "bearings" finds "bearing".
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+/** The text of a case that similarity search looks at: its symptoms and what was found. */
+export const caseDocument = (entry: HistoryEntry): string =>
+  [entry.report.faultSummary, ...entry.report.possibleCauses, entry.userInput.text, entry.userInput.audio].filter(Boolean).join('\n');
+
+const hashText = (text: string): string => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return `${text.length}:${hash}`;
+};
+
+/** Changes whenever the indexed text of the case does. */
+export const caseFingerprint = (entry: HistoryEntry): string => hashText(caseDocument(entry));
+
+/** Whether `record` is missing, stale, or lacks an embedding in the current space. */
+export const needsIndexing = (entry: HistoryEntry, record: CaseIndexRecord | undefined, embeddingKey: string): boolean =>
+  !record || record.sourceHash !== caseFingerprint(entry) || record.embeddingKey !== embeddingKey;
+
+/**
+ * Builds index records for `entries`. Keyword tokens are always produced;
+ * embeddings are added when the provider can be reached, and left out
+ * otherwise so search still works offline.
+ */
+export const indexCases = async (provider: DiagnosticProvider, embeddingKey: string, entries: HistoryEntry[]): Promise<CaseIndexRecord[]> => {
+  const documents = entries.map(caseDocument);
+  let embeddings: number[][] = [];
+  try {
+    embeddings = await provider.embedTexts(documents);
+  } catch (err) {
+    console.error("Failed to embed cases for similarity search:", err);
+  }
+  return entries.map((entry, i) => ({
+    id: entry.id,
+    sourceHash: hashText(documents[i]),
+    tokens: tokenize(documents[i]),
+    ...(embeddings[i] ? { embedding: embeddings[i], embeddingKey } : {}),
+  }));
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Ranks past cases against a query by keyword overlap, weighted so rare terms
+ * count for more, blended with embedding similarity where both sides have
+ * vectors from the same model.
+ */
+export const findSimilarCases = (
+  query: SimilarityQuery,
+  history: HistoryEntry[],
+  index: Map<string, CaseIndexRecord>,
+  { excludeId, limit = 5 }: { excludeId?: string; limit?: number } = {}
+): SimilarCase[] => {
+  const candidates = history.filter(entry => entry.id !== excludeId && index.has(entry.id));
+  const queryTerms = [...new Set(query.tokens)];
+  if (candidates.length === 0 || queryTerms.length === 0) return [];
+
+  const documentFrequency = new Map<string, number>();
+  for (const entry of candidates) {
+    for (const term of new Set(index.get(entry.id)!.tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = (term: string) => Math.log(1 + candidates.length / (1 + (documentFrequency.get(term) ?? 0)));
+  const queryWeight = queryTerms.reduce((sum, term) => sum + idf(term), 0);
+
+  return candidates
+    .map(entry => {
+      const record = index.get(entry.id)!;
+      const terms = new Set(record.tokens);
+      const keywordScore = queryTerms.reduce((sum, term) => sum + (terms.has(term) ? idf(term) : 0), 0) / queryWeight;
+      const comparable = query.embedding && record.embedding && query.embeddingKey === record.embeddingKey;
+      const score = comparable
+        ? (1 - EMBEDDING_WEIGHT) * keywordScore + EMBEDDING_WEIGHT * Math.max(0, cosineSimilarity(query.embedding!, record.embedding!))
+        : keywordScore;
+      return { entry, score };
+    })
+    .filter(match => match.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
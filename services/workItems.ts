@@ -0,0 +1,38 @@
+import { HistoryEntry, RecommendedFix, WorkItem } from '../types';
+
+/** The work item tracking `fix`, or a fresh open one if nobody has touched it yet. */
+export const workItemFor = (entry: HistoryEntry, fix: RecommendedFix): WorkItem =>
+  entry.workItems?.find(item => item.fix === fix.fix) ?? {
+    fix: fix.fix,
+    priority: fix.priority,
+    assignee: '',
+    status: 'open',
+    notes: '',
+    partsUsed: [],
+    updatedAt: new Date(entry.timestamp),
+  };
+
+export const upsertWorkItem = (entry: HistoryEntry, item: WorkItem): HistoryEntry => ({
+  ...entry,
+  workItems: [...(entry.workItems ?? []).filter(existing => existing.fix !== item.fix), item],
+});
+
+/** Fixes a technician has marked as done on this case. */
+export const completedFixes = (entry: Pick<HistoryEntry, 'workItems'>): WorkItem[] =>
+  (entry.workItems ?? []).filter(item => item.status === 'done');
+
+export interface OutstandingFix {
+  entry: HistoryEntry;
+  item: WorkItem;
+}
+
+/** Urgent fixes across all cases that are still open or in progress, oldest case first. */
+export const outstandingUrgentFixes = (history: HistoryEntry[]): OutstandingFix[] =>
+  history
+    .flatMap(entry =>
+      entry.report.recommendedFixes
+        .filter(fix => fix.priority === 'Urgent')
+        .map(fix => ({ entry, item: workItemFor(entry, fix) }))
+    )
+    .filter(({ item }) => item.status === 'open' || item.status === 'in-progress')
+    .sort((a, b) => new Date(a.entry.timestamp).getTime() - new Date(b.entry.timestamp).getTime());
@@ -1,5 +1,7 @@
 export interface RiskAssessment {
   severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  /** The model's own classification, which unlike the report text is the same in every language. */
+  hazards?: HazardType[];
   summary: string;
   potentialConsequences: string[];
   mitigationSteps: string[];
@@ -15,11 +17,37 @@ export interface RecommendedFix {
   fix: string;
   priority: 'Recommended' | 'Optional' | 'Urgent';
   details: string;
+  /** The model's estimate of hands-on labor, in hours. */
+  laborHours?: number;
+}
+
+/** Links a possible cause to the submitted images that support it. */
+export interface CauseEvidence {
+  /** Zero-based index into `possibleCauses`. */
+  causeIndex: number;
+  /** One-based image numbers, matching the "Image N" labels sent to the model. */
+  images: number[];
+}
+
+/** A rectangle on an image as [ymin, xmin, ymax, xmax], each scaled from 0 to 1000 of the image's height or width. */
+export type RegionBox = [number, number, number, number];
+
+/** An area of a submitted image where the model located part of the fault. */
+export interface ImageAnnotation {
+  /** One-based image number, matching the "Image N" labels sent to the model. */
+  image: number;
+  /** What the area shows, e.g. "burnt terminal". */
+  label: string;
+  /** Zero-based index into `possibleCauses`, when the area is evidence for one of them. */
+  causeIndex?: number;
+  box: RegionBox;
 }
 
 export interface DiagnosticReport {
   faultSummary: string;
   possibleCauses: string[];
+  causeEvidence?: CauseEvidence[];
+  imageAnnotations?: ImageAnnotation[];
   riskAssessment: RiskAssessment;
   troubleshootingSteps: TroubleshootingStep[];
   recommendedFixes: RecommendedFix[];
@@ -30,13 +58,353 @@ export interface DiagnosticReport {
   };
 }
 
+type DeepPartial<T> = T extends (infer U)[] ? DeepPartial<U>[] : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+/** A report that is still streaming in: any field may be missing, and the last one may be cut short. */
+export type PartialDiagnosticReport = DeepPartial<DiagnosticReport>;
+
+export interface ImageAttachment {
+  mimeType: string;
+  data: string;
+  caption: string;
+  /** Set when the image is a keyframe extracted from an uploaded video clip. */
+  videoTimestamp?: number;
+  /** Areas the user marked before submitting, to point the model at them. */
+  regions?: MarkedRegion[];
+}
+
+export interface MarkedRegion {
+  label: string;
+  box: RegionBox;
+}
+
+export type DataFileKind = 'telemetry' | 'fault-codes' | 'log';
+
+/** A stretch of telemetry where a channel stayed outside one of its limits. */
+export interface ThresholdCrossing {
+  limit: 'low' | 'high';
+  /** Positions on the file's x axis; see `DataFileSummary.xAxis`. */
+  start: number;
+  end: number;
+  readings: number;
+  /** The reading furthest past the limit. */
+  extreme: number;
+}
+
+export type AnomalyKind = 'deviation' | 'rate-of-change' | 'stuck';
+
+/** A run of readings the local anomaly screen flagged in one channel. */
+export interface AnomalyWindow {
+  kind: AnomalyKind;
+  /** Indexes of the first and last flagged readings. */
+  startIndex: number;
+  endIndex: number;
+  /** Positions on the file's x axis, like ThresholdCrossing. */
+  start: number;
+  end: number;
+  /** The flagged reading furthest from normal; for a stuck sensor, the value it is stuck at. */
+  peak: number;
+  /** How strong the evidence is: the largest rolling z-score, the largest change between readings, or the number of repeated readings. */
+  score: number;
+}
+
+/** One numeric column of a telemetry file. */
+export interface TelemetryChannel {
+  name: string;
+  min: number;
+  max: number;
+  mean: number;
+  /** Limits the user set when uploading; readings beyond them are listed in `crossings`. */
+  low?: number;
+  high?: number;
+  /** The largest expected change from one reading to the next, if the user set one. */
+  maxStep?: number;
+  crossings: ThresholdCrossing[];
+  /** Windows the local anomaly screen flagged. Absent on cases summarized before it existed. */
+  anomalies?: AnomalyWindow[];
+  /** The readings thinned out for charting, as [x, value]. */
+  points: [number, number][];
+}
+
+export interface FaultCodeOccurrence {
+  code: string;
+  /** From the local code table; absent for codes it doesn't know. */
+  description?: string;
+  count: number;
+}
+
+/** What was read from an uploaded data file on this device. Only this summary is kept and sent for diagnosis, not the file. */
+export interface DataFileSummary {
+  fileName: string;
+  kind: DataFileKind;
+  /** Telemetry rows or log lines. */
+  recordCount: number;
+  /** What x is in channel points and crossings: a timestamp in milliseconds, the value of a numeric time column, or the row number. */
+  xAxis: 'timestamp' | 'elapsed' | 'row';
+  /** The first and last timestamps in the file, as written there. */
+  period?: { start: string; end: string };
+  channels: TelemetryChannel[];
+  codes: FaultCodeOccurrence[];
+  /** Log lines at error and warning level. */
+  errorLines: number;
+  warningLines: number;
+  /** The most repeated error and warning messages, with timestamps and numbers masked. */
+  topMessages: { text: string; count: number }[];
+}
+
+export interface AudioAttachment {
+  mimeType: string;
+  data: string;
+  durationSeconds: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export type ReportAudience = 'technician' | 'manager' | 'customer';
+
+/** Generated for the manager view: what the fault means for operations. */
+export interface ManagerBrief {
+  /** Expected time the equipment is out of service, e.g. "Half a day". */
+  downtimeEstimate: string;
+  downtimeHours: number;
+  businessImpact: string;
+  recommendation: string;
+}
+
+/** Generated for the customer view: the report in plain language, with nothing internal. */
+export interface CustomerSummary {
+  headline: string;
+  whatWeFound: string;
+  whatWeWillDo: string[];
+  isItSafe: string;
+  whatHappensNext: string;
+}
+
+/** Languages the interface and reports are available in. */
+export type Language = 'en' | 'es' | 'fr' | 'pt';
+
+export type EquipmentDomain = 'hvac' | 'electrical' | 'mechanical' | 'automotive' | 'plumbing' | 'other';
+
+export interface EquipmentProfile {
+  domain: EquipmentDomain;
+  manufacturer: string;
+  model: string;
+  serialNumber: string;
+  ageYears?: number;
+  operatingHours?: number;
+  /** Where the equipment runs, e.g. "rooftop, coastal", "damp basement". */
+  environment: string;
+  /** Answers to the domain template's extra fields, keyed by field id. */
+  domainFields: Record<string, string>;
+}
+
+/** A physical machine or installation that is serviced repeatedly. */
+export interface Asset {
+  id: string;
+  name: string;
+  location: string;
+  createdAt: Date;
+  equipmentProfile?: EquipmentProfile;
+}
+
+export type StepOutcomeStatus = 'pass' | 'fail' | 'measured';
+
+export interface StepOutcome {
+  /** The `step` number of the TroubleshootingStep this outcome is for. */
+  step: number;
+  status: StepOutcomeStatus;
+  /** The reading taken, e.g. "3.2 µF" or "118 psi". */
+  measurement?: string;
+  notes: string;
+  photo?: ImageAttachment;
+  recordedAt: Date;
+}
+
+export interface WalkthroughState {
+  /** Index into `report.troubleshootingSteps` of the step being worked on. */
+  currentStep: number;
+  outcomes: StepOutcome[];
+  /** How many times the report has been refined from walkthrough evidence. */
+  refinements: number;
+}
+
+export type WorkItemStatus = 'open' | 'in-progress' | 'done' | 'deferred';
+
+export interface PartUsed {
+  name: string;
+  quantity: number;
+}
+
+/** Tracks what was actually done about one of a report's recommended fixes. */
+export interface WorkItem {
+  /** The `fix` text of the RecommendedFix this tracks. Fixes are matched by text so items survive report refinement. */
+  fix: string;
+  priority: RecommendedFix['priority'];
+  assignee: string;
+  status: WorkItemStatus;
+  notes: string;
+  laborHours?: number;
+  partsUsed: PartUsed[];
+  updatedAt: Date;
+}
+
+/** A case submitted without connectivity, held on the device until it can be diagnosed. */
+export interface QueuedCase {
+  id: string;
+  queuedAt: Date;
+  text: string;
+  images: ImageAttachment[];
+  audioTranscript: string;
+  audioClip?: AudioAttachment;
+  dataFiles?: DataFileSummary[];
+  equipmentProfile?: EquipmentProfile;
+  assetId?: string;
+  reportLanguage?: Language;
+  /** Failed attempts to send it so far that count against it; absent until the first failure. */
+  attempts?: number;
+  /** Set once it has failed too often; it then waits in the queue until retried or discarded. */
+  failed?: boolean;
+  lastError?: string;
+}
+
+/** One row of the local parts catalogue. */
+export interface CatalogueItem {
+  sku: string;
+  description: string;
+  price: number;
+  stock: number;
+}
+
+export type CatalogueItemKind = 'part' | 'tool';
+
+/** The user's confirmed catalogue item for one of a report's suggested parts or tools. */
+export interface CatalogueMatch {
+  kind: CatalogueItemKind;
+  /** The suggestion from `toolsAndParts`. Matched by text, like WorkItem.fix. */
+  suggestion: string;
+  /** Null when the user confirmed the catalogue has nothing suitable. */
+  sku: string | null;
+  quantity: number;
+}
+
+export interface CostSettings {
+  /** Per hour, in `currency`. */
+  laborRate: number;
+  /** ISO 4217 code, e.g. "USD". */
+  currency: string;
+}
+
+/** How far the runs of a consensus diagnosis agreed with the merged report. */
+export interface ConsensusSummary {
+  /** The model behind each run that returned a report. */
+  models: string[];
+  /** Share of runs (0–1) that named each of the merged report's causes. */
+  causes: { cause: string; confidence: number }[];
+  fixes: { fix: string; confidence: number }[];
+  /** How many runs gave each severity. More than one key means the runs disagreed. */
+  severityVotes: Partial<Record<RiskAssessment['severity'], number>>;
+}
+
+export type HazardType = 'mains-voltage' | 'gas' | 'refrigerant' | 'pressure' | 'confined-space';
+
+/** The user's sign-off on the lockout/tagout and PPE checklist before seeing a hazardous case's steps. */
+export interface SafetyAcknowledgement {
+  acknowledgedAt: Date;
+  /** The hazards the checklist covered; a refined report that adds new ones needs a fresh acknowledgement. */
+  hazards: HazardType[];
+  /** The checklist items confirmed, as worded at the time. */
+  checklist: string[];
+}
+
 export interface HistoryEntry {
   id: string;
   timestamp: Date;
   report: DiagnosticReport;
   userInput: {
     text: string;
-    image: boolean;
+    images: ImageAttachment[];
+    /** Transcript of the voice note. */
     audio: string;
+    audioClip?: AudioAttachment;
+    dataFiles?: DataFileSummary[];
   };
+  equipmentProfile?: EquipmentProfile;
+  assetId?: string;
+  walkthrough?: WalkthroughState;
+  workItems?: WorkItem[];
+  /**
+   * The hazards found when the report was written, before any translation.
+   * Refinements add to them; absent on cases saved before they were recorded.
+   */
+  hazards?: HazardType[];
+  safetyAcknowledgement?: SafetyAcknowledgement;
+  catalogueMatches?: CatalogueMatch[];
+  /** Set when the report was merged from several runs; cleared when it is refined. */
+  consensus?: ConsensusSummary;
+  /** The language the report's text is written in; English when absent. */
+  reportLanguage?: Language;
+  /** Written on demand for the manager and customer views; cleared when the report changes. */
+  audienceBriefs?: { manager?: ManagerBrief; customer?: CustomerSummary };
+  chatHistory: ChatMessage[];
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Fires at this severity or above; 'Low' matches every case. */
+  minSeverity: RiskAssessment['severity'];
+  /** The case must be in one of these domains; empty means any. */
+  domains: EquipmentDomain[];
+  /** The case must be linked to one of these assets; empty means any. */
+  assetIds: string[];
+  /** The report or input must mention at least one of these phrases; empty means no keyword condition. */
+  keywords: string[];
+  notifyDesktop: boolean;
+  playSound: boolean;
+  sendWebhook: boolean;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  /** Receives a JSON POST for every rule with `sendWebhook` set. */
+  webhookUrl: string;
+}
+
+export type AlertDeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+/** A record of one rule firing on one case. */
+export interface FiredAlert {
+  id: string;
+  firedAt: Date;
+  ruleId: string;
+  ruleName: string;
+  entryId: string;
+  faultSummary: string;
+  severity: RiskAssessment['severity'];
+  desktop: AlertDeliveryStatus;
+  sound: AlertDeliveryStatus;
+  webhook: AlertDeliveryStatus;
+  webhookError?: string;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  /** Only used by the OpenAI-compatible provider. */
+  baseUrl: string;
+  apiKey: string;
+  /** Only used with the OmniDiag server; identifies the user to it. */
+  accessToken: string;
+  transcriptionModel: string;
+  embeddingModel: string;
+  /** Diagnoses per case in consensus mode; 1 turns consensus off. */
+  consensusRuns: number;
+  /** Models the consensus runs rotate through; empty runs `model` every time. */
+  consensusModels: string[];
 }
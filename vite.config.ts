@@ -1,19 +1,51 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const manifestScript = (version: string, assets: string[]) =>
+  `self.PRECACHE_MANIFEST = ${JSON.stringify({ version, assets })};\n`;
+
+/**
+ * Writes precache-manifest.js, which public/sw.js imports: the built files to
+ * cache on install, and a version taken from their contents so each deploy
+ * gets a fresh cache.
+ */
+const precacheManifest = (): Plugin => ({
+  name: 'omnidiag-precache-manifest',
+  // After Vite's own plugins, so index.html is in the bundle.
+  enforce: 'post',
+  configureServer(server) {
+    // The dev server builds nothing ahead of time, so there is nothing to precache.
+    server.middlewares.use('/precache-manifest.js', (_req, res) => {
+      res.setHeader('Content-Type', 'text/javascript');
+      res.end(manifestScript('dev', []));
+    });
+  },
+  generateBundle(_options, bundle) {
+    const files = Object.values(bundle).filter(file => !file.fileName.endsWith('.map'));
+    const hash = createHash('sha256');
+    for (const file of files) hash.update(file.fileName).update(file.type === 'chunk' ? file.code : file.source);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: manifestScript(hash.digest('hex').slice(0, 12), files.map(file => `/${file.fileName}`).sort()),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The model API key lives in the OmniDiag server (npm run server), never in the bundle.
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),